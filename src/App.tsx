@@ -13,6 +13,8 @@ import Assignments from "./pages/Assignments";
 import Grading from "./pages/Grading";
 import Profile from "./pages/Profile";
 import Payments from "./pages/Payments";
+import Admin from "./pages/Admin";
+import Join from "./pages/Join";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -34,6 +36,8 @@ const App = () => (
             <Route path="/grading" element={<Grading />} />
             <Route path="/payments" element={<Payments />} />
             <Route path="/profile" element={<Profile />} />
+            <Route path="/admin" element={<Admin />} />
+            <Route path="/join/:code" element={<Join />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
@@ -1,4 +1,6 @@
 import { useAuth } from '@/hooks/useAuth'
+import { useSubjectStaff } from '@/hooks/useSubjectStaff'
+import { ENROLLMENT_ROLES, GRADING_ROLES } from '@/lib/subject-staff'
 import { Button } from '@/components/ui/button'
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
 import {
@@ -11,10 +13,11 @@ import {
 } from '@/components/ui/dropdown-menu'
 import { Badge } from '@/components/ui/badge'
 import { useNavigate, useLocation } from 'react-router-dom'
-import { Home, BookOpen, FileText, Users, ClipboardList, GraduationCap, User, LogOut } from 'lucide-react'
+import { Home, BookOpen, FileText, Users, ClipboardList, GraduationCap, User, LogOut, Shield } from 'lucide-react'
 
 const Header = () => {
-  const { user, profile, signOut } = useAuth()
+  const { user, profile, institution, signOut } = useAuth()
+  const { hasStaffRole } = useSubjectStaff()
   const navigate = useNavigate()
   const location = useLocation()
 
@@ -37,6 +40,7 @@ const Header = () => {
   }
 
   const getRoleBadgeVariant = (role: string) => {
+    if (role === 'admin') return 'destructive'
     return role === 'professor' ? 'default' : 'secondary'
   }
 
@@ -44,9 +48,14 @@ const Header = () => {
     <header className="border-b bg-card">
       <div className="container mx-auto px-4 py-3 flex items-center justify-between">
         <div className="flex items-center space-x-6">
-          <h1 className="text-xl font-bold text-card-foreground cursor-pointer" onClick={() => navigate('/')}>
-            Academic Portal
-          </h1>
+          <div className="cursor-pointer" onClick={() => navigate('/')}>
+            <h1 className="text-xl font-bold text-card-foreground">
+              Academic Portal
+            </h1>
+            {institution && (
+              <p className="text-xs text-muted-foreground">{institution.name}</p>
+            )}
+          </div>
           
           {user && (
             <nav className="hidden md:flex items-center space-x-4">
@@ -77,7 +86,7 @@ const Header = () => {
                 <FileText className="w-4 h-4" />
                 <span>Materials</span>
               </Button>
-              {profile?.role === 'professor' && (
+              {(profile?.role === 'professor' || hasStaffRole(ENROLLMENT_ROLES)) && (
                 <Button
                   variant={location.pathname === '/students' ? 'default' : 'ghost'}
                   size="sm"
@@ -97,7 +106,7 @@ const Header = () => {
                 <ClipboardList className="w-4 h-4" />
                 <span>Assignments</span>
               </Button>
-              {profile?.role === 'professor' && (
+              {(profile?.role === 'professor' || hasStaffRole(GRADING_ROLES)) && (
                 <Button
                   variant={location.pathname === '/grading' ? 'default' : 'ghost'}
                   size="sm"
@@ -108,6 +117,17 @@ const Header = () => {
                   <span>Grading</span>
                 </Button>
               )}
+              {profile?.role === 'admin' && (
+                <Button
+                  variant={location.pathname === '/admin' ? 'default' : 'ghost'}
+                  size="sm"
+                  onClick={() => navigate('/admin')}
+                  className="flex items-center space-x-2"
+                >
+                  <Shield className="w-4 h-4" />
+                  <span>Admin</span>
+                </Button>
+              )}
             </nav>
           )}
         </div>
@@ -0,0 +1,127 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { History } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { Json } from "@/integrations/supabase/types";
+
+interface AuditEntry {
+  id: string;
+  action: string;
+  details: Json;
+  created_at: string;
+  actor: { first_name: string | null; last_name: string | null; email: string } | null;
+  target: { first_name: string | null; last_name: string | null; email: string } | null;
+}
+
+interface AuditLogProps {
+  refreshKey?: number;
+}
+
+const formatPerson = (person: AuditEntry['actor']) => {
+  if (!person) return 'System';
+  if (person.first_name || person.last_name) {
+    return `${person.first_name ?? ''} ${person.last_name ?? ''}`.trim();
+  }
+  return person.email;
+};
+
+const describeEntry = (entry: AuditEntry) => {
+  const details = (entry.details ?? {}) as Record<string, Json>;
+  switch (entry.action) {
+    case 'approve':
+      return `Approved as ${details.role}`;
+    case 'role_change':
+      return `Role changed from ${details.from} to ${details.to}`;
+    case 'deactivate':
+      return 'Account deactivated';
+    case 'reactivate':
+      return 'Account reactivated';
+    default:
+      return entry.action;
+  }
+};
+
+export const AuditLog = ({ refreshKey }: AuditLogProps) => {
+  const { user, institution } = useAuth();
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (user && institution) {
+      fetchEntries();
+    }
+  }, [user, institution, refreshKey]);
+
+  const fetchEntries = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('admin_audit_log')
+        .select(`
+          id,
+          action,
+          details,
+          created_at,
+          actor:profiles!admin_audit_log_actor_id_fkey(first_name, last_name, email),
+          target:profiles!admin_audit_log_target_user_id_fkey(first_name, last_name, email)
+        `)
+        .eq('institution_id', institution?.id)
+        .order('created_at', { ascending: false })
+        .limit(100);
+
+      if (error) throw error;
+      setEntries(data || []);
+    } catch (error) {
+      console.error('Error fetching audit log:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch audit log",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return <div>Loading audit log...</div>;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Audit Trail
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {entries.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">No administrative actions recorded yet</p>
+        ) : (
+          <div className="space-y-3">
+            {entries.map((entry) => (
+              <div key={entry.id} className="flex items-center justify-between p-3 rounded-lg border">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className="text-xs">{entry.action.replace('_', ' ')}</Badge>
+                    <span className="font-medium">{formatPerson(entry.target)}</span>
+                  </div>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    {describeEntry(entry)} by {formatPerson(entry.actor)}
+                  </p>
+                </div>
+                <div className="text-sm text-muted-foreground">
+                  {new Date(entry.created_at).toLocaleString()}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
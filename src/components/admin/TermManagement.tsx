@@ -0,0 +1,233 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Archive, ArchiveRestore, CalendarRange, Plus } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { fetchTerms, formatTermDates, getTermPhase, Term } from "@/lib/terms";
+
+const PHASE_LABELS = {
+  upcoming: 'Upcoming',
+  current: 'Current',
+  finished: 'Finished',
+};
+
+export const TermManagement = () => {
+  const { institution } = useAuth();
+  const { toast } = useToast();
+  const [terms, setTerms] = useState<Term[]>([]);
+  const [formData, setFormData] = useState({ name: '', start_date: '', end_date: '' });
+  const [saving, setSaving] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (institution) {
+      loadTerms();
+    }
+  }, [institution]);
+
+  const loadTerms = async () => {
+    try {
+      setTerms(await fetchTerms());
+    } catch (error) {
+      console.error('Error fetching terms:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch terms",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!institution) return;
+
+    setSaving(true);
+
+    try {
+      const { error } = await supabase
+        .from('terms')
+        .insert({
+          institution_id: institution.id,
+          name: formData.name.trim(),
+          start_date: formData.start_date,
+          end_date: formData.end_date,
+        });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Term created successfully",
+      });
+
+      setFormData({ name: '', start_date: '', end_date: '' });
+      loadTerms();
+    } catch (error) {
+      console.error('Error creating term:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create term. Term names must be unique.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleArchived = async (term: Term) => {
+    setUpdatingId(term.id);
+
+    try {
+      const { error } = await supabase
+        .from('terms')
+        .update({ archived_at: term.archived_at ? null : new Date().toISOString() })
+        .eq('id', term.id);
+
+      if (error) throw new Error(error.message);
+
+      toast({
+        title: "Success",
+        description: term.archived_at
+          ? `${term.name} is editable again`
+          : `${term.name} was archived. Its subjects are now read-only.`,
+      });
+
+      loadTerms();
+    } catch (error) {
+      console.error('Error archiving term:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update term",
+        variant: "destructive",
+      });
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Plus className="h-5 w-5" />
+            New Term
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleCreate} className="grid grid-cols-4 gap-4 items-end">
+            <div>
+              <Label htmlFor="term-name">Name</Label>
+              <Input
+                id="term-name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g., Fall 2025"
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="term-start">Start Date</Label>
+              <Input
+                id="term-start"
+                type="date"
+                value={formData.start_date}
+                onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="term-end">End Date</Label>
+              <Input
+                id="term-end"
+                type="date"
+                value={formData.end_date}
+                min={formData.start_date}
+                onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
+                required
+              />
+            </div>
+            <Button type="submit" disabled={saving}>
+              Create Term
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarRange className="h-5 w-5" />
+            Terms
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {terms.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No terms yet. Subjects without a term are not affected.
+            </div>
+          ) : (
+            <table className="w-full">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2 font-medium text-muted-foreground">Term</th>
+                  <th className="text-left p-2 font-medium text-muted-foreground">Dates</th>
+                  <th className="text-left p-2 font-medium text-muted-foreground">Status</th>
+                  <th className="text-left p-2 font-medium text-muted-foreground">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {terms.map((term) => {
+                  const phase = getTermPhase(term);
+                  return (
+                    <tr key={term.id} className="border-b hover:bg-muted/50">
+                      <td className="p-2 font-medium text-foreground">{term.name}</td>
+                      <td className="p-2 text-muted-foreground">{formatTermDates(term)}</td>
+                      <td className="p-2">
+                        {term.archived_at ? (
+                          <Badge variant="outline" className="text-xs">ARCHIVED</Badge>
+                        ) : (
+                          <Badge variant={phase === 'current' ? "default" : "secondary"} className="text-xs">
+                            {PHASE_LABELS[phase].toUpperCase()}
+                          </Badge>
+                        )}
+                      </td>
+                      <td className="p-2">
+                        {(term.archived_at || phase === 'finished') && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleToggleArchived(term)}
+                            disabled={updatingId === term.id}
+                          >
+                            {term.archived_at ? (
+                              <>
+                                <ArchiveRestore className="h-3 w-3 mr-1" />
+                                Unarchive
+                              </>
+                            ) : (
+                              <>
+                                <Archive className="h-3 w-3 mr-1" />
+                                Archive
+                              </>
+                            )}
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
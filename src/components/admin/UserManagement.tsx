@@ -0,0 +1,293 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { UserCheck, UserX, UserCog, Clock } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+type UserRole = 'professor' | 'student' | 'admin';
+type AccountStatus = 'pending' | 'active' | 'deactivated';
+
+interface ManagedUser {
+  id: string;
+  email: string;
+  first_name: string | null;
+  last_name: string | null;
+  role: UserRole;
+  status: AccountStatus;
+  requested_role: UserRole | null;
+  created_at: string | null;
+}
+
+interface UserManagementProps {
+  onChange?: () => void;
+}
+
+const getStatusVariant = (status: AccountStatus) => {
+  switch (status) {
+    case 'active':
+      return 'default';
+    case 'pending':
+      return 'secondary';
+    default:
+      return 'destructive';
+  }
+};
+
+export const UserManagement = ({ onChange }: UserManagementProps) => {
+  const { user, institution } = useAuth();
+  const { toast } = useToast();
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState("");
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (user && institution) {
+      fetchUsers();
+    }
+  }, [user, institution]);
+
+  const fetchUsers = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, email, first_name, last_name, role, status, requested_role, created_at')
+        .eq('institution_id', institution?.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setUsers(data || []);
+    } catch (error) {
+      console.error('Error fetching users:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch users",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateUser = async (
+    target: ManagedUser,
+    changes: { role?: UserRole; status?: AccountStatus; requested_role?: null; approved_by?: string; approved_at?: string },
+    successMessage: string
+  ) => {
+    setUpdatingId(target.id);
+    try {
+      const { error } = await supabase
+        .from('profiles')
+        .update(changes)
+        .eq('id', target.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: successMessage,
+      });
+
+      fetchUsers();
+      onChange?.();
+    } catch (error) {
+      console.error('Error updating user:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update user",
+        variant: "destructive",
+      });
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleApprove = (target: ManagedUser) =>
+    updateUser(
+      target,
+      {
+        role: target.requested_role ?? target.role,
+        status: 'active',
+        requested_role: null,
+        approved_by: user?.id,
+        approved_at: new Date().toISOString(),
+      },
+      `${getDisplayName(target)} has been approved`
+    );
+
+  const handleRoleChange = (target: ManagedUser, role: UserRole) =>
+    updateUser(target, { role }, `${getDisplayName(target)} is now a ${role}`);
+
+  const handleToggleActive = (target: ManagedUser) =>
+    target.status === 'deactivated'
+      ? updateUser(target, { status: 'active' }, `${getDisplayName(target)} has been reactivated`)
+      : updateUser(target, { status: 'deactivated' }, `${getDisplayName(target)} has been deactivated`);
+
+  const getDisplayName = (target: ManagedUser) =>
+    target.first_name || target.last_name
+      ? `${target.first_name ?? ''} ${target.last_name ?? ''}`.trim()
+      : target.email;
+
+  const pendingUsers = users.filter(u => u.status === 'pending');
+  const filteredUsers = users.filter(u =>
+    `${u.first_name ?? ''} ${u.last_name ?? ''} ${u.email}`.toLowerCase().includes(search.toLowerCase())
+  );
+
+  if (loading) {
+    return <div>Loading users...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Pending approvals */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Clock className="h-5 w-5" />
+            Pending Approvals
+            <Badge variant="secondary">{pendingUsers.length}</Badge>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {pendingUsers.length === 0 ? (
+            <p className="text-muted-foreground text-center py-4">No accounts waiting for approval</p>
+          ) : (
+            <div className="space-y-3">
+              {pendingUsers.map((pending) => (
+                <div key={pending.id} className="flex items-center justify-between p-4 rounded-lg border">
+                  <div>
+                    <p className="font-medium">{getDisplayName(pending)}</p>
+                    <p className="text-sm text-muted-foreground">{pending.email}</p>
+                    <p className="text-sm text-muted-foreground">
+                      Requested role: <span className="font-medium">{pending.requested_role ?? pending.role}</span>
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      onClick={() => handleApprove(pending)}
+                      disabled={updatingId === pending.id}
+                    >
+                      <UserCheck className="h-4 w-4 mr-2" />
+                      Approve
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleToggleActive(pending)}
+                      disabled={updatingId === pending.id}
+                    >
+                      <UserX className="h-4 w-4 mr-2" />
+                      Reject
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* All users */}
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <CardTitle className="flex items-center gap-2">
+              <UserCog className="h-5 w-5" />
+              Users
+            </CardTitle>
+            <Input
+              className="w-[300px]"
+              placeholder="Search by name or email"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2 font-medium text-muted-foreground">User</th>
+                  <th className="text-left p-2 font-medium text-muted-foreground">Role</th>
+                  <th className="text-left p-2 font-medium text-muted-foreground">Status</th>
+                  <th className="text-left p-2 font-medium text-muted-foreground">Joined</th>
+                  <th className="text-left p-2 font-medium text-muted-foreground">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredUsers.map((managed) => {
+                  const isSelf = managed.id === user?.id;
+                  return (
+                    <tr key={managed.id} className="border-b hover:bg-muted/50">
+                      <td className="p-2">
+                        <div className="font-medium text-foreground">{getDisplayName(managed)}</div>
+                        <div className="text-sm text-muted-foreground">{managed.email}</div>
+                      </td>
+                      <td className="p-2">
+                        <Select
+                          value={managed.role}
+                          onValueChange={(value) => handleRoleChange(managed, value as UserRole)}
+                          disabled={isSelf || updatingId === managed.id}
+                        >
+                          <SelectTrigger className="w-[140px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="student">Student</SelectItem>
+                            <SelectItem value="professor">Professor</SelectItem>
+                            <SelectItem value="admin">Admin</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </td>
+                      <td className="p-2">
+                        <Badge variant={getStatusVariant(managed.status)} className="text-xs">
+                          {managed.status.toUpperCase()}
+                        </Badge>
+                      </td>
+                      <td className="p-2 text-muted-foreground">
+                        {managed.created_at ? new Date(managed.created_at).toLocaleDateString() : '-'}
+                      </td>
+                      <td className="p-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleToggleActive(managed)}
+                          disabled={isSelf || updatingId === managed.id}
+                        >
+                          {managed.status === 'deactivated' ? (
+                            <>
+                              <UserCheck className="h-3 w-3 mr-1" />
+                              Reactivate
+                            </>
+                          ) : (
+                            <>
+                              <UserX className="h-3 w-3 mr-1" />
+                              Deactivate
+                            </>
+                          )}
+                        </Button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+
+            {filteredUsers.length === 0 && (
+              <div className="text-center py-8 text-muted-foreground">
+                No users found.
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
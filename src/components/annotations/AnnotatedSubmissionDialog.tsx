@@ -0,0 +1,26 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { SubmissionAnnotator } from "./SubmissionAnnotator";
+
+interface AnnotatedSubmissionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  submission: { id: string; title: string; file_path: string; file_name: string } | null;
+}
+
+export const AnnotatedSubmissionDialog = ({ open, onOpenChange, submission }: AnnotatedSubmissionDialogProps) => {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>{submission?.title}</DialogTitle>
+          <DialogDescription>
+            {submission?.file_name} with your grader's highlights, comments and markings
+          </DialogDescription>
+        </DialogHeader>
+        {submission && (
+          <SubmissionAnnotator submissionId={submission.id} filePath={submission.file_path} />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
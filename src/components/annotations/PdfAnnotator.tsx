@@ -0,0 +1,387 @@
+import { useState, useEffect, useRef, PointerEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Eraser, Highlighter, MessageSquare, MousePointer, Pencil } from "lucide-react";
+import { loadPdfDocument, PDFDocumentProxy } from "@/lib/pdf";
+import {
+  ANNOTATION_COLORS,
+  AnnotationKind,
+  CommentGeometry,
+  DrawingGeometry,
+  getCommentNumbers,
+  HighlightGeometry,
+  NewAnnotation,
+  SubmissionAnnotation,
+} from "@/lib/annotations";
+
+type Tool = 'select' | AnnotationKind | 'erase';
+
+const TOOLS: { tool: Tool; label: string; icon: typeof Pencil }[] = [
+  { tool: 'select', label: 'Select', icon: MousePointer },
+  { tool: 'highlight', label: 'Highlight', icon: Highlighter },
+  { tool: 'comment', label: 'Comment', icon: MessageSquare },
+  { tool: 'drawing', label: 'Draw', icon: Pencil },
+  { tool: 'erase', label: 'Erase', icon: Eraser },
+];
+
+// Highlights smaller than this (as a fraction of the page) are treated as stray clicks
+const MIN_HIGHLIGHT_SIZE = 0.005;
+
+interface PdfAnnotatorProps {
+  url: string;
+  annotations: SubmissionAnnotation[];
+  editable?: boolean;
+  onCreate?: (annotation: NewAnnotation) => Promise<void>;
+  onDelete?: (annotation: SubmissionAnnotation) => Promise<void>;
+  className?: string;
+}
+
+// Renders every page of a PDF with the submission's annotations drawn on top. Geometry is kept
+// relative to the page, so the overlay lines up regardless of how wide the viewer is.
+export const PdfAnnotator = ({ url, annotations, editable = false, onCreate, onDelete, className = "h-[70vh]" }: PdfAnnotatorProps) => {
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [tool, setTool] = useState<Tool>('select');
+  const [color, setColor] = useState(ANNOTATION_COLORS[0]);
+  const [pendingComment, setPendingComment] = useState<{ page: number; x: number; y: number } | null>(null);
+  const [commentText, setCommentText] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: PDFDocumentProxy | null = null;
+    setPdf(null);
+    setError(null);
+
+    loadPdfDocument(url)
+      .then(document => {
+        loaded = document;
+        if (cancelled) {
+          document.destroy();
+        } else {
+          setPdf(document);
+        }
+      })
+      .catch(error => {
+        console.error('Error loading PDF:', error);
+        if (!cancelled) setError('The PDF could not be loaded.');
+      });
+
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+  }, [url]);
+
+  const commentNumbers = getCommentNumbers(annotations);
+  const comments = annotations.filter(annotation => annotation.comment);
+
+  const handleCreate = async (annotation: Omit<NewAnnotation, 'color' | 'comment'> & { comment?: string }) => {
+    if (!onCreate) return;
+    setSaving(true);
+    try {
+      await onCreate({ ...annotation, comment: annotation.comment ?? null, color });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddComment = async () => {
+    if (!pendingComment || !commentText.trim()) return;
+    await handleCreate({
+      page: pendingComment.page,
+      kind: 'comment',
+      geometry: { x: pendingComment.x, y: pendingComment.y },
+      comment: commentText.trim(),
+    });
+    setPendingComment(null);
+    setCommentText("");
+  };
+
+  const handleErase = (annotation: SubmissionAnnotation) => {
+    if (tool === 'erase' && onDelete) onDelete(annotation);
+  };
+
+  if (error) {
+    return (
+      <div className={`flex items-center justify-center rounded-md border text-muted-foreground ${className}`}>
+        {error}
+      </div>
+    );
+  }
+
+  return (
+    <div className={`flex flex-col rounded-md border ${className}`}>
+      {editable && (
+        <div className="flex flex-wrap items-center gap-2 border-b p-2">
+          {TOOLS.map(({ tool: option, label, icon: Icon }) => (
+            <Button
+              key={option}
+              variant={tool === option ? "default" : "outline"}
+              size="sm"
+              title={label}
+              onClick={() => setTool(option)}
+            >
+              <Icon className="h-4 w-4" />
+            </Button>
+          ))}
+          <div className="flex items-center gap-1 ml-2">
+            {ANNOTATION_COLORS.map(option => (
+              <button
+                key={option}
+                type="button"
+                title={option}
+                className={`h-6 w-6 rounded-full border-2 ${color === option ? "border-foreground" : "border-transparent"}`}
+                style={{ backgroundColor: option }}
+                onClick={() => setColor(option)}
+              />
+            ))}
+          </div>
+          {saving && <span className="text-xs text-muted-foreground ml-auto">Saving...</span>}
+        </div>
+      )}
+
+      {pendingComment && (
+        <div className="space-y-2 border-b p-2">
+          <p className="text-sm font-medium">Comment on page {pendingComment.page}</p>
+          <Textarea
+            value={commentText}
+            onChange={(e) => setCommentText(e.target.value)}
+            placeholder="Write a comment for the student..."
+            rows={2}
+            autoFocus
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => { setPendingComment(null); setCommentText(""); }}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleAddComment} disabled={saving || !commentText.trim()}>
+              Add Comment
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-auto bg-muted p-4 space-y-4">
+        {!pdf ? (
+          <div className="flex h-full items-center justify-center">Loading PDF...</div>
+        ) : (
+          Array.from({ length: pdf.numPages }, (_, index) => index + 1).map(pageNumber => (
+            <AnnotatedPage
+              key={pageNumber}
+              pdf={pdf}
+              pageNumber={pageNumber}
+              annotations={annotations.filter(annotation => annotation.page === pageNumber)}
+              commentNumbers={commentNumbers}
+              tool={editable ? tool : 'select'}
+              color={color}
+              onCreate={handleCreate}
+              onComment={(x, y) => setPendingComment({ page: pageNumber, x, y })}
+              onErase={handleErase}
+            />
+          ))
+        )}
+
+        {comments.length > 0 && (
+          <div className="rounded-md border bg-background p-3 space-y-2">
+            <p className="text-sm font-medium">Comments</p>
+            {comments.map(annotation => (
+              <div key={annotation.id} className="flex gap-2 text-sm">
+                <span
+                  className="flex h-5 w-5 shrink-0 items-center justify-center rounded-full text-xs font-medium text-black"
+                  style={{ backgroundColor: annotation.color }}
+                >
+                  {commentNumbers[annotation.id]}
+                </span>
+                <p>
+                  <span className="text-muted-foreground">Page {annotation.page}: </span>
+                  {annotation.comment}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+interface AnnotatedPageProps {
+  pdf: PDFDocumentProxy;
+  pageNumber: number;
+  annotations: SubmissionAnnotation[];
+  commentNumbers: Record<string, number>;
+  tool: Tool;
+  color: string;
+  onCreate: (annotation: Omit<NewAnnotation, 'color' | 'comment'>) => void;
+  onComment: (x: number, y: number) => void;
+  onErase: (annotation: SubmissionAnnotation) => void;
+}
+
+const AnnotatedPage = ({ pdf, pageNumber, annotations, commentNumbers, tool, color, onCreate, onComment, onErase }: AnnotatedPageProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [aspectRatio, setAspectRatio] = useState<number | null>(null);
+  const [draft, setDraft] = useState<{ start: [number, number]; points: [number, number][] } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let renderTask: { cancel: () => void } | null = null;
+
+    const render = async () => {
+      const page = await pdf.getPage(pageNumber);
+      const canvas = canvasRef.current;
+      if (cancelled || !canvas) return;
+
+      // Render at the displayed width times the pixel ratio so text stays sharp
+      const baseViewport = page.getViewport({ scale: 1 });
+      const targetWidth = (canvas.parentElement?.clientWidth || baseViewport.width) * (window.devicePixelRatio || 1);
+      const viewport = page.getViewport({ scale: targetWidth / baseViewport.width });
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      setAspectRatio(viewport.width / viewport.height);
+
+      const task = page.render({ canvasContext: canvas.getContext('2d')!, viewport });
+      renderTask = task;
+      await task.promise;
+    };
+
+    render().catch(error => {
+      if (!cancelled) console.error('Error rendering PDF page:', error);
+    });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdf, pageNumber]);
+
+  const toPagePoint = (e: PointerEvent<SVGSVGElement>): [number, number] => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return [
+      Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1),
+      Math.min(Math.max((e.clientY - rect.top) / rect.height, 0), 1),
+    ];
+  };
+
+  const handlePointerDown = (e: PointerEvent<SVGSVGElement>) => {
+    const point = toPagePoint(e);
+    if (tool === 'comment') {
+      onComment(...point);
+    } else if (tool === 'highlight' || tool === 'drawing') {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setDraft({ start: point, points: [point] });
+    }
+  };
+
+  const handlePointerMove = (e: PointerEvent<SVGSVGElement>) => {
+    if (!draft) return;
+    const point = toPagePoint(e);
+    setDraft(tool === 'drawing' ? { ...draft, points: [...draft.points, point] } : { ...draft, points: [point] });
+  };
+
+  const handlePointerUp = () => {
+    if (!draft) return;
+    setDraft(null);
+
+    if (tool === 'highlight') {
+      const highlight = toHighlight(draft.start, draft.points[draft.points.length - 1]);
+      if (highlight.width < MIN_HIGHLIGHT_SIZE || highlight.height < MIN_HIGHLIGHT_SIZE) return;
+      onCreate({ page: pageNumber, kind: 'highlight', geometry: highlight });
+    } else if (tool === 'drawing' && draft.points.length > 1) {
+      onCreate({ page: pageNumber, kind: 'drawing', geometry: { points: draft.points.map(roundPoint) } });
+    }
+  };
+
+  const interactive = tool !== 'select';
+  const erasable = tool === 'erase';
+
+  return (
+    <div className="relative mx-auto bg-white shadow-sm" style={aspectRatio ? { aspectRatio: `${aspectRatio}` } : undefined}>
+      <canvas ref={canvasRef} className="block w-full h-auto" />
+      <svg
+        className={`absolute inset-0 h-full w-full ${interactive && !erasable ? "cursor-crosshair" : ""}`}
+        viewBox="0 0 1 1"
+        preserveAspectRatio="none"
+        style={{ pointerEvents: interactive ? "auto" : "none", touchAction: interactive ? "none" : undefined }}
+        onPointerDown={erasable ? undefined : handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+      >
+        {annotations.map(annotation => {
+          const eraseProps = {
+            onClick: () => onErase(annotation),
+            style: { pointerEvents: erasable ? "auto" as const : "none" as const, cursor: erasable ? "pointer" : undefined },
+          };
+
+          if (annotation.kind === 'highlight') {
+            const { x, y, width, height } = annotation.geometry as HighlightGeometry;
+            return (
+              <rect key={annotation.id} x={x} y={y} width={width} height={height} fill={annotation.color} fillOpacity={0.35} {...eraseProps}>
+                {annotation.comment && <title>{annotation.comment}</title>}
+              </rect>
+            );
+          }
+          if (annotation.kind === 'drawing') {
+            const { points } = annotation.geometry as DrawingGeometry;
+            return (
+              <polyline
+                key={annotation.id}
+                points={points.map(point => point.join(',')).join(' ')}
+                fill="none"
+                stroke={annotation.color}
+                strokeWidth={2}
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                vectorEffect="non-scaling-stroke"
+                {...eraseProps}
+              />
+            );
+          }
+          return null;
+        })}
+
+        {draft && tool === 'highlight' && (() => {
+          const { x, y, width, height } = toHighlight(draft.start, draft.points[draft.points.length - 1]);
+          return <rect x={x} y={y} width={width} height={height} fill={color} fillOpacity={0.35} />;
+        })()}
+        {draft && tool === 'drawing' && (
+          <polyline
+            points={draft.points.map(point => point.join(',')).join(' ')}
+            fill="none"
+            stroke={color}
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+      </svg>
+
+      {/* Comment markers are HTML so they keep their shape while the SVG stretches with the page */}
+      {annotations.filter(annotation => annotation.kind === 'comment').map(annotation => {
+        const { x, y } = annotation.geometry as CommentGeometry;
+        return (
+          <button
+            key={annotation.id}
+            type="button"
+            title={annotation.comment ?? undefined}
+            className="absolute flex h-6 w-6 -translate-x-1/2 -translate-y-1/2 items-center justify-center rounded-full border border-black/20 text-xs font-medium text-black shadow"
+            style={{ left: `${x * 100}%`, top: `${y * 100}%`, backgroundColor: annotation.color, cursor: erasable ? "pointer" : "default" }}
+            onClick={() => onErase(annotation)}
+          >
+            {commentNumbers[annotation.id]}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+const roundPoint = ([x, y]: [number, number]): [number, number] => [round(x), round(y)];
+
+const toHighlight = (start: [number, number], end: [number, number]): HighlightGeometry => ({
+  x: round(Math.min(start[0], end[0])),
+  y: round(Math.min(start[1], end[1])),
+  width: round(Math.abs(end[0] - start[0])),
+  height: round(Math.abs(end[1] - start[1])),
+});
@@ -0,0 +1,98 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { PdfAnnotator } from "./PdfAnnotator";
+import { createPreviewUrl } from "@/lib/file-preview";
+import {
+  createAnnotation,
+  deleteAnnotation,
+  fetchAnnotations,
+  NewAnnotation,
+  SubmissionAnnotation,
+} from "@/lib/annotations";
+
+interface SubmissionAnnotatorProps {
+  submissionId: string;
+  filePath: string;
+  editable?: boolean;
+  className?: string;
+}
+
+// Loads a submitted PDF together with its stored annotations. Graders edit them, students only view.
+export const SubmissionAnnotator = ({ submissionId, filePath, editable = false, className }: SubmissionAnnotatorProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [url, setUrl] = useState<string | null>(null);
+  const [annotations, setAnnotations] = useState<SubmissionAnnotation[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setUrl(null);
+    setAnnotations([]);
+    setError(null);
+    loadSubmission();
+  }, [submissionId, filePath]);
+
+  const loadSubmission = async () => {
+    try {
+      const [signedUrl, stored] = await Promise.all([
+        createPreviewUrl('assignment-submissions', filePath),
+        fetchAnnotations(submissionId),
+      ]);
+      setUrl(signedUrl);
+      setAnnotations(stored);
+    } catch (error) {
+      console.error('Error loading annotations:', error);
+      setError('The submission could not be loaded.');
+    }
+  };
+
+  const handleCreate = async (annotation: NewAnnotation) => {
+    if (!user) return;
+
+    try {
+      const created = await createAnnotation(submissionId, user.id, annotation);
+      setAnnotations(current => [...current, created]);
+    } catch (error) {
+      console.error('Error saving annotation:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save annotation",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (annotation: SubmissionAnnotation) => {
+    try {
+      await deleteAnnotation(annotation.id);
+      setAnnotations(current => current.filter(existing => existing.id !== annotation.id));
+    } catch (error) {
+      console.error('Error deleting annotation:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete annotation",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (error || !url) {
+    return (
+      <div className={`flex items-center justify-center rounded-md border text-muted-foreground ${className ?? "h-[70vh]"}`}>
+        {error ?? 'Loading submission...'}
+      </div>
+    );
+  }
+
+  return (
+    <PdfAnnotator
+      url={url}
+      annotations={annotations}
+      editable={editable}
+      onCreate={handleCreate}
+      onDelete={handleDelete}
+      className={className}
+    />
+  );
+};
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
@@ -7,8 +7,16 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import { Plus } from "lucide-react";
+import { fetchGradeCategories, GradeCategory } from "@/lib/gradebook";
+import { fetchSubjectRubrics, Rubric } from "@/lib/rubrics";
+import { ATTEMPT_SCORING_LABELS, AttemptScoringPolicy } from "@/lib/attempts";
+import { AssignmentKind, fetchQuestionBank, QuizQuestion, QUESTION_TYPE_LABELS } from "@/lib/quizzes";
+import { CourseModule, fetchModules } from "@/lib/modules";
+import { PublishWindowFields } from "@/components/publishing/PublishWindowFields";
+import { EMPTY_PUBLISH_WINDOW, fromPublishWindowInput, validatePublishWindow } from "@/lib/publishing";
 
 interface Subject {
   id: string;
@@ -32,17 +40,77 @@ export const CreateAssignmentDialog = ({ open, onOpenChange, subjects, onSuccess
     subject_id: '',
     due_date: '',
     max_points: 100,
+    category_id: '',
+    module_id: '',
+    rubric_id: '',
+    max_attempts: '1',
+    attempt_scoring: 'latest' as AttemptScoringPolicy,
+    late_grace_hours: 0,
+    late_penalty_per_day: 0,
+    late_acceptance: 'always',
+    late_cutoff_days: 3,
+    kind: 'file' as AssignmentKind,
+    time_limit_minutes: '',
+    shuffle_questions: false,
+    available_from: '',
+    available_until: '',
   });
+  const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+  const [questionIds, setQuestionIds] = useState<string[]>([]);
+  const [categories, setCategories] = useState<GradeCategory[]>([]);
+  const [rubrics, setRubrics] = useState<Rubric[]>([]);
+  const [modules, setModules] = useState<CourseModule[]>([]);
+  const [schedule, setSchedule] = useState(EMPTY_PUBLISH_WINDOW);
   const [creating, setCreating] = useState(false);
 
+  useEffect(() => {
+    if (formData.subject_id) {
+      fetchCategories();
+    } else {
+      setCategories([]);
+      setRubrics([]);
+      setQuestions([]);
+      setModules([]);
+    }
+    setQuestionIds([]);
+  }, [formData.subject_id]);
+
+  const fetchCategories = async () => {
+    try {
+      const [categoryData, rubricData, questionData, moduleData] = await Promise.all([
+        fetchGradeCategories(formData.subject_id),
+        fetchSubjectRubrics(formData.subject_id),
+        fetchQuestionBank(formData.subject_id),
+        fetchModules([formData.subject_id]),
+      ]);
+      setCategories(categoryData);
+      setRubrics(rubricData);
+      setQuestions(questionData);
+      setModules(moduleData);
+    } catch (error) {
+      console.error('Error fetching grade categories and rubrics:', error);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user) return;
 
+    const problem = validatePublishWindow(schedule);
+    if (problem) {
+      toast({
+        title: "Error",
+        description: problem,
+        variant: "destructive",
+      });
+      return;
+    }
+
     setCreating(true);
 
     try {
-      const { error } = await supabase
+      const isQuiz = formData.kind === 'quiz';
+      const { data: created, error } = await supabase
         .from('assignments')
         .insert({
           title: formData.title,
@@ -50,11 +118,42 @@ export const CreateAssignmentDialog = ({ open, onOpenChange, subjects, onSuccess
           subject_id: formData.subject_id,
           professor_id: user.id,
           due_date: formData.due_date || null,
-          max_points: formData.max_points,
-        });
+          max_points: isQuiz ? Math.max(1, Math.round(quizPoints)) : formData.max_points,
+          category_id: formData.category_id || null,
+          module_id: formData.module_id || null,
+          rubric_id: isQuiz ? null : formData.rubric_id || null,
+          // Leaving the field empty allows unlimited attempts
+          max_attempts: formData.max_attempts ? parseInt(formData.max_attempts) : null,
+          attempt_scoring: formData.attempt_scoring,
+          late_grace_minutes: Math.round(formData.late_grace_hours * 60),
+          late_penalty_per_day: formData.late_acceptance === 'never' ? 0 : formData.late_penalty_per_day,
+          late_cutoff_days: formData.late_acceptance === 'always'
+            ? null
+            : formData.late_acceptance === 'never' ? 0 : formData.late_cutoff_days,
+          kind: formData.kind,
+          time_limit_minutes: isQuiz && formData.time_limit_minutes ? parseInt(formData.time_limit_minutes) : null,
+          shuffle_questions: isQuiz && formData.shuffle_questions,
+          available_from: isQuiz && formData.available_from ? new Date(formData.available_from).toISOString() : null,
+          available_until: isQuiz && formData.available_until ? new Date(formData.available_until).toISOString() : null,
+          ...fromPublishWindowInput(schedule),
+        })
+        .select('id')
+        .single();
 
       if (error) throw error;
 
+      if (isQuiz) {
+        const { error: questionsError } = await supabase
+          .from('assignment_questions')
+          .insert(questionIds.map((questionId, position) => ({
+            assignment_id: created.id,
+            question_id: questionId,
+            position,
+          })));
+
+        if (questionsError) throw questionsError;
+      }
+
       toast({
         title: "Success",
         description: "Assignment created successfully",
@@ -67,7 +166,23 @@ export const CreateAssignmentDialog = ({ open, onOpenChange, subjects, onSuccess
         subject_id: '',
         due_date: '',
         max_points: 100,
+        category_id: '',
+        module_id: '',
+        rubric_id: '',
+        max_attempts: '1',
+        attempt_scoring: 'latest',
+        late_grace_hours: 0,
+        late_penalty_per_day: 0,
+        late_acceptance: 'always',
+        late_cutoff_days: 3,
+        kind: 'file',
+        time_limit_minutes: '',
+        shuffle_questions: false,
+        available_from: '',
+        available_until: '',
       });
+      setQuestionIds([]);
+      setSchedule(EMPTY_PUBLISH_WINDOW);
       onOpenChange(false);
       onSuccess();
     } catch (error) {
@@ -82,9 +197,20 @@ export const CreateAssignmentDialog = ({ open, onOpenChange, subjects, onSuccess
     }
   };
 
+  const toggleQuestion = (questionId: string) => {
+    setQuestionIds(questionIds.includes(questionId)
+      ? questionIds.filter(id => id !== questionId)
+      : [...questionIds, questionId]);
+  };
+
+  // Quizzes are worth the sum of their questions
+  const quizPoints = questions
+    .filter(question => questionIds.includes(question.id))
+    .reduce((sum, question) => sum + Number(question.points), 0);
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[500px]">
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Create Assignment</DialogTitle>
         </DialogHeader>
@@ -109,9 +235,22 @@ export const CreateAssignmentDialog = ({ open, onOpenChange, subjects, onSuccess
             />
           </div>
 
+          <div>
+            <Label htmlFor="kind">Type</Label>
+            <Select value={formData.kind} onValueChange={(value) => setFormData({ ...formData, kind: value as AssignmentKind })}>
+              <SelectTrigger id="kind">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="file">File or text submission</SelectItem>
+                <SelectItem value="quiz">Quiz (auto-graded)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
           <div>
             <Label htmlFor="subject">Subject</Label>
-            <Select value={formData.subject_id} onValueChange={(value) => setFormData({ ...formData, subject_id: value })}>
+            <Select value={formData.subject_id} onValueChange={(value) => setFormData({ ...formData, subject_id: value, category_id: '', module_id: '', rubric_id: '' })}>
               <SelectTrigger>
                 <SelectValue placeholder="Select a subject" />
               </SelectTrigger>
@@ -125,6 +264,130 @@ export const CreateAssignmentDialog = ({ open, onOpenChange, subjects, onSuccess
             </Select>
           </div>
 
+          {categories.length > 0 && (
+            <div>
+              <Label htmlFor="category">Grade Category (Optional)</Label>
+              <Select value={formData.category_id} onValueChange={(value) => setFormData({ ...formData, category_id: value })}>
+                <SelectTrigger id="category">
+                  <SelectValue placeholder="Select a category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories.map((category) => (
+                    <SelectItem key={category.id} value={category.id}>
+                      {category.name} ({category.weight}%)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {modules.length > 0 && (
+            <div>
+              <Label htmlFor="module">Module (Optional)</Label>
+              <Select value={formData.module_id} onValueChange={(value) => setFormData({ ...formData, module_id: value })}>
+                <SelectTrigger id="module">
+                  <SelectValue placeholder="Select a module" />
+                </SelectTrigger>
+                <SelectContent>
+                  {modules.map((module) => (
+                    <SelectItem key={module.id} value={module.id}>
+                      {module.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {formData.kind === 'quiz' && (
+            <div className="space-y-4 rounded-lg border p-3">
+              <div>
+                <Label>Questions ({questionIds.length} selected, {quizPoints} points)</Label>
+                {questions.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    {formData.subject_id ? 'The question bank of this subject is empty.' : 'Select a subject first.'}
+                  </p>
+                ) : (
+                  <div className="space-y-2 max-h-48 overflow-y-auto mt-2">
+                    {questions.map((question) => (
+                      <div key={question.id} className="flex items-start space-x-2">
+                        <Checkbox
+                          id={`question-${question.id}`}
+                          checked={questionIds.includes(question.id)}
+                          onCheckedChange={() => toggleQuestion(question.id)}
+                        />
+                        <Label htmlFor={`question-${question.id}`} className="text-sm font-normal">
+                          {question.prompt}
+                          <span className="text-muted-foreground"> · {QUESTION_TYPE_LABELS[question.type]}, {Number(question.points)} pt</span>
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="time_limit_minutes">Time Limit (minutes)</Label>
+                  <Input
+                    id="time_limit_minutes"
+                    type="number"
+                    min="1"
+                    value={formData.time_limit_minutes}
+                    onChange={(e) => setFormData({ ...formData, time_limit_minutes: e.target.value })}
+                    placeholder="No limit"
+                  />
+                </div>
+                <div className="flex items-end space-x-2 pb-2">
+                  <Checkbox
+                    id="shuffle_questions"
+                    checked={formData.shuffle_questions}
+                    onCheckedChange={(checked) => setFormData({ ...formData, shuffle_questions: checked === true })}
+                  />
+                  <Label htmlFor="shuffle_questions">Randomize question order</Label>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="available_from">Opens (Optional)</Label>
+                  <Input
+                    id="available_from"
+                    type="datetime-local"
+                    value={formData.available_from}
+                    onChange={(e) => setFormData({ ...formData, available_from: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="available_until">Closes (Optional)</Label>
+                  <Input
+                    id="available_until"
+                    type="datetime-local"
+                    value={formData.available_until}
+                    onChange={(e) => setFormData({ ...formData, available_until: e.target.value })}
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+
+          {formData.kind === 'file' && rubrics.length > 0 && (
+            <div>
+              <Label htmlFor="rubric">Rubric (Optional)</Label>
+              <Select value={formData.rubric_id} onValueChange={(value) => setFormData({ ...formData, rubric_id: value })}>
+                <SelectTrigger id="rubric">
+                  <SelectValue placeholder="Select a rubric" />
+                </SelectTrigger>
+                <SelectContent>
+                  {rubrics.map((rubric) => (
+                    <SelectItem key={rubric.id} value={rubric.id}>
+                      {rubric.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           <div>
             <Label htmlFor="due_date">Due Date (Optional)</Label>
             <Input
@@ -141,12 +404,105 @@ export const CreateAssignmentDialog = ({ open, onOpenChange, subjects, onSuccess
               id="max_points"
               type="number"
               min="1"
-              value={formData.max_points}
+              disabled={formData.kind === 'quiz'}
+              value={formData.kind === 'quiz' ? Math.round(quizPoints) : formData.max_points}
               onChange={(e) => setFormData({ ...formData, max_points: parseInt(e.target.value) || 100 })}
             />
           </div>
 
-          <Button type="submit" disabled={creating || !formData.subject_id || !formData.title}>
+          {formData.due_date && (
+            <div className="space-y-4 rounded-lg border p-3">
+              <div>
+                <Label htmlFor="late_acceptance">Late Submissions</Label>
+                <Select
+                  value={formData.late_acceptance}
+                  onValueChange={(value) => setFormData({ ...formData, late_acceptance: value })}
+                >
+                  <SelectTrigger id="late_acceptance">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="always">Always accepted</SelectItem>
+                    <SelectItem value="days">Accepted for a number of days</SelectItem>
+                    <SelectItem value="never">Hard cutoff at the due date</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="late_grace_hours">Grace (hours)</Label>
+                  <Input
+                    id="late_grace_hours"
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    value={formData.late_grace_hours}
+                    onChange={(e) => setFormData({ ...formData, late_grace_hours: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="late_penalty_per_day">Penalty per day (%)</Label>
+                  <Input
+                    id="late_penalty_per_day"
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={formData.late_penalty_per_day}
+                    disabled={formData.late_acceptance === 'never'}
+                    onChange={(e) => setFormData({ ...formData, late_penalty_per_day: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="late_cutoff_days">Closes after (days)</Label>
+                  <Input
+                    id="late_cutoff_days"
+                    type="number"
+                    min="1"
+                    value={formData.late_cutoff_days}
+                    disabled={formData.late_acceptance !== 'days'}
+                    onChange={(e) => setFormData({ ...formData, late_cutoff_days: parseInt(e.target.value) || 1 })}
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+
+          <PublishWindowFields value={schedule} onChange={setSchedule} idPrefix="assignment-publish" />
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="max_attempts">Attempts Allowed</Label>
+              <Input
+                id="max_attempts"
+                type="number"
+                min="1"
+                value={formData.max_attempts}
+                onChange={(e) => setFormData({ ...formData, max_attempts: e.target.value })}
+                placeholder="Unlimited"
+              />
+            </div>
+            <div>
+              <Label htmlFor="attempt_scoring">Counted Attempt</Label>
+              <Select
+                value={formData.attempt_scoring}
+                onValueChange={(value) => setFormData({ ...formData, attempt_scoring: value as AttemptScoringPolicy })}
+              >
+                <SelectTrigger id="attempt_scoring">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(ATTEMPT_SCORING_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <Button
+            type="submit"
+            disabled={creating || !formData.subject_id || !formData.title || (formData.kind === 'quiz' && questionIds.length === 0)}
+          >
             {creating ? (
               "Creating..."
             ) : (
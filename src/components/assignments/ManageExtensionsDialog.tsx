@@ -0,0 +1,260 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Trash2 } from "lucide-react";
+import { formatTimeMultiplier, toDateTimeInputValue } from "@/lib/due-dates";
+
+interface Assignment {
+  id: string;
+  title: string;
+  subject_id: string;
+  due_date: string;
+}
+
+interface Student {
+  id: string;
+  first_name: string;
+  last_name: string;
+  email: string;
+}
+
+interface Extension {
+  id: string;
+  student_id: string;
+  due_date: string;
+  reason: string | null;
+}
+
+interface ManageExtensionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  assignment: Assignment;
+}
+
+export const ManageExtensionsDialog = ({ open, onOpenChange, assignment }: ManageExtensionsDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [students, setStudents] = useState<Student[]>([]);
+  const [extensions, setExtensions] = useState<Extension[]>([]);
+  const [multipliers, setMultipliers] = useState<Record<string, number>>({});
+  const [formData, setFormData] = useState({
+    student_id: '',
+    due_date: '',
+    reason: '',
+  });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      fetchData();
+      setFormData({
+        student_id: '',
+        due_date: assignment.due_date ? toDateTimeInputValue(assignment.due_date) : '',
+        reason: '',
+      });
+    }
+  }, [open, assignment.id]);
+
+  const fetchData = async () => {
+    try {
+      const [enrollmentsRes, extensionsRes, accommodationsRes] = await Promise.all([
+        supabase
+          .from('enrollments')
+          .select('profiles!inner(id, first_name, last_name, email)')
+          .eq('subject_id', assignment.subject_id)
+          .eq('is_active', true),
+        supabase
+          .from('assignment_extensions')
+          .select('id, student_id, due_date, reason')
+          .eq('assignment_id', assignment.id)
+          .order('due_date'),
+        supabase
+          .from('student_accommodations')
+          .select('student_id, time_multiplier')
+          .eq('subject_id', assignment.subject_id),
+      ]);
+
+      if (enrollmentsRes.error) throw enrollmentsRes.error;
+      if (extensionsRes.error) throw extensionsRes.error;
+      if (accommodationsRes.error) throw accommodationsRes.error;
+
+      setStudents((enrollmentsRes.data || []).map(enrollment => enrollment.profiles));
+      setExtensions(extensionsRes.data || []);
+      setMultipliers(Object.fromEntries(
+        (accommodationsRes.data || []).map(accommodation => [accommodation.student_id, Number(accommodation.time_multiplier)])
+      ));
+    } catch (error) {
+      console.error('Error fetching extensions:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch extensions",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const getStudentName = (studentId: string) => {
+    const student = students.find(s => s.id === studentId);
+    return student ? `${student.first_name} ${student.last_name}` : 'Unknown student';
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    setSaving(true);
+
+    try {
+      const { error } = await supabase
+        .from('assignment_extensions')
+        .upsert({
+          assignment_id: assignment.id,
+          student_id: formData.student_id,
+          due_date: new Date(formData.due_date).toISOString(),
+          reason: formData.reason || null,
+          granted_by: user.id,
+        }, { onConflict: 'assignment_id,student_id' });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Extension granted successfully",
+      });
+
+      setFormData({ ...formData, student_id: '', reason: '' });
+      fetchData();
+    } catch (error) {
+      console.error('Error granting extension:', error);
+      toast({
+        title: "Error",
+        description: "Failed to grant extension",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async (extension: Extension) => {
+    try {
+      const { error } = await supabase
+        .from('assignment_extensions')
+        .delete()
+        .eq('id', extension.id);
+
+      if (error) throw error;
+      fetchData();
+    } catch (error) {
+      console.error('Error revoking extension:', error);
+      toast({
+        title: "Error",
+        description: "Failed to revoke extension",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const accommodatedStudents = students.filter(student => multipliers[student.id] > 1);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Extensions - {assignment.title}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            {extensions.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-2">No extensions granted.</p>
+            ) : (
+              extensions.map((extension) => (
+                <div key={extension.id} className="flex justify-between items-center rounded-lg border p-3">
+                  <div>
+                    <p className="font-medium">{getStudentName(extension.student_id)}</p>
+                    <p className="text-sm text-muted-foreground">
+                      Due {new Date(extension.due_date).toLocaleString()}
+                      {extension.reason && ` · ${extension.reason}`}
+                    </p>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => handleRevoke(extension)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+
+          {accommodatedStudents.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-sm font-medium">Accommodations without an extension</p>
+              <div className="flex flex-wrap gap-2">
+                {accommodatedStudents
+                  .filter(student => !extensions.some(extension => extension.student_id === student.id))
+                  .map((student) => (
+                    <Badge key={student.id} variant="outline">
+                      {student.first_name} {student.last_name}: {formatTimeMultiplier(multipliers[student.id])}
+                    </Badge>
+                  ))}
+              </div>
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4 border-t pt-4">
+            <h3 className="font-semibold">Grant Extension</h3>
+            <div>
+              <Label htmlFor="extension-student">Student</Label>
+              <Select
+                value={formData.student_id}
+                onValueChange={(value) => setFormData({ ...formData, student_id: value })}
+              >
+                <SelectTrigger id="extension-student">
+                  <SelectValue placeholder="Select a student" />
+                </SelectTrigger>
+                <SelectContent>
+                  {students.map((student) => (
+                    <SelectItem key={student.id} value={student.id}>
+                      {student.first_name} {student.last_name} ({student.email})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="extension-due-date">New Due Date</Label>
+              <Input
+                id="extension-due-date"
+                type="datetime-local"
+                value={formData.due_date}
+                onChange={(e) => setFormData({ ...formData, due_date: e.target.value })}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="extension-reason">Reason (Optional)</Label>
+              <Input
+                id="extension-reason"
+                value={formData.reason}
+                onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+                placeholder="e.g., Medical certificate"
+              />
+            </div>
+            <div className="flex justify-end">
+              <Button type="submit" disabled={saving || !formData.student_id || !formData.due_date}>
+                {saving ? "Saving..." : "Grant Extension"}
+              </Button>
+            </div>
+          </form>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -4,9 +4,21 @@ import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Plus, FileText, Calendar, Users, Trash2, Edit } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, FileText, Calendar, Users, Trash2, Edit, ListChecks, CalendarClock, HelpCircle, Eye } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { CreateAssignmentDialog } from "./CreateAssignmentDialog";
+import { ManageRubricsDialog } from "@/components/rubrics/ManageRubricsDialog";
+import { ManageExtensionsDialog } from "./ManageExtensionsDialog";
+import { QuestionBankDialog } from "@/components/quizzes/QuestionBankDialog";
+import { ATTEMPT_SCORING_LABELS, AttemptScoringPolicy, formatAttemptLimit } from "@/lib/attempts";
+import { describeLatePolicy } from "@/lib/late-policy";
+import { AssignmentKind } from "@/lib/quizzes";
+import { useTerms } from "@/hooks/useTerms";
+import { TermSelect } from "@/components/terms/TermSelect";
+import { ALL_TERMS, filterByTerm } from "@/lib/terms";
+import { PublishScheduleDialog } from "@/components/publishing/PublishScheduleDialog";
+import { PublishStateBadge } from "@/components/publishing/PublishStateBadge";
 
 interface Assignment {
   id: string;
@@ -15,9 +27,22 @@ interface Assignment {
   due_date: string;
   max_points: number;
   created_at: string;
+  subject_id: string;
+  category_id: string | null;
+  rubric_id: string | null;
+  max_attempts: number | null;
+  attempt_scoring: AttemptScoringPolicy;
+  late_grace_minutes: number;
+  late_penalty_per_day: number;
+  late_cutoff_days: number | null;
+  kind: AssignmentKind;
+  time_limit_minutes: number | null;
+  publish_at: string | null;
+  unpublish_at: string | null;
   subject: {
     name: string;
     code: string;
+    term_id: string | null;
   };
   submission_count?: number;
 }
@@ -26,6 +51,19 @@ interface Subject {
   id: string;
   name: string;
   code: string;
+  term_id: string | null;
+}
+
+interface Category {
+  id: string;
+  name: string;
+  subject_id: string;
+}
+
+interface RubricOption {
+  id: string;
+  title: string;
+  subject_id: string;
 }
 
 export const ProfessorAssignments = () => {
@@ -33,8 +71,16 @@ export const ProfessorAssignments = () => {
   const { toast } = useToast();
   const [assignments, setAssignments] = useState<Assignment[]>([]);
   const [subjects, setSubjects] = useState<Subject[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [rubrics, setRubrics] = useState<RubricOption[]>([]);
+  const [rubricsDialogOpen, setRubricsDialogOpen] = useState(false);
+  const [questionBankOpen, setQuestionBankOpen] = useState(false);
+  const [extensionsAssignment, setExtensionsAssignment] = useState<Assignment | null>(null);
+  const [scheduledAssignment, setScheduledAssignment] = useState<Assignment | null>(null);
   const [loading, setLoading] = useState(true);
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
+  const { terms, isArchived } = useTerms();
+  const [selectedTerm, setSelectedTerm] = useState<string>(ALL_TERMS);
 
   useEffect(() => {
     if (user) {
@@ -49,7 +95,7 @@ export const ProfessorAssignments = () => {
         .from('assignments')
         .select(`
           *,
-          subjects!inner(name, code)
+          subjects!inner(name, code, term_id)
         `)
         .eq('professor_id', user?.id)
         .eq('is_active', true)
@@ -63,7 +109,8 @@ export const ProfessorAssignments = () => {
           const { count } = await supabase
             .from('assignment_submissions')
             .select('*', { count: 'exact', head: true })
-            .eq('assignment_id', assignment.id);
+            .eq('assignment_id', assignment.id)
+            .eq('is_counted', true);
 
           return {
             ...assignment,
@@ -90,17 +137,87 @@ export const ProfessorAssignments = () => {
     try {
       const { data, error } = await supabase
         .from('subjects')
-        .select('id, name, code')
+        .select('id, name, code, term_id')
         .eq('professor_id', user?.id)
         .eq('is_active', true);
 
       if (error) throw error;
       setSubjects(data || []);
+      fetchCategories((data || []).map(subject => subject.id));
+      fetchRubrics((data || []).map(subject => subject.id));
     } catch (error) {
       console.error('Error fetching subjects:', error);
     }
   };
 
+  const fetchCategories = async (subjectIds: string[]) => {
+    try {
+      const { data, error } = await supabase
+        .from('grade_categories')
+        .select('id, name, subject_id')
+        .in('subject_id', subjectIds)
+        .order('position');
+
+      if (error) throw error;
+      setCategories(data || []);
+    } catch (error) {
+      console.error('Error fetching grade categories:', error);
+    }
+  };
+
+  const fetchRubrics = async (subjectIds: string[] = subjects.map(subject => subject.id)) => {
+    try {
+      const { data, error } = await supabase
+        .from('rubrics')
+        .select('id, title, subject_id')
+        .in('subject_id', subjectIds)
+        .order('created_at');
+
+      if (error) throw error;
+      setRubrics(data || []);
+    } catch (error) {
+      console.error('Error fetching rubrics:', error);
+    }
+  };
+
+  const handleRubricChange = async (assignment: Assignment, rubricId: string) => {
+    try {
+      const { error } = await supabase
+        .from('assignments')
+        .update({ rubric_id: rubricId === 'none' ? null : rubricId })
+        .eq('id', assignment.id);
+
+      if (error) throw error;
+      fetchAssignments();
+    } catch (error) {
+      console.error('Error updating assignment rubric:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update rubric",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCategoryChange = async (assignment: Assignment, categoryId: string) => {
+    try {
+      const { error } = await supabase
+        .from('assignments')
+        .update({ category_id: categoryId === 'none' ? null : categoryId })
+        .eq('id', assignment.id);
+
+      if (error) throw error;
+      fetchAssignments();
+    } catch (error) {
+      console.error('Error updating assignment category:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update grade category",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleDelete = async (assignment: Assignment) => {
     try {
       const { error } = await supabase
@@ -144,17 +261,32 @@ export const ProfessorAssignments = () => {
     return <div>Loading assignments...</div>;
   }
 
+  const visibleAssignments = filterByTerm(assignments, selectedTerm, assignment => assignment.subject.term_id);
+  // Subjects of archived terms are read-only, so they are left out of the create and setup dialogs
+  const editableSubjects = subjects.filter(subject => !isArchived(subject.term_id));
+
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h2 className="text-2xl font-semibold">My Assignments</h2>
-        <Button onClick={() => setCreateDialogOpen(true)}>
-          <Plus className="h-4 w-4 mr-2" />
-          Create Assignment
-        </Button>
+        <div className="flex gap-2">
+          <TermSelect terms={terms} value={selectedTerm} onValueChange={setSelectedTerm} />
+          <Button variant="outline" onClick={() => setQuestionBankOpen(true)}>
+            <HelpCircle className="h-4 w-4 mr-2" />
+            Question Bank
+          </Button>
+          <Button variant="outline" onClick={() => setRubricsDialogOpen(true)}>
+            <ListChecks className="h-4 w-4 mr-2" />
+            Rubrics
+          </Button>
+          <Button onClick={() => setCreateDialogOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Create Assignment
+          </Button>
+        </div>
       </div>
 
-      {assignments.length === 0 ? (
+      {visibleAssignments.length === 0 ? (
         <Card>
           <CardContent className="p-6 text-center">
             <FileText className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
@@ -166,57 +298,161 @@ export const ProfessorAssignments = () => {
         </Card>
       ) : (
         <div className="grid gap-4">
-          {assignments.map((assignment) => (
-            <Card key={assignment.id}>
-              <CardHeader>
-                <div className="flex justify-between items-start">
-                  <div>
-                    <CardTitle className="text-lg">{assignment.title}</CardTitle>
-                    <div className="flex gap-2 mt-2">
-                      <Badge variant="secondary">
-                        {assignment.subject.code} - {assignment.subject.name}
-                      </Badge>
-                      <Badge variant="outline">
-                        {assignment.max_points} points
-                      </Badge>
-                      {assignment.due_date && (
-                        <Badge variant={isOverdue(assignment.due_date) ? "destructive" : "default"}>
-                          <Calendar className="h-3 w-3 mr-1" />
-                          Due: {formatDate(assignment.due_date)}
+          {visibleAssignments.map((assignment) => {
+            const archived = isArchived(assignment.subject.term_id);
+            return (
+              <Card key={assignment.id}>
+                <CardHeader>
+                  <div className="flex justify-between items-start">
+                    <div>
+                      <CardTitle className="text-lg">{assignment.title}</CardTitle>
+                      <div className="flex gap-2 mt-2">
+                        <Badge variant="secondary">
+                          {assignment.subject.code} - {assignment.subject.name}
+                        </Badge>
+                        <Badge variant="outline">
+                          {assignment.max_points} points
                         </Badge>
-                      )}
+                        {assignment.kind === 'quiz' && (
+                          <Badge variant="outline">
+                            Quiz{assignment.time_limit_minutes && ` · ${assignment.time_limit_minutes} min`}
+                          </Badge>
+                        )}
+                        <Badge variant="outline">
+                          {formatAttemptLimit(assignment.max_attempts)}
+                          {assignment.max_attempts !== 1 && ` · ${ATTEMPT_SCORING_LABELS[assignment.attempt_scoring]}`}
+                        </Badge>
+                        {assignment.due_date && (
+                          <Badge variant={isOverdue(assignment.due_date) ? "destructive" : "default"}>
+                            <Calendar className="h-3 w-3 mr-1" />
+                            Due: {formatDate(assignment.due_date)}
+                          </Badge>
+                        )}
+                        <PublishStateBadge item={assignment} />
+                        {archived && <Badge variant="outline">Archived</Badge>}
+                      </div>
                     </div>
+                    {!archived && (
+                      <div className="flex gap-2">
+                        <Select
+                          value={assignment.category_id || 'none'}
+                          onValueChange={(value) => handleCategoryChange(assignment, value)}
+                        >
+                          <SelectTrigger className="w-[160px] h-9">
+                            <SelectValue placeholder="Grade category" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">Uncategorized</SelectItem>
+                            {categories
+                              .filter(category => category.subject_id === assignment.subject_id)
+                              .map((category) => (
+                                <SelectItem key={category.id} value={category.id}>
+                                  {category.name}
+                                </SelectItem>
+                              ))}
+                          </SelectContent>
+                        </Select>
+                        {assignment.kind === 'file' && (
+                          <Select
+                            value={assignment.rubric_id || 'none'}
+                            onValueChange={(value) => handleRubricChange(assignment, value)}
+                          >
+                            <SelectTrigger className="w-[160px] h-9">
+                              <SelectValue placeholder="Rubric" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="none">No rubric</SelectItem>
+                              {rubrics
+                                .filter(rubric => rubric.subject_id === assignment.subject_id)
+                                .map((rubric) => (
+                                  <SelectItem key={rubric.id} value={rubric.id}>
+                                    {rubric.title}
+                                  </SelectItem>
+                                ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          title="Extensions"
+                          onClick={() => setExtensionsAssignment(assignment)}
+                        >
+                          <CalendarClock className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          title="Publishing schedule"
+                          onClick={() => setScheduledAssignment(assignment)}
+                        >
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDelete(assignment)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
                   </div>
-                  <div className="flex gap-2">
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => handleDelete(assignment)}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
-                  </div>
-                </div>
-              </CardHeader>
-              <CardContent>
-                <p className="text-muted-foreground mb-4">{assignment.description}</p>
-                <div className="flex items-center gap-4 text-sm text-muted-foreground">
-                  <div className="flex items-center gap-1">
-                    <Users className="h-4 w-4" />
-                    <span>{assignment.submission_count} submissions</span>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-muted-foreground mb-4">{assignment.description}</p>
+                  {assignment.due_date && (
+                    <p className="text-xs text-muted-foreground mb-2">
+                      Late policy: {describeLatePolicy(assignment)}
+                    </p>
+                  )}
+                  <div className="flex items-center gap-4 text-sm text-muted-foreground">
+                    <div className="flex items-center gap-1">
+                      <Users className="h-4 w-4" />
+                      <span>{assignment.submission_count} submissions</span>
+                    </div>
+                    <span>Created: {formatDate(assignment.created_at)}</span>
                   </div>
-                  <span>Created: {formatDate(assignment.created_at)}</span>
-                </div>
-              </CardContent>
-            </Card>
-          ))}
+                </CardContent>
+              </Card>
+            );
+          })}
         </div>
       )}
 
       <CreateAssignmentDialog
         open={createDialogOpen}
         onOpenChange={setCreateDialogOpen}
-        subjects={subjects}
+        subjects={editableSubjects}
+        onSuccess={fetchAssignments}
+      />
+
+      <ManageRubricsDialog
+        open={rubricsDialogOpen}
+        onOpenChange={setRubricsDialogOpen}
+        subjects={editableSubjects}
+        onSuccess={() => fetchRubrics()}
+      />
+
+      <QuestionBankDialog
+        open={questionBankOpen}
+        onOpenChange={setQuestionBankOpen}
+        subjects={editableSubjects}
+      />
+
+      {extensionsAssignment && (
+        <ManageExtensionsDialog
+          open={!!extensionsAssignment}
+          onOpenChange={(open) => !open && setExtensionsAssignment(null)}
+          assignment={extensionsAssignment}
+        />
+      )}
+
+      <PublishScheduleDialog
+        open={!!scheduledAssignment}
+        onOpenChange={(open) => !open && setScheduledAssignment(null)}
+        table="assignments"
+        item={scheduledAssignment}
         onSuccess={fetchAssignments}
       />
     </div>
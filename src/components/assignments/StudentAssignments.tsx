@@ -4,9 +4,21 @@ import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { FileText, Calendar, Upload, CheckCircle, Clock } from "lucide-react";
+import { FileText, Calendar, Upload, CheckCircle, Clock, PlayCircle, Highlighter } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { SubmitAssignmentDialog } from "./SubmitAssignmentDialog";
+import { TakeQuizDialog } from "@/components/quizzes/TakeQuizDialog";
+import { RubricGrid } from "@/components/rubrics/RubricGrid";
+import { AnnotatedSubmissionDialog } from "@/components/annotations/AnnotatedSubmissionDialog";
+import { fetchRubric, Rubric, RubricScore } from "@/lib/rubrics";
+import { hasAttemptsLeft } from "@/lib/attempts";
+import { describeLatePolicy, formatLateness } from "@/lib/late-policy";
+import { EffectiveDueDate, fetchMyDueDates } from "@/lib/due-dates";
+import { AssignmentKind, getQuizAvailability } from "@/lib/quizzes";
+import { useTerms } from "@/hooks/useTerms";
+import { TermSelect } from "@/components/terms/TermSelect";
+import { ALL_TERMS, filterByTerm } from "@/lib/terms";
+import { getPreviewKind } from "@/lib/file-preview";
 
 interface Assignment {
   id: string;
@@ -15,9 +27,19 @@ interface Assignment {
   due_date: string;
   max_points: number;
   created_at: string;
+  rubric_id: string | null;
+  max_attempts: number | null;
+  late_grace_minutes: number;
+  late_penalty_per_day: number;
+  late_cutoff_days: number | null;
+  kind: AssignmentKind;
+  time_limit_minutes: number | null;
+  available_from: string | null;
+  available_until: string | null;
   subjects: {
     name: string;
     code: string;
+    term_id: string | null;
   };
   assignment_submissions?: {
     id: string;
@@ -25,9 +47,23 @@ interface Assignment {
     grade: number;
     feedback: string;
     is_late: boolean;
+    minutes_late: number;
+    late_penalty_percentage: number;
+    raw_grade: number | null;
+    attempt_number: number;
+    is_counted: boolean;
+    file_path: string | null;
+    file_name: string | null;
+    graded_at: string | null;
   }[];
 }
 
+// The attempt that counts towards the grade, falling back to the latest one
+const getCountedSubmission = (assignment: Assignment) => {
+  const attempts = [...(assignment.assignment_submissions || [])].sort((a, b) => b.attempt_number - a.attempt_number);
+  return attempts.find(attempt => attempt.is_counted) || attempts[0];
+};
+
 export const StudentAssignments = () => {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -35,6 +71,13 @@ export const StudentAssignments = () => {
   const [loading, setLoading] = useState(true);
   const [submitDialogOpen, setSubmitDialogOpen] = useState(false);
   const [selectedAssignment, setSelectedAssignment] = useState<Assignment | null>(null);
+  const [quizAssignment, setQuizAssignment] = useState<Assignment | null>(null);
+  const [rubrics, setRubrics] = useState<Record<string, Rubric>>({});
+  const [rubricScores, setRubricScores] = useState<Record<string, RubricScore[]>>({});
+  const [dueDates, setDueDates] = useState<Record<string, EffectiveDueDate>>({});
+  const [annotatedSubmission, setAnnotatedSubmission] = useState<{ id: string; title: string; file_path: string; file_name: string } | null>(null);
+  const { terms } = useTerms();
+  const [selectedTerm, setSelectedTerm] = useState<string>(ALL_TERMS);
 
   useEffect(() => {
     if (user) {
@@ -48,15 +91,18 @@ export const StudentAssignments = () => {
         .from('assignments')
         .select(`
           *,
-          subjects!inner(name, code),
-          assignment_submissions(id, submitted_at, grade, feedback, is_late)
+          subjects!inner(name, code, term_id),
+          assignment_submissions(id, submitted_at, grade, raw_grade, feedback, is_late, minutes_late, late_penalty_percentage, attempt_number, is_counted, file_path, file_name, graded_at)
         `)
         .eq('is_active', true)
         .eq('assignment_submissions.student_id', user?.id)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
-      setAssignments((data as any) || []);
+      const assignmentList: Assignment[] = (data as any) || [];
+      setDueDates(await fetchMyDueDates());
+      setAssignments(assignmentList);
+      fetchRubricFeedback(assignmentList);
     } catch (error) {
       console.error('Error fetching assignments:', error);
       toast({
@@ -69,6 +115,42 @@ export const StudentAssignments = () => {
     }
   };
 
+  // Rubric breakdowns for graded submissions of assignments that use a rubric
+  const fetchRubricFeedback = async (assignmentList: Assignment[]) => {
+    const graded = assignmentList.filter(assignment =>
+      assignment.rubric_id && getCountedSubmission(assignment)?.grade != null
+    );
+    if (graded.length === 0) return;
+
+    try {
+      const rubricIds = [...new Set(graded.map(assignment => assignment.rubric_id as string))];
+      const [rubricData, scoresRes] = await Promise.all([
+        Promise.all(rubricIds.map(fetchRubric)),
+        supabase
+          .from('submission_rubric_scores')
+          .select('*')
+          .in('submission_id', graded.map(assignment => getCountedSubmission(assignment).id)),
+      ]);
+
+      if (scoresRes.error) throw scoresRes.error;
+
+      const rubricMap: Record<string, Rubric> = {};
+      rubricData.forEach(rubric => {
+        rubricMap[rubric.id] = rubric;
+      });
+
+      const scoreMap: Record<string, RubricScore[]> = {};
+      (scoresRes.data || []).forEach(score => {
+        scoreMap[score.submission_id] = [...(scoreMap[score.submission_id] || []), score];
+      });
+
+      setRubrics(rubricMap);
+      setRubricScores(scoreMap);
+    } catch (error) {
+      console.error('Error fetching rubric feedback:', error);
+    }
+  };
+
   const handleSubmit = (assignment: Assignment) => {
     setSelectedAssignment(assignment);
     setSubmitDialogOpen(true);
@@ -88,10 +170,14 @@ export const StudentAssignments = () => {
     return new Date(dueDate) < new Date();
   };
 
+  // The student's own due date, after extensions and accommodations
+  const getDueDate = (assignment: Assignment) => dueDates[assignment.id]?.due_date ?? assignment.due_date;
+
   const getSubmissionStatus = (assignment: Assignment) => {
-    const submission = assignment.assignment_submissions?.[0];
+    const submission = getCountedSubmission(assignment);
     if (!submission) {
-      if (assignment.due_date && isOverdue(assignment.due_date)) {
+      const dueDate = getDueDate(assignment);
+      if (dueDate && isOverdue(dueDate)) {
         return { status: 'overdue', color: 'destructive' as const };
       }
       return { status: 'pending', color: 'secondary' as const };
@@ -108,11 +194,16 @@ export const StudentAssignments = () => {
     return <div>Loading assignments...</div>;
   }
 
+  const visibleAssignments = filterByTerm(assignments, selectedTerm, assignment => assignment.subjects.term_id);
+
   return (
     <div className="space-y-6">
-      <h2 className="text-2xl font-semibold">My Assignments</h2>
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-semibold">My Assignments</h2>
+        <TermSelect terms={terms} value={selectedTerm} onValueChange={setSelectedTerm} />
+      </div>
 
-      {assignments.length === 0 ? (
+      {visibleAssignments.length === 0 ? (
         <Card>
           <CardContent className="p-6 text-center">
             <FileText className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
@@ -121,9 +212,13 @@ export const StudentAssignments = () => {
         </Card>
       ) : (
         <div className="grid gap-4">
-          {assignments.map((assignment) => {
-            const submission = assignment.assignment_submissions?.[0];
+          {visibleAssignments.map((assignment) => {
+            const submission = getCountedSubmission(assignment);
+            const attemptsUsed = assignment.assignment_submissions?.length || 0;
+            const canSubmit = hasAttemptsLeft(assignment.max_attempts, attemptsUsed);
             const status = getSubmissionStatus(assignment);
+            const dueDate = getDueDate(assignment);
+            const quizAvailability = assignment.kind === 'quiz' ? getQuizAvailability(assignment) : null;
             
             return (
               <Card key={assignment.id}>
@@ -138,10 +233,15 @@ export const StudentAssignments = () => {
                         <Badge variant="outline">
                           {assignment.max_points} points
                         </Badge>
-                        {assignment.due_date && (
-                          <Badge variant={isOverdue(assignment.due_date) ? "destructive" : "default"}>
+                        {dueDate && (
+                          <Badge variant={isOverdue(dueDate) ? "destructive" : "default"}>
                             <Calendar className="h-3 w-3 mr-1" />
-                            Due: {formatDate(assignment.due_date)}
+                            Due: {formatDate(dueDate)}
+                          </Badge>
+                        )}
+                        {dueDates[assignment.id] && (
+                          <Badge variant="outline">
+                            {dueDates[assignment.id].is_extension ? 'Extended' : 'Accommodated'}
                           </Badge>
                         )}
                         <Badge variant={status.color}>
@@ -151,36 +251,105 @@ export const StudentAssignments = () => {
                         </Badge>
                       </div>
                     </div>
-                    {!submission && (
+                    {canSubmit && assignment.kind === 'quiz' && quizAvailability === 'open' && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setQuizAssignment(assignment)}
+                      >
+                        <PlayCircle className="h-4 w-4 mr-2" />
+                        {submission ? 'Retake Quiz' : 'Start Quiz'}
+                      </Button>
+                    )}
+                    {canSubmit && assignment.kind === 'file' && (
                       <Button
                         variant="outline"
                         size="sm"
                         onClick={() => handleSubmit(assignment)}
                       >
                         <Upload className="h-4 w-4 mr-2" />
-                        Submit
+                        {submission ? 'Resubmit' : 'Submit'}
                       </Button>
                     )}
                   </div>
                 </CardHeader>
                 <CardContent>
                   <p className="text-muted-foreground mb-4">{assignment.description}</p>
-                  
+                  {assignment.kind === 'quiz' && (
+                    <p className="text-xs text-muted-foreground mb-2">
+                      Quiz{assignment.time_limit_minutes && ` · ${assignment.time_limit_minutes} minute time limit`}
+                      {quizAvailability === 'upcoming' && ` · opens ${formatDate(assignment.available_from)}`}
+                      {quizAvailability === 'open' && assignment.available_until && ` · closes ${formatDate(assignment.available_until)}`}
+                      {quizAvailability === 'closed' && ' · closed'}
+                    </p>
+                  )}
+                  {assignment.due_date && (
+                    <p className="text-xs text-muted-foreground mb-4">
+                      {dueDates[assignment.id] && `Originally due ${formatDate(assignment.due_date)}. `}
+                      Late policy: {describeLatePolicy(assignment)}
+                    </p>
+                  )}
+
                   {submission && (
                     <div className="bg-muted p-4 rounded-lg">
-                      <h4 className="font-semibold mb-2">Your Submission</h4>
+                      <h4 className="font-semibold mb-2">
+                        Your Submission{attemptsUsed > 1 && ` (attempt ${submission.attempt_number})`}
+                      </h4>
                       <div className="text-sm text-muted-foreground space-y-1">
                         <p>Submitted: {formatDate(submission.submitted_at)}</p>
+                        <p>
+                          Attempts used: {attemptsUsed}
+                          {assignment.max_attempts !== null && ` of ${assignment.max_attempts}`}
+                        </p>
                         {submission.is_late && (
-                          <p className="text-destructive">Late submission</p>
+                          <p className="text-destructive">
+                            Late submission ({formatLateness(submission.minutes_late)} late
+                            {Number(submission.late_penalty_percentage) > 0 && `, ${Number(submission.late_penalty_percentage)}% penalty`})
+                          </p>
                         )}
                         {submission.grade !== null && (
-                          <p>Grade: {submission.grade}/{assignment.max_points}</p>
+                          submission.raw_grade !== null && submission.raw_grade !== submission.grade ? (
+                            <p>
+                              Grade: {submission.grade}/{assignment.max_points}
+                              {' '}(raw score {submission.raw_grade}/{assignment.max_points} before late penalty)
+                            </p>
+                          ) : (
+                            <p>Grade: {submission.grade}/{assignment.max_points}</p>
+                          )
                         )}
                         {submission.feedback && (
                           <p>Feedback: {submission.feedback}</p>
                         )}
                       </div>
+                      {submission.graded_at && submission.file_path && getPreviewKind(submission.file_name) === 'pdf' && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="mt-3"
+                          onClick={() => setAnnotatedSubmission({
+                            id: submission.id,
+                            title: assignment.title,
+                            file_path: submission.file_path!,
+                            file_name: submission.file_name!,
+                          })}
+                        >
+                          <Highlighter className="h-4 w-4 mr-2" />
+                          View Annotated Submission
+                        </Button>
+                      )}
+                      {assignment.rubric_id && rubrics[assignment.rubric_id] && rubricScores[submission.id] && (
+                        <div className="mt-4">
+                          <RubricGrid
+                            rubric={rubrics[assignment.rubric_id]}
+                            selectedLevels={Object.fromEntries(
+                              rubricScores[submission.id].map(score => [score.criterion_id, score.level_id])
+                            )}
+                            comments={Object.fromEntries(
+                              rubricScores[submission.id].map(score => [score.criterion_id, score.comment || ''])
+                            )}
+                          />
+                        </div>
+                      )}
                     </div>
                   )}
                 </CardContent>
@@ -194,10 +363,26 @@ export const StudentAssignments = () => {
         <SubmitAssignmentDialog
           open={submitDialogOpen}
           onOpenChange={setSubmitDialogOpen}
-          assignment={selectedAssignment}
+          assignment={{ ...selectedAssignment, due_date: getDueDate(selectedAssignment) }}
+          attemptsUsed={selectedAssignment.assignment_submissions?.length || 0}
           onSuccess={fetchAssignments}
         />
       )}
+
+      {quizAssignment && (
+        <TakeQuizDialog
+          open={!!quizAssignment}
+          onOpenChange={(open) => !open && setQuizAssignment(null)}
+          quiz={quizAssignment}
+          onSuccess={fetchAssignments}
+        />
+      )}
+
+      <AnnotatedSubmissionDialog
+        open={!!annotatedSubmission}
+        onOpenChange={(open) => !open && setAnnotatedSubmission(null)}
+        submission={annotatedSubmission}
+      />
     </div>
   );
 };
\ No newline at end of file
@@ -8,21 +8,28 @@ import { Textarea } from "@/components/ui/textarea";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
 import { Upload } from "lucide-react";
+import { formatAttemptLimit } from "@/lib/attempts";
+import { describeLatePolicy, isPastCutoff } from "@/lib/late-policy";
 
 interface Assignment {
   id: string;
   title: string;
   due_date: string;
+  max_attempts: number | null;
+  late_grace_minutes: number;
+  late_penalty_per_day: number;
+  late_cutoff_days: number | null;
 }
 
 interface SubmitAssignmentDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   assignment: Assignment;
+  attemptsUsed: number;
   onSuccess: () => void;
 }
 
-export const SubmitAssignmentDialog = ({ open, onOpenChange, assignment, onSuccess }: SubmitAssignmentDialogProps) => {
+export const SubmitAssignmentDialog = ({ open, onOpenChange, assignment, attemptsUsed, onSuccess }: SubmitAssignmentDialogProps) => {
   const { user } = useAuth();
   const { toast } = useToast();
   const [formData, setFormData] = useState({
@@ -58,11 +65,8 @@ export const SubmitAssignmentDialog = ({ open, onOpenChange, assignment, onSucce
         if (uploadError) throw uploadError;
       }
 
-      // Check if submission is late
-      const isLate = assignment.due_date ? new Date() > new Date(assignment.due_date) : false;
-
-      // Save submission record to database
-      const { error: dbError } = await supabase
+      // Lateness and penalties are computed by the server when the submission is saved
+      const { data: saved, error: dbError } = await supabase
         .from('assignment_submissions')
         .insert({
           assignment_id: assignment.id,
@@ -72,14 +76,17 @@ export const SubmitAssignmentDialog = ({ open, onOpenChange, assignment, onSucce
           file_size: fileSize,
           file_type: fileType,
           submitted_text: formData.submitted_text || null,
-          is_late: isLate,
-        });
+        })
+        .select('is_late, late_penalty_percentage')
+        .single();
 
       if (dbError) throw dbError;
 
       toast({
         title: "Success",
-        description: isLate ? "Assignment submitted successfully (late submission)" : "Assignment submitted successfully",
+        description: saved.is_late
+          ? `Assignment submitted successfully (late, ${Number(saved.late_penalty_percentage)}% penalty)`
+          : "Assignment submitted successfully",
       });
 
       // Reset form
@@ -93,7 +100,9 @@ export const SubmitAssignmentDialog = ({ open, onOpenChange, assignment, onSucce
       console.error('Error submitting assignment:', error);
       toast({
         title: "Error",
-        description: "Failed to submit assignment",
+        description: isPastCutoff(assignment, assignment.due_date)
+          ? "The deadline for this assignment has passed"
+          : "Failed to submit assignment",
         variant: "destructive",
       });
     } finally {
@@ -101,6 +110,8 @@ export const SubmitAssignmentDialog = ({ open, onOpenChange, assignment, onSucce
     }
   };
 
+  const closed = isPastCutoff(assignment, assignment.due_date);
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-[500px]">
@@ -108,6 +119,10 @@ export const SubmitAssignmentDialog = ({ open, onOpenChange, assignment, onSucce
           <DialogTitle>Submit Assignment: {assignment.title}</DialogTitle>
         </DialogHeader>
         <form onSubmit={handleSubmit} className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Attempt {attemptsUsed + 1} ({formatAttemptLimit(assignment.max_attempts)})
+          </p>
+
           <div>
             <Label htmlFor="submitted_text">Text Submission (Optional)</Label>
             <Textarea
@@ -131,12 +146,15 @@ export const SubmitAssignmentDialog = ({ open, onOpenChange, assignment, onSucce
           {assignment.due_date && new Date() > new Date(assignment.due_date) && (
             <div className="bg-destructive/10 border border-destructive/20 rounded-lg p-3">
               <p className="text-destructive text-sm">
-                This assignment is past its due date. Your submission will be marked as late.
+                {closed
+                  ? 'This assignment no longer accepts submissions.'
+                  : 'This assignment is past its due date. Your submission may be marked as late.'}
               </p>
+              <p className="text-destructive text-xs mt-1">Late policy: {describeLatePolicy(assignment)}</p>
             </div>
           )}
 
-          <Button type="submit" disabled={submitting || (!file && !formData.submitted_text.trim())}>
+          <Button type="submit" disabled={submitting || closed || (!file && !formData.submitted_text.trim())}>
             {submitting ? (
               "Submitting..."
             ) : (
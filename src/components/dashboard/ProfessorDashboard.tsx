@@ -7,6 +7,9 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { BookOpen, Users, FileText, ClipboardList, Calendar, TrendingUp, GraduationCap } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useTerms } from "@/hooks/useTerms";
+import { TermSelect } from "@/components/terms/TermSelect";
+import { ALL_TERMS } from "@/lib/terms";
 
 interface DashboardStats {
   totalSubjects: number;
@@ -25,7 +28,7 @@ interface RecentActivity {
 }
 
 export const ProfessorDashboard = () => {
-  const { user } = useAuth();
+  const { user, institution } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
   const [stats, setStats] = useState<DashboardStats>({
@@ -37,55 +40,72 @@ export const ProfessorDashboard = () => {
   });
   const [recentActivity, setRecentActivity] = useState<RecentActivity[]>([]);
   const [loading, setLoading] = useState(true);
+  const { terms } = useTerms();
+  const [selectedTerm, setSelectedTerm] = useState<string>(ALL_TERMS);
 
   useEffect(() => {
-    if (user) {
+    if (user && institution) {
       fetchDashboardData();
     }
-  }, [user]);
+  }, [user, institution, selectedTerm]);
 
   const fetchDashboardData = async () => {
+    const termFilter = selectedTerm === ALL_TERMS ? null : selectedTerm;
+
     try {
       // Fetch subjects count
-      const { count: subjectsCount } = await supabase
+      let subjectsQuery = supabase
         .from('subjects')
         .select('*', { count: 'exact', head: true })
         .eq('professor_id', user?.id)
+        .eq('institution_id', institution?.id)
         .eq('is_active', true);
+      if (termFilter) subjectsQuery = subjectsQuery.eq('term_id', termFilter);
+      const { count: subjectsCount } = await subjectsQuery;
 
       // Fetch students count
-      const { count: studentsCount } = await supabase
+      let studentsQuery = supabase
         .from('enrollments')
         .select(`
           *,
-          subjects!inner(professor_id)
+          subjects!inner(professor_id, term_id)
         `, { count: 'exact', head: true })
         .eq('subjects.professor_id', user?.id)
+        .eq('institution_id', institution?.id)
         .eq('is_active', true);
+      if (termFilter) studentsQuery = studentsQuery.eq('subjects.term_id', termFilter);
+      const { count: studentsCount } = await studentsQuery;
 
       // Fetch materials count
-      const { count: materialsCount } = await supabase
+      let materialsQuery = supabase
         .from('study_materials')
-        .select('*', { count: 'exact', head: true })
+        .select('*, subjects!inner(term_id)', { count: 'exact', head: true })
         .eq('professor_id', user?.id)
         .eq('is_active', true);
+      if (termFilter) materialsQuery = materialsQuery.eq('subjects.term_id', termFilter);
+      const { count: materialsCount } = await materialsQuery;
 
       // Fetch assignments count
-      const { count: assignmentsCount } = await supabase
+      let assignmentsQuery = supabase
         .from('assignments')
-        .select('*', { count: 'exact', head: true })
+        .select('*, subjects!inner(term_id)', { count: 'exact', head: true })
         .eq('professor_id', user?.id)
         .eq('is_active', true);
+      if (termFilter) assignmentsQuery = assignmentsQuery.eq('subjects.term_id', termFilter);
+      const { count: assignmentsCount } = await assignmentsQuery;
 
       // Fetch pending submissions count
-      const { count: pendingCount } = await supabase
+      let pendingQuery = supabase
         .from('assignment_submissions')
         .select(`
           *,
-          assignments!inner(professor_id)
+          assignments!inner(professor_id, subjects!inner(term_id))
         `, { count: 'exact', head: true })
         .eq('assignments.professor_id', user?.id)
+        .eq('is_counted', true)
         .is('grade', null);
+      if (termFilter) pendingQuery = pendingQuery.eq('assignments.subjects.term_id', termFilter);
+      const { count: pendingCount } = await pendingQuery;
 
       setStats({
         totalSubjects: subjectsCount || 0,
@@ -96,7 +116,7 @@ export const ProfessorDashboard = () => {
       });
 
       // Fetch recent activity
-      await fetchRecentActivity();
+      await fetchRecentActivity(termFilter);
     } catch (error) {
       console.error('Error fetching dashboard data:', error);
       toast({
@@ -109,18 +129,21 @@ export const ProfessorDashboard = () => {
     }
   };
 
-  const fetchRecentActivity = async () => {
+  const fetchRecentActivity = async (termFilter: string | null) => {
     try {
       // Fetch recent submissions
-      const { data: submissions } = await supabase
+      let submissionsQuery = supabase
         .from('assignment_submissions')
         .select(`
           id,
           submitted_at,
-          assignments!inner(title, professor_id),
+          assignments!inner(title, professor_id, subjects!inner(term_id)),
           profiles!inner(first_name, last_name)
         `)
-        .eq('assignments.professor_id', user?.id)
+        .eq('assignments.professor_id', user?.id);
+      if (termFilter) submissionsQuery = submissionsQuery.eq('assignments.subjects.term_id', termFilter);
+
+      const { data: submissions } = await submissionsQuery
         .order('submitted_at', { ascending: false })
         .limit(5);
 
@@ -144,6 +167,12 @@ export const ProfessorDashboard = () => {
 
   return (
     <div className="space-y-6">
+      {terms.length > 0 && (
+        <div className="flex justify-end">
+          <TermSelect terms={terms} value={selectedTerm} onValueChange={setSelectedTerm} />
+        </div>
+      )}
+
       {/* Stats Cards */}
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-5">
         <Card>
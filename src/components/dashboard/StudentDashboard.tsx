@@ -7,6 +7,10 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { BookOpen, FileText, ClipboardList, Calendar, CheckCircle, Clock } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { fetchMyDueDates, withEffectiveDueDates } from "@/lib/due-dates";
+import { useTerms } from "@/hooks/useTerms";
+import { TermSelect } from "@/components/terms/TermSelect";
+import { ALL_TERMS } from "@/lib/terms";
 
 interface StudentStats {
   enrolledSubjects: number;
@@ -22,10 +26,11 @@ interface UpcomingAssignment {
   due_date: string;
   max_points: number;
   is_submitted: boolean;
+  is_adjusted: boolean;
 }
 
 export const StudentDashboard = () => {
-  const { user } = useAuth();
+  const { user, institution } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
   const [stats, setStats] = useState<StudentStats>({
@@ -36,43 +41,58 @@ export const StudentDashboard = () => {
   });
   const [upcomingAssignments, setUpcomingAssignments] = useState<UpcomingAssignment[]>([]);
   const [loading, setLoading] = useState(true);
+  const { terms } = useTerms();
+  const [selectedTerm, setSelectedTerm] = useState<string>(ALL_TERMS);
 
   useEffect(() => {
-    if (user) {
+    if (user && institution) {
       fetchDashboardData();
     }
-  }, [user]);
+  }, [user, institution, selectedTerm]);
 
   const fetchDashboardData = async () => {
+    const termFilter = selectedTerm === ALL_TERMS ? null : selectedTerm;
+
     try {
       // Fetch enrolled subjects count
-      const { count: subjectsCount } = await supabase
+      let subjectsQuery = supabase
         .from('enrollments')
-        .select('*', { count: 'exact', head: true })
+        .select('*, subjects!inner(term_id)', { count: 'exact', head: true })
         .eq('student_id', user?.id)
+        .eq('institution_id', institution?.id)
         .eq('is_active', true);
+      if (termFilter) subjectsQuery = subjectsQuery.eq('subjects.term_id', termFilter);
+      const { count: subjectsCount } = await subjectsQuery;
 
       // Fetch available materials count
-      const { count: materialsCount } = await supabase
+      let materialsQuery = supabase
         .from('study_materials')
         .select(`
           *,
-          subjects!inner(id),
+          subjects!inner(id, term_id),
           enrollments!inner(student_id, subject_id)
         `, { count: 'exact', head: true })
         .eq('enrollments.student_id', user?.id)
         .eq('is_active', true);
+      if (termFilter) materialsQuery = materialsQuery.eq('subjects.term_id', termFilter);
+      const { count: materialsCount } = await materialsQuery;
 
       // Fetch assignments for enrolled subjects
-      const { data: assignments } = await supabase
+      let assignmentsQuery = supabase
         .from('assignments')
         .select(`
           *,
-          subjects!inner(name, code),
+          subjects!inner(name, code, term_id),
           assignment_submissions(id, student_id)
         `)
         .eq('assignment_submissions.student_id', user?.id)
         .eq('is_active', true);
+      if (termFilter) assignmentsQuery = assignmentsQuery.eq('subjects.term_id', termFilter);
+      const { data: assignmentRows } = await assignmentsQuery;
+
+      // Extensions and accommodations move the student's own due dates
+      const dueDates = await fetchMyDueDates();
+      const assignments = withEffectiveDueDates(assignmentRows || [], dueDates);
 
       const assignmentsDue = (assignments as any)?.filter((a: any) => 
         a.due_date && new Date(a.due_date) > new Date() && 
@@ -104,6 +124,7 @@ export const StudentDashboard = () => {
           due_date: a.due_date,
           max_points: a.max_points,
           is_submitted: a.assignment_submissions?.length > 0,
+          is_adjusted: !!dueDates[a.id],
         })) || [];
 
       setUpcomingAssignments(upcoming);
@@ -149,6 +170,12 @@ export const StudentDashboard = () => {
 
   return (
     <div className="space-y-6">
+      {terms.length > 0 && (
+        <div className="flex justify-end">
+          <TermSelect terms={terms} value={selectedTerm} onValueChange={setSelectedTerm} />
+        </div>
+      )}
+
       {/* Stats Cards */}
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         <Card>
@@ -258,6 +285,7 @@ export const StudentDashboard = () => {
                       <Badge variant={getDueDateVariant(assignment.due_date)}>
                         <Calendar className="h-3 w-3 mr-1" />
                         {formatDueDate(assignment.due_date)}
+                        {assignment.is_adjusted && " (extended)"}
                       </Badge>
                     )}
                   </div>
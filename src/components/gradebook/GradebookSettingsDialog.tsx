@@ -0,0 +1,318 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Save, Trash2 } from "lucide-react";
+import {
+  DEFAULT_GRADE_SCALE,
+  fetchGradeCategories,
+  GradeCategory,
+  GradeScaleLevel,
+} from "@/lib/gradebook";
+
+interface Subject {
+  id: string;
+  name: string;
+  code: string;
+}
+
+interface GradebookSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  subject: Subject | null;
+  onSuccess: () => void;
+}
+
+export const GradebookSettingsDialog = ({ open, onOpenChange, subject, onSuccess }: GradebookSettingsDialogProps) => {
+  const { toast } = useToast();
+  const [categories, setCategories] = useState<GradeCategory[]>([]);
+  const [scale, setScale] = useState<GradeScaleLevel[]>([]);
+  const [categoryForm, setCategoryForm] = useState({ name: '', weight: 0, drop_lowest: 0 });
+  const [levelForm, setLevelForm] = useState({ letter: '', min_percentage: 0 });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open && subject) {
+      fetchSettings();
+    }
+  }, [open, subject]);
+
+  const fetchSettings = async () => {
+    if (!subject) return;
+
+    try {
+      const [categoryData, scaleRes] = await Promise.all([
+        fetchGradeCategories(subject.id),
+        supabase
+          .from('grade_scale_levels')
+          .select('*')
+          .eq('subject_id', subject.id)
+          .order('min_percentage', { ascending: false }),
+      ]);
+
+      if (scaleRes.error) throw scaleRes.error;
+
+      setCategories(categoryData);
+      setScale(scaleRes.data || []);
+    } catch (error) {
+      console.error('Error fetching gradebook settings:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch gradebook settings",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const runChange = async (change: () => PromiseLike<{ error: unknown }>, failureMessage: string) => {
+    setSaving(true);
+    try {
+      const { error } = await change();
+      if (error) throw error;
+
+      fetchSettings();
+      onSuccess();
+      return true;
+    } catch (error) {
+      console.error('Error updating gradebook settings:', error);
+      toast({
+        title: "Error",
+        description: failureMessage,
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddCategory = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!subject) return;
+
+    const added = await runChange(
+      () => supabase.from('grade_categories').insert({
+        subject_id: subject.id,
+        name: categoryForm.name,
+        weight: categoryForm.weight,
+        drop_lowest: categoryForm.drop_lowest,
+        position: categories.length,
+      }),
+      "Failed to add category. Category names must be unique."
+    );
+    if (added) {
+      setCategoryForm({ name: '', weight: 0, drop_lowest: 0 });
+    }
+  };
+
+  const handleCategoryChange = (id: string, changes: Partial<GradeCategory>) => {
+    setCategories(categories.map(category => category.id === id ? { ...category, ...changes } : category));
+  };
+
+  const handleSaveCategory = (category: GradeCategory) =>
+    runChange(
+      () => supabase
+        .from('grade_categories')
+        .update({
+          name: category.name,
+          weight: category.weight,
+          drop_lowest: category.drop_lowest,
+        })
+        .eq('id', category.id),
+      "Failed to update category"
+    );
+
+  // Assignments of a deleted category become uncategorized
+  const handleDeleteCategory = (category: GradeCategory) =>
+    runChange(
+      () => supabase.from('grade_categories').delete().eq('id', category.id),
+      "Failed to delete category"
+    );
+
+  const handleAddLevel = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!subject) return;
+
+    const added = await runChange(
+      () => supabase.from('grade_scale_levels').insert({
+        subject_id: subject.id,
+        letter: levelForm.letter,
+        min_percentage: levelForm.min_percentage,
+      }),
+      "Failed to add grade. Letters and thresholds must be unique."
+    );
+    if (added) {
+      setLevelForm({ letter: '', min_percentage: 0 });
+    }
+  };
+
+  const handleDeleteLevel = (level: GradeScaleLevel) =>
+    runChange(
+      () => supabase.from('grade_scale_levels').delete().eq('id', level.id),
+      "Failed to delete grade"
+    );
+
+  const totalWeight = categories.reduce((sum, category) => sum + Number(category.weight), 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[650px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Gradebook Settings: {subject?.code} - {subject?.name}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* Categories */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold">Grade Categories</h3>
+              <Badge variant={totalWeight === 100 ? "default" : "secondary"}>
+                Total weight: {totalWeight}%
+              </Badge>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Weights are normalized over the categories that already have graded work.
+              Without categories the total is based on points. Uncategorized assignments
+              do not count once categories exist.
+            </p>
+
+            {categories.map((category) => (
+              <div key={category.id} className="grid grid-cols-12 gap-2 items-end">
+                <div className="col-span-5">
+                  <Label className="text-xs">Name</Label>
+                  <Input
+                    value={category.name}
+                    onChange={(e) => handleCategoryChange(category.id, { name: e.target.value })}
+                  />
+                </div>
+                <div className="col-span-2">
+                  <Label className="text-xs">Weight (%)</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={category.weight}
+                    onChange={(e) => handleCategoryChange(category.id, { weight: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+                <div className="col-span-3">
+                  <Label className="text-xs">Drop lowest</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    value={category.drop_lowest}
+                    onChange={(e) => handleCategoryChange(category.id, { drop_lowest: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+                <div className="col-span-2 flex gap-1">
+                  <Button variant="outline" size="sm" disabled={saving} onClick={() => handleSaveCategory(category)}>
+                    <Save className="h-4 w-4" />
+                  </Button>
+                  <Button variant="outline" size="sm" disabled={saving} onClick={() => handleDeleteCategory(category)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+
+            <form onSubmit={handleAddCategory} className="grid grid-cols-12 gap-2 items-end border-t pt-3">
+              <div className="col-span-5">
+                <Label htmlFor="category-name" className="text-xs">New category</Label>
+                <Input
+                  id="category-name"
+                  value={categoryForm.name}
+                  onChange={(e) => setCategoryForm({ ...categoryForm, name: e.target.value })}
+                  placeholder="e.g., Homework"
+                  required
+                />
+              </div>
+              <div className="col-span-2">
+                <Label htmlFor="category-weight" className="text-xs">Weight (%)</Label>
+                <Input
+                  id="category-weight"
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={categoryForm.weight}
+                  onChange={(e) => setCategoryForm({ ...categoryForm, weight: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="col-span-3">
+                <Label htmlFor="category-drop" className="text-xs">Drop lowest</Label>
+                <Input
+                  id="category-drop"
+                  type="number"
+                  min="0"
+                  value={categoryForm.drop_lowest}
+                  onChange={(e) => setCategoryForm({ ...categoryForm, drop_lowest: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="col-span-2">
+                <Button type="submit" size="sm" disabled={saving || !categoryForm.name}>
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+            </form>
+          </div>
+
+          {/* Letter grade scale */}
+          <div className="space-y-3 border-t pt-4">
+            <h3 className="font-semibold">Letter Grade Scale</h3>
+            {scale.length === 0 ? (
+              <p className="text-xs text-muted-foreground">
+                Using the default scale: {DEFAULT_GRADE_SCALE.map(level => `${level.letter} ≥ ${level.min_percentage}%`).join(', ')}.
+                Add your own levels to replace it, including one at 0%.
+              </p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {scale.map((level) => (
+                  <div key={level.id} className="flex items-center gap-2 p-2 rounded-lg border">
+                    <span className="font-medium">{level.letter}</span>
+                    <span className="text-sm text-muted-foreground">≥ {level.min_percentage}%</span>
+                    <Button variant="ghost" size="sm" disabled={saving} onClick={() => handleDeleteLevel(level)}>
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <form onSubmit={handleAddLevel} className="grid grid-cols-12 gap-2 items-end">
+              <div className="col-span-5">
+                <Label htmlFor="level-letter" className="text-xs">Letter</Label>
+                <Input
+                  id="level-letter"
+                  value={levelForm.letter}
+                  onChange={(e) => setLevelForm({ ...levelForm, letter: e.target.value })}
+                  placeholder="e.g., A-"
+                  required
+                />
+              </div>
+              <div className="col-span-5">
+                <Label htmlFor="level-min" className="text-xs">Minimum (%)</Label>
+                <Input
+                  id="level-min"
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  value={levelForm.min_percentage}
+                  onChange={(e) => setLevelForm({ ...levelForm, min_percentage: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="col-span-2">
+                <Button type="submit" size="sm" disabled={saving || !levelForm.letter}>
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+            </form>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,233 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BookOpen, Settings } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { fetchManagedSubjects, GRADEBOOK_SETUP_ROLES, GRADING_ROLES, ManagedSubject } from "@/lib/subject-staff";
+import {
+  fetchGradebook,
+  fetchGradeCategories,
+  formatPercentage,
+  getCategoryPercentage,
+  GradebookRow,
+  GradeCategory,
+} from "@/lib/gradebook";
+import { GradebookSettingsDialog } from "./GradebookSettingsDialog";
+
+interface Student {
+  id: string;
+  email: string;
+  first_name: string | null;
+  last_name: string | null;
+}
+
+export const ProfessorGradebook = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [subjects, setSubjects] = useState<ManagedSubject[]>([]);
+  const [selectedSubject, setSelectedSubject] = useState<string>("");
+  const [categories, setCategories] = useState<GradeCategory[]>([]);
+  const [rows, setRows] = useState<GradebookRow[]>([]);
+  const [students, setStudents] = useState<Record<string, Student>>({});
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (user) {
+      fetchSubjects();
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (selectedSubject) {
+      fetchSubjectGradebook();
+    }
+  }, [selectedSubject]);
+
+  const fetchSubjects = async () => {
+    if (!user) return;
+
+    try {
+      const data = await fetchManagedSubjects(user.id, GRADING_ROLES);
+      setSubjects(data);
+      if (data.length > 0) {
+        setSelectedSubject(data[0].id);
+      }
+    } catch (error) {
+      console.error('Error fetching subjects:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchSubjectGradebook = async () => {
+    try {
+      const [categoryData, gradebookData, enrollmentRes] = await Promise.all([
+        fetchGradeCategories(selectedSubject),
+        fetchGradebook(selectedSubject),
+        supabase
+          .from('enrollments')
+          .select('profiles!inner(id, email, first_name, last_name)')
+          .eq('subject_id', selectedSubject)
+          .eq('is_active', true),
+      ]);
+
+      if (enrollmentRes.error) throw enrollmentRes.error;
+
+      const studentMap: Record<string, Student> = {};
+      (enrollmentRes.data || []).forEach(({ profiles }) => {
+        studentMap[profiles.id] = profiles;
+      });
+
+      setCategories(categoryData);
+      setStudents(studentMap);
+      setRows(gradebookData);
+    } catch (error) {
+      console.error('Error fetching gradebook:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch gradebook",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const getStudentName = (studentId: string) => {
+    const student = students[studentId];
+    if (!student) return 'Unknown student';
+    if (student.first_name || student.last_name) {
+      return `${student.first_name ?? ''} ${student.last_name ?? ''}`.trim();
+    }
+    return student.email;
+  };
+
+  const subject = subjects.find(s => s.id === selectedSubject) || null;
+  const canEditSettings = subject
+    ? subject.staff_role === null || GRADEBOOK_SETUP_ROLES.includes(subject.staff_role)
+    : false;
+  const sortedRows = [...rows].sort((a, b) => getStudentName(a.student_id).localeCompare(getStudentName(b.student_id)));
+
+  if (loading) {
+    return <div>Loading gradebook...</div>;
+  }
+
+  if (subjects.length === 0) {
+    return (
+      <Card>
+        <CardContent className="p-6 text-center">
+          <BookOpen className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+          <p className="text-muted-foreground">No subjects to show a gradebook for.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col lg:flex-row gap-4 items-start lg:items-center justify-between">
+        <Select value={selectedSubject} onValueChange={setSelectedSubject}>
+          <SelectTrigger className="w-[300px]">
+            <SelectValue placeholder="Select a subject" />
+          </SelectTrigger>
+          <SelectContent>
+            {subjects.map((s) => (
+              <SelectItem key={s.id} value={s.id}>
+                {s.code} - {s.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {canEditSettings && (
+          <Button variant="outline" onClick={() => setSettingsOpen(true)}>
+            <Settings className="h-4 w-4 mr-2" />
+            Categories & Scale
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            Gradebook
+            {categories.length > 0 ? (
+              <div className="flex flex-wrap gap-1">
+                {categories.map((category) => (
+                  <Badge key={category.id} variant="outline" className="text-xs">
+                    {category.name} {category.weight}%
+                    {category.drop_lowest > 0 && ` (drop ${category.drop_lowest})`}
+                  </Badge>
+                ))}
+              </div>
+            ) : (
+              <Badge variant="secondary" className="text-xs">Points based</Badge>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2 font-medium text-muted-foreground">Student</th>
+                  {categories.map((category) => (
+                    <th key={category.id} className="text-left p-2 font-medium text-muted-foreground">
+                      {category.name}
+                    </th>
+                  ))}
+                  <th className="text-left p-2 font-medium text-muted-foreground">Total</th>
+                  <th className="text-left p-2 font-medium text-muted-foreground">Grade</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sortedRows.map((row) => (
+                  <tr key={row.student_id} className="border-b hover:bg-muted/50">
+                    <td className="p-2">
+                      <div className="font-medium text-foreground">{getStudentName(row.student_id)}</div>
+                      <div className="text-sm text-muted-foreground">{students[row.student_id]?.email}</div>
+                    </td>
+                    {categories.map((category) => (
+                      <td key={category.id} className="p-2 text-muted-foreground">
+                        {formatPercentage(getCategoryPercentage(
+                          row.categories.find(score => score.category_id === category.id)
+                        ))}
+                      </td>
+                    ))}
+                    <td className="p-2 font-medium">{formatPercentage(row.total_percentage)}</td>
+                    <td className="p-2">
+                      {row.letter_grade ? (
+                        <Badge variant="default">{row.letter_grade}</Badge>
+                      ) : (
+                        <span className="text-muted-foreground">-</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {sortedRows.length === 0 && (
+              <div className="text-center py-8 text-muted-foreground">
+                No students enrolled in this subject.
+              </div>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground mt-4">
+            Running totals only include graded work.
+          </p>
+        </CardContent>
+      </Card>
+
+      <GradebookSettingsDialog
+        open={settingsOpen}
+        onOpenChange={setSettingsOpen}
+        subject={subject}
+        onSuccess={fetchSubjectGradebook}
+      />
+    </div>
+  );
+};
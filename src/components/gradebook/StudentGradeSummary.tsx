@@ -0,0 +1,74 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { Badge } from "@/components/ui/badge";
+import {
+  fetchGradebook,
+  fetchGradeCategories,
+  formatPercentage,
+  getCategoryPercentage,
+  GradebookRow,
+  GradeCategory,
+} from "@/lib/gradebook";
+
+interface StudentGradeSummaryProps {
+  subjectId: string;
+}
+
+// Running grade of the signed in student for one subject
+export const StudentGradeSummary = ({ subjectId }: StudentGradeSummaryProps) => {
+  const { user } = useAuth();
+  const [row, setRow] = useState<GradebookRow | null>(null);
+  const [categories, setCategories] = useState<GradeCategory[]>([]);
+
+  useEffect(() => {
+    if (user) {
+      fetchGrade();
+    }
+  }, [user, subjectId]);
+
+  const fetchGrade = async () => {
+    try {
+      const [gradebookData, categoryData] = await Promise.all([
+        fetchGradebook(subjectId),
+        fetchGradeCategories(subjectId),
+      ]);
+
+      setRow(gradebookData.find(r => r.student_id === user?.id) || null);
+      setCategories(categoryData);
+    } catch (error) {
+      console.error('Error fetching grade:', error);
+    }
+  };
+
+  if (!row || row.total_percentage === null) {
+    return (
+      <p className="text-sm text-muted-foreground">No graded work yet</p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">Current grade</span>
+        <div className="flex items-center gap-2">
+          <span className="text-sm">{formatPercentage(row.total_percentage)}</span>
+          {row.letter_grade && <Badge variant="default">{row.letter_grade}</Badge>}
+        </div>
+      </div>
+      {categories.length > 0 && (
+        <div className="space-y-1">
+          {categories.map((category) => (
+            <div key={category.id} className="flex justify-between text-xs text-muted-foreground">
+              <span>{category.name} ({category.weight}%)</span>
+              <span>
+                {formatPercentage(getCategoryPercentage(
+                  row.categories.find(score => score.category_id === category.id)
+                ))}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -11,11 +11,26 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { FileText, Download, Eye, Users, Clock, CheckCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { fetchManagedSubjects, GRADING_ROLES } from "@/lib/subject-staff";
+import { calculateRubricGrade, fetchRubric, Rubric, RubricCriterion, RubricLevel } from "@/lib/rubrics";
+import { RubricGrid } from "@/components/rubrics/RubricGrid";
+import { AttemptScoringPolicy } from "@/lib/attempts";
+import { SubmissionHistory } from "./SubmissionHistory";
+import { Checkbox } from "@/components/ui/checkbox";
+import { formatLateness } from "@/lib/late-policy";
+import { AssignmentKind } from "@/lib/quizzes";
+import { QuizAttemptReview } from "@/components/quizzes/QuizAttemptReview";
+import { FilePreview } from "@/components/preview/FilePreview";
+import { SubmissionAnnotator } from "@/components/annotations/SubmissionAnnotator";
+import { getPreviewKind } from "@/lib/file-preview";
 
 interface Assignment {
   id: string;
   title: string;
   max_points: number;
+  rubric_id: string | null;
+  attempt_scoring: AttemptScoringPolicy;
+  kind: AssignmentKind;
   subject: {
     name: string;
     code: string;
@@ -31,9 +46,15 @@ interface Submission {
   file_name: string;
   file_path: string;
   grade: number;
+  raw_grade: number | null;
   feedback: string;
   is_late: boolean;
+  minutes_late: number;
+  late_penalty_percentage: number;
   graded_at: string;
+  graded_by: string | null;
+  attempt_number: number;
+  is_counted: boolean;
   student: {
     first_name: string;
     last_name: string;
@@ -45,26 +66,50 @@ interface Submission {
 export const GradingInterface = () => {
   const { user } = useAuth();
   const { toast } = useToast();
+  const [subjectIds, setSubjectIds] = useState<string[] | null>(null);
   const [assignments, setAssignments] = useState<Assignment[]>([]);
   const [submissions, setSubmissions] = useState<Submission[]>([]);
   const [selectedAssignment, setSelectedAssignment] = useState<string>("all");
   const [selectedSubmission, setSelectedSubmission] = useState<Submission | null>(null);
   const [gradeDialogOpen, setGradeDialogOpen] = useState(false);
-  const [gradeForm, setGradeForm] = useState({ grade: "", feedback: "" });
+  const [gradeForm, setGradeForm] = useState({ grade: "", feedback: "", waivePenalty: false });
+  const [rubric, setRubric] = useState<Rubric | null>(null);
+  const [rubricLevels, setRubricLevels] = useState<Record<string, string | null>>({});
+  const [rubricPoints, setRubricPoints] = useState<Record<string, number>>({});
+  const [rubricComments, setRubricComments] = useState<Record<string, string>>({});
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     if (user) {
+      fetchGradableSubjects();
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (subjectIds) {
       fetchAssignments();
       fetchSubmissions();
     }
-  }, [user]);
+  }, [subjectIds]);
 
   useEffect(() => {
-    if (user && selectedAssignment !== "all") {
+    if (subjectIds && selectedAssignment !== "all") {
       fetchSubmissions();
     }
-  }, [selectedAssignment, user]);
+  }, [selectedAssignment, subjectIds]);
+
+  // Subjects the user owns or grades for as co-instructor, TA or grader
+  const fetchGradableSubjects = async () => {
+    if (!user) return;
+
+    try {
+      const subjects = await fetchManagedSubjects(user.id, GRADING_ROLES);
+      setSubjectIds(subjects.map(subject => subject.id));
+    } catch (error) {
+      console.error('Error fetching subjects:', error);
+      setLoading(false);
+    }
+  };
 
   const fetchAssignments = async () => {
     try {
@@ -76,7 +121,7 @@ export const GradingInterface = () => {
           max_points,
           subjects!inner(name, code)
         `)
-        .eq('professor_id', user?.id)
+        .in('subject_id', subjectIds || [])
         .eq('is_active', true);
 
       if (error) throw error;
@@ -105,11 +150,11 @@ export const GradingInterface = () => {
           *,
           profiles!inner(first_name, last_name, email),
           assignments!inner(
-            id, title, max_points,
+            id, title, max_points, rubric_id, attempt_scoring, kind,
             subjects!inner(name, code, professor_id)
           )
         `)
-        .eq('assignments.subjects.professor_id', user?.id)
+        .in('assignments.subject_id', subjectIds || [])
         .order('submitted_at', { ascending: false });
 
       if (selectedAssignment !== "all") {
@@ -145,10 +190,122 @@ export const GradingInterface = () => {
   const handleGradeSubmission = (submission: Submission) => {
     setSelectedSubmission(submission);
     setGradeForm({
-      grade: submission.grade?.toString() || "",
+      grade: (submission.raw_grade ?? submission.grade)?.toString() || "",
       feedback: submission.feedback || "",
+      waivePenalty: false,
     });
+    setRubric(null);
+    setRubricLevels({});
+    setRubricPoints({});
+    setRubricComments({});
     setGradeDialogOpen(true);
+
+    if (submission.assignment.rubric_id) {
+      fetchRubricGrading(submission);
+    }
+  };
+
+  // Load the assignment's rubric and any scores already recorded for this submission
+  const fetchRubricGrading = async (submission: Submission) => {
+    try {
+      const [rubricData, scoresRes] = await Promise.all([
+        fetchRubric(submission.assignment.rubric_id as string),
+        supabase
+          .from('submission_rubric_scores')
+          .select('*')
+          .eq('submission_id', submission.id),
+      ]);
+
+      if (scoresRes.error) throw scoresRes.error;
+
+      const levels: Record<string, string | null> = {};
+      const points: Record<string, number> = {};
+      const comments: Record<string, string> = {};
+      (scoresRes.data || []).forEach(score => {
+        levels[score.criterion_id] = score.level_id;
+        points[score.criterion_id] = Number(score.points);
+        comments[score.criterion_id] = score.comment || '';
+      });
+
+      setRubric(rubricData);
+      setRubricLevels(levels);
+      setRubricPoints(points);
+      setRubricComments(comments);
+    } catch (error) {
+      console.error('Error fetching rubric:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the rubric",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // All attempts of the same student for the same assignment
+  const getAttempts = (submission: Submission) =>
+    submissions.filter(s => s.assignment_id === submission.assignment_id && s.student_id === submission.student_id);
+
+  const handleOpenAttempt = (attemptId: string) => {
+    const attempt = submissions.find(s => s.id === attemptId);
+    if (attempt) {
+      handleGradeSubmission(attempt);
+    }
+  };
+
+  const handleChooseAttempt = async (attemptId: string) => {
+    try {
+      const { error } = await supabase.rpc('choose_counted_attempt', { _submission_id: attemptId });
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Counted attempt updated",
+      });
+
+      fetchSubmissions();
+    } catch (error) {
+      console.error('Error choosing attempt:', error);
+      toast({
+        title: "Error",
+        description: "Failed to choose the counted attempt",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSelectRubricLevel = (criterion: RubricCriterion, level: RubricLevel) => {
+    if (!rubric || !selectedSubmission) return;
+
+    const points = { ...rubricPoints, [criterion.id]: Number(level.points) };
+    setRubricLevels({ ...rubricLevels, [criterion.id]: level.id });
+    setRubricPoints(points);
+    setGradeForm({
+      ...gradeForm,
+      grade: calculateRubricGrade(rubric, points, selectedSubmission.assignment.max_points).toString(),
+    });
+  };
+
+  const saveRubricScores = async (submission: Submission) => {
+    if (!rubric) return;
+
+    const scores = rubric.criteria
+      .filter(criterion => rubricLevels[criterion.id] || rubricComments[criterion.id])
+      .map(criterion => ({
+        submission_id: submission.id,
+        criterion_id: criterion.id,
+        level_id: rubricLevels[criterion.id] ?? null,
+        points: rubricPoints[criterion.id] ?? 0,
+        comment: rubricComments[criterion.id] || null,
+        graded_by: user?.id,
+      }));
+
+    if (scores.length === 0) return;
+
+    const { error } = await supabase
+      .from('submission_rubric_scores')
+      .upsert(scores, { onConflict: 'submission_id,criterion_id' });
+
+    if (error) throw error;
   };
 
   const handleSaveGrade = async () => {
@@ -165,10 +322,14 @@ export const GradingInterface = () => {
         return;
       }
 
+      await saveRubricScores(selectedSubmission);
+
       const { error } = await supabase
         .from('assignment_submissions')
         .update({
-          grade: grade,
+          // The late penalty is applied to the raw grade by the database
+          raw_grade: grade,
+          ...(gradeForm.waivePenalty && { late_penalty_percentage: 0 }),
           feedback: gradeForm.feedback,
           graded_at: new Date().toISOString(),
           graded_by: user?.id,
@@ -230,15 +391,26 @@ export const GradingInterface = () => {
     });
   };
 
+  // Only the latest attempt of each student is listed; older attempts open from its history
+  const latestSubmissions = submissions.filter(submission =>
+    !submissions.some(other =>
+      other.assignment_id === submission.assignment_id &&
+      other.student_id === submission.student_id &&
+      other.attempt_number > submission.attempt_number
+    )
+  );
+
   const getSubmissionStats = () => {
-    const total = submissions.length;
-    const graded = submissions.filter(s => s.grade !== null).length;
+    const total = latestSubmissions.length;
+    const graded = latestSubmissions.filter(s => s.grade !== null).length;
     const pending = total - graded;
     
     return { total, graded, pending };
   };
 
   const stats = getSubmissionStats();
+  // Files that render in the browser open next to the grading form
+  const hasPreview = !!selectedSubmission?.file_path && !!getPreviewKind(selectedSubmission.file_name);
 
   if (loading) {
     return <div>Loading grading interface...</div>;
@@ -285,7 +457,7 @@ export const GradingInterface = () => {
       </div>
 
       {/* Submissions List */}
-      {submissions.length === 0 ? (
+      {latestSubmissions.length === 0 ? (
         <Card>
           <CardContent className="p-6 text-center">
             <FileText className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
@@ -294,7 +466,7 @@ export const GradingInterface = () => {
         </Card>
       ) : (
         <div className="grid gap-4">
-          {submissions.map((submission) => (
+          {latestSubmissions.map((submission) => (
             <Card key={submission.id}>
               <CardHeader>
                 <div className="flex justify-between items-start">
@@ -307,12 +479,21 @@ export const GradingInterface = () => {
                       <Badge variant="secondary">
                         {submission.assignment.subject.code} - {submission.assignment.title}
                       </Badge>
+                      {submission.assignment.kind === 'quiz' && (
+                        <Badge variant="outline">
+                          Quiz{submission.graded_at && !submission.graded_by && ' · auto-graded'}
+                        </Badge>
+                      )}
+                      {submission.attempt_number > 1 && (
+                        <Badge variant="outline">Attempt {submission.attempt_number}</Badge>
+                      )}
                       {submission.is_late && (
                         <Badge variant="destructive">Late</Badge>
                       )}
                       {submission.grade !== null ? (
                         <Badge variant="default">
                           Graded: {submission.grade}/{submission.assignment.max_points}
+                          {submission.raw_grade !== null && submission.raw_grade !== submission.grade && ` (raw ${submission.raw_grade})`}
                         </Badge>
                       ) : (
                         <Badge variant="outline">Pending Grade</Badge>
@@ -371,66 +552,143 @@ export const GradingInterface = () => {
 
       {/* Grading Dialog */}
       <Dialog open={gradeDialogOpen} onOpenChange={setGradeDialogOpen}>
-        <DialogContent className="sm:max-w-[500px]">
+        <DialogContent className={`${hasPreview ? "sm:max-w-[1400px]" : "sm:max-w-[750px]"} max-h-[90vh] overflow-y-auto`}>
           <DialogHeader>
             <DialogTitle>
               Grade Submission: {selectedSubmission?.assignment.title}
             </DialogTitle>
           </DialogHeader>
           {selectedSubmission && (
-            <div className="space-y-4">
-              <div className="bg-muted p-4 rounded-lg">
-                <h4 className="font-semibold mb-2">
-                  {selectedSubmission.student.first_name} {selectedSubmission.student.last_name}
-                </h4>
-                <p className="text-sm text-muted-foreground mb-2">
-                  Submitted: {formatDate(selectedSubmission.submitted_at)}
-                </p>
-                {selectedSubmission.submitted_text && (
-                  <div className="mb-2">
-                    <strong className="text-sm">Text Submission:</strong>
-                    <p className="text-sm mt-1">{selectedSubmission.submitted_text}</p>
+            <div className={hasPreview ? "grid gap-6 lg:grid-cols-2" : ""}>
+              {hasPreview && (
+                <div className="space-y-2 lg:sticky lg:top-0 self-start">
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm font-medium">{selectedSubmission.file_name}</span>
+                    <Button variant="outline" size="sm" onClick={() => handleDownloadFile(selectedSubmission)}>
+                      <Download className="h-4 w-4" />
+                    </Button>
                   </div>
-                )}
-                {selectedSubmission.file_name && (
-                  <p className="text-sm">
-                    <strong>File:</strong> {selectedSubmission.file_name}
+                  {getPreviewKind(selectedSubmission.file_name) === 'pdf' ? (
+                    <SubmissionAnnotator
+                      submissionId={selectedSubmission.id}
+                      filePath={selectedSubmission.file_path}
+                      editable
+                    />
+                  ) : (
+                    <FilePreview
+                      bucket="assignment-submissions"
+                      filePath={selectedSubmission.file_path}
+                      fileName={selectedSubmission.file_name}
+                    />
+                  )}
+                </div>
+              )}
+              <div className="space-y-4">
+                <div className="bg-muted p-4 rounded-lg">
+                  <h4 className="font-semibold mb-2">
+                    {selectedSubmission.student.first_name} {selectedSubmission.student.last_name}
+                  </h4>
+                  <p className="text-sm text-muted-foreground mb-2">
+                    Submitted: {formatDate(selectedSubmission.submitted_at)}
                   </p>
+                  {selectedSubmission.submitted_text && (
+                    <div className="mb-2">
+                      <strong className="text-sm">Text Submission:</strong>
+                      <p className="text-sm mt-1">{selectedSubmission.submitted_text}</p>
+                    </div>
+                  )}
+                  {selectedSubmission.file_name && (
+                    <p className="text-sm">
+                      <strong>File:</strong> {selectedSubmission.file_name}
+                    </p>
+                  )}
+                </div>
+
+                {getAttempts(selectedSubmission).length > 1 && (
+                  <SubmissionHistory
+                    attempts={getAttempts(selectedSubmission)}
+                    selectedId={selectedSubmission.id}
+                    scoring={selectedSubmission.assignment.attempt_scoring}
+                    maxPoints={selectedSubmission.assignment.max_points}
+                    onSelect={handleOpenAttempt}
+                    onChoose={handleChooseAttempt}
+                  />
                 )}
-              </div>
 
-              <div>
-                <Label htmlFor="grade">
-                  Grade (0 - {selectedSubmission.assignment.max_points})
-                </Label>
-                <Input
-                  id="grade"
-                  type="number"
-                  min="0"
-                  max={selectedSubmission.assignment.max_points}
-                  value={gradeForm.grade}
-                  onChange={(e) => setGradeForm({ ...gradeForm, grade: e.target.value })}
-                />
-              </div>
+                {selectedSubmission.assignment.kind === 'quiz' && (
+                  <QuizAttemptReview submissionId={selectedSubmission.id} />
+                )}
 
-              <div>
-                <Label htmlFor="feedback">Feedback (Optional)</Label>
-                <Textarea
-                  id="feedback"
-                  value={gradeForm.feedback}
-                  onChange={(e) => setGradeForm({ ...gradeForm, feedback: e.target.value })}
-                  rows={4}
-                  placeholder="Provide feedback for the student..."
-                />
-              </div>
+                {rubric && (
+                  <RubricGrid
+                    rubric={rubric}
+                    selectedLevels={rubricLevels}
+                    comments={rubricComments}
+                    onSelectLevel={handleSelectRubricLevel}
+                    onCommentChange={(criterion, comment) => setRubricComments({ ...rubricComments, [criterion.id]: comment })}
+                  />
+                )}
+
+                <div>
+                  <Label htmlFor="grade">
+                    Grade (0 - {selectedSubmission.assignment.max_points})
+                  </Label>
+                  <Input
+                    id="grade"
+                    type="number"
+                    min="0"
+                    max={selectedSubmission.assignment.max_points}
+                    value={gradeForm.grade}
+                    onChange={(e) => setGradeForm({ ...gradeForm, grade: e.target.value })}
+                  />
+                </div>
 
-              <div className="flex gap-2 justify-end">
-                <Button variant="outline" onClick={() => setGradeDialogOpen(false)}>
-                  Cancel
-                </Button>
-                <Button onClick={handleSaveGrade}>
-                  Save Grade
-                </Button>
+                {selectedSubmission.is_late && (
+                  <div className="rounded-lg border border-destructive/20 bg-destructive/10 p-3 space-y-2">
+                    <p className="text-sm text-destructive">
+                      Submitted {formatLateness(selectedSubmission.minutes_late)} late
+                      {Number(selectedSubmission.late_penalty_percentage) > 0 && ` · ${Number(selectedSubmission.late_penalty_percentage)}% penalty`}
+                    </p>
+                    {Number(selectedSubmission.late_penalty_percentage) > 0 && (
+                      <>
+                        <p className="text-sm">
+                          Adjusted grade: {gradeForm.grade === "" ? '-' : gradeForm.waivePenalty
+                            ? parseInt(gradeForm.grade)
+                            : Math.round(parseInt(gradeForm.grade) * (100 - Number(selectedSubmission.late_penalty_percentage)) / 100)}
+                          /{selectedSubmission.assignment.max_points}
+                        </p>
+                        <div className="flex items-center space-x-2">
+                          <Checkbox
+                            id="waive-penalty"
+                            checked={gradeForm.waivePenalty}
+                            onCheckedChange={(checked) => setGradeForm({ ...gradeForm, waivePenalty: checked === true })}
+                          />
+                          <Label htmlFor="waive-penalty" className="text-sm">Waive late penalty</Label>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                )}
+
+                <div>
+                  <Label htmlFor="feedback">Feedback (Optional)</Label>
+                  <Textarea
+                    id="feedback"
+                    value={gradeForm.feedback}
+                    onChange={(e) => setGradeForm({ ...gradeForm, feedback: e.target.value })}
+                    rows={4}
+                    placeholder="Provide feedback for the student..."
+                  />
+                </div>
+
+                <div className="flex gap-2 justify-end">
+                  <Button variant="outline" onClick={() => setGradeDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button onClick={handleSaveGrade}>
+                    Save Grade
+                  </Button>
+                </div>
               </div>
             </div>
           )}
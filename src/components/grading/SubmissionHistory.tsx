@@ -0,0 +1,103 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { diffLines } from "@/lib/text-diff";
+import { AttemptScoringPolicy, ATTEMPT_SCORING_LABELS } from "@/lib/attempts";
+
+interface Attempt {
+  id: string;
+  attempt_number: number;
+  is_counted: boolean;
+  submitted_at: string;
+  submitted_text: string | null;
+  file_name: string | null;
+  grade: number | null;
+}
+
+interface SubmissionHistoryProps {
+  attempts: Attempt[];
+  selectedId: string;
+  scoring: AttemptScoringPolicy;
+  maxPoints: number;
+  onSelect: (attemptId: string) => void;
+  onChoose: (attemptId: string) => void;
+}
+
+export const SubmissionHistory = ({ attempts, selectedId, scoring, maxPoints, onSelect, onChoose }: SubmissionHistoryProps) => {
+  const sorted = [...attempts].sort((a, b) => a.attempt_number - b.attempt_number);
+  const selectedIndex = sorted.findIndex(attempt => attempt.id === selectedId);
+  const selected = sorted[selectedIndex];
+  const previous = selectedIndex > 0 ? sorted[selectedIndex - 1] : null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <h4 className="font-semibold">Attempts</h4>
+        <span className="text-xs text-muted-foreground">Counts: {ATTEMPT_SCORING_LABELS[scoring]}</span>
+      </div>
+
+      <div className="space-y-1">
+        {sorted.map((attempt) => (
+          <div
+            key={attempt.id}
+            className={cn(
+              "flex items-center justify-between p-2 rounded-md border text-sm",
+              attempt.id === selectedId && "border-primary bg-primary/5"
+            )}
+          >
+            <div className="flex items-center gap-2">
+              <span className="font-medium">Attempt {attempt.attempt_number}</span>
+              <span className="text-muted-foreground">{new Date(attempt.submitted_at).toLocaleString()}</span>
+              {attempt.is_counted && <Badge variant="default" className="text-xs">Counted</Badge>}
+              {attempt.grade !== null && (
+                <Badge variant="outline" className="text-xs">{attempt.grade}/{maxPoints}</Badge>
+              )}
+            </div>
+            <div className="flex gap-1">
+              {attempt.id !== selectedId && (
+                <Button variant="ghost" size="sm" onClick={() => onSelect(attempt.id)}>
+                  Open
+                </Button>
+              )}
+              {scoring === 'chosen' && !attempt.is_counted && (
+                <Button variant="outline" size="sm" onClick={() => onChoose(attempt.id)}>
+                  Count this
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {selected && previous && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">
+            Changes since attempt {previous.attempt_number}
+          </p>
+          {previous.file_name !== selected.file_name && (
+            <p className="text-xs text-muted-foreground">
+              File: {previous.file_name || 'none'} → {selected.file_name || 'none'}
+            </p>
+          )}
+          {(previous.submitted_text || selected.submitted_text) ? (
+            <pre className="text-xs bg-muted p-2 rounded max-h-48 overflow-auto whitespace-pre-wrap">
+              {diffLines(previous.submitted_text || '', selected.submitted_text || '').map((line, index) => (
+                <div
+                  key={index}
+                  className={cn(
+                    line.type === 'added' && "bg-green-500/15 text-green-700",
+                    line.type === 'removed' && "bg-red-500/15 text-red-700 line-through"
+                  )}
+                >
+                  {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}
+                </div>
+              ))}
+            </pre>
+          ) : (
+            <p className="text-xs text-muted-foreground">No text in either attempt.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,232 @@
+import { useState, useEffect } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { useToast } from "@/hooks/use-toast";
+import { ManagedSubject } from "@/lib/subject-staff";
+import {
+  fetchInactiveStudents,
+  fetchMaterialAccessTrend,
+  fetchMaterialReach,
+  getReachPercentage,
+  InactiveStudent,
+  MaterialAccessDay,
+  MaterialReach,
+  TREND_PERIODS,
+} from "@/lib/material-analytics";
+
+interface MaterialAnalyticsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  subjects: ManagedSubject[];
+  materials: { id: string; title: string; subject_id: string }[];
+}
+
+const chartConfig = {
+  views: { label: "Views", color: "hsl(var(--primary))" },
+  downloads: { label: "Downloads", color: "hsl(var(--muted-foreground))" },
+} satisfies ChartConfig;
+
+export const MaterialAnalyticsDialog = ({ open, onOpenChange, subjects, materials }: MaterialAnalyticsDialogProps) => {
+  const { toast } = useToast();
+  const [subjectId, setSubjectId] = useState('');
+  const [period, setPeriod] = useState(30);
+  const [reach, setReach] = useState<Record<string, MaterialReach>>({});
+  const [inactiveStudents, setInactiveStudents] = useState<InactiveStudent[]>([]);
+  const [trend, setTrend] = useState<MaterialAccessDay[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (open && subjects.length > 0 && !subjects.some(subject => subject.id === subjectId)) {
+      setSubjectId(subjects[0].id);
+    }
+  }, [open, subjects]);
+
+  useEffect(() => {
+    if (open && subjectId) {
+      fetchAnalytics();
+    }
+  }, [open, subjectId, period]);
+
+  const fetchAnalytics = async () => {
+    setLoading(true);
+    try {
+      const [reachData, inactiveData, trendData] = await Promise.all([
+        fetchMaterialReach(subjectId),
+        fetchInactiveStudents(subjectId),
+        fetchMaterialAccessTrend(subjectId, period),
+      ]);
+      setReach(reachData);
+      setInactiveStudents(inactiveData);
+      setTrend(trendData);
+    } catch (error) {
+      console.error('Error fetching material analytics:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch material analytics",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Least used materials first, since those are the ones worth a closer look
+  const subjectMaterials = materials
+    .filter(material => material.subject_id === subjectId)
+    .sort((a, b) => getReachPercentage(reach[a.id]) - getReachPercentage(reach[b.id]));
+
+  const enrolledStudents = Object.values(reach)[0]?.enrolled_students ?? 0;
+  const averageReach = subjectMaterials.length > 0
+    ? Math.round(subjectMaterials.reduce((sum, material) => sum + getReachPercentage(reach[material.id]), 0) / subjectMaterials.length)
+    : 0;
+  const totalViews = trend.reduce((sum, day) => sum + day.views, 0);
+  const totalDownloads = trend.reduce((sum, day) => sum + day.downloads, 0);
+
+  const formatDay = (day: string) =>
+    new Date(`${day}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Material Analytics</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-2">
+          <Select value={subjectId} onValueChange={setSubjectId}>
+            <SelectTrigger className="w-[300px]">
+              <SelectValue placeholder="Select a subject" />
+            </SelectTrigger>
+            <SelectContent>
+              {subjects.map((subject) => (
+                <SelectItem key={subject.id} value={subject.id}>
+                  {subject.code} - {subject.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={period.toString()} onValueChange={(value) => setPeriod(parseInt(value))}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TREND_PERIODS.map((days) => (
+                <SelectItem key={days} value={days.toString()}>
+                  Last {days} days
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {loading ? (
+          <div>Loading analytics...</div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid gap-4 sm:grid-cols-4">
+              <div className="rounded-lg border p-3">
+                <div className="text-sm text-muted-foreground">Enrolled students</div>
+                <div className="text-2xl font-semibold">{enrolledStudents}</div>
+              </div>
+              <div className="rounded-lg border p-3">
+                <div className="text-sm text-muted-foreground">Average reach</div>
+                <div className="text-2xl font-semibold">{averageReach}%</div>
+              </div>
+              <div className="rounded-lg border p-3">
+                <div className="text-sm text-muted-foreground">Views ({period} days)</div>
+                <div className="text-2xl font-semibold">{totalViews}</div>
+              </div>
+              <div className="rounded-lg border p-3">
+                <div className="text-sm text-muted-foreground">Downloads ({period} days)</div>
+                <div className="text-2xl font-semibold">{totalDownloads}</div>
+              </div>
+            </div>
+
+            <div>
+              <h4 className="font-medium mb-2">Activity over time</h4>
+              <ChartContainer config={chartConfig} className="h-[220px] w-full">
+                <BarChart data={trend}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="day" tickFormatter={formatDay} tickLine={false} axisLine={false} minTickGap={24} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={(day) => formatDay(day as string)} />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="views" stackId="access" fill="var(--color-views)" />
+                  <Bar dataKey="downloads" stackId="access" fill="var(--color-downloads)" radius={[2, 2, 0, 0]} />
+                </BarChart>
+              </ChartContainer>
+            </div>
+
+            <div>
+              <h4 className="font-medium mb-2">Reach per material</h4>
+              {subjectMaterials.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No materials in this subject yet.</p>
+              ) : (
+                <div className="space-y-3">
+                  {subjectMaterials.map((material) => {
+                    const stats = reach[material.id];
+                    const percentage = getReachPercentage(stats);
+
+                    return (
+                      <div key={material.id} className="space-y-1">
+                        <div className="flex justify-between gap-4 text-sm">
+                          <span className="font-medium">{material.title}</span>
+                          <span className="text-muted-foreground shrink-0">
+                            {stats?.reached_students ?? 0} of {stats?.enrolled_students ?? enrolledStudents} students ({percentage}%)
+                          </span>
+                        </div>
+                        <Progress value={percentage} />
+                        <div className="text-xs text-muted-foreground">
+                          {stats?.viewed_students ?? 0} viewed, {stats?.downloaded_students ?? 0} downloaded
+                          {stats?.last_accessed_at && ` · last opened ${formatDate(stats.last_accessed_at)}`}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+
+            <div>
+              <h4 className="font-medium mb-2 flex items-center gap-2">
+                Students who never opened anything
+                <Badge variant="secondary">{inactiveStudents.length}</Badge>
+              </h4>
+              {inactiveStudents.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Every enrolled student has opened at least one material.</p>
+              ) : (
+                <div className="rounded-lg border divide-y">
+                  {inactiveStudents.map((student) => (
+                    <div key={student.student_id} className="flex justify-between items-center gap-4 p-2 text-sm">
+                      <div>
+                        <div className="font-medium">{student.first_name} {student.last_name}</div>
+                        <div className="text-muted-foreground">{student.email}</div>
+                      </div>
+                      {student.enrolled_at && (
+                        <span className="text-muted-foreground shrink-0">Enrolled {formatDate(student.enrolled_at)}</span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,79 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Download } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { fetchMaterialVersions, MaterialVersion } from "@/lib/material-versions";
+
+interface MaterialVersionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  material: { id: string; title: string; version: number } | null;
+  onDownload: (version: MaterialVersion) => void;
+}
+
+// Version history of a material with change notes, shared by the professor and student views
+export const MaterialVersionsDialog = ({ open, onOpenChange, material, onDownload }: MaterialVersionsDialogProps) => {
+  const { toast } = useToast();
+  const [versions, setVersions] = useState<MaterialVersion[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (open && material) {
+      fetchVersions();
+    }
+  }, [open, material?.id, material?.version]);
+
+  const fetchVersions = async () => {
+    if (!material) return;
+
+    setLoading(true);
+    try {
+      setVersions(await fetchMaterialVersions(material.id));
+    } catch (error) {
+      console.error('Error fetching material versions:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load version history",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Version History</DialogTitle>
+          <DialogDescription>{material?.title}</DialogDescription>
+        </DialogHeader>
+        {loading ? (
+          <div>Loading versions...</div>
+        ) : (
+          <div className="space-y-3">
+            {versions.map((version) => (
+              <div key={version.id} className="flex justify-between items-start gap-4 rounded-lg border p-3">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">Version {version.version}</span>
+                    {version.version === material?.version && <Badge variant="secondary">Current</Badge>}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {version.file_name} · {new Date(version.created_at).toLocaleString()}
+                  </p>
+                  {version.change_note && <p className="text-sm">{version.change_note}</p>}
+                </div>
+                <Button variant="outline" size="sm" onClick={() => onDownload(version)}>
+                  <Download className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -4,9 +4,23 @@ import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Plus, FileText, Download, Trash2 } from "lucide-react";
+import { Plus, FileText, Download, Trash2, ListTree, Eye, History, FileUp, BookOpen, BarChart3 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { UploadMaterialDialog } from "./UploadMaterialDialog";
+import { fetchManagedSubjects, ManagedSubject, UPLOAD_ROLES } from "@/lib/subject-staff";
+import { useTerms } from "@/hooks/useTerms";
+import { TermSelect } from "@/components/terms/TermSelect";
+import { ALL_TERMS, filterByTerm } from "@/lib/terms";
+import { ManageModulesDialog } from "@/components/modules/ManageModulesDialog";
+import { CourseModule, fetchModules } from "@/lib/modules";
+import { PublishScheduleDialog } from "@/components/publishing/PublishScheduleDialog";
+import { PublishStateBadge } from "@/components/publishing/PublishStateBadge";
+import { ReplaceMaterialDialog } from "./ReplaceMaterialDialog";
+import { MaterialVersionsDialog } from "./MaterialVersionsDialog";
+import { MaterialAnalyticsDialog } from "./MaterialAnalyticsDialog";
+import { FilePreviewDialog } from "@/components/preview/FilePreviewDialog";
+import { getPreviewKind } from "@/lib/file-preview";
+import { downloadMaterialFile, MaterialVersion } from "@/lib/material-versions";
 
 interface Material {
   id: string;
@@ -18,6 +32,12 @@ interface Material {
   file_type: string;
   topic: string;
   subject_id: string;
+  module_id: string | null;
+  professor_id: string;
+  publish_at: string | null;
+  unpublish_at: string | null;
+  version: number;
+  change_note: string | null;
   created_at: string;
   subject?: {
     name: string;
@@ -25,28 +45,30 @@ interface Material {
   };
 }
 
-interface Subject {
-  id: string;
-  name: string;
-  code: string;
-}
-
 export const ProfessorMaterials = () => {
   const { user } = useAuth();
   const { toast } = useToast();
   const [materials, setMaterials] = useState<Material[]>([]);
-  const [subjects, setSubjects] = useState<Subject[]>([]);
+  const [subjects, setSubjects] = useState<ManagedSubject[]>([]);
   const [loading, setLoading] = useState(true);
   const [uploadDialogOpen, setUploadDialogOpen] = useState(false);
+  const [modulesDialogOpen, setModulesDialogOpen] = useState(false);
+  const [analyticsDialogOpen, setAnalyticsDialogOpen] = useState(false);
+  const [modules, setModules] = useState<CourseModule[]>([]);
+  const [scheduledMaterial, setScheduledMaterial] = useState<Material | null>(null);
+  const [replacedMaterial, setReplacedMaterial] = useState<Material | null>(null);
+  const [historyMaterial, setHistoryMaterial] = useState<Material | null>(null);
+  const [previewMaterial, setPreviewMaterial] = useState<Material | null>(null);
+  const { terms, isArchived } = useTerms();
+  const [selectedTerm, setSelectedTerm] = useState<string>(ALL_TERMS);
 
   useEffect(() => {
     if (user) {
-      fetchMaterials();
       fetchSubjects();
     }
   }, [user]);
 
-  const fetchMaterials = async () => {
+  const fetchMaterials = async (managedSubjects: ManagedSubject[] = subjects) => {
     try {
       const { data, error } = await supabase
         .from('study_materials')
@@ -54,12 +76,13 @@ export const ProfessorMaterials = () => {
           *,
           subjects!inner(name, code)
         `)
-        .eq('professor_id', user?.id)
+        .in('subject_id', managedSubjects.map(subject => subject.id))
         .eq('is_active', true)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
       setMaterials(data || []);
+      setModules(await fetchModules(managedSubjects.map(subject => subject.id)));
     } catch (error) {
       console.error('Error fetching materials:', error);
       toast({
@@ -72,35 +95,37 @@ export const ProfessorMaterials = () => {
     }
   };
 
+  // Subjects the user owns or may upload to as co-instructor or TA
   const fetchSubjects = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('subjects')
-        .select('id, name, code')
-        .eq('professor_id', user?.id)
-        .eq('is_active', true);
+    if (!user) return;
 
-      if (error) throw error;
-      setSubjects(data || []);
+    try {
+      const data = await fetchManagedSubjects(user.id, UPLOAD_ROLES);
+      setSubjects(data);
+      fetchMaterials(data);
     } catch (error) {
       console.error('Error fetching subjects:', error);
+      setLoading(false);
     }
   };
 
-  const handleDownload = async (material: Material) => {
-    try {
-      const { data, error } = await supabase.storage
-        .from('study-materials')
-        .download(material.file_path);
+  const getSubjectTermId = (subjectId: string) =>
+    subjects.find(subject => subject.id === subjectId)?.term_id;
 
-      if (error) throw error;
+  // Only the subject owner may delete materials, and not once the term is archived
+  const canDelete = (material: Material) =>
+    subjects.some(subject => subject.id === material.subject_id && subject.staff_role === null) &&
+    !isArchived(getSubjectTermId(material.subject_id));
+
+  // Owners manage every material; co-instructors and TAs only their own uploads
+  const canEdit = (material: Material) =>
+    (material.professor_id === user?.id ||
+      subjects.some(subject => subject.id === material.subject_id && subject.staff_role === null)) &&
+    !isArchived(getSubjectTermId(material.subject_id));
 
-      const url = URL.createObjectURL(data);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = material.file_name;
-      a.click();
-      URL.revokeObjectURL(url);
+  const handleDownload = async (file: Material | MaterialVersion) => {
+    try {
+      await downloadMaterialFile(file.file_path, file.file_name);
     } catch (error) {
       console.error('Error downloading file:', error);
       toast({
@@ -111,9 +136,9 @@ export const ProfessorMaterials = () => {
     }
   };
 
+  // Files are kept in storage so the version and download history stay intact
   const handleDelete = async (material: Material) => {
     try {
-      // Delete from database
       const { error: dbError } = await supabase
         .from('study_materials')
         .update({ is_active: false })
@@ -121,13 +146,6 @@ export const ProfessorMaterials = () => {
 
       if (dbError) throw dbError;
 
-      // Delete from storage
-      const { error: storageError } = await supabase.storage
-        .from('study-materials')
-        .remove([material.file_path]);
-
-      if (storageError) throw storageError;
-
       toast({
         title: "Success",
         description: "Material deleted successfully",
@@ -156,17 +174,30 @@ export const ProfessorMaterials = () => {
     return <div>Loading materials...</div>;
   }
 
+  const visibleMaterials = filterByTerm(materials, selectedTerm, material => getSubjectTermId(material.subject_id));
+
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h2 className="text-2xl font-semibold">My Study Materials</h2>
-        <Button onClick={() => setUploadDialogOpen(true)}>
-          <Plus className="h-4 w-4 mr-2" />
-          Upload Material
-        </Button>
+        <div className="flex gap-2">
+          <TermSelect terms={terms} value={selectedTerm} onValueChange={setSelectedTerm} />
+          <Button variant="outline" onClick={() => setModulesDialogOpen(true)}>
+            <ListTree className="h-4 w-4 mr-2" />
+            Modules
+          </Button>
+          <Button variant="outline" onClick={() => setAnalyticsDialogOpen(true)}>
+            <BarChart3 className="h-4 w-4 mr-2" />
+            Analytics
+          </Button>
+          <Button onClick={() => setUploadDialogOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Upload Material
+          </Button>
+        </div>
       </div>
 
-      {materials.length === 0 ? (
+      {visibleMaterials.length === 0 ? (
         <Card>
           <CardContent className="p-6 text-center">
             <FileText className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
@@ -178,7 +209,7 @@ export const ProfessorMaterials = () => {
         </Card>
       ) : (
         <div className="grid gap-4">
-          {materials.map((material) => (
+          {visibleMaterials.map((material) => (
             <Card key={material.id}>
               <CardHeader>
                 <div className="flex justify-between items-start">
@@ -188,12 +219,31 @@ export const ProfessorMaterials = () => {
                       <Badge variant="secondary">
                         {material.subject?.code} - {material.subject?.name}
                       </Badge>
+                      {material.module_id && (
+                        <Badge variant="outline">
+                          {modules.find(module => module.id === material.module_id)?.title}
+                        </Badge>
+                      )}
                       {material.topic && (
                         <Badge variant="outline">{material.topic}</Badge>
                       )}
+                      {material.version > 1 && (
+                        <Badge variant="outline">Version {material.version}</Badge>
+                      )}
+                      <PublishStateBadge item={material} />
                     </div>
                   </div>
                   <div className="flex gap-2">
+                    {getPreviewKind(material.file_name, material.file_type) && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        title="Preview"
+                        onClick={() => setPreviewMaterial(material)}
+                      >
+                        <BookOpen className="h-4 w-4" />
+                      </Button>
+                    )}
                     <Button
                       variant="outline"
                       size="sm"
@@ -201,18 +251,55 @@ export const ProfessorMaterials = () => {
                     >
                       <Download className="h-4 w-4" />
                     </Button>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => handleDelete(material)}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
+                    {material.version > 1 && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        title="Version history"
+                        onClick={() => setHistoryMaterial(material)}
+                      >
+                        <History className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {canEdit(material) && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        title="Upload new version"
+                        onClick={() => setReplacedMaterial(material)}
+                      >
+                        <FileUp className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {canEdit(material) && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        title="Publishing schedule"
+                        onClick={() => setScheduledMaterial(material)}
+                      >
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {canDelete(material) && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDelete(material)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
                   </div>
                 </div>
               </CardHeader>
               <CardContent>
                 <p className="text-muted-foreground mb-2">{material.description}</p>
+                {material.version > 1 && material.change_note && (
+                  <p className="text-sm mb-2">
+                    <span className="font-medium">Changes in version {material.version}:</span> {material.change_note}
+                  </p>
+                )}
                 <div className="flex justify-between text-sm text-muted-foreground">
                   <span>{material.file_name}</span>
                   <span>{formatFileSize(material.file_size)}</span>
@@ -226,8 +313,52 @@ export const ProfessorMaterials = () => {
       <UploadMaterialDialog
         open={uploadDialogOpen}
         onOpenChange={setUploadDialogOpen}
-        subjects={subjects}
-        onSuccess={fetchMaterials}
+        subjects={subjects.filter(subject => !isArchived(subject.term_id))}
+        onSuccess={() => fetchMaterials()}
+      />
+
+      <ManageModulesDialog
+        open={modulesDialogOpen}
+        onOpenChange={setModulesDialogOpen}
+        subjects={subjects.filter(subject => !isArchived(subject.term_id))}
+        onChange={() => fetchMaterials()}
+      />
+
+      <MaterialAnalyticsDialog
+        open={analyticsDialogOpen}
+        onOpenChange={setAnalyticsDialogOpen}
+        subjects={filterByTerm(subjects, selectedTerm, subject => subject.term_id)}
+        materials={materials}
+      />
+
+      <PublishScheduleDialog
+        open={!!scheduledMaterial}
+        onOpenChange={(open) => !open && setScheduledMaterial(null)}
+        table="study_materials"
+        item={scheduledMaterial}
+        onSuccess={() => fetchMaterials()}
+      />
+
+      <ReplaceMaterialDialog
+        open={!!replacedMaterial}
+        onOpenChange={(open) => !open && setReplacedMaterial(null)}
+        material={replacedMaterial}
+        onSuccess={() => fetchMaterials()}
+      />
+
+      <FilePreviewDialog
+        open={!!previewMaterial}
+        onOpenChange={(open) => !open && setPreviewMaterial(null)}
+        bucket="study-materials"
+        file={previewMaterial}
+        onDownload={() => previewMaterial && handleDownload(previewMaterial)}
+      />
+
+      <MaterialVersionsDialog
+        open={!!historyMaterial}
+        onOpenChange={(open) => !open && setHistoryMaterial(null)}
+        material={historyMaterial}
+        onDownload={handleDownload}
       />
     </div>
   );
@@ -0,0 +1,102 @@
+import { useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Upload } from "lucide-react";
+import { replaceMaterialFile } from "@/lib/material-versions";
+
+interface ReplaceMaterialDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  material: { id: string; title: string; version: number } | null;
+  onSuccess: () => void;
+}
+
+export const ReplaceMaterialDialog = ({ open, onOpenChange, material, onSuccess }: ReplaceMaterialDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  const [changeNote, setChangeNote] = useState('');
+  const [uploading, setUploading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file || !user || !material) return;
+
+    setUploading(true);
+
+    try {
+      await replaceMaterialFile(material.id, user.id, file, changeNote);
+
+      toast({
+        title: "Success",
+        description: `Uploaded version ${material.version + 1}`,
+      });
+
+      setFile(null);
+      setChangeNote('');
+      onOpenChange(false);
+      onSuccess();
+    } catch (error) {
+      console.error('Error replacing material:', error);
+      toast({
+        title: "Error",
+        description: "Failed to upload the new version",
+        variant: "destructive",
+      });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Upload New Version</DialogTitle>
+          <DialogDescription>
+            Replaces the file of {material?.title}. Earlier versions stay available in the version history,
+            and students who downloaded it are told that it changed.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="replace-file">File</Label>
+            <Input
+              id="replace-file"
+              type="file"
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+              required
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="change-note">What Changed (Optional)</Label>
+            <Textarea
+              id="change-note"
+              value={changeNote}
+              onChange={(e) => setChangeNote(e.target.value)}
+              placeholder="e.g. Fixed a typo in the second exercise"
+              rows={3}
+            />
+          </div>
+
+          <Button type="submit" disabled={uploading || !file}>
+            {uploading ? (
+              "Uploading..."
+            ) : (
+              <>
+                <Upload className="h-4 w-4 mr-2" />
+                Upload Version
+              </>
+            )}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -4,8 +4,24 @@ import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { FileText, Download } from "lucide-react";
+import { FileText, Download, History, Sparkles, BookOpen } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useTerms } from "@/hooks/useTerms";
+import { TermSelect } from "@/components/terms/TermSelect";
+import { ALL_TERMS, filterByTerm } from "@/lib/terms";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { CourseOutline } from "@/components/modules/CourseOutline";
+import { MaterialVersionsDialog } from "./MaterialVersionsDialog";
+import { FilePreviewDialog } from "@/components/preview/FilePreviewDialog";
+import { getPreviewKind } from "@/lib/file-preview";
+import {
+  downloadMaterialFile,
+  fetchMyDownloadedVersions,
+  hasNewVersion,
+  MaterialVersion,
+  recordMaterialDownload,
+  recordMaterialView,
+} from "@/lib/material-versions";
 
 interface Material {
   id: string;
@@ -16,10 +32,15 @@ interface Material {
   file_size: number;
   file_type: string;
   topic: string;
+  subject_id: string;
+  module_id: string | null;
+  version: number;
+  change_note: string | null;
   created_at: string;
   subjects: {
     name: string;
     code: string;
+    term_id: string | null;
   };
 }
 
@@ -28,6 +49,11 @@ export const StudentMaterials = () => {
   const { toast } = useToast();
   const [materials, setMaterials] = useState<Material[]>([]);
   const [loading, setLoading] = useState(true);
+  const [downloadedVersions, setDownloadedVersions] = useState<Record<string, number>>({});
+  const [historyMaterial, setHistoryMaterial] = useState<Material | null>(null);
+  const [previewMaterial, setPreviewMaterial] = useState<Material | null>(null);
+  const { terms } = useTerms();
+  const [selectedTerm, setSelectedTerm] = useState<string>(ALL_TERMS);
 
   useEffect(() => {
     if (user) {
@@ -41,13 +67,14 @@ export const StudentMaterials = () => {
         .from('study_materials')
         .select(`
           *,
-          subjects!inner(name, code)
+          subjects!inner(name, code, term_id)
         `)
         .eq('is_active', true)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
       setMaterials((data as any) || []);
+      setDownloadedVersions(await fetchMyDownloadedVersions(user.id));
     } catch (error) {
       console.error('Error fetching materials:', error);
       toast({
@@ -60,20 +87,16 @@ export const StudentMaterials = () => {
     }
   };
 
-  const handleDownload = async (material: Material) => {
+  const handleDownload = async (material: Material, version: MaterialVersion | Material = material) => {
     try {
-      const { data, error } = await supabase.storage
-        .from('study-materials')
-        .download(material.file_path);
-
-      if (error) throw error;
-
-      const url = URL.createObjectURL(data);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = material.file_name;
-      a.click();
-      URL.revokeObjectURL(url);
+      await downloadMaterialFile(version.file_path, version.file_name);
+      // The file is already saved, so a failed log entry is not worth an error toast
+      await recordMaterialDownload(material.id, version.version, user.id)
+        .catch(error => console.error('Error recording download:', error));
+      setDownloadedVersions({
+        ...downloadedVersions,
+        [material.id]: Math.max(downloadedVersions[material.id] ?? 0, version.version),
+      });
     } catch (error) {
       console.error('Error downloading file:', error);
       toast({
@@ -84,6 +107,13 @@ export const StudentMaterials = () => {
     }
   };
 
+  // Opening the preview counts as a view; like downloads, logging failures stay silent
+  const handlePreview = (material: Material) => {
+    setPreviewMaterial(material);
+    recordMaterialView(material.id, material.version, user.id)
+      .catch(error => console.error('Error recording view:', error));
+  };
+
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -96,55 +126,135 @@ export const StudentMaterials = () => {
     return <div>Loading materials...</div>;
   }
 
+  const visibleMaterials = filterByTerm(materials, selectedTerm, material => material.subjects.term_id);
+  const updatedCount = visibleMaterials.filter(material => hasNewVersion(material, downloadedVersions)).length;
+
   return (
     <div className="space-y-6">
-      <h2 className="text-2xl font-semibold">Available Study Materials</h2>
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-semibold">Available Study Materials</h2>
+        <TermSelect terms={terms} value={selectedTerm} onValueChange={setSelectedTerm} />
+      </div>
 
-      {materials.length === 0 ? (
-        <Card>
-          <CardContent className="p-6 text-center">
-            <FileText className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
-            <p className="text-muted-foreground">No materials available for your enrolled subjects.</p>
+      {updatedCount > 0 && (
+        <Card className="border-primary">
+          <CardContent className="p-4 flex items-center gap-2 text-sm">
+            <Sparkles className="h-4 w-4 text-primary" />
+            {updatedCount === 1
+              ? 'A material you downloaded has a new version.'
+              : `${updatedCount} materials you downloaded have new versions.`}
           </CardContent>
         </Card>
-      ) : (
-        <div className="grid gap-4">
-          {materials.map((material) => (
-            <Card key={material.id}>
-              <CardHeader>
-                <div className="flex justify-between items-start">
-                  <div>
-                    <CardTitle className="text-lg">{material.title}</CardTitle>
-                    <div className="flex gap-2 mt-2">
-                      <Badge variant="secondary">
-                        {material.subjects.code} - {material.subjects.name}
-                      </Badge>
-                      {material.topic && (
-                        <Badge variant="outline">{material.topic}</Badge>
-                      )}
-                    </div>
-                  </div>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => handleDownload(material)}
-                  >
-                    <Download className="h-4 w-4 mr-2" />
-                    Download
-                  </Button>
-                </div>
-              </CardHeader>
-              <CardContent>
-                <p className="text-muted-foreground mb-2">{material.description}</p>
-                <div className="flex justify-between text-sm text-muted-foreground">
-                  <span>{material.file_name}</span>
-                  <span>{formatFileSize(material.file_size)}</span>
-                </div>
+      )}
+
+      <Tabs defaultValue="outline" className="w-full">
+        <TabsList>
+          <TabsTrigger value="outline">Course Outline</TabsTrigger>
+          <TabsTrigger value="all">All Materials</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="outline" className="mt-4">
+          <CourseOutline
+            materials={visibleMaterials}
+            selectedTerm={selectedTerm}
+            onDownload={(material: Material) => handleDownload(material)}
+            onPreview={(material: Material) => handlePreview(material)}
+          />
+        </TabsContent>
+
+        <TabsContent value="all" className="mt-4">
+          {visibleMaterials.length === 0 ? (
+            <Card>
+              <CardContent className="p-6 text-center">
+                <FileText className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+                <p className="text-muted-foreground">No materials available for your enrolled subjects.</p>
               </CardContent>
             </Card>
-          ))}
-        </div>
-      )}
+          ) : (
+            <div className="grid gap-4">
+              {visibleMaterials.map((material) => (
+                <Card key={material.id}>
+                  <CardHeader>
+                    <div className="flex justify-between items-start">
+                      <div>
+                        <CardTitle className="text-lg">{material.title}</CardTitle>
+                        <div className="flex gap-2 mt-2">
+                          <Badge variant="secondary">
+                            {material.subjects.code} - {material.subjects.name}
+                          </Badge>
+                          {material.topic && (
+                            <Badge variant="outline">{material.topic}</Badge>
+                          )}
+                          {hasNewVersion(material, downloadedVersions) && (
+                            <Badge variant="default">New version</Badge>
+                          )}
+                        </div>
+                      </div>
+                      <div className="flex gap-2">
+                        {material.version > 1 && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            title="Version history"
+                            onClick={() => setHistoryMaterial(material)}
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {getPreviewKind(material.file_name, material.file_type) && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handlePreview(material)}
+                          >
+                            <BookOpen className="h-4 w-4 mr-2" />
+                            Preview
+                          </Button>
+                        )}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDownload(material)}
+                        >
+                          <Download className="h-4 w-4 mr-2" />
+                          Download
+                        </Button>
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <p className="text-muted-foreground mb-2">{material.description}</p>
+                    {material.version > 1 && material.change_note && (
+                      <p className="text-sm mb-2">
+                        <span className="font-medium">Changes in version {material.version}:</span> {material.change_note}
+                      </p>
+                    )}
+                    <div className="flex justify-between text-sm text-muted-foreground">
+                      <span>{material.file_name}</span>
+                      <span>{formatFileSize(material.file_size)}</span>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </TabsContent>
+      </Tabs>
+
+      <FilePreviewDialog
+        open={!!previewMaterial}
+        onOpenChange={(open) => !open && setPreviewMaterial(null)}
+        bucket="study-materials"
+        file={previewMaterial}
+        onDownload={() => previewMaterial && handleDownload(previewMaterial)}
+      />
+
+      <MaterialVersionsDialog
+        open={!!historyMaterial}
+        onOpenChange={(open) => !open && setHistoryMaterial(null)}
+        material={historyMaterial}
+        onDownload={(version) => historyMaterial && handleDownload(historyMaterial, version)}
+      />
     </div>
   );
 };
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
@@ -8,12 +8,17 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
+import { STAFF_ROLE_LABELS, SubjectStaffRole } from "@/lib/subject-staff";
 import { Upload } from "lucide-react";
+import { CourseModule, fetchModules } from "@/lib/modules";
+import { PublishWindowFields } from "@/components/publishing/PublishWindowFields";
+import { EMPTY_PUBLISH_WINDOW, fromPublishWindowInput, validatePublishWindow } from "@/lib/publishing";
 
 interface Subject {
   id: string;
   name: string;
   code: string;
+  staff_role?: SubjectStaffRole | null;
 }
 
 interface UploadMaterialDialogProps {
@@ -30,15 +35,38 @@ export const UploadMaterialDialog = ({ open, onOpenChange, subjects, onSuccess }
     title: '',
     description: '',
     subject_id: '',
+    module_id: '',
     topic: '',
   });
+  const [schedule, setSchedule] = useState(EMPTY_PUBLISH_WINDOW);
   const [file, setFile] = useState<File | null>(null);
   const [uploading, setUploading] = useState(false);
+  const [modules, setModules] = useState<CourseModule[]>([]);
+
+  useEffect(() => {
+    if (formData.subject_id) {
+      fetchModules([formData.subject_id])
+        .then(setModules)
+        .catch(error => console.error('Error fetching modules:', error));
+    } else {
+      setModules([]);
+    }
+  }, [formData.subject_id]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!file || !user) return;
 
+    const problem = validatePublishWindow(schedule);
+    if (problem) {
+      toast({
+        title: "Error",
+        description: problem,
+        variant: "destructive",
+      });
+      return;
+    }
+
     setUploading(true);
 
     try {
@@ -66,6 +94,8 @@ export const UploadMaterialDialog = ({ open, onOpenChange, subjects, onSuccess }
           file_size: file.size,
           file_type: file.type,
           topic: formData.topic,
+          module_id: formData.module_id || null,
+          ...fromPublishWindowInput(schedule),
         });
 
       if (dbError) throw dbError;
@@ -80,8 +110,10 @@ export const UploadMaterialDialog = ({ open, onOpenChange, subjects, onSuccess }
         title: '',
         description: '',
         subject_id: '',
+        module_id: '',
         topic: '',
       });
+      setSchedule(EMPTY_PUBLISH_WINDOW);
       setFile(null);
       onOpenChange(false);
       onSuccess();
@@ -126,7 +158,7 @@ export const UploadMaterialDialog = ({ open, onOpenChange, subjects, onSuccess }
 
           <div>
             <Label htmlFor="subject">Subject</Label>
-            <Select value={formData.subject_id} onValueChange={(value) => setFormData({ ...formData, subject_id: value })}>
+            <Select value={formData.subject_id} onValueChange={(value) => setFormData({ ...formData, subject_id: value, module_id: '' })}>
               <SelectTrigger>
                 <SelectValue placeholder="Select a subject" />
               </SelectTrigger>
@@ -134,12 +166,31 @@ export const UploadMaterialDialog = ({ open, onOpenChange, subjects, onSuccess }
                 {subjects.map((subject) => (
                   <SelectItem key={subject.id} value={subject.id}>
                     {subject.code} - {subject.name}
+                    {subject.staff_role && ` (${STAFF_ROLE_LABELS[subject.staff_role]})`}
                   </SelectItem>
                 ))}
               </SelectContent>
             </Select>
           </div>
 
+          {modules.length > 0 && (
+            <div>
+              <Label htmlFor="module">Module (Optional)</Label>
+              <Select value={formData.module_id} onValueChange={(value) => setFormData({ ...formData, module_id: value })}>
+                <SelectTrigger id="module">
+                  <SelectValue placeholder="Select a module" />
+                </SelectTrigger>
+                <SelectContent>
+                  {modules.map((module) => (
+                    <SelectItem key={module.id} value={module.id}>
+                      {module.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           <div>
             <Label htmlFor="topic">Topic (Optional)</Label>
             <Input
@@ -149,6 +200,8 @@ export const UploadMaterialDialog = ({ open, onOpenChange, subjects, onSuccess }
             />
           </div>
 
+          <PublishWindowFields value={schedule} onChange={setSchedule} idPrefix="material-publish" />
+
           <div>
             <Label htmlFor="file">File</Label>
             <Input
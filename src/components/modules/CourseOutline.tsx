@@ -0,0 +1,254 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { BookOpen, CheckCircle, ClipboardList, Download, FileText, Lock } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { CourseModule, describeModuleLock, fetchMyModuleProgress, ModuleProgress, setMaterialCompleted } from "@/lib/modules";
+import { filterByTerm } from "@/lib/terms";
+import { getPreviewKind } from "@/lib/file-preview";
+
+interface OutlineMaterial {
+  id: string;
+  title: string;
+  file_name: string;
+  file_type: string;
+  subject_id: string;
+  module_id: string | null;
+}
+
+interface OutlineModule extends CourseModule {
+  subjects: {
+    name: string;
+    code: string;
+    term_id: string | null;
+  };
+}
+
+interface OutlineAssignment {
+  id: string;
+  title: string;
+  kind: string;
+  due_date: string | null;
+  module_id: string | null;
+  assignment_submissions: { id: string }[];
+}
+
+interface CourseOutlineProps<T extends OutlineMaterial> {
+  materials: T[];
+  selectedTerm: string;
+  onDownload: (material: T) => void;
+  onPreview: (material: T) => void;
+}
+
+// Modules of the student's subjects in order, with what is done and what is still locked
+export const CourseOutline = <T extends OutlineMaterial>({ materials, selectedTerm, onDownload, onPreview }: CourseOutlineProps<T>) => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [modules, setModules] = useState<OutlineModule[]>([]);
+  const [progress, setProgress] = useState<Record<string, ModuleProgress>>({});
+  const [assignments, setAssignments] = useState<OutlineAssignment[]>([]);
+  const [completed, setCompleted] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (user) {
+      fetchOutline();
+    }
+  }, [user]);
+
+  const fetchOutline = async () => {
+    try {
+      const [modulesResult, assignmentsResult, completionsResult] = await Promise.all([
+        supabase
+          .from('course_modules')
+          .select('*, subjects!inner(name, code, term_id)')
+          .order('position')
+          .order('created_at'),
+        supabase
+          .from('assignments')
+          .select('id, title, kind, due_date, module_id, assignment_submissions(id)')
+          .not('module_id', 'is', null)
+          .eq('assignment_submissions.student_id', user?.id)
+          .eq('is_active', true),
+        supabase
+          .from('material_completions')
+          .select('material_id')
+          .eq('student_id', user?.id),
+      ]);
+
+      if (modulesResult.error) throw modulesResult.error;
+      if (assignmentsResult.error) throw assignmentsResult.error;
+      if (completionsResult.error) throw completionsResult.error;
+
+      const moduleData = (modulesResult.data as OutlineModule[]) || [];
+      const subjectIds = [...new Set(moduleData.map(module => module.subject_id))];
+      const progressData = await Promise.all(subjectIds.map(fetchMyModuleProgress));
+
+      setModules(moduleData);
+      setAssignments((assignmentsResult.data as OutlineAssignment[]) || []);
+      setCompleted(new Set((completionsResult.data || []).map(row => row.material_id)));
+      setProgress(Object.assign({}, ...progressData));
+    } catch (error) {
+      console.error('Error fetching course outline:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the course outline",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggleCompleted = async (material: T, done: boolean) => {
+    if (!user) return;
+
+    try {
+      await setMaterialCompleted(material.id, user.id, done);
+      // Completing a module can unlock the next one, so reload the whole outline
+      fetchOutline();
+    } catch (error) {
+      console.error('Error updating completion:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update progress",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading) {
+    return <div>Loading course outline...</div>;
+  }
+
+  const visibleModules = filterByTerm(modules, selectedTerm, module => module.subjects.term_id);
+  const subjectIds = [...new Set(visibleModules.map(module => module.subject_id))];
+
+  if (subjectIds.length === 0) {
+    return (
+      <Card>
+        <CardContent className="p-6 text-center">
+          <FileText className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+          <p className="text-muted-foreground">None of your subjects are organized into modules yet. Everything is listed under All Materials.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {subjectIds.map((subjectId) => {
+        const subjectModules = visibleModules.filter(module => module.subject_id === subjectId);
+        const subject = subjectModules[0].subjects;
+
+        return (
+          <Card key={subjectId}>
+            <CardHeader>
+              <CardTitle className="text-lg">{subject.code} - {subject.name}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {subjectModules.map((module, index) => {
+                const moduleProgress = progress[module.id];
+                const lockReason = moduleProgress?.is_unlocked === false
+                  ? describeModuleLock(module, subjectModules, moduleProgress) || 'Locked'
+                  : null;
+                const moduleMaterials = materials.filter(material => material.module_id === module.id);
+                const moduleAssignments = assignments.filter(assignment => assignment.module_id === module.id);
+
+                return (
+                  <div key={module.id} className={`rounded-lg border p-4 space-y-3 ${lockReason ? 'opacity-60' : ''}`}>
+                    <div className="flex justify-between items-start gap-4">
+                      <div>
+                        <div className="font-medium flex items-center gap-2">
+                          {lockReason && <Lock className="h-4 w-4" />}
+                          {index + 1}. {module.title}
+                        </div>
+                        {module.description && (
+                          <p className="text-sm text-muted-foreground mt-1">{module.description}</p>
+                        )}
+                      </div>
+                      {moduleProgress?.is_complete && moduleProgress.total_items > 0 ? (
+                        <Badge variant="default">
+                          <CheckCircle className="h-3 w-3 mr-1" />
+                          Completed
+                        </Badge>
+                      ) : lockReason ? (
+                        <Badge variant="outline">{lockReason}</Badge>
+                      ) : null}
+                    </div>
+
+                    {moduleProgress && moduleProgress.total_items > 0 && (
+                      <div className="flex items-center gap-3">
+                        <Progress value={(moduleProgress.completed_items / moduleProgress.total_items) * 100} className="h-2" />
+                        <span className="text-xs text-muted-foreground whitespace-nowrap">
+                          {moduleProgress.completed_items}/{moduleProgress.total_items} done
+                        </span>
+                      </div>
+                    )}
+
+                    {!lockReason && (
+                      <div className="space-y-2">
+                        {moduleMaterials.map((material) => (
+                          <div key={material.id} className="flex items-center justify-between text-sm">
+                            <div className="flex items-center gap-2">
+                              <Checkbox
+                                id={`done-${material.id}`}
+                                checked={completed.has(material.id)}
+                                onCheckedChange={(checked) => handleToggleCompleted(material, checked === true)}
+                              />
+                              <FileText className="h-4 w-4 text-muted-foreground" />
+                              <label htmlFor={`done-${material.id}`}>{material.title}</label>
+                            </div>
+                            <div className="flex">
+                              {getPreviewKind(material.file_name, material.file_type) && (
+                                <Button variant="ghost" size="sm" title="Preview" onClick={() => onPreview(material)}>
+                                  <BookOpen className="h-4 w-4" />
+                                </Button>
+                              )}
+                              <Button variant="ghost" size="sm" onClick={() => onDownload(material)}>
+                                <Download className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </div>
+                        ))}
+                        {moduleAssignments.map((assignment) => (
+                          <div key={assignment.id} className="flex items-center justify-between text-sm">
+                            <div className="flex items-center gap-2">
+                              <ClipboardList className="h-4 w-4 text-muted-foreground" />
+                              <span>{assignment.title}</span>
+                              {assignment.kind === 'quiz' && <Badge variant="outline">Quiz</Badge>}
+                              {assignment.assignment_submissions.length > 0 ? (
+                                <Badge variant="secondary">Submitted</Badge>
+                              ) : assignment.due_date && (
+                                <span className="text-muted-foreground">
+                                  Due {new Date(assignment.due_date).toLocaleDateString()}
+                                </span>
+                              )}
+                            </div>
+                            <Button variant="ghost" size="sm" onClick={() => navigate('/assignments')}>
+                              Open
+                            </Button>
+                          </div>
+                        ))}
+                        {moduleMaterials.length === 0 && moduleAssignments.length === 0 && (
+                          <p className="text-sm text-muted-foreground">Nothing in this module yet.</p>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
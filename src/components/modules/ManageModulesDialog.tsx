@@ -0,0 +1,389 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowDown, ArrowUp, ClipboardList, FileText, Pencil, Trash2, X } from "lucide-react";
+import { ManagedSubject } from "@/lib/subject-staff";
+import { CourseModule, fetchModuleCompletion, fetchModules, ModuleCompletion, saveModuleOrder } from "@/lib/modules";
+import { toDateTimeInputValue } from "@/lib/due-dates";
+
+interface ModuleItem {
+  id: string;
+  title: string;
+  module_id: string | null;
+  type: 'material' | 'assignment';
+}
+
+interface ManageModulesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  subjects: ManagedSubject[];
+  onChange: () => void;
+}
+
+// Select value for a module without a prerequisite
+const NO_PREREQUISITE = 'none';
+
+const EMPTY_FORM = {
+  id: '',
+  title: '',
+  description: '',
+  release_at: '',
+  prerequisite_module_id: NO_PREREQUISITE,
+};
+
+export const ManageModulesDialog = ({ open, onOpenChange, subjects, onChange }: ManageModulesDialogProps) => {
+  const { toast } = useToast();
+  const [subjectId, setSubjectId] = useState('');
+  const [modules, setModules] = useState<CourseModule[]>([]);
+  const [items, setItems] = useState<ModuleItem[]>([]);
+  const [completion, setCompletion] = useState<Record<string, ModuleCompletion>>({});
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open && !subjectId && subjects.length > 0) {
+      setSubjectId(subjects[0].id);
+    }
+  }, [open, subjects]);
+
+  useEffect(() => {
+    if (open && subjectId) {
+      fetchData();
+      setFormData(EMPTY_FORM);
+    }
+  }, [open, subjectId]);
+
+  const fetchData = async () => {
+    try {
+      const [moduleData, completionData, materialsResult, assignmentsResult] = await Promise.all([
+        fetchModules([subjectId]),
+        fetchModuleCompletion(subjectId),
+        supabase
+          .from('study_materials')
+          .select('id, title, module_id')
+          .eq('subject_id', subjectId)
+          .eq('is_active', true)
+          .order('created_at'),
+        supabase
+          .from('assignments')
+          .select('id, title, module_id')
+          .eq('subject_id', subjectId)
+          .eq('is_active', true)
+          .order('created_at'),
+      ]);
+
+      if (materialsResult.error) throw materialsResult.error;
+      if (assignmentsResult.error) throw assignmentsResult.error;
+
+      setModules(moduleData);
+      setCompletion(completionData);
+      setItems([
+        ...(materialsResult.data || []).map(item => ({ ...item, type: 'material' as const })),
+        ...(assignmentsResult.data || []).map(item => ({ ...item, type: 'assignment' as const })),
+      ]);
+    } catch (error) {
+      console.error('Error fetching modules:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch modules",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      const values = {
+        title: formData.title.trim(),
+        description: formData.description.trim() || null,
+        release_at: formData.release_at ? new Date(formData.release_at).toISOString() : null,
+        prerequisite_module_id: formData.prerequisite_module_id === NO_PREREQUISITE ? null : formData.prerequisite_module_id,
+      };
+
+      const { error } = formData.id
+        ? await supabase.from('course_modules').update(values).eq('id', formData.id)
+        : await supabase.from('course_modules').insert({ ...values, subject_id: subjectId, position: modules.length });
+
+      if (error) throw new Error(error.message);
+
+      toast({
+        title: "Success",
+        description: formData.id ? "Module updated" : "Module created",
+      });
+
+      setFormData(EMPTY_FORM);
+      fetchData();
+      onChange();
+    } catch (error) {
+      console.error('Error saving module:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save module",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEdit = (module: CourseModule) => {
+    setFormData({
+      id: module.id,
+      title: module.title,
+      description: module.description || '',
+      release_at: module.release_at ? toDateTimeInputValue(module.release_at) : '',
+      prerequisite_module_id: module.prerequisite_module_id || NO_PREREQUISITE,
+    });
+  };
+
+  const handleDelete = async (module: CourseModule) => {
+    try {
+      const { error } = await supabase.from('course_modules').delete().eq('id', module.id);
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `${module.title} deleted. Its materials and assignments are kept outside any module.`,
+      });
+
+      fetchData();
+      onChange();
+    } catch (error) {
+      console.error('Error deleting module:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete module",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const reordered = [...modules];
+    [reordered[index], reordered[index + direction]] = [reordered[index + direction], reordered[index]];
+    setModules(reordered);
+
+    try {
+      await saveModuleOrder(reordered);
+      onChange();
+    } catch (error) {
+      console.error('Error reordering modules:', error);
+      toast({
+        title: "Error",
+        description: "Failed to reorder modules",
+        variant: "destructive",
+      });
+      fetchData();
+    }
+  };
+
+  // Place an item in a module, or take it out with null
+  const handleAssign = async (item: ModuleItem, moduleId: string | null) => {
+    try {
+      const { error } = await supabase
+        .from(item.type === 'material' ? 'study_materials' : 'assignments')
+        .update({ module_id: moduleId })
+        .eq('id', item.id);
+
+      if (error) throw error;
+
+      fetchData();
+      onChange();
+    } catch (error) {
+      console.error('Error updating module items:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update module",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const unassignedItems = items.filter(item => !item.module_id);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Course Modules</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Select value={subjectId} onValueChange={setSubjectId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select a subject" />
+            </SelectTrigger>
+            <SelectContent>
+              {subjects.map((subject) => (
+                <SelectItem key={subject.id} value={subject.id}>
+                  {subject.code} - {subject.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {modules.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              No modules yet. Materials and assignments outside a module are always available.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {modules.map((module, index) => {
+                const moduleItems = items.filter(item => item.module_id === module.id);
+                const prerequisite = modules.find(other => other.id === module.prerequisite_module_id);
+                const stats = completion[module.id];
+
+                return (
+                  <div key={module.id} className="rounded-lg border p-3 space-y-2">
+                    <div className="flex justify-between items-start">
+                      <div>
+                        <div className="font-medium">{index + 1}. {module.title}</div>
+                        <div className="flex flex-wrap gap-2 mt-1">
+                          {module.release_at && (
+                            <Badge variant="outline">Opens {new Date(module.release_at).toLocaleString()}</Badge>
+                          )}
+                          {prerequisite && (
+                            <Badge variant="outline">After {prerequisite.title}</Badge>
+                          )}
+                          {stats && (
+                            <Badge variant="secondary">
+                              {stats.completed_students}/{stats.enrolled_students} students completed
+                            </Badge>
+                          )}
+                        </div>
+                      </div>
+                      <div className="flex gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => handleMove(index, -1)} disabled={index === 0}>
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleMove(index, 1)} disabled={index === modules.length - 1}>
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleEdit(module)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleDelete(module)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+
+                    {moduleItems.map((item) => (
+                      <div key={item.id} className="flex items-center justify-between text-sm pl-2">
+                        <span className="flex items-center gap-2">
+                          {item.type === 'material'
+                            ? <FileText className="h-4 w-4 text-muted-foreground" />
+                            : <ClipboardList className="h-4 w-4 text-muted-foreground" />}
+                          {item.title}
+                        </span>
+                        <Button variant="ghost" size="sm" onClick={() => handleAssign(item, null)}>
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+
+                    {unassignedItems.length > 0 && (
+                      <Select
+                        value=""
+                        onValueChange={(value) => {
+                          const item = unassignedItems.find(candidate => `${candidate.type}:${candidate.id}` === value);
+                          if (item) handleAssign(item, module.id);
+                        }}
+                      >
+                        <SelectTrigger className="h-8 text-sm">
+                          <SelectValue placeholder="Add a material or assignment..." />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {unassignedItems.map((item) => (
+                            <SelectItem key={`${item.type}:${item.id}`} value={`${item.type}:${item.id}`}>
+                              {item.type === 'material' ? 'Material' : 'Assignment'}: {item.title}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {subjectId && (
+            <form onSubmit={handleSave} className="space-y-3 rounded-lg border p-3">
+              <div className="font-medium">{formData.id ? 'Edit Module' : 'New Module'}</div>
+              <div>
+                <Label htmlFor="module-title">Title</Label>
+                <Input
+                  id="module-title"
+                  value={formData.title}
+                  onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                  placeholder="e.g., Week 1: Introduction"
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="module-description">Description</Label>
+                <Textarea
+                  id="module-description"
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  rows={2}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="module-release">Release Date (Optional)</Label>
+                  <Input
+                    id="module-release"
+                    type="datetime-local"
+                    value={formData.release_at}
+                    onChange={(e) => setFormData({ ...formData, release_at: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="module-prerequisite">Unlock After</Label>
+                  <Select
+                    value={formData.prerequisite_module_id}
+                    onValueChange={(value) => setFormData({ ...formData, prerequisite_module_id: value })}
+                  >
+                    <SelectTrigger id="module-prerequisite">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_PREREQUISITE}>No prerequisite</SelectItem>
+                      {modules.filter(module => module.id !== formData.id).map((module) => (
+                        <SelectItem key={module.id} value={module.id}>
+                          Completing {module.title}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="flex gap-2">
+                {formData.id && (
+                  <Button type="button" variant="outline" onClick={() => setFormData(EMPTY_FORM)}>
+                    Cancel
+                  </Button>
+                )}
+                <Button type="submit" disabled={saving}>
+                  {formData.id ? 'Save Module' : 'Add Module'}
+                </Button>
+              </div>
+            </form>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -11,6 +11,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import {
   Select,
   SelectContent,
@@ -19,6 +20,15 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { Plus, X } from "lucide-react";
+import { formatCurrency, LATE_FEE_PERIOD_LABELS, LateFeePeriod } from "@/lib/payment-utils";
+import {
+  createDue,
+  InstallmentInput,
+  splitEvenly,
+  toPaisa,
+  validateInstallments,
+} from "@/lib/installments";
 
 interface CreateDueDialogProps {
   open: boolean;
@@ -40,7 +50,7 @@ interface Subject {
 }
 
 export function CreateDueDialog({ open, onOpenChange, onDueCreated }: CreateDueDialogProps) {
-  const { user } = useAuth();
+  const { user, institution } = useAuth();
   const { toast } = useToast();
   const [loading, setLoading] = useState(false);
   const [students, setStudents] = useState<Student[]>([]);
@@ -53,14 +63,20 @@ export function CreateDueDialog({ open, onOpenChange, onDueCreated }: CreateDueD
     amount: '',
     due_date: '',
     late_fee_percentage: '5',
+    late_fee_period: 'once' as LateFeePeriod,
+    late_fee_flat: '',
+    late_fee_cap: '',
+    late_fee_grace_days: '0',
   });
+  const [useInstallments, setUseInstallments] = useState(false);
+  const [installments, setInstallments] = useState<InstallmentInput[]>([]);
 
   useEffect(() => {
-    if (open) {
+    if (open && institution) {
       fetchStudents();
       fetchSubjects();
     }
-  }, [open]);
+  }, [open, institution]);
 
   const fetchStudents = async () => {
     try {
@@ -68,6 +84,7 @@ export function CreateDueDialog({ open, onOpenChange, onDueCreated }: CreateDueD
         .from('profiles')
         .select('id, first_name, last_name, email')
         .eq('role', 'student')
+        .eq('institution_id', institution?.id)
         .order('first_name');
 
       if (error) throw error;
@@ -83,6 +100,7 @@ export function CreateDueDialog({ open, onOpenChange, onDueCreated }: CreateDueD
         .from('subjects')
         .select('id, name, code')
         .eq('professor_id', user?.id)
+        .eq('institution_id', institution?.id)
         .eq('is_active', true)
         .order('name');
 
@@ -93,10 +111,35 @@ export function CreateDueDialog({ open, onOpenChange, onDueCreated }: CreateDueD
     }
   };
 
+  const handleToggleInstallments = (enabled: boolean) => {
+    setUseInstallments(enabled);
+    if (enabled && installments.length === 0) {
+      const amount = formData.amount ? toPaisa(formData.amount) : 0;
+      setInstallments(amount > 0 && formData.due_date
+        ? splitEvenly(amount, 2, formData.due_date)
+        : [{ amount: '', due_date: '' }, { amount: '', due_date: '' }]);
+    }
+  };
+
+  const updateInstallment = (index: number, changes: Partial<InstallmentInput>) => {
+    setInstallments(installments.map((installment, i) => i === index ? { ...installment, ...changes } : installment));
+  };
+
+  const handleSplitEvenly = () => {
+    const amount = formData.amount ? toPaisa(formData.amount) : 0;
+    const firstDate = installments[0]?.due_date || formData.due_date;
+    if (amount > 0 && firstDate) {
+      setInstallments(splitEvenly(amount, installments.length, firstDate));
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    if (!formData.student_id || !formData.description || !formData.amount || !formData.due_date) {
+
+    // With a schedule the due date is the date of the last installment
+    const dueDate = useInstallments ? installments[installments.length - 1]?.due_date : formData.due_date;
+
+    if (!formData.student_id || !formData.description || !formData.amount || !dueDate) {
       toast({
         title: "Validation Error",
         description: "Please fill in all required fields",
@@ -105,21 +148,35 @@ export function CreateDueDialog({ open, onOpenChange, onDueCreated }: CreateDueD
       return;
     }
 
+    const amount = toPaisa(formData.amount);
+    const scheduleError = useInstallments ? validateInstallments(installments, amount) : null;
+    if (scheduleError) {
+      toast({
+        title: "Validation Error",
+        description: scheduleError,
+        variant: "destructive",
+      });
+      return;
+    }
+
     setLoading(true);
 
     try {
-      const { error } = await supabase
-        .from('student_dues')
-        .insert({
+      await createDue(
+        {
           student_id: formData.student_id,
           subject_id: formData.subject_id || null,
           description: formData.description,
-          amount: Math.round(parseFloat(formData.amount) * 100), // Convert to paisa
-          due_date: formData.due_date,
-          late_fee_percentage: parseFloat(formData.late_fee_percentage),
-        });
-
-      if (error) throw error;
+          amount, // In paisa
+          due_date: dueDate,
+          late_fee_percentage: parseFloat(formData.late_fee_percentage) || 0,
+          late_fee_period: formData.late_fee_period,
+          late_fee_flat: formData.late_fee_flat ? toPaisa(formData.late_fee_flat) : 0,
+          late_fee_cap: formData.late_fee_cap ? toPaisa(formData.late_fee_cap) : null,
+          late_fee_grace_days: parseInt(formData.late_fee_grace_days) || 0,
+        },
+        useInstallments ? installments : []
+      );
 
       onDueCreated();
       
@@ -131,7 +188,13 @@ export function CreateDueDialog({ open, onOpenChange, onDueCreated }: CreateDueD
         amount: '',
         due_date: '',
         late_fee_percentage: '5',
+        late_fee_period: 'once',
+        late_fee_flat: '',
+        late_fee_cap: '',
+        late_fee_grace_days: '0',
       });
+      setUseInstallments(false);
+      setInstallments([]);
       
     } catch (error) {
       console.error('Error creating due:', error);
@@ -202,18 +265,32 @@ export function CreateDueDialog({ open, onOpenChange, onDueCreated }: CreateDueD
             />
           </div>
 
-          <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="amount">Amount (₹) *</Label>
+            <Input
+              id="amount"
+              type="number"
+              step="0.01"
+              min="0"
+              placeholder="0.00"
+              value={formData.amount}
+              onChange={(e) => setFormData(prev => ({ ...prev, amount: e.target.value }))}
+              required
+            />
+          </div>
+
+          {/* Late fee: a flat charge plus a percentage of the amount, once or for every started period */}
+          <div className="grid grid-cols-3 gap-4">
             <div className="space-y-2">
-              <Label htmlFor="amount">Amount (₹) *</Label>
+              <Label htmlFor="late_fee_flat">Flat Late Fee (₹)</Label>
               <Input
-                id="amount"
+                id="late_fee_flat"
                 type="number"
                 step="0.01"
                 min="0"
                 placeholder="0.00"
-                value={formData.amount}
-                onChange={(e) => setFormData(prev => ({ ...prev, amount: e.target.value }))}
-                required
+                value={formData.late_fee_flat}
+                onChange={(e) => setFormData(prev => ({ ...prev, late_fee_flat: e.target.value }))}
               />
             </div>
 
@@ -229,19 +306,127 @@ export function CreateDueDialog({ open, onOpenChange, onDueCreated }: CreateDueD
                 onChange={(e) => setFormData(prev => ({ ...prev, late_fee_percentage: e.target.value }))}
               />
             </div>
+
+            <div className="space-y-2">
+              <Label>Charged</Label>
+              <Select
+                value={formData.late_fee_period}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, late_fee_period: value as LateFeePeriod }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(LATE_FEE_PERIOD_LABELS).map(([period, label]) => (
+                    <SelectItem key={period} value={period}>
+                      {label.charAt(0).toUpperCase() + label.slice(1)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="due_date">Due Date *</Label>
-            <Input
-              id="due_date"
-              type="date"
-              value={formData.due_date}
-              onChange={(e) => setFormData(prev => ({ ...prev, due_date: e.target.value }))}
-              required
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="late_fee_cap">Late Fee Cap (₹)</Label>
+              <Input
+                id="late_fee_cap"
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder="No cap"
+                value={formData.late_fee_cap}
+                onChange={(e) => setFormData(prev => ({ ...prev, late_fee_cap: e.target.value }))}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="late_fee_grace_days">Grace Period (days)</Label>
+              <Input
+                id="late_fee_grace_days"
+                type="number"
+                step="1"
+                min="0"
+                value={formData.late_fee_grace_days}
+                onChange={(e) => setFormData(prev => ({ ...prev, late_fee_grace_days: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="use_installments">Split into installments</Label>
+            <Switch
+              id="use_installments"
+              checked={useInstallments}
+              onCheckedChange={handleToggleInstallments}
             />
           </div>
 
+          {useInstallments ? (
+            <div className="space-y-2">
+              {installments.map((installment, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <span className="text-sm text-muted-foreground w-6">{index + 1}.</span>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    placeholder="Amount (₹)"
+                    value={installment.amount}
+                    onChange={(e) => updateInstallment(index, { amount: e.target.value })}
+                  />
+                  <Input
+                    type="date"
+                    value={installment.due_date}
+                    onChange={(e) => updateInstallment(index, { due_date: e.target.value })}
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    title="Remove installment"
+                    onClick={() => setInstallments(installments.filter((_, i) => i !== index))}
+                    disabled={installments.length <= 2}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <div className="flex justify-between items-center">
+                <div className="flex gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setInstallments([...installments, { amount: '', due_date: '' }])}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add
+                  </Button>
+                  <Button type="button" variant="outline" size="sm" onClick={handleSplitEvenly}>
+                    Split Evenly
+                  </Button>
+                </div>
+                <span className="text-sm text-muted-foreground">
+                  Scheduled {formatCurrency(installments.reduce((sum, installment) => sum + (installment.amount ? toPaisa(installment.amount) : 0), 0))}
+                  {formData.amount && ` of ${formatCurrency(toPaisa(formData.amount))}`}
+                </span>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="due_date">Due Date *</Label>
+              <Input
+                id="due_date"
+                type="date"
+                value={formData.due_date}
+                onChange={(e) => setFormData(prev => ({ ...prev, due_date: e.target.value }))}
+                required
+              />
+            </div>
+          )}
+
           <div className="flex gap-3">
             <Button 
               type="button"
@@ -0,0 +1,252 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ADJUSTMENT_KIND_LABELS,
+  ADJUSTMENT_STATUS_LABELS,
+  describeAdjustmentValue,
+  DueAdjustment,
+  DueAdjustmentKind,
+  fetchDueAdjustments,
+  requestDueAdjustment,
+  reviewDueAdjustment,
+} from "@/lib/due-adjustments";
+import { toPaisa } from "@/lib/installments";
+import { BadgePercent } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+
+interface DueAdjustmentsCardProps {
+  dueId: string;
+  // Shown to professors on open dues, who request adjustments and review each other's;
+  // students only see the approved entries
+  canApprove: boolean;
+  onAdjusted?: () => void;
+}
+
+export function DueAdjustmentsCard({ dueId, canApprove, onAdjusted }: DueAdjustmentsCardProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [adjustments, setAdjustments] = useState<DueAdjustment[]>([]);
+  const [kind, setKind] = useState<DueAdjustmentKind>('scholarship');
+  const [valueType, setValueType] = useState<'amount' | 'percentage'>('amount');
+  const [value, setValue] = useState('');
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadAdjustments();
+  }, [dueId]);
+
+  const loadAdjustments = async () => {
+    try {
+      setAdjustments(await fetchDueAdjustments(dueId));
+    } catch (error) {
+      console.error('Error fetching adjustments:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch adjustments",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const numericValue = parseFloat(value);
+    if (!numericValue || numericValue <= 0 || (valueType === 'percentage' && numericValue > 100) || !reason.trim()) {
+      toast({
+        title: "Error",
+        description: "Enter a valid amount or percentage and a reason",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await requestDueAdjustment({
+        due_id: dueId,
+        kind,
+        amount: valueType === 'amount' ? toPaisa(value) : null,
+        percentage: valueType === 'percentage' ? numericValue : null,
+        reason: reason.trim(),
+      });
+      toast({
+        title: "Success",
+        description: `${ADJUSTMENT_KIND_LABELS[kind]} sent for approval`,
+      });
+      setValue('');
+      setReason('');
+      await loadAdjustments();
+    } catch (error) {
+      console.error('Error requesting adjustment:', error);
+      toast({
+        title: "Error",
+        description: "Failed to request adjustment",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReview = async (adjustment: DueAdjustment, approve: boolean) => {
+    setReviewingId(adjustment.id);
+    try {
+      await reviewDueAdjustment(adjustment.id, approve);
+      toast({
+        title: "Success",
+        description: `${ADJUSTMENT_KIND_LABELS[adjustment.kind]} ${approve ? 'approved' : 'rejected'}`,
+      });
+      await loadAdjustments();
+      if (approve) onAdjusted?.();
+    } catch (error) {
+      console.error('Error reviewing adjustment:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to review adjustment",
+        variant: "destructive",
+      });
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  if (!canApprove && adjustments.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <BadgePercent className="h-5 w-5" />
+          Waivers & Discounts
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {adjustments.length > 0 ? (
+          <div className="space-y-3">
+            {adjustments.map((adjustment) => (
+              <div key={adjustment.id} className="flex items-start justify-between p-3 bg-muted/50 rounded-lg">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className="text-xs">
+                      {ADJUSTMENT_KIND_LABELS[adjustment.kind]}
+                    </Badge>
+                    <span className="font-medium">{describeAdjustmentValue(adjustment)}</span>
+                    {adjustment.status !== 'approved' && (
+                      <Badge variant={adjustment.status === 'rejected' ? 'destructive' : 'secondary'} className="text-xs">
+                        {ADJUSTMENT_STATUS_LABELS[adjustment.status]}
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="text-sm mt-1">{adjustment.reason}</div>
+                  {canApprove && adjustment.status === 'pending' && adjustment.requested_by !== user?.id && (
+                    <div className="flex gap-2 mt-2">
+                      <Button
+                        size="sm"
+                        disabled={reviewingId === adjustment.id}
+                        onClick={() => handleReview(adjustment, true)}
+                      >
+                        Approve
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={reviewingId === adjustment.id}
+                        onClick={() => handleReview(adjustment, false)}
+                      >
+                        Reject
+                      </Button>
+                    </div>
+                  )}
+                </div>
+                <div className="text-right text-xs text-muted-foreground">
+                  <div>
+                    Requested by {adjustment.requester?.first_name} {adjustment.requester?.last_name}
+                  </div>
+                  {adjustment.reviewer && (
+                    <div>
+                      {ADJUSTMENT_STATUS_LABELS[adjustment.status]} by {adjustment.reviewer.first_name} {adjustment.reviewer.last_name}
+                    </div>
+                  )}
+                  <div>{new Date(adjustment.created_at).toLocaleDateString()}</div>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No waivers or discounts on this due.</p>
+        )}
+
+        {canApprove && (
+          <form onSubmit={handleRequest} className="grid grid-cols-2 gap-4 items-end pt-4 border-t">
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={kind} onValueChange={(value) => setKind(value as DueAdjustmentKind)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(ADJUSTMENT_KIND_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="adjustment_value">
+                {valueType === 'amount' ? "Amount (₹)" : "Percentage (%)"}
+              </Label>
+              <div className="flex gap-2">
+                <Input
+                  id="adjustment_value"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  max={valueType === 'percentage' ? "100" : undefined}
+                  placeholder={valueType === 'amount' ? "0.00" : "0"}
+                  value={value}
+                  onChange={(e) => setValue(e.target.value)}
+                />
+                <Select value={valueType} onValueChange={(value) => setValueType(value as 'amount' | 'percentage')}>
+                  <SelectTrigger className="w-20">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="amount">₹</SelectItem>
+                    <SelectItem value="percentage">%</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="adjustment_reason">Reason *</Label>
+              <Input
+                id="adjustment_reason"
+                placeholder="e.g. Merit scholarship 2025"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+            <Button type="submit" className="col-span-2" disabled={saving}>
+              {saving ? "Requesting..." : "Request Adjustment"}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,3 +1,4 @@
+import { useState } from "react";
 import {
   Dialog,
   DialogContent,
@@ -6,17 +7,36 @@ import {
 } from "@/components/ui/dialog";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { formatCurrency, getStatusColor } from "@/lib/payment-utils";
-import { Calendar, User, BookOpen, Receipt, Clock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { describeLateFeeRule, formatCurrency, getStatusColor, LateFeeRule } from "@/lib/payment-utils";
+import {
+  getReversibleAmount,
+  PAYMENT_ENTRY_STATUS_LABELS,
+  PaymentEntryStatus,
+  PaymentReversal,
+  PaymentReversalKind,
+  recordCashPayment,
+  REVERSAL_KIND_LABELS,
+} from "@/lib/payment-gateway";
+import { DueInstallment } from "@/lib/installments";
+import { DueAdjustmentsCard } from "./DueAdjustmentsCard";
+import { PaymentReversalForm } from "./PaymentReversalForm";
+import { Calendar, User, BookOpen, Receipt, Clock, DollarSign } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
 
 interface PaymentDetailsDialogProps {
-  due: {
+  due: LateFeeRule & {
     id: string;
     description: string;
     amount: number;
     due_date: string;
     status: 'pending' | 'paid' | 'overdue' | 'failed';
-    late_fee_percentage: number;
+    late_fee: number;
+    discount: number;
+    // Net of refunds and other reversals
+    paid: number;
     created_at: string;
     student_id: string;
     subject_id?: string;
@@ -34,15 +54,90 @@ interface PaymentDetailsDialogProps {
       amount: number;
       payment_method: string;
       paid_at: string;
+      status: PaymentEntryStatus;
+      payment_reversals: PaymentReversal[];
     }>;
+    due_installments?: DueInstallment[];
   };
   open: boolean;
   onOpenChange: (open: boolean) => void;
+  onPaymentRecorded?: () => void;
+  onDueAdjusted?: () => void;
+  onPaymentReversed?: () => void;
 }
 
-export function PaymentDetailsDialog({ due, open, onOpenChange }: PaymentDetailsDialogProps) {
-  const totalPaid = due.payments.reduce((sum, payment) => sum + payment.amount, 0);
-  const remainingAmount = due.amount - totalPaid;
+export function PaymentDetailsDialog({
+  due,
+  open,
+  onOpenChange,
+  onPaymentRecorded,
+  onDueAdjusted,
+  onPaymentReversed,
+}: PaymentDetailsDialogProps) {
+  const { toast } = useToast();
+  const [cashAmount, setCashAmount] = useState('');
+  const [cashReference, setCashReference] = useState('');
+  const [recording, setRecording] = useState(false);
+  const [reversing, setReversing] = useState<{ paymentId: string; kind: PaymentReversalKind } | null>(null);
+
+  const totalPaid = due.paid;
+  const remainingAmount = due.amount - due.discount + due.late_fee - totalPaid;
+  // Discounts count towards installments the same way payments do
+  const totalCredited = totalPaid + due.discount;
+  const installments = [...(due.due_installments || [])].sort((a, b) => a.sequence - b.sequence);
+  const reversals = due.payments
+    .flatMap(payment => payment.payment_reversals)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+  // Which reversals staff can start on a payment; voided and charged back payments are final
+  const getReversalActions = (payment: PaymentDetailsDialogProps["due"]["payments"][number]): PaymentReversalKind[] => {
+    if (!onPaymentReversed || payment.status === 'voided' || payment.status === 'charged_back') return [];
+    if (getReversibleAmount(payment) <= 0) return [];
+    if (payment.payment_method === 'cash') {
+      return payment.payment_reversals.length === 0 ? ['refund', 'void'] : ['refund'];
+    }
+    return ['refund', 'chargeback'];
+  };
+
+  const handleReversed = () => {
+    setReversing(null);
+    onPaymentReversed?.();
+  };
+
+  const handleRecordCash = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const amount = Math.round(parseFloat(cashAmount) * 100); // Convert to paisa
+    if (!amount || amount <= 0) {
+      toast({
+        title: "Error",
+        description: "Enter the amount received",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setRecording(true);
+    try {
+      await recordCashPayment(due.id, amount, cashReference);
+      toast({
+        title: "Success",
+        description: `Cash payment of ${formatCurrency(amount)} recorded`,
+      });
+      setCashAmount('');
+      setCashReference('');
+      onPaymentRecorded?.();
+    } catch (error) {
+      console.error('Error recording cash payment:', error);
+      toast({
+        title: "Error",
+        description: "Failed to record cash payment",
+        variant: "destructive",
+      });
+    } finally {
+      setRecording(false);
+    }
+  };
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -110,8 +205,9 @@ export function PaymentDetailsDialog({ due, open, onOpenChange }: PaymentDetails
                 </div>
                 
                 <div className="space-y-1">
-                  <div className="text-sm text-muted-foreground">Late Fee %</div>
-                  <div className="text-lg font-bold">{due.late_fee_percentage}%</div>
+                  <div className="text-sm text-muted-foreground">Late Fee</div>
+                  <div className="text-lg font-bold">{formatCurrency(due.late_fee)}</div>
+                  <div className="text-xs text-muted-foreground">{describeLateFeeRule(due)}</div>
                 </div>
               </div>
             </CardContent>
@@ -123,13 +219,20 @@ export function PaymentDetailsDialog({ due, open, onOpenChange }: PaymentDetails
               <CardTitle className="text-lg">Payment Summary</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="grid grid-cols-2 gap-4">
+              <div className="grid grid-cols-3 gap-4">
                 <div className="space-y-1">
                   <div className="text-sm text-muted-foreground">Total Paid</div>
                   <div className="text-lg font-bold text-green-600">
                     {formatCurrency(totalPaid)}
                   </div>
                 </div>
+
+                <div className="space-y-1">
+                  <div className="text-sm text-muted-foreground">Discounts</div>
+                  <div className="text-lg font-bold text-green-600">
+                    {formatCurrency(due.discount)}
+                  </div>
+                </div>
                 
                 <div className="space-y-1">
                   <div className="text-sm text-muted-foreground">Remaining</div>
@@ -141,6 +244,88 @@ export function PaymentDetailsDialog({ due, open, onOpenChange }: PaymentDetails
             </CardContent>
           </Card>
 
+          {/* Installment Schedule */}
+          {installments.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <Calendar className="h-5 w-5" />
+                  Installment Schedule
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-2">
+                  {installments.map((installment, index) => {
+                    // Payments cover installments in order
+                    const scheduled = installments.slice(0, index + 1).reduce((sum, item) => sum + item.amount, 0);
+                    const covered = totalCredited >= scheduled;
+
+                    return (
+                      <div key={installment.id} className="flex items-center justify-between p-2 bg-muted/50 rounded-lg">
+                        <div className="text-sm">
+                          <span className="font-medium">Installment {installment.sequence}</span>
+                          <span className="text-muted-foreground"> · due {new Date(installment.due_date).toLocaleDateString()}</span>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{formatCurrency(installment.amount)}</span>
+                          <Badge variant={covered ? "default" : "outline"} className="text-xs">
+                            {covered ? "PAID" : "OPEN"}
+                          </Badge>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          <DueAdjustmentsCard
+            dueId={due.id}
+            canApprove={!!onDueAdjusted && due.status !== 'paid'}
+            onAdjusted={onDueAdjusted}
+          />
+
+          {/* Cash handed over at the office is recorded here; online payments arrive from the gateway */}
+          {onPaymentRecorded && due.status !== 'paid' && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <DollarSign className="h-5 w-5" />
+                  Record Cash Payment
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleRecordCash} className="grid grid-cols-2 gap-4 items-end">
+                  <div className="space-y-2">
+                    <Label htmlFor="cash_amount">Amount Received (₹)</Label>
+                    <Input
+                      id="cash_amount"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      placeholder="0.00"
+                      value={cashAmount}
+                      onChange={(e) => setCashAmount(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="cash_reference">Receipt Number</Label>
+                    <Input
+                      id="cash_reference"
+                      placeholder="Optional"
+                      value={cashReference}
+                      onChange={(e) => setCashReference(e.target.value)}
+                    />
+                  </div>
+                  <Button type="submit" className="col-span-2" disabled={recording}>
+                    {recording ? "Recording..." : "Record Payment"}
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Payment History */}
           {due.payments.length > 0 && (
             <Card>
@@ -153,24 +338,76 @@ export function PaymentDetailsDialog({ due, open, onOpenChange }: PaymentDetails
               <CardContent>
                 <div className="space-y-3">
                   {due.payments.map((payment) => (
-                    <div
-                      key={payment.id}
-                      className="flex items-center justify-between p-3 bg-muted/50 rounded-lg"
-                    >
-                      <div>
-                        <div className="font-medium">{formatCurrency(payment.amount)}</div>
-                        <div className="text-sm text-muted-foreground">
-                          {payment.payment_method.toUpperCase()}
+                    <div key={payment.id} className="space-y-2">
+                      <div className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium">{formatCurrency(payment.amount)}</span>
+                            {payment.status !== 'completed' && (
+                              <Badge variant="outline" className="text-xs">
+                                {PAYMENT_ENTRY_STATUS_LABELS[payment.status]}
+                              </Badge>
+                            )}
+                          </div>
+                          <div className="text-sm text-muted-foreground">
+                            {payment.payment_method.toUpperCase()}
+                          </div>
                         </div>
-                      </div>
-                      <div className="text-right">
-                        <div className="text-sm">
-                          {new Date(payment.paid_at).toLocaleDateString()}
-                        </div>
-                        <div className="text-xs text-muted-foreground">
-                          {new Date(payment.paid_at).toLocaleTimeString()}
+                        <div className="text-right">
+                          <div className="text-sm">
+                            {new Date(payment.paid_at).toLocaleDateString()}
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            {new Date(payment.paid_at).toLocaleTimeString()}
+                          </div>
+                          {getReversalActions(payment).length > 0 && (
+                            <div className="flex justify-end gap-1 mt-2">
+                              {getReversalActions(payment).map((kind) => (
+                                <Button
+                                  key={kind}
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => setReversing({ paymentId: payment.id, kind })}
+                                >
+                                  {REVERSAL_KIND_LABELS[kind]}
+                                </Button>
+                              ))}
+                            </div>
+                          )}
                         </div>
                       </div>
+
+                      {/* Audit trail: every reversal with who recorded it and why */}
+                      {payment.payment_reversals.map((reversal) => (
+                        <div key={reversal.id} className="flex items-start justify-between p-3 ml-4 border-l-2 border-destructive">
+                          <div>
+                            <div className="font-medium text-destructive">
+                              -{formatCurrency(reversal.amount)} {REVERSAL_KIND_LABELS[reversal.kind]}
+                              {reversal.status === 'pending' && ' (pending)'}
+                            </div>
+                            <div className="text-sm">{reversal.reason}</div>
+                          </div>
+                          <div className="text-right text-xs text-muted-foreground">
+                            <div>
+                              {reversal.creator
+                                ? `By ${reversal.creator.first_name} ${reversal.creator.last_name}`
+                                : "Reported by the gateway"}
+                            </div>
+                            <div>{new Date(reversal.created_at).toLocaleString()}</div>
+                            {reversal.gateway_reference && <div>Ref: {reversal.gateway_reference}</div>}
+                          </div>
+                        </div>
+                      ))}
+
+                      {reversing?.paymentId === payment.id && (
+                        <PaymentReversalForm
+                          paymentId={payment.id}
+                          kind={reversing.kind}
+                          maxAmount={getReversibleAmount(payment)}
+                          onReversed={handleReversed}
+                          onCancel={() => setReversing(null)}
+                        />
+                      )}
                     </div>
                   ))}
                 </div>
@@ -211,6 +448,20 @@ export function PaymentDetailsDialog({ due, open, onOpenChange }: PaymentDetails
                     </div>
                   </div>
                 ))}
+
+                {reversals.map((reversal) => (
+                  <div key={reversal.id} className="flex items-center gap-3">
+                    <div className="w-2 h-2 bg-destructive rounded-full"></div>
+                    <div>
+                      <div className="text-sm font-medium">
+                        {REVERSAL_KIND_LABELS[reversal.kind]} - {formatCurrency(reversal.amount)}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {new Date(reversal.created_at).toLocaleString()}
+                      </div>
+                    </div>
+                  </div>
+                ))}
                 
                 {due.status === 'paid' && (
                   <div className="flex items-center gap-3">
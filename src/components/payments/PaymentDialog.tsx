@@ -1,5 +1,4 @@
-import { useState } from "react";
-import { supabase } from "@/integrations/supabase/client";
+import { useState, useEffect } from "react";
 import { useAuth } from "@/hooks/useAuth";
 import {
   Dialog,
@@ -8,28 +7,39 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Card, CardContent } from "@/components/ui/card";
-import { formatCurrency, calculateLateFee } from "@/lib/payment-utils";
-import { CreditCard, Smartphone, Building2, DollarSign } from "lucide-react";
+import { describeLateFeeRule, formatCurrency, LateFeeRule } from "@/lib/payment-utils";
+import {
+  CheckoutOrder,
+  completeMockCheckout,
+  createPaymentOrder,
+  openRazorpayCheckout,
+  PaymentMethod,
+  waitForPaymentOrder,
+} from "@/lib/payment-gateway";
+import { DueInstallment, getNextInstallment, toPaisa } from "@/lib/installments";
+import { CreditCard, Smartphone, Building2, DollarSign, FlaskConical } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 
 interface PaymentDialogProps {
-  due: {
+  due: LateFeeRule & {
     id: string;
     description: string;
     amount: number;
     due_date: string;
-    late_fee_percentage: number;
+    late_fee: number;
+    discount: number;
+    paid_amount: number;
+    installments: DueInstallment[];
   };
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onPaymentSuccess: () => void;
 }
 
-type PaymentMethod = 'card' | 'upi' | 'bank_transfer' | 'cash';
-
 const paymentMethods = [
   {
     id: 'card' as PaymentMethod,
@@ -58,52 +68,85 @@ const paymentMethods = [
 ];
 
 export function PaymentDialog({ due, open, onOpenChange, onPaymentSuccess }: PaymentDialogProps) {
-  const { user } = useAuth();
+  const { user, profile } = useAuth();
   const { toast } = useToast();
   const [selectedMethod, setSelectedMethod] = useState<PaymentMethod>('card');
   const [processing, setProcessing] = useState(false);
+  const [mockOrder, setMockOrder] = useState<CheckoutOrder | null>(null);
+  const [payAmount, setPayAmount] = useState('');
 
-  const lateFee = calculateLateFee(due.amount, due.due_date, due.late_fee_percentage);
-  const totalAmount = due.amount + lateFee;
+  const lateFee = due.late_fee;
+  const totalAmount = due.amount - due.discount + lateFee;
+  const outstanding = Math.max(0, totalAmount - due.paid_amount);
+  const nextInstallment = getNextInstallment(due.installments, due.paid_amount + due.discount);
+  const payAmountInPaisa = payAmount ? toPaisa(payAmount) : 0;
+
+  // Suggest the rest of the next installment, or the whole balance when there is no schedule
+  useEffect(() => {
+    if (open) {
+      const suggested = nextInstallment ? Math.min(nextInstallment.remaining, outstanding) : outstanding;
+      setPayAmount((suggested / 100).toFixed(2));
+    }
+  }, [open, due.id]);
+
+  // The payment only counts once the gateway's webhook has settled the order
+  const confirmPayment = async (order: CheckoutOrder) => {
+    const result = await waitForPaymentOrder(order.order_id);
+
+    if (result.status === 'paid') {
+      onPaymentSuccess();
+      toast({
+        title: "Payment Successful!",
+        description: `Your payment of ${formatCurrency(order.amount)} has been processed.`,
+      });
+    } else if (result.status === 'failed') {
+      toast({
+        title: "Payment Failed",
+        description: result.failure_reason || "The payment was declined. Please try again.",
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Payment Processing",
+        description: "We are still waiting for confirmation from the payment gateway. Your dues will update once it arrives.",
+      });
+    }
+  };
 
   const handlePayment = async () => {
     if (!user) return;
 
+    if (payAmountInPaisa <= 0 || payAmountInPaisa > outstanding) {
+      toast({
+        title: "Invalid Amount",
+        description: `Enter an amount up to ${formatCurrency(outstanding)}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     setProcessing(true);
-    
+
     try {
-      // Simulate payment processing based on method
-      const paymentReference = `PAY_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      
-      // In a real app, this would integrate with actual payment gateways
-      await new Promise(resolve => setTimeout(resolve, 2000));
-
-      // Record the payment
-      const { error } = await supabase
-        .from('payments')
-        .insert({
-          student_id: user.id,
-          due_id: due.id,
-          amount: totalAmount,
-          payment_method: selectedMethod,
-          payment_reference: paymentReference,
-          payment_gateway_id: paymentReference,
-        });
-
-      if (error) throw error;
+      const order = await createPaymentOrder(due.id, selectedMethod, payAmountInPaisa);
 
-      onPaymentSuccess();
-      
-      toast({
-        title: "Payment Successful!",
-        description: `Your payment of ${formatCurrency(totalAmount)} has been processed.`,
+      // The mock gateway has no checkout page, so the dialog plays its part
+      if (order.gateway === 'mock') {
+        setMockOrder(order);
+        return;
+      }
+
+      await openRazorpayCheckout(order, {
+        description: due.description,
+        name: [profile?.first_name, profile?.last_name].filter(Boolean).join(' '),
+        email: profile?.email,
       });
-      
+      await confirmPayment(order);
     } catch (error) {
       console.error('Payment error:', error);
       toast({
         title: "Payment Failed",
-        description: "There was an error processing your payment. Please try again.",
+        description: error instanceof Error ? error.message : "There was an error processing your payment. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -111,6 +154,26 @@ export function PaymentDialog({ due, open, onOpenChange, onPaymentSuccess }: Pay
     }
   };
 
+  const handleMockCheckout = async (outcome: 'success' | 'failure') => {
+    if (!mockOrder) return;
+
+    setProcessing(true);
+    try {
+      await completeMockCheckout(mockOrder.order_id, outcome);
+      await confirmPayment(mockOrder);
+    } catch (error) {
+      console.error('Mock checkout error:', error);
+      toast({
+        title: "Payment Failed",
+        description: error instanceof Error ? error.message : "The mock checkout failed.",
+        variant: "destructive",
+      });
+    } finally {
+      setMockOrder(null);
+      setProcessing(false);
+    }
+  };
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-md">
@@ -131,21 +194,79 @@ export function PaymentDialog({ due, open, onOpenChange, onPaymentSuccess }: Pay
                   <span className="text-muted-foreground">Amount:</span>
                   <span>{formatCurrency(due.amount)}</span>
                 </div>
+                {due.discount > 0 && (
+                  <div className="flex justify-between text-green-600">
+                    <span>Discounts:</span>
+                    <span>-{formatCurrency(due.discount)}</span>
+                  </div>
+                )}
                 {lateFee > 0 && (
                   <div className="flex justify-between text-destructive">
                     <span>Late Fee:</span>
                     <span>{formatCurrency(lateFee)}</span>
                   </div>
                 )}
+                <div className="text-xs text-muted-foreground">
+                  Late fee policy: {describeLateFeeRule(due)}
+                </div>
+                {due.paid_amount > 0 && (
+                  <div className="flex justify-between text-green-600">
+                    <span>Paid So Far:</span>
+                    <span>{formatCurrency(due.paid_amount)}</span>
+                  </div>
+                )}
                 <hr className="my-2" />
                 <div className="flex justify-between font-bold text-lg">
-                  <span>Total:</span>
-                  <span>{formatCurrency(totalAmount)}</span>
+                  <span>{due.paid_amount > 0 ? "Outstanding:" : "Total:"}</span>
+                  <span>{formatCurrency(outstanding)}</span>
                 </div>
+                {nextInstallment && (
+                  <div className="text-sm text-muted-foreground">
+                    Installment {nextInstallment.installment.sequence} of {due.installments.length}:{" "}
+                    {formatCurrency(nextInstallment.remaining)} due {new Date(nextInstallment.installment.due_date).toLocaleDateString()}
+                  </div>
+                )}
               </div>
             </CardContent>
           </Card>
 
+          {/* Payment Amount */}
+          <div className="space-y-2">
+            <Label htmlFor="pay_amount" className="text-base font-medium">Amount to Pay (₹)</Label>
+            <Input
+              id="pay_amount"
+              type="number"
+              step="0.01"
+              min="0"
+              max={(outstanding / 100).toFixed(2)}
+              value={payAmount}
+              onChange={(e) => setPayAmount(e.target.value)}
+              disabled={processing || !!mockOrder}
+            />
+            <div className="flex gap-2">
+              {nextInstallment && nextInstallment.remaining < outstanding && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPayAmount((nextInstallment.remaining / 100).toFixed(2))}
+                  disabled={processing || !!mockOrder}
+                >
+                  Next Installment
+                </Button>
+              )}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setPayAmount((outstanding / 100).toFixed(2))}
+                disabled={processing || !!mockOrder}
+              >
+                Full Balance
+              </Button>
+            </div>
+          </div>
+
           {/* Payment Methods */}
           <div className="space-y-3">
             <Label className="text-base font-medium">Select Payment Method</Label>
@@ -172,6 +293,36 @@ export function PaymentDialog({ due, open, onOpenChange, onPaymentSuccess }: Pay
             </RadioGroup>
           </div>
 
+          {mockOrder && (
+            <Card className="border-dashed">
+              <CardContent className="p-4 space-y-3">
+                <div className="flex items-center gap-2 font-medium">
+                  <FlaskConical className="h-4 w-4" />
+                  Test checkout
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  Payments are running against the mock gateway. Choose how this {formatCurrency(mockOrder.amount)} payment should end;
+                  the result is delivered through the signed webhook like a real payment.
+                </p>
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => handleMockCheckout('success')} disabled={processing}>
+                    Simulate Success
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => handleMockCheckout('failure')} disabled={processing}>
+                    Simulate Failure
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Cash never goes through the gateway; staff record it when it is handed over */}
+          {selectedMethod === 'cash' && (
+            <p className="text-sm text-muted-foreground">
+              Bring up to {formatCurrency(outstanding)} to the accounts office. Your due is updated once staff record the payment.
+            </p>
+          )}
+
           {/* Payment Actions */}
           <div className="flex gap-3">
             <Button 
@@ -185,7 +336,7 @@ export function PaymentDialog({ due, open, onOpenChange, onPaymentSuccess }: Pay
             <Button 
               className="flex-1 bg-primary hover:bg-primary/90"
               onClick={handlePayment}
-              disabled={processing}
+              disabled={processing || !!mockOrder || selectedMethod === 'cash'}
             >
               {processing ? (
                 <div className="flex items-center gap-2">
@@ -193,7 +344,7 @@ export function PaymentDialog({ due, open, onOpenChange, onPaymentSuccess }: Pay
                   Processing...
                 </div>
               ) : (
-                `Pay ${formatCurrency(totalAmount)}`
+                `Pay ${formatCurrency(payAmountInPaisa)}`
               )}
             </Button>
           </div>
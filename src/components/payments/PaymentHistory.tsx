@@ -4,6 +4,13 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { formatCurrency } from "@/lib/payment-utils";
+import {
+  PAYMENT_ENTRY_STATUS_LABELS,
+  PaymentEntryStatus,
+  PaymentReversalKind,
+  PaymentReversalStatus,
+  REVERSAL_KIND_LABELS,
+} from "@/lib/payment-gateway";
 import { Download, Receipt } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 
@@ -14,6 +21,15 @@ interface Payment {
   payment_reference: string;
   paid_at: string;
   receipt_url?: string;
+  status: PaymentEntryStatus;
+  payment_reversals: {
+    id: string;
+    kind: PaymentReversalKind;
+    amount: number;
+    reason: string;
+    status: PaymentReversalStatus;
+    created_at: string;
+  }[];
   student_dues: {
     description: string;
     subject_id?: string;
@@ -24,6 +40,11 @@ interface Payment {
   };
 }
 
+// Payments and the refunds, chargebacks and voids against them, newest first
+type LedgerEntry =
+  | { type: 'payment'; date: string; payment: Payment }
+  | { type: 'reversal'; date: string; payment: Payment; reversal: Payment["payment_reversals"][number] };
+
 interface PaymentHistoryProps {
   studentId?: string;
 }
@@ -45,6 +66,14 @@ export function PaymentHistory({ studentId }: PaymentHistoryProps) {
         .from('payments')
         .select(`
           *,
+          payment_reversals (
+            id,
+            kind,
+            amount,
+            reason,
+            status,
+            created_at
+          ),
           student_dues!inner (
             description,
             subject_id,
@@ -113,6 +142,18 @@ Thank you for your payment!
     URL.revokeObjectURL(url);
   };
 
+  const ledger: LedgerEntry[] = payments
+    .flatMap((payment): LedgerEntry[] => [
+      { type: 'payment', date: payment.paid_at, payment },
+      ...payment.payment_reversals.map((reversal): LedgerEntry => ({
+        type: 'reversal',
+        date: reversal.created_at,
+        payment,
+        reversal,
+      })),
+    ])
+    .sort((a, b) => b.date.localeCompare(a.date));
+
   if (loading) {
     return (
       <Card>
@@ -139,33 +180,64 @@ Thank you for your payment!
       <CardContent>
         {payments.length > 0 ? (
           <div className="space-y-4">
-            {payments.map((payment) => (
+            {ledger.map((entry) => entry.type === 'reversal' ? (
+              <div
+                key={entry.reversal.id}
+                className="flex items-center justify-between p-4 border border-destructive/30 rounded-lg"
+              >
+                <div>
+                  <h4 className="font-medium text-foreground">
+                    {entry.payment.student_dues.description}
+                  </h4>
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground mt-1">
+                    <span>{new Date(entry.reversal.created_at).toLocaleDateString()}</span>
+                    <Badge variant="destructive" className="text-xs">
+                      {REVERSAL_KIND_LABELS[entry.reversal.kind].toUpperCase()}
+                    </Badge>
+                    {entry.reversal.status === 'pending' && (
+                      <Badge variant="outline" className="text-xs">PENDING</Badge>
+                    )}
+                  </div>
+                  <div className="text-xs text-muted-foreground mt-1">
+                    {entry.reversal.reason}
+                  </div>
+                </div>
+                <div className="text-right">
+                  <div className="font-semibold text-destructive">
+                    -{formatCurrency(entry.reversal.amount)}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    Against payment of {new Date(entry.payment.paid_at).toLocaleDateString()}
+                  </div>
+                </div>
+              </div>
+            ) : (
               <div
-                key={payment.id}
+                key={entry.payment.id}
                 className="flex items-center justify-between p-4 border rounded-lg hover:bg-muted/50 transition-colors"
               >
                 <div className="flex-1">
                   <div className="flex items-start justify-between mb-2">
                     <div>
                       <h4 className="font-medium text-foreground">
-                        {payment.student_dues.description}
+                        {entry.payment.student_dues.description}
                       </h4>
                       <div className="flex items-center gap-2 text-sm text-muted-foreground mt-1">
-                        <span>{new Date(payment.paid_at).toLocaleDateString()}</span>
+                        <span>{new Date(entry.payment.paid_at).toLocaleDateString()}</span>
                         <Badge variant="outline" className="text-xs">
-                          {payment.payment_method.toUpperCase()}
+                          {entry.payment.payment_method.toUpperCase()}
                         </Badge>
                       </div>
                       <div className="text-xs text-muted-foreground mt-1">
-                        Ref: {payment.payment_reference}
+                        Ref: {entry.payment.payment_reference}
                       </div>
                     </div>
                     <div className="text-right">
                       <div className="font-semibold text-green-600">
-                        {formatCurrency(payment.amount)}
+                        {formatCurrency(entry.payment.amount)}
                       </div>
                       <div className="text-xs text-muted-foreground">
-                        Paid
+                        {PAYMENT_ENTRY_STATUS_LABELS[entry.payment.status]}
                       </div>
                     </div>
                   </div>
@@ -175,7 +247,7 @@ Thank you for your payment!
                   <Button
                     variant="outline"
                     size="sm"
-                    onClick={() => generateReceipt(payment)}
+                    onClick={() => generateReceipt(entry.payment)}
                   >
                     <Download className="h-3 w-3 mr-1" />
                     Receipt
@@ -0,0 +1,98 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { formatCurrency } from "@/lib/payment-utils";
+import { PaymentReversalKind, refundPayment, REVERSAL_KIND_LABELS, reversePayment } from "@/lib/payment-gateway";
+import { toPaisa } from "@/lib/installments";
+import { useToast } from "@/hooks/use-toast";
+
+interface PaymentReversalFormProps {
+  paymentId: string;
+  kind: PaymentReversalKind;
+  // What is left of the payment after earlier reversals
+  maxAmount: number;
+  onReversed: () => void;
+  onCancel: () => void;
+}
+
+export function PaymentReversalForm({ paymentId, kind, maxAmount, onReversed, onCancel }: PaymentReversalFormProps) {
+  const { toast } = useToast();
+  const [amount, setAmount] = useState((maxAmount / 100).toFixed(2));
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  // A void removes the whole entry, so its amount is fixed
+  const amountInPaisa = kind === 'void' ? maxAmount : toPaisa(amount || '0');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (amountInPaisa <= 0 || amountInPaisa > maxAmount || !reason.trim()) {
+      toast({
+        title: "Error",
+        description: `Enter an amount up to ${formatCurrency(maxAmount)} and a reason`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      if (kind === 'refund') {
+        await refundPayment(paymentId, amountInPaisa, reason.trim());
+      } else {
+        await reversePayment(paymentId, kind, amountInPaisa, reason.trim());
+      }
+      toast({
+        title: "Success",
+        description: `${REVERSAL_KIND_LABELS[kind]} of ${formatCurrency(amountInPaisa)} recorded`,
+      });
+      onReversed();
+    } catch (error) {
+      console.error('Error reversing payment:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to reverse payment",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="grid grid-cols-2 gap-3 items-end p-3 border rounded-lg">
+      <div className="space-y-2">
+        <Label htmlFor={`reversal_amount_${paymentId}`}>{REVERSAL_KIND_LABELS[kind]} Amount (₹)</Label>
+        <Input
+          id={`reversal_amount_${paymentId}`}
+          type="number"
+          step="0.01"
+          min="0"
+          max={(maxAmount / 100).toFixed(2)}
+          value={kind === 'void' ? (maxAmount / 100).toFixed(2) : amount}
+          onChange={(e) => setAmount(e.target.value)}
+          disabled={kind === 'void'}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`reversal_reason_${paymentId}`}>Reason *</Label>
+        <Input
+          id={`reversal_reason_${paymentId}`}
+          placeholder={kind === 'void' ? "e.g. Entered against the wrong student" : "Reason"}
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+        />
+      </div>
+      <div className="col-span-2 flex gap-2">
+        <Button type="button" variant="outline" className="flex-1" onClick={onCancel} disabled={submitting}>
+          Cancel
+        </Button>
+        <Button type="submit" variant="destructive" className="flex-1" disabled={submitting}>
+          {submitting ? "Recording..." : `Confirm ${REVERSAL_KIND_LABELS[kind]}`}
+        </Button>
+      </div>
+    </form>
+  );
+}
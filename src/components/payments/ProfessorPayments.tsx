@@ -6,7 +6,9 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { CreateDueDialog } from "./CreateDueDialog";
 import { PaymentDetailsDialog } from "./PaymentDetailsDialog";
-import { formatCurrency, getStatusColor } from "@/lib/payment-utils";
+import { DueCharges, fetchDueCharges, formatCurrency, getStatusColor, LateFeePeriod } from "@/lib/payment-utils";
+import { DueInstallment } from "@/lib/installments";
+import { PaymentEntryStatus, PaymentReversal } from "@/lib/payment-gateway";
 import { Plus, Users, DollarSign, Clock, Eye } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 
@@ -17,6 +19,10 @@ interface StudentDueWithProfile {
   due_date: string;
   status: 'pending' | 'paid' | 'overdue' | 'failed';
   late_fee_percentage: number;
+  late_fee_period: LateFeePeriod;
+  late_fee_flat: number;
+  late_fee_cap: number | null;
+  late_fee_grace_days: number;
   created_at: string;
   student_id: string;
   subject_id?: string;
@@ -34,23 +40,27 @@ interface StudentDueWithProfile {
     amount: number;
     payment_method: string;
     paid_at: string;
+    status: PaymentEntryStatus;
+    payment_reversals: PaymentReversal[];
   }>;
+  due_installments: DueInstallment[];
 }
 
 export function ProfessorPayments() {
-  const { user } = useAuth();
+  const { user, institution } = useAuth();
   const { toast } = useToast();
   const [dues, setDues] = useState<StudentDueWithProfile[]>([]);
+  const [charges, setCharges] = useState<Record<string, DueCharges>>({});
   const [loading, setLoading] = useState(true);
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
-  const [selectedDue, setSelectedDue] = useState<StudentDueWithProfile | null>(null);
+  const [selectedDueId, setSelectedDueId] = useState<string | null>(null);
   const [detailsDialogOpen, setDetailsDialogOpen] = useState(false);
 
   useEffect(() => {
-    if (user) {
+    if (user && institution) {
       fetchDues();
     }
-  }, [user]);
+  }, [user, institution]);
 
   const fetchDues = async () => {
     try {
@@ -71,13 +81,24 @@ export function ProfessorPayments() {
             id,
             amount,
             payment_method,
-            paid_at
-          )
+            paid_at,
+            status,
+            payment_reversals (
+              *,
+              creator:created_by (
+                first_name,
+                last_name
+              )
+            )
+          ),
+          due_installments (*)
         `)
+        .eq('institution_id', institution?.id)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
       setDues(data || []);
+      setCharges(await fetchDueCharges((data || []).map(due => due.id)));
     } catch (error) {
       console.error('Error fetching dues:', error);
       toast({
@@ -99,13 +120,22 @@ export function ProfessorPayments() {
     });
   };
 
+  const getPaidAmount = (due: StudentDueWithProfile) => charges[due.id]?.paid ?? 0;
+
+  const getLateFee = (due: StudentDueWithProfile) => charges[due.id]?.late_fee ?? 0;
+
+  const getDiscount = (due: StudentDueWithProfile) => charges[due.id]?.discount ?? 0;
+
+  // Partial payments count towards what has been collected as soon as they arrive, and refunds
+  // and other reversals come off it
   const totalOutstanding = dues
     .filter(due => due.status === 'pending' || due.status === 'overdue')
-    .reduce((sum, due) => sum + due.amount, 0);
+    .reduce((sum, due) => sum + Math.max(0, due.amount - getDiscount(due) + getLateFee(due) - getPaidAmount(due)), 0);
 
-  const totalCollected = dues
-    .filter(due => due.status === 'paid')
-    .reduce((sum, due) => sum + due.amount, 0);
+  const totalCollected = dues.reduce((sum, due) => sum + getPaidAmount(due), 0);
+
+  // Looked up from the list so the details stay current after a payment is recorded
+  const selectedDue = dues.find(due => due.id === selectedDueId);
 
   if (loading) {
     return (
@@ -229,6 +259,16 @@ export function ProfessorPayments() {
                     </td>
                     <td className="p-2 font-medium text-foreground">
                       {formatCurrency(due.amount)}
+                      {getDiscount(due) > 0 && (
+                        <div className="text-xs text-green-600">
+                          - {formatCurrency(getDiscount(due))} discount
+                        </div>
+                      )}
+                      {getLateFee(due) > 0 && (
+                        <div className="text-xs text-destructive">
+                          + {formatCurrency(getLateFee(due))} late fee
+                        </div>
+                      )}
                     </td>
                     <td className="p-2 text-muted-foreground">
                       {new Date(due.due_date).toLocaleDateString()}
@@ -243,7 +283,7 @@ export function ProfessorPayments() {
                         variant="outline"
                         size="sm"
                         onClick={() => {
-                          setSelectedDue(due);
+                          setSelectedDueId(due.id);
                           setDetailsDialogOpen(true);
                         }}
                       >
@@ -274,9 +314,17 @@ export function ProfessorPayments() {
 
       {selectedDue && (
         <PaymentDetailsDialog
-          due={selectedDue}
+          due={{
+            ...selectedDue,
+            late_fee: getLateFee(selectedDue),
+            discount: getDiscount(selectedDue),
+            paid: getPaidAmount(selectedDue),
+          }}
           open={detailsDialogOpen}
           onOpenChange={setDetailsDialogOpen}
+          onPaymentRecorded={fetchDues}
+          onDueAdjusted={fetchDues}
+          onPaymentReversed={fetchDues}
         />
       )}
     </div>
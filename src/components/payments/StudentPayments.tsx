@@ -7,7 +7,8 @@ import { Button } from "@/components/ui/button";
 import { PaymentCountdown } from "./PaymentCountdown";
 import { PaymentDialog } from "./PaymentDialog";
 import { PaymentHistory } from "./PaymentHistory";
-import { formatCurrency, getStatusColor } from "@/lib/payment-utils";
+import { DueCharges, fetchDueCharges, formatCurrency, getStatusColor, LateFeePeriod } from "@/lib/payment-utils";
+import { DueInstallment, getNextInstallment } from "@/lib/installments";
 import { Calendar, CreditCard, Clock, AlertTriangle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 
@@ -18,14 +19,20 @@ interface StudentDue {
   due_date: string;
   status: 'pending' | 'paid' | 'overdue' | 'failed';
   late_fee_percentage: number;
+  late_fee_period: LateFeePeriod;
+  late_fee_flat: number;
+  late_fee_cap: number | null;
+  late_fee_grace_days: number;
   created_at: string;
   subject_id?: string;
+  due_installments: DueInstallment[];
 }
 
 export function StudentPayments() {
   const { user } = useAuth();
   const { toast } = useToast();
   const [dues, setDues] = useState<StudentDue[]>([]);
+  const [charges, setCharges] = useState<Record<string, DueCharges>>({});
   const [loading, setLoading] = useState(true);
   const [selectedDue, setSelectedDue] = useState<StudentDue | null>(null);
   const [paymentDialogOpen, setPaymentDialogOpen] = useState(false);
@@ -40,12 +47,13 @@ export function StudentPayments() {
     try {
       const { data, error } = await supabase
         .from('student_dues')
-        .select('*')
+        .select('*, due_installments(*)')
         .eq('student_id', user?.id)
         .order('due_date', { ascending: true });
 
       if (error) throw error;
       setDues(data || []);
+      setCharges(await fetchDueCharges((data || []).map(due => due.id)));
     } catch (error) {
       console.error('Error fetching dues:', error);
       toast({
@@ -67,14 +75,14 @@ export function StudentPayments() {
     });
   };
 
-  const calculateLateFee = (due: StudentDue) => {
-    const dueDate = new Date(due.due_date);
-    const today = new Date();
-    if (today > dueDate && due.status === 'pending') {
-      return Math.floor(due.amount * (due.late_fee_percentage / 100));
-    }
-    return 0;
-  };
+  const getLateFee = (due: StudentDue) => charges[due.id]?.late_fee ?? 0;
+
+  const getDiscount = (due: StudentDue) => charges[due.id]?.discount ?? 0;
+
+  const getPaidAmount = (due: StudentDue) => charges[due.id]?.paid ?? 0;
+
+  const getRemainingAmount = (due: StudentDue) =>
+    Math.max(0, due.amount - getDiscount(due) + getLateFee(due) - getPaidAmount(due));
 
   const pendingDues = dues.filter(due => due.status === 'pending' || due.status === 'overdue');
   const paidDues = dues.filter(due => due.status === 'paid');
@@ -100,7 +108,7 @@ export function StudentPayments() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-destructive">
-              {formatCurrency(pendingDues.reduce((sum, due) => sum + due.amount + calculateLateFee(due), 0))}
+              {formatCurrency(pendingDues.reduce((sum, due) => sum + getRemainingAmount(due), 0))}
             </div>
           </CardContent>
         </Card>
@@ -146,9 +154,12 @@ export function StudentPayments() {
           <CardContent>
             <div className="space-y-4">
               {pendingDues.map((due) => {
-                const lateFee = calculateLateFee(due);
-                const totalAmount = due.amount + lateFee;
-                
+                const lateFee = getLateFee(due);
+                const discount = getDiscount(due);
+                const paidAmount = getPaidAmount(due);
+                // Discounts count towards installments the same way payments do
+                const nextInstallment = getNextInstallment(due.due_installments, paidAmount + discount);
+
                 return (
                   <div
                     key={due.id}
@@ -170,8 +181,18 @@ export function StudentPayments() {
                         </div>
                         <div className="text-right">
                           <div className="font-semibold text-foreground">
-                            {formatCurrency(totalAmount)}
+                            {formatCurrency(getRemainingAmount(due))}
                           </div>
+                          {paidAmount > 0 && (
+                            <div className="text-xs text-green-600">
+                              Paid: {formatCurrency(paidAmount)} of {formatCurrency(due.amount - discount + lateFee)}
+                            </div>
+                          )}
+                          {discount > 0 && (
+                            <div className="text-xs text-green-600">
+                              Discount: -{formatCurrency(discount)}
+                            </div>
+                          )}
                           {lateFee > 0 && (
                             <div className="text-xs text-destructive">
                               Late fee: {formatCurrency(lateFee)}
@@ -179,8 +200,15 @@ export function StudentPayments() {
                           )}
                         </div>
                       </div>
-                      
-                      <PaymentCountdown dueDate={due.due_date} />
+
+                      {nextInstallment && (
+                        <div className="text-sm text-muted-foreground mb-2">
+                          Next installment ({nextInstallment.installment.sequence} of {due.due_installments.length}):{" "}
+                          {formatCurrency(nextInstallment.remaining)} due {new Date(nextInstallment.installment.due_date).toLocaleDateString()}
+                        </div>
+                      )}
+
+                      <PaymentCountdown dueDate={nextInstallment?.installment.due_date ?? due.due_date} />
                     </div>
                     
                     <div className="ml-4">
@@ -208,7 +236,13 @@ export function StudentPayments() {
       {/* Payment Dialog */}
       {selectedDue && (
         <PaymentDialog
-          due={selectedDue}
+          due={{
+            ...selectedDue,
+            late_fee: getLateFee(selectedDue),
+            discount: getDiscount(selectedDue),
+            paid_amount: getPaidAmount(selectedDue),
+            installments: selectedDue.due_installments,
+          }}
           open={paymentDialogOpen}
           onOpenChange={setPaymentDialogOpen}
           onPaymentSuccess={handlePaymentSuccess}
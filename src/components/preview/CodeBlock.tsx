@@ -0,0 +1,37 @@
+import { TokenType, tokenize } from "@/lib/syntax-highlight";
+
+const TOKEN_CLASSES: Record<TokenType, string> = {
+  plain: "",
+  comment: "text-muted-foreground italic",
+  string: "text-green-700 dark:text-green-400",
+  number: "text-orange-600 dark:text-orange-400",
+  keyword: "text-blue-700 dark:text-blue-400 font-semibold",
+};
+
+interface CodeBlockProps {
+  code: string;
+  language: string | null;
+  showLineNumbers?: boolean;
+}
+
+export const CodeBlock = ({ code, language, showLineNumbers = false }: CodeBlockProps) => {
+  const tokens = tokenize(code, language);
+  const lineCount = code.split('\n').length;
+
+  return (
+    <div className="flex rounded-md bg-muted text-sm font-mono overflow-auto">
+      {showLineNumbers && (
+        <pre className="select-none text-right text-muted-foreground px-3 py-3 border-r">
+          {Array.from({ length: lineCount }, (_, index) => index + 1).join('\n')}
+        </pre>
+      )}
+      <pre className="px-3 py-3 flex-1">
+        <code>
+          {tokens.map((token, index) => (
+            <span key={index} className={TOKEN_CLASSES[token.type]}>{token.text}</span>
+          ))}
+        </code>
+      </pre>
+    </div>
+  );
+};
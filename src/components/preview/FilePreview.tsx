@@ -0,0 +1,97 @@
+import { useState, useEffect } from "react";
+import { FileText } from "lucide-react";
+import { CodeBlock } from "./CodeBlock";
+import { MarkdownView } from "./MarkdownView";
+import {
+  createPreviewUrl,
+  getCodeLanguage,
+  getPreviewKind,
+  MAX_TEXT_PREVIEW_BYTES,
+  StorageBucket,
+} from "@/lib/file-preview";
+
+interface FilePreviewProps {
+  bucket: StorageBucket;
+  filePath: string;
+  fileName: string;
+  fileType?: string | null;
+  className?: string;
+}
+
+// Renders a stored file inline: PDFs in the browser's viewer, images, code and Markdown
+export const FilePreview = ({ bucket, filePath, fileName, fileType, className = "h-[70vh]" }: FilePreviewProps) => {
+  const kind = getPreviewKind(fileName, fileType);
+  const [url, setUrl] = useState<string | null>(null);
+  const [text, setText] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setUrl(null);
+    setText(null);
+    setError(null);
+
+    if (kind) {
+      loadPreview();
+    }
+  }, [bucket, filePath]);
+
+  const loadPreview = async () => {
+    try {
+      const signedUrl = await createPreviewUrl(bucket, filePath);
+
+      if (kind === 'pdf' || kind === 'image') {
+        setUrl(signedUrl);
+        return;
+      }
+
+      const response = await fetch(signedUrl);
+      if (!response.ok) throw new Error(`Request failed with status ${response.status}`);
+
+      const blob = await response.blob();
+      if (blob.size > MAX_TEXT_PREVIEW_BYTES) {
+        setError('This file is too large to preview. Download it instead.');
+        return;
+      }
+      setText(await blob.text());
+    } catch (error) {
+      console.error('Error loading preview:', error);
+      setError('The preview could not be loaded.');
+    }
+  };
+
+  if (!kind || error) {
+    return (
+      <div className={`flex flex-col items-center justify-center rounded-md border text-center p-6 ${className}`}>
+        <FileText className="h-12 w-12 mb-4 text-muted-foreground" />
+        <p className="text-muted-foreground">{error ?? 'No preview is available for this file type. Download it instead.'}</p>
+      </div>
+    );
+  }
+
+  if (!url && text === null) {
+    return <div className={`flex items-center justify-center rounded-md border ${className}`}>Loading preview...</div>;
+  }
+
+  switch (kind) {
+    case 'pdf':
+      return <iframe src={url!} title={fileName} className={`w-full rounded-md border ${className}`} />;
+    case 'image':
+      return (
+        <div className={`flex items-center justify-center rounded-md border overflow-auto ${className}`}>
+          <img src={url!} alt={fileName} className="max-w-full max-h-full object-contain" />
+        </div>
+      );
+    case 'markdown':
+      return (
+        <div className={`rounded-md border p-4 overflow-auto ${className}`}>
+          <MarkdownView markdown={text!} />
+        </div>
+      );
+    default:
+      return (
+        <div className={`overflow-auto ${className}`}>
+          <CodeBlock code={text!} language={getCodeLanguage(fileName)} showLineNumbers />
+        </div>
+      );
+  }
+};
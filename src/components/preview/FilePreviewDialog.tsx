@@ -0,0 +1,41 @@
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Download } from "lucide-react";
+import { FilePreview } from "./FilePreview";
+import { StorageBucket } from "@/lib/file-preview";
+
+interface FilePreviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  bucket: StorageBucket;
+  file: { title: string; file_path: string; file_name: string; file_type?: string | null } | null;
+  onDownload?: () => void;
+}
+
+export const FilePreviewDialog = ({ open, onOpenChange, bucket, file, onDownload }: FilePreviewDialogProps) => {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-5xl">
+        <DialogHeader>
+          <div className="flex justify-between items-center gap-4 pr-6">
+            <DialogTitle>{file?.title}</DialogTitle>
+            {onDownload && (
+              <Button variant="outline" size="sm" onClick={onDownload}>
+                <Download className="h-4 w-4 mr-2" />
+                Download
+              </Button>
+            )}
+          </div>
+        </DialogHeader>
+        {file && (
+          <FilePreview
+            bucket={bucket}
+            filePath={file.file_path}
+            fileName={file.file_name}
+            fileType={file.file_type}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,171 @@
+import { ReactNode } from "react";
+import { CodeBlock } from "./CodeBlock";
+import { getCodeLanguage } from "@/lib/file-preview";
+
+type Block =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'code'; language: string | null; code: string }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'quote'; text: string }
+  | { type: 'rule' };
+
+const LIST_ITEM = /^\s*(?:[-*+]|(\d+)\.)\s+(.*)$/;
+
+// Only the common subset of Markdown found in course notes and READMEs. Everything is rendered
+// as React elements, so raw HTML in a file shows up as text instead of running in the page.
+function parseBlocks(markdown: string): Block[] {
+  const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+  const blocks: Block[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (line.trim() === '') {
+      index++;
+      continue;
+    }
+
+    const fence = line.match(/^```\s*([\w+-]*)/);
+    if (fence) {
+      const code: string[] = [];
+      index++;
+      while (index < lines.length && !lines[index].startsWith('```')) {
+        code.push(lines[index]);
+        index++;
+      }
+      index++;
+      blocks.push({
+        type: 'code',
+        // Fences name languages by extension (```js) or by name (```python)
+        language: fence[1] ? getCodeLanguage(`.${fence[1]}`) ?? fence[1].toLowerCase() : null,
+        code: code.join('\n'),
+      });
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+      index++;
+      continue;
+    }
+
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      blocks.push({ type: 'rule' });
+      index++;
+      continue;
+    }
+
+    if (line.startsWith('>')) {
+      const quote: string[] = [];
+      while (index < lines.length && lines[index].startsWith('>')) {
+        quote.push(lines[index].replace(/^>\s?/, ''));
+        index++;
+      }
+      blocks.push({ type: 'quote', text: quote.join(' ') });
+      continue;
+    }
+
+    const listItem = line.match(LIST_ITEM);
+    if (listItem) {
+      const items: string[] = [];
+      while (index < lines.length && LIST_ITEM.test(lines[index])) {
+        items.push(lines[index].match(LIST_ITEM)![2]);
+        index++;
+      }
+      blocks.push({ type: 'list', ordered: listItem[1] !== undefined, items });
+      continue;
+    }
+
+    const paragraph: string[] = [line];
+    index++;
+    while (
+      index < lines.length &&
+      lines[index].trim() !== '' &&
+      !/^(```|#{1,6}\s|>)/.test(lines[index]) &&
+      !LIST_ITEM.test(lines[index])
+    ) {
+      paragraph.push(lines[index]);
+      index++;
+    }
+    blocks.push({ type: 'paragraph', text: paragraph.join(' ') });
+  }
+
+  return blocks;
+}
+
+const INLINE = /(`[^`]+`)|(\*\*[^*]+\*\*|__[^_]+__)|(\*[^*]+\*|_[^_]+_)|(!?\[[^\]]*\]\([^)\s]+\))/g;
+
+const isSafeUrl = (url: string) => /^(https?:|mailto:)/i.test(url);
+
+function renderInline(text: string): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(INLINE)) {
+    if (match.index > lastIndex) nodes.push(text.slice(lastIndex, match.index));
+
+    const [token, code, strong, emphasis, link] = match;
+    const key = match.index;
+    if (code) {
+      nodes.push(<code key={key} className="rounded bg-muted px-1 font-mono text-sm">{code.slice(1, -1)}</code>);
+    } else if (strong) {
+      nodes.push(<strong key={key}>{renderInline(strong.slice(2, -2))}</strong>);
+    } else if (emphasis) {
+      nodes.push(<em key={key}>{renderInline(emphasis.slice(1, -1))}</em>);
+    } else if (link) {
+      const [, label, url] = link.match(/^!?\[([^\]]*)\]\(([^)\s]+)\)$/)!;
+      nodes.push(isSafeUrl(url)
+        ? <a key={key} href={url} target="_blank" rel="noopener noreferrer" className="text-primary underline">{label || url}</a>
+        : label);
+    }
+
+    lastIndex = match.index + token.length;
+  }
+
+  if (lastIndex < text.length) nodes.push(text.slice(lastIndex));
+  return nodes;
+}
+
+const HEADING_CLASSES = ["text-2xl", "text-xl", "text-lg", "text-base", "text-base", "text-base"];
+
+export const MarkdownView = ({ markdown }: { markdown: string }) => {
+  return (
+    <div className="space-y-3 text-sm leading-relaxed">
+      {parseBlocks(markdown).map((block, index) => {
+        switch (block.type) {
+          case 'heading':
+            return (
+              <p key={index} role="heading" aria-level={block.level} className={`${HEADING_CLASSES[block.level - 1]} font-semibold`}>
+                {renderInline(block.text)}
+              </p>
+            );
+          case 'code':
+            return <CodeBlock key={index} code={block.code} language={block.language} />;
+          case 'list':
+            return block.ordered ? (
+              <ol key={index} className="list-decimal pl-6 space-y-1">
+                {block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item)}</li>)}
+              </ol>
+            ) : (
+              <ul key={index} className="list-disc pl-6 space-y-1">
+                {block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item)}</li>)}
+              </ul>
+            );
+          case 'quote':
+            return (
+              <blockquote key={index} className="border-l-4 pl-4 text-muted-foreground">
+                {renderInline(block.text)}
+              </blockquote>
+            );
+          case 'rule':
+            return <hr key={index} />;
+          default:
+            return <p key={index}>{renderInline(block.text)}</p>;
+        }
+      })}
+    </div>
+  );
+};
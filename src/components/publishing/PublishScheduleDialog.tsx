@@ -0,0 +1,102 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { PublishWindowFields } from "@/components/publishing/PublishWindowFields";
+import {
+  EMPTY_PUBLISH_WINDOW,
+  fromPublishWindowInput,
+  getPublishState,
+  PUBLISH_STATE_LABELS,
+  PublishWindow,
+  toPublishWindowInput,
+  updatePublishWindow,
+  validatePublishWindow,
+} from "@/lib/publishing";
+
+interface ScheduledItem extends PublishWindow {
+  id: string;
+  title: string;
+}
+
+interface PublishScheduleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  table: 'study_materials' | 'assignments';
+  item: ScheduledItem | null;
+  onSuccess: () => void;
+}
+
+export const PublishScheduleDialog = ({ open, onOpenChange, table, item, onSuccess }: PublishScheduleDialogProps) => {
+  const { toast } = useToast();
+  const [schedule, setSchedule] = useState(EMPTY_PUBLISH_WINDOW);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open && item) {
+      setSchedule(toPublishWindowInput(item));
+    }
+  }, [open, item]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!item) return;
+
+    const problem = validatePublishWindow(schedule);
+    if (problem) {
+      toast({
+        title: "Error",
+        description: problem,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      await updatePublishWindow(table, item.id, fromPublishWindowInput(schedule));
+
+      toast({
+        title: "Success",
+        description: "Publishing schedule updated",
+      });
+
+      onOpenChange(false);
+      onSuccess();
+    } catch (error) {
+      console.error('Error updating publishing schedule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update publishing schedule",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Schedule {item?.title}</DialogTitle>
+          <DialogDescription>
+            {item && `Currently ${PUBLISH_STATE_LABELS[getPublishState(item)].toLowerCase()} for students.`}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <PublishWindowFields value={schedule} onChange={setSchedule} idPrefix="schedule" />
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" onClick={() => setSchedule(EMPTY_PUBLISH_WINDOW)}>
+              Clear Schedule
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {saving ? "Saving..." : "Save Schedule"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,18 @@
+import { Badge } from "@/components/ui/badge";
+import { CalendarClock, EyeOff } from "lucide-react";
+import { describePublishWindow, getPublishState, PublishWindow } from "@/lib/publishing";
+
+// Shown to staff next to items students cannot see right now, or that will be hidden later
+export const PublishStateBadge = ({ item }: { item: PublishWindow }) => {
+  const state = getPublishState(item);
+  const description = describePublishWindow(item);
+
+  if (!description) return null;
+
+  return (
+    <Badge variant={state === 'published' ? "outline" : "secondary"}>
+      {state === 'unpublished' ? <EyeOff className="h-3 w-3 mr-1" /> : <CalendarClock className="h-3 w-3 mr-1" />}
+      {description}
+    </Badge>
+  );
+};
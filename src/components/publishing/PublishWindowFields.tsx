@@ -0,0 +1,40 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { PublishWindowInput } from "@/lib/publishing";
+
+interface PublishWindowFieldsProps {
+  value: PublishWindowInput;
+  onChange: (value: PublishWindowInput) => void;
+  idPrefix?: string;
+}
+
+// Publish and hide inputs shared by the material, assignment and schedule dialogs
+export const PublishWindowFields = ({ value, onChange, idPrefix = "publish" }: PublishWindowFieldsProps) => {
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor={`${idPrefix}-from`}>Publish At (Optional)</Label>
+          <Input
+            id={`${idPrefix}-from`}
+            type="datetime-local"
+            value={value.publish_at}
+            onChange={(e) => onChange({ ...value, publish_at: e.target.value })}
+          />
+        </div>
+        <div>
+          <Label htmlFor={`${idPrefix}-until`}>Hide After (Optional)</Label>
+          <Input
+            id={`${idPrefix}-until`}
+            type="datetime-local"
+            value={value.unpublish_at}
+            onChange={(e) => onChange({ ...value, unpublish_at: e.target.value })}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Students only see this between these times. Leave both empty to publish right away.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,391 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Trash2, X } from "lucide-react";
+import { fetchQuestionBank, formatQuizAnswer, QuizQuestion, QuizQuestionType, QUESTION_TYPE_LABELS } from "@/lib/quizzes";
+
+interface Subject {
+  id: string;
+  name: string;
+  code: string;
+}
+
+interface QuestionBankDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  subjects: Subject[];
+}
+
+const emptyDraft = () => ({
+  type: 'multiple_choice' as QuizQuestionType,
+  prompt: '',
+  points: 1,
+  options: ['', ''],
+  // Indexes of the correct options for choice questions
+  correctOptions: [] as number[],
+  trueFalse: true,
+  numericAnswer: '',
+  tolerance: '0',
+  // One accepted answer per line
+  acceptedAnswers: '',
+});
+
+export const QuestionBankDialog = ({ open, onOpenChange, subjects }: QuestionBankDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [subjectId, setSubjectId] = useState("");
+  const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+  const [draft, setDraft] = useState(emptyDraft());
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open && !subjectId && subjects.length > 0) {
+      setSubjectId(subjects[0].id);
+    }
+  }, [open, subjects]);
+
+  useEffect(() => {
+    if (open && subjectId) {
+      fetchQuestions();
+    }
+  }, [open, subjectId]);
+
+  const fetchQuestions = async () => {
+    try {
+      setQuestions(await fetchQuestionBank(subjectId));
+    } catch (error) {
+      console.error('Error fetching questions:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch questions",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const isChoice = draft.type === 'multiple_choice' || draft.type === 'multi_select';
+
+  const toggleCorrectOption = (index: number) => {
+    if (draft.type === 'multiple_choice') {
+      setDraft({ ...draft, correctOptions: [index] });
+    } else {
+      setDraft({
+        ...draft,
+        correctOptions: draft.correctOptions.includes(index)
+          ? draft.correctOptions.filter(i => i !== index)
+          : [...draft.correctOptions, index],
+      });
+    }
+  };
+
+  const removeOption = (index: number) => {
+    setDraft({
+      ...draft,
+      options: draft.options.filter((_, i) => i !== index),
+      correctOptions: draft.correctOptions.filter(i => i !== index).map(i => i > index ? i - 1 : i),
+    });
+  };
+
+  const getCorrectAnswer = () => {
+    switch (draft.type) {
+      case 'multiple_choice':
+        return draft.correctOptions[0];
+      case 'multi_select':
+        return [...draft.correctOptions].sort((a, b) => a - b);
+      case 'true_false':
+        return draft.trueFalse;
+      case 'numeric':
+        return parseFloat(draft.numericAnswer);
+      case 'short_answer':
+        return draft.acceptedAnswers.split('\n').map(answer => answer.trim()).filter(Boolean);
+    }
+  };
+
+  const isDraftValid = draft.prompt.trim() && draft.points > 0 && (
+    isChoice
+      ? draft.options.length >= 2 && draft.options.every(option => option.trim()) && draft.correctOptions.length > 0
+      : draft.type === 'numeric'
+        ? !isNaN(parseFloat(draft.numericAnswer))
+        : draft.type === 'short_answer'
+          ? draft.acceptedAnswers.trim().length > 0
+          : true
+  );
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !subjectId) return;
+
+    setSaving(true);
+
+    try {
+      const { error } = await supabase
+        .from('quiz_questions')
+        .insert({
+          subject_id: subjectId,
+          type: draft.type,
+          prompt: draft.prompt.trim(),
+          options: isChoice ? draft.options.map(option => option.trim()) : null,
+          correct_answer: getCorrectAnswer(),
+          tolerance: draft.type === 'numeric' ? parseFloat(draft.tolerance) || 0 : 0,
+          points: draft.points,
+          created_by: user.id,
+        });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Question added to the bank",
+      });
+
+      setDraft({ ...emptyDraft(), type: draft.type });
+      fetchQuestions();
+    } catch (error) {
+      console.error('Error creating question:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create question",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (question: QuizQuestion) => {
+    try {
+      const { error } = await supabase
+        .from('quiz_questions')
+        .delete()
+        .eq('id', question.id);
+
+      if (error) {
+        if (error.code === '23503') {
+          throw new Error('This question is used in a quiz');
+        }
+        throw error;
+      }
+
+      fetchQuestions();
+    } catch (error) {
+      console.error('Error deleting question:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete question",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[750px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Question Bank</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div>
+            <Label htmlFor="bank-subject">Subject</Label>
+            <Select value={subjectId} onValueChange={setSubjectId}>
+              <SelectTrigger id="bank-subject">
+                <SelectValue placeholder="Select a subject" />
+              </SelectTrigger>
+              <SelectContent>
+                {subjects.map((subject) => (
+                  <SelectItem key={subject.id} value={subject.id}>
+                    {subject.code} - {subject.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Existing questions */}
+          <div className="space-y-2">
+            {questions.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-2">No questions for this subject yet.</p>
+            ) : (
+              questions.map((question) => (
+                <div key={question.id} className="flex justify-between items-start rounded-lg border p-3 gap-4">
+                  <div className="space-y-1">
+                    <div className="flex gap-2">
+                      <Badge variant="secondary">{QUESTION_TYPE_LABELS[question.type]}</Badge>
+                      <Badge variant="outline">{Number(question.points)} pt</Badge>
+                    </div>
+                    <p className="text-sm">{question.prompt}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Answer: {formatQuizAnswer(question.type, question.options, question.correct_answer)}
+                      {question.type === 'numeric' && Number(question.tolerance) > 0 && ` ± ${Number(question.tolerance)}`}
+                    </p>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => handleDelete(question)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+
+          {/* New question */}
+          <form onSubmit={handleCreate} className="space-y-4 border-t pt-4">
+            <h3 className="font-semibold">New Question</h3>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="col-span-2">
+                <Label htmlFor="question-type">Type</Label>
+                <Select
+                  value={draft.type}
+                  onValueChange={(value) => setDraft({ ...draft, type: value as QuizQuestionType, correctOptions: [] })}
+                >
+                  <SelectTrigger id="question-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(QUESTION_TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="question-points">Points</Label>
+                <Input
+                  id="question-points"
+                  type="number"
+                  min="0.5"
+                  step="0.5"
+                  value={draft.points}
+                  onChange={(e) => setDraft({ ...draft, points: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="question-prompt">Question</Label>
+              <Textarea
+                id="question-prompt"
+                value={draft.prompt}
+                onChange={(e) => setDraft({ ...draft, prompt: e.target.value })}
+                rows={2}
+                required
+              />
+            </div>
+
+            {isChoice && (
+              <div className="space-y-2">
+                <Label>Options (tick the correct {draft.type === 'multi_select' ? 'ones' : 'one'})</Label>
+                {draft.options.map((option, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Checkbox
+                      checked={draft.correctOptions.includes(index)}
+                      onCheckedChange={() => toggleCorrectOption(index)}
+                    />
+                    <Input
+                      value={option}
+                      onChange={(e) => setDraft({
+                        ...draft,
+                        options: draft.options.map((o, i) => i === index ? e.target.value : o),
+                      })}
+                      placeholder={`Option ${index + 1}`}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      disabled={draft.options.length <= 2}
+                      onClick={() => removeOption(index)}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setDraft({ ...draft, options: [...draft.options, ''] })}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Option
+                </Button>
+              </div>
+            )}
+
+            {draft.type === 'true_false' && (
+              <div>
+                <Label htmlFor="question-true-false">Correct Answer</Label>
+                <Select
+                  value={draft.trueFalse ? 'true' : 'false'}
+                  onValueChange={(value) => setDraft({ ...draft, trueFalse: value === 'true' })}
+                >
+                  <SelectTrigger id="question-true-false">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="true">True</SelectItem>
+                    <SelectItem value="false">False</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {draft.type === 'numeric' && (
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="question-numeric">Correct Answer</Label>
+                  <Input
+                    id="question-numeric"
+                    type="number"
+                    step="any"
+                    value={draft.numericAnswer}
+                    onChange={(e) => setDraft({ ...draft, numericAnswer: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="question-tolerance">Tolerance (±)</Label>
+                  <Input
+                    id="question-tolerance"
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={draft.tolerance}
+                    onChange={(e) => setDraft({ ...draft, tolerance: e.target.value })}
+                  />
+                </div>
+              </div>
+            )}
+
+            {draft.type === 'short_answer' && (
+              <div>
+                <Label htmlFor="question-accepted">Accepted Answers (one per line)</Label>
+                <Textarea
+                  id="question-accepted"
+                  value={draft.acceptedAnswers}
+                  onChange={(e) => setDraft({ ...draft, acceptedAnswers: e.target.value })}
+                  rows={3}
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Compared without regard to case or surrounding spaces. Graders can adjust the score afterwards.
+                </p>
+              </div>
+            )}
+
+            <div className="flex justify-end">
+              <Button type="submit" disabled={saving || !subjectId || !isDraftValid}>
+                {saving ? "Adding..." : "Add Question"}
+              </Button>
+            </div>
+          </form>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,110 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import type { Json } from "@/integrations/supabase/types";
+import { formatQuizAnswer, QuizQuestion } from "@/lib/quizzes";
+
+interface QuizAttemptReviewProps {
+  submissionId: string;
+}
+
+interface ReviewedAttempt {
+  answers: Record<string, Json>;
+  scores: Record<string, number>;
+  started_at: string;
+  finished_at: string | null;
+  questions: QuizQuestion[];
+}
+
+// Question by question breakdown of an auto-graded quiz submission, for staff
+export const QuizAttemptReview = ({ submissionId }: QuizAttemptReviewProps) => {
+  const [attempt, setAttempt] = useState<ReviewedAttempt | null>(null);
+
+  useEffect(() => {
+    fetchAttempt();
+  }, [submissionId]);
+
+  const fetchAttempt = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('quiz_attempts')
+        .select('answers, scores, started_at, finished_at, question_order')
+        .eq('submission_id', submissionId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) {
+        setAttempt(null);
+        return;
+      }
+
+      const { data: questions, error: questionsError } = await supabase
+        .from('quiz_questions')
+        .select('*')
+        .in('id', data.question_order);
+
+      if (questionsError) throw questionsError;
+
+      setAttempt({
+        answers: (data.answers || {}) as Record<string, Json>,
+        scores: (data.scores || {}) as Record<string, number>,
+        started_at: data.started_at,
+        finished_at: data.finished_at,
+        questions: data.question_order
+          .map(questionId => (questions || []).find(question => question.id === questionId))
+          .filter(Boolean),
+      });
+    } catch (error) {
+      console.error('Error fetching quiz attempt:', error);
+    }
+  };
+
+  if (!attempt) return null;
+
+  const minutesTaken = attempt.finished_at
+    ? Math.ceil((new Date(attempt.finished_at).getTime() - new Date(attempt.started_at).getTime()) / 60000)
+    : null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-center">
+        <h4 className="font-semibold">Quiz Answers</h4>
+        {minutesTaken !== null && (
+          <span className="text-xs text-muted-foreground">Finished in {minutesTaken} min</span>
+        )}
+      </div>
+      <table className="w-full">
+        <thead>
+          <tr className="border-b">
+            <th className="text-left p-2 font-medium text-muted-foreground">Question</th>
+            <th className="text-left p-2 font-medium text-muted-foreground">Answer</th>
+            <th className="text-left p-2 font-medium text-muted-foreground">Expected</th>
+            <th className="text-right p-2 font-medium text-muted-foreground">Points</th>
+          </tr>
+        </thead>
+        <tbody>
+          {attempt.questions.map((question, index) => {
+            const earned = Number(attempt.scores[question.id] ?? 0);
+            return (
+              <tr key={question.id} className="border-b text-sm">
+                <td className="p-2">{index + 1}. {question.prompt}</td>
+                <td className="p-2">{formatQuizAnswer(question.type, question.options, attempt.answers[question.id])}</td>
+                <td className="p-2 text-muted-foreground">
+                  {formatQuizAnswer(question.type, question.options, question.correct_answer)}
+                </td>
+                <td className="p-2 text-right">
+                  <Badge variant={earned > 0 ? "default" : "destructive"}>
+                    {earned}/{Number(question.points)}
+                  </Badge>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <p className="text-xs text-muted-foreground">
+        Scores were assigned automatically. Adjust the grade below to override them.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,248 @@
+import { useState, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Timer } from "lucide-react";
+import {
+  formatTimeRemaining,
+  QuizAnswer,
+  QuizAttempt,
+  QuizAttemptQuestion,
+  saveQuizAnswers,
+  startQuizAttempt,
+  submitQuizAttempt,
+} from "@/lib/quizzes";
+
+interface Quiz {
+  id: string;
+  title: string;
+}
+
+interface TakeQuizDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  quiz: Quiz;
+  onSuccess: () => void;
+}
+
+export const TakeQuizDialog = ({ open, onOpenChange, quiz, onSuccess }: TakeQuizDialogProps) => {
+  const { toast } = useToast();
+  const [attempt, setAttempt] = useState<QuizAttempt | null>(null);
+  const [answers, setAnswers] = useState<Record<string, QuizAnswer>>({});
+  const [now, setNow] = useState(Date.now());
+  const [submitting, setSubmitting] = useState(false);
+  const dirty = useRef(false);
+  const autoSubmitted = useRef(false);
+
+  useEffect(() => {
+    if (open) {
+      loadAttempt();
+    } else {
+      setAttempt(null);
+      setAnswers({});
+    }
+  }, [open, quiz.id]);
+
+  // Tick the countdown while a timed attempt is running
+  useEffect(() => {
+    if (!attempt?.deadline) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [attempt]);
+
+  // Keep the answers on the server so a reload or an expired timer does not lose them
+  useEffect(() => {
+    if (!attempt || !dirty.current) return;
+    const timeout = setTimeout(() => {
+      dirty.current = false;
+      saveQuizAnswers(attempt.attempt_id, answers).catch(error => {
+        console.error('Error saving answers:', error);
+      });
+    }, 1000);
+    return () => clearTimeout(timeout);
+  }, [answers]);
+
+  const remaining = attempt?.deadline ? new Date(attempt.deadline).getTime() - now : null;
+
+  useEffect(() => {
+    // Hand the attempt in once when time runs out
+    if (remaining !== null && remaining <= 0 && !autoSubmitted.current) {
+      autoSubmitted.current = true;
+      handleSubmit();
+    }
+  }, [remaining]);
+
+  const loadAttempt = async () => {
+    try {
+      const data = await startQuizAttempt(quiz.id);
+      autoSubmitted.current = false;
+      setAttempt(data);
+      setAnswers(data.answers || {});
+      setNow(Date.now());
+    } catch (error) {
+      console.error('Error starting quiz:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to start quiz",
+        variant: "destructive",
+      });
+      onOpenChange(false);
+    }
+  };
+
+  const setAnswer = (questionId: string, answer: QuizAnswer) => {
+    dirty.current = true;
+    setAnswers({ ...answers, [questionId]: answer });
+  };
+
+  const toggleOption = (question: QuizAttemptQuestion, index: number) => {
+    const selected = Array.isArray(answers[question.id]) ? answers[question.id] as number[] : [];
+    setAnswer(question.id, selected.includes(index) ? selected.filter(i => i !== index) : [...selected, index]);
+  };
+
+  const handleSubmit = async () => {
+    if (!attempt) return;
+
+    setSubmitting(true);
+
+    try {
+      dirty.current = false;
+      await submitQuizAttempt(attempt.attempt_id, answers);
+
+      toast({
+        title: "Success",
+        description: "Quiz submitted and graded",
+      });
+
+      onOpenChange(false);
+      onSuccess();
+    } catch (error) {
+      console.error('Error submitting quiz:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to submit quiz",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderAnswerInput = (question: QuizAttemptQuestion) => {
+    const answer = answers[question.id];
+
+    switch (question.type) {
+      case 'multiple_choice':
+        return (
+          <RadioGroup
+            value={answer === undefined ? '' : String(answer)}
+            onValueChange={(value) => setAnswer(question.id, parseInt(value))}
+          >
+            {(question.options || []).map((option, index) => (
+              <div key={index} className="flex items-center space-x-2">
+                <RadioGroupItem value={String(index)} id={`${question.id}-${index}`} />
+                <Label htmlFor={`${question.id}-${index}`} className="font-normal">{option}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+        );
+      case 'multi_select':
+        return (
+          <div className="space-y-2">
+            {(question.options || []).map((option, index) => (
+              <div key={index} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`${question.id}-${index}`}
+                  checked={Array.isArray(answer) && answer.includes(index)}
+                  onCheckedChange={() => toggleOption(question, index)}
+                />
+                <Label htmlFor={`${question.id}-${index}`} className="font-normal">{option}</Label>
+              </div>
+            ))}
+          </div>
+        );
+      case 'true_false':
+        return (
+          <RadioGroup
+            value={answer === undefined ? '' : String(answer)}
+            onValueChange={(value) => setAnswer(question.id, value === 'true')}
+          >
+            {['true', 'false'].map((value) => (
+              <div key={value} className="flex items-center space-x-2">
+                <RadioGroupItem value={value} id={`${question.id}-${value}`} />
+                <Label htmlFor={`${question.id}-${value}`} className="font-normal">
+                  {value === 'true' ? 'True' : 'False'}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        );
+      case 'numeric':
+        return (
+          <Input
+            type="number"
+            step="any"
+            value={answer === undefined ? '' : String(answer)}
+            onChange={(e) => setAnswer(question.id, e.target.value)}
+          />
+        );
+      case 'short_answer':
+        return (
+          <Input
+            value={answer === undefined ? '' : String(answer)}
+            onChange={(e) => setAnswer(question.id, e.target.value)}
+          />
+        );
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex justify-between items-center pr-6">
+            <span>{quiz.title}</span>
+            {remaining !== null && (
+              <Badge variant={remaining < 60000 ? "destructive" : "secondary"}>
+                <Timer className="h-3 w-3 mr-1" />
+                {formatTimeRemaining(remaining)}
+              </Badge>
+            )}
+          </DialogTitle>
+        </DialogHeader>
+
+        {!attempt ? (
+          <div>Loading quiz...</div>
+        ) : (
+          <div className="space-y-6">
+            <p className="text-xs text-muted-foreground">
+              Answers are saved as you go. Closing this window does not stop the timer.
+            </p>
+            {attempt.questions.map((question, index) => (
+              <div key={question.id} className="space-y-3 rounded-lg border p-4">
+                <div className="flex justify-between gap-4">
+                  <p className="font-medium">{index + 1}. {question.prompt}</p>
+                  <Badge variant="outline">{Number(question.points)} pt</Badge>
+                </div>
+                {renderAnswerInput(question)}
+              </div>
+            ))}
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Continue Later
+              </Button>
+              <Button onClick={handleSubmit} disabled={submitting}>
+                {submitting ? "Submitting..." : "Submit Quiz"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
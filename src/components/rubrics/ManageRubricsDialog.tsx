@@ -0,0 +1,327 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Trash2, X } from "lucide-react";
+import { createRubric, fetchSubjectRubrics, Rubric, RubricDraft } from "@/lib/rubrics";
+import { RubricGrid } from "./RubricGrid";
+
+interface Subject {
+  id: string;
+  name: string;
+  code: string;
+}
+
+interface ManageRubricsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  subjects: Subject[];
+  onSuccess: () => void;
+}
+
+const emptyCriterion = (): RubricDraft['criteria'][number] => ({
+  title: '',
+  description: '',
+  levels: [
+    { label: 'Excellent', description: '', points: 10 },
+    { label: 'Good', description: '', points: 7 },
+    { label: 'Needs work', description: '', points: 3 },
+  ],
+});
+
+const emptyDraft = (): RubricDraft => ({
+  title: '',
+  description: '',
+  criteria: [emptyCriterion()],
+});
+
+export const ManageRubricsDialog = ({ open, onOpenChange, subjects, onSuccess }: ManageRubricsDialogProps) => {
+  const { toast } = useToast();
+  const [subjectId, setSubjectId] = useState("");
+  const [rubrics, setRubrics] = useState<Rubric[]>([]);
+  const [previewId, setPreviewId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<RubricDraft>(emptyDraft());
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open && !subjectId && subjects.length > 0) {
+      setSubjectId(subjects[0].id);
+    }
+  }, [open, subjects]);
+
+  useEffect(() => {
+    if (open && subjectId) {
+      fetchRubrics();
+    }
+  }, [open, subjectId]);
+
+  const fetchRubrics = async () => {
+    try {
+      setRubrics(await fetchSubjectRubrics(subjectId));
+    } catch (error) {
+      console.error('Error fetching rubrics:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch rubrics",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const updateCriterion = (index: number, changes: Partial<RubricDraft['criteria'][number]>) => {
+    setDraft({
+      ...draft,
+      criteria: draft.criteria.map((criterion, i) => i === index ? { ...criterion, ...changes } : criterion),
+    });
+  };
+
+  const updateLevel = (criterionIndex: number, levelIndex: number, changes: Partial<RubricDraft['criteria'][number]['levels'][number]>) => {
+    const criterion = draft.criteria[criterionIndex];
+    updateCriterion(criterionIndex, {
+      levels: criterion.levels.map((level, i) => i === levelIndex ? { ...level, ...changes } : level),
+    });
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!subjectId) return;
+
+    setSaving(true);
+
+    try {
+      await createRubric(subjectId, draft);
+
+      toast({
+        title: "Success",
+        description: "Rubric created successfully",
+      });
+
+      setDraft(emptyDraft());
+      fetchRubrics();
+      onSuccess();
+    } catch (error) {
+      console.error('Error creating rubric:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create rubric",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (rubric: Rubric) => {
+    try {
+      const { error } = await supabase
+        .from('rubrics')
+        .delete()
+        .eq('id', rubric.id);
+
+      if (error) {
+        if (error.code === '23503') {
+          throw new Error('This rubric is attached to an assignment');
+        }
+        throw error;
+      }
+
+      toast({
+        title: "Success",
+        description: "Rubric deleted successfully",
+      });
+
+      fetchRubrics();
+      onSuccess();
+    } catch (error) {
+      console.error('Error deleting rubric:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete rubric",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const isDraftValid = draft.title &&
+    draft.criteria.every(criterion => criterion.title && criterion.levels.length > 0 && criterion.levels.every(level => level.label));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[750px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Rubrics</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div>
+            <Label htmlFor="rubric-subject">Subject</Label>
+            <Select value={subjectId} onValueChange={setSubjectId}>
+              <SelectTrigger id="rubric-subject">
+                <SelectValue placeholder="Select a subject" />
+              </SelectTrigger>
+              <SelectContent>
+                {subjects.map((subject) => (
+                  <SelectItem key={subject.id} value={subject.id}>
+                    {subject.code} - {subject.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Existing rubrics */}
+          <div className="space-y-2">
+            {rubrics.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-2">No rubrics for this subject yet.</p>
+            ) : (
+              rubrics.map((rubric) => (
+                <div key={rubric.id} className="rounded-lg border p-3 space-y-3">
+                  <div className="flex justify-between items-center">
+                    <div>
+                      <p className="font-medium">{rubric.title}</p>
+                      <p className="text-sm text-muted-foreground">{rubric.criteria.length} criteria</p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setPreviewId(previewId === rubric.id ? null : rubric.id)}
+                      >
+                        {previewId === rubric.id ? 'Hide' : 'Preview'}
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => handleDelete(rubric)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  {previewId === rubric.id && (
+                    <RubricGrid rubric={rubric} selectedLevels={{}} comments={{}} />
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+
+          {/* New rubric */}
+          <form onSubmit={handleCreate} className="space-y-4 border-t pt-4">
+            <h3 className="font-semibold">New Rubric</h3>
+            <div>
+              <Label htmlFor="rubric-title">Title</Label>
+              <Input
+                id="rubric-title"
+                value={draft.title}
+                onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+                placeholder="e.g., Essay rubric"
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="rubric-description">Description (Optional)</Label>
+              <Textarea
+                id="rubric-description"
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                rows={2}
+              />
+            </div>
+
+            {draft.criteria.map((criterion, criterionIndex) => (
+              <div key={criterionIndex} className="rounded-lg border p-3 space-y-3">
+                <div className="flex gap-2 items-end">
+                  <div className="flex-1">
+                    <Label className="text-xs">Criterion {criterionIndex + 1}</Label>
+                    <Input
+                      value={criterion.title}
+                      onChange={(e) => updateCriterion(criterionIndex, { title: e.target.value })}
+                      placeholder="e.g., Argument"
+                    />
+                  </div>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    disabled={draft.criteria.length === 1}
+                    onClick={() => setDraft({ ...draft, criteria: draft.criteria.filter((_, i) => i !== criterionIndex) })}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <Input
+                  value={criterion.description}
+                  onChange={(e) => updateCriterion(criterionIndex, { description: e.target.value })}
+                  placeholder="What is assessed (optional)"
+                />
+                <div className="space-y-2">
+                  {criterion.levels.map((level, levelIndex) => (
+                    <div key={levelIndex} className="grid grid-cols-12 gap-2">
+                      <Input
+                        className="col-span-3"
+                        value={level.label}
+                        onChange={(e) => updateLevel(criterionIndex, levelIndex, { label: e.target.value })}
+                        placeholder="Level"
+                      />
+                      <Input
+                        className="col-span-6"
+                        value={level.description}
+                        onChange={(e) => updateLevel(criterionIndex, levelIndex, { description: e.target.value })}
+                        placeholder="Description (optional)"
+                      />
+                      <Input
+                        className="col-span-2"
+                        type="number"
+                        min="0"
+                        step="0.5"
+                        value={level.points}
+                        onChange={(e) => updateLevel(criterionIndex, levelIndex, { points: parseFloat(e.target.value) || 0 })}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="col-span-1"
+                        disabled={criterion.levels.length === 1}
+                        onClick={() => updateCriterion(criterionIndex, { levels: criterion.levels.filter((_, i) => i !== levelIndex) })}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => updateCriterion(criterionIndex, {
+                      levels: [...criterion.levels, { label: '', description: '', points: 0 }],
+                    })}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Level
+                  </Button>
+                </div>
+              </div>
+            ))}
+
+            <div className="flex justify-between">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setDraft({ ...draft, criteria: [...draft.criteria, emptyCriterion()] })}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Criterion
+              </Button>
+              <Button type="submit" disabled={saving || !subjectId || !isDraftValid}>
+                {saving ? "Creating..." : "Create Rubric"}
+              </Button>
+            </div>
+          </form>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,74 @@
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { getRubricMaxPoints, Rubric, RubricCriterion, RubricLevel } from "@/lib/rubrics";
+
+interface RubricGridProps {
+  rubric: Rubric;
+  // Selected level per criterion id
+  selectedLevels: Record<string, string | null>;
+  comments: Record<string, string>;
+  // Leave both handlers out to render the rubric read-only
+  onSelectLevel?: (criterion: RubricCriterion, level: RubricLevel) => void;
+  onCommentChange?: (criterion: RubricCriterion, comment: string) => void;
+}
+
+export const RubricGrid = ({ rubric, selectedLevels, comments, onSelectLevel, onCommentChange }: RubricGridProps) => {
+  const readOnly = !onSelectLevel;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <h4 className="font-semibold">{rubric.title}</h4>
+        <span className="text-sm text-muted-foreground">{getRubricMaxPoints(rubric)} points</span>
+      </div>
+      {rubric.criteria.map((criterion) => (
+        <div key={criterion.id} className="rounded-lg border p-3 space-y-2">
+          <div>
+            <p className="font-medium text-sm">{criterion.title}</p>
+            {criterion.description && (
+              <p className="text-xs text-muted-foreground">{criterion.description}</p>
+            )}
+          </div>
+          <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${criterion.levels.length}, minmax(0, 1fr))` }}>
+            {criterion.levels.map((level) => {
+              const selected = selectedLevels[criterion.id] === level.id;
+              return (
+                <button
+                  key={level.id}
+                  type="button"
+                  disabled={readOnly}
+                  onClick={() => onSelectLevel?.(criterion, level)}
+                  className={cn(
+                    "rounded-md border p-2 text-left text-xs transition-colors",
+                    selected ? "border-primary bg-primary/10" : "bg-background",
+                    !readOnly && "hover:bg-muted cursor-pointer"
+                  )}
+                >
+                  <div className="flex justify-between font-medium">
+                    <span>{level.label}</span>
+                    <span>{level.points}</span>
+                  </div>
+                  {level.description && (
+                    <p className="text-muted-foreground mt-1">{level.description}</p>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+          {onCommentChange ? (
+            <Input
+              value={comments[criterion.id] || ''}
+              onChange={(e) => onCommentChange(criterion, e.target.value)}
+              placeholder="Comment on this criterion (optional)"
+              className="text-sm"
+            />
+          ) : (
+            comments[criterion.id] && (
+              <p className="text-xs bg-muted p-2 rounded">{comments[criterion.id]}</p>
+            )
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
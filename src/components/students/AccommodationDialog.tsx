@@ -0,0 +1,160 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+
+export interface Accommodation {
+  id: string;
+  subject_id: string;
+  student_id: string;
+  time_multiplier: number;
+  notes: string | null;
+}
+
+interface AccommodationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  studentId: string;
+  studentName: string;
+  subjectId: string;
+  accommodation: Accommodation | null;
+  onSuccess: () => void;
+}
+
+export const AccommodationDialog = ({ open, onOpenChange, studentId, studentName, subjectId, accommodation, onSuccess }: AccommodationDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [formData, setFormData] = useState({
+    time_multiplier: '1.5',
+    notes: '',
+  });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setFormData({
+        time_multiplier: accommodation ? String(Number(accommodation.time_multiplier)) : '1.5',
+        notes: accommodation?.notes || '',
+      });
+    }
+  }, [open, accommodation]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    setSaving(true);
+
+    try {
+      const { error } = await supabase
+        .from('student_accommodations')
+        .upsert({
+          subject_id: subjectId,
+          student_id: studentId,
+          time_multiplier: parseFloat(formData.time_multiplier),
+          notes: formData.notes || null,
+          granted_by: user.id,
+        }, { onConflict: 'subject_id,student_id' });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Accommodation saved successfully",
+      });
+
+      onOpenChange(false);
+      onSuccess();
+    } catch (error) {
+      console.error('Error saving accommodation:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save accommodation",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!accommodation) return;
+
+    try {
+      const { error } = await supabase
+        .from('student_accommodations')
+        .delete()
+        .eq('id', accommodation.id);
+
+      if (error) throw error;
+
+      onOpenChange(false);
+      onSuccess();
+    } catch (error) {
+      console.error('Error removing accommodation:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove accommodation",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Accommodation - {studentName}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="time_multiplier">Time Multiplier</Label>
+            <Input
+              id="time_multiplier"
+              type="number"
+              min="1"
+              max="5"
+              step="0.25"
+              value={formData.time_multiplier}
+              onChange={(e) => setFormData({ ...formData, time_multiplier: e.target.value })}
+              required
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              Stretches the time between publishing and the due date of every assignment in this subject.
+              Individual extensions take precedence.
+            </p>
+          </div>
+          <div>
+            <Label htmlFor="accommodation_notes">Notes (Optional)</Label>
+            <Textarea
+              id="accommodation_notes"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              rows={3}
+            />
+          </div>
+          <div className="flex justify-between">
+            {accommodation ? (
+              <Button type="button" variant="outline" onClick={handleRemove}>
+                Remove
+              </Button>
+            ) : <span />}
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
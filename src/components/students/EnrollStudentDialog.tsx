@@ -1,18 +1,20 @@
 import { useState } from "react";
 import { useAuth } from "@/hooks/useAuth";
-import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
+import { STAFF_ROLE_LABELS, SubjectStaffRole } from "@/lib/subject-staff";
+import { enrollOrInviteByEmail } from "@/lib/subject-invites";
 import { UserPlus } from "lucide-react";
 
 interface Subject {
   id: string;
   name: string;
   code: string;
+  staff_role?: SubjectStaffRole | null;
 }
 
 interface EnrollStudentDialogProps {
@@ -38,47 +40,14 @@ export const EnrollStudentDialog = ({ open, onOpenChange, subjects, onSuccess }:
     setEnrolling(true);
 
     try {
-      // First, find the student by email
-      const { data: profileData, error: profileError } = await supabase
-        .from('profiles')
-        .select('id, role')
-        .eq('email', formData.email)
-        .single();
-
-      if (profileError || !profileData) {
-        throw new Error('Student not found with this email');
-      }
-
-      if (profileData.role !== 'student') {
-        throw new Error('User is not a student');
-      }
-
-      // Check if already enrolled
-      const { data: existingEnrollment } = await supabase
-        .from('enrollments')
-        .select('id')
-        .eq('student_id', profileData.id)
-        .eq('subject_id', formData.subject_id)
-        .eq('is_active', true)
-        .single();
-
-      if (existingEnrollment) {
-        throw new Error('Student is already enrolled in this subject');
-      }
-
-      // Enroll the student
-      const { error: enrollError } = await supabase
-        .from('enrollments')
-        .insert({
-          student_id: profileData.id,
-          subject_id: formData.subject_id,
-        });
-
-      if (enrollError) throw enrollError;
+      // Students without an account yet get an invitation that completes on sign up
+      const result = await enrollOrInviteByEmail(formData.subject_id, formData.email, user.id);
 
       toast({
         title: "Success",
-        description: "Student enrolled successfully",
+        description: result === 'enrolled'
+          ? "Student enrolled successfully"
+          : "No account with this email yet. An invitation was created and the student is enrolled when they sign up.",
       });
 
       // Reset form
@@ -129,6 +98,7 @@ export const EnrollStudentDialog = ({ open, onOpenChange, subjects, onSuccess }:
                 {subjects.map((subject) => (
                   <SelectItem key={subject.id} value={subject.id}>
                     {subject.code} - {subject.name}
+                    {subject.staff_role && ` (${STAFF_ROLE_LABELS[subject.staff_role]})`}
                   </SelectItem>
                 ))}
               </SelectContent>
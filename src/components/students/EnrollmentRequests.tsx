@@ -0,0 +1,154 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Check, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { ManagedSubject } from "@/lib/subject-staff";
+import { ENROLLMENT_STATUS_LABELS, EnrollmentStatus, reviewEnrollment } from "@/lib/enrollments";
+
+interface EnrollmentRequest {
+  id: string;
+  status: EnrollmentStatus;
+  enrolled_at: string;
+  subject_id: string;
+  profiles: {
+    first_name: string | null;
+    last_name: string | null;
+    email: string;
+  };
+}
+
+interface EnrollmentRequestsProps {
+  subjects: ManagedSubject[];
+  selectedSubject: string;
+  onReviewed: () => void;
+}
+
+// Approval queue: pending requests first, then each subject's waitlist in order
+export const EnrollmentRequests = ({ subjects, selectedSubject, onReviewed }: EnrollmentRequestsProps) => {
+  const { toast } = useToast();
+  const [requests, setRequests] = useState<EnrollmentRequest[]>([]);
+  const [reviewing, setReviewing] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (subjects.length > 0) {
+      fetchRequests();
+    }
+  }, [subjects]);
+
+  const fetchRequests = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('enrollments')
+        .select('id, status, enrolled_at, subject_id, profiles!inner(first_name, last_name, email)')
+        .in('subject_id', subjects.map(subject => subject.id))
+        .in('status', ['pending', 'waitlisted'])
+        .order('enrolled_at');
+
+      if (error) throw error;
+      setRequests(data || []);
+    } catch (error) {
+      console.error('Error fetching enrollment requests:', error);
+    }
+  };
+
+  const handleReview = async (request: EnrollmentRequest, approve: boolean) => {
+    setReviewing(request.id);
+
+    try {
+      const status = await reviewEnrollment(request.id, approve);
+
+      toast({
+        title: "Success",
+        description: status === 'waitlisted' && request.status === 'pending'
+          ? "Approved. The subject is full, so the student was added to the waitlist."
+          : `Request ${status === 'rejected' ? 'declined' : 'approved'}`,
+      });
+
+      fetchRequests();
+      onReviewed();
+    } catch (error) {
+      console.error('Error reviewing enrollment:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to review request",
+        variant: "destructive",
+      });
+    } finally {
+      setReviewing(null);
+    }
+  };
+
+  const visibleRequests = requests
+    .filter(request => selectedSubject === "all" || request.subject_id === selectedSubject)
+    .sort((a, b) => (a.status === b.status ? 0 : a.status === 'pending' ? -1 : 1));
+
+  if (visibleRequests.length === 0) return null;
+
+  const getSubject = (subjectId: string) => subjects.find(subject => subject.id === subjectId);
+
+  const getWaitlistPosition = (request: EnrollmentRequest) =>
+    requests
+      .filter(other => other.subject_id === request.subject_id && other.status === 'waitlisted')
+      .findIndex(other => other.id === request.id) + 1;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Enrollment Requests ({visibleRequests.length})</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <table className="w-full">
+          <thead>
+            <tr className="border-b">
+              <th className="text-left p-2 font-medium text-muted-foreground">Student</th>
+              <th className="text-left p-2 font-medium text-muted-foreground">Subject</th>
+              <th className="text-left p-2 font-medium text-muted-foreground">Status</th>
+              <th className="text-left p-2 font-medium text-muted-foreground">Since</th>
+              <th className="p-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {visibleRequests.map((request) => (
+              <tr key={request.id} className="border-b text-sm">
+                <td className="p-2">
+                  <div className="font-medium">{request.profiles.first_name} {request.profiles.last_name}</div>
+                  <div className="text-muted-foreground">{request.profiles.email}</div>
+                </td>
+                <td className="p-2">{getSubject(request.subject_id)?.code}</td>
+                <td className="p-2">
+                  <Badge variant={request.status === 'pending' ? "default" : "secondary"}>
+                    {ENROLLMENT_STATUS_LABELS[request.status]}
+                    {request.status === 'waitlisted' && ` #${getWaitlistPosition(request)}`}
+                  </Badge>
+                </td>
+                <td className="p-2 text-muted-foreground">{new Date(request.enrolled_at).toLocaleDateString()}</td>
+                <td className="p-2">
+                  <div className="flex gap-2 justify-end">
+                    {request.status === 'pending' && (
+                      <Button size="sm" onClick={() => handleReview(request, true)} disabled={reviewing === request.id}>
+                        <Check className="h-4 w-4 mr-1" />
+                        Approve
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleReview(request, false)}
+                      disabled={reviewing === request.id}
+                    >
+                      <X className="h-4 w-4 mr-1" />
+                      {request.status === 'pending' ? 'Reject' : 'Remove'}
+                    </Button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,205 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Upload } from "lucide-react";
+import { importRoster, parseRoster, previewRoster, RosterPreviewRow, RosterRowStatus } from "@/lib/roster-import";
+
+interface Subject {
+  id: string;
+  name: string;
+  code: string;
+}
+
+interface ImportStudentsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  subjects: Subject[];
+  onSuccess: () => void;
+}
+
+const STATUS_LABELS: Record<RosterRowStatus, string> = {
+  matched: 'Matched',
+  unmatched: 'Unmatched',
+  duplicate: 'Duplicate',
+  conflict: 'Conflict',
+  invalid: 'Invalid',
+};
+
+const STATUS_VARIANTS: Record<RosterRowStatus, "default" | "secondary" | "outline" | "destructive"> = {
+  matched: 'default',
+  unmatched: 'secondary',
+  duplicate: 'outline',
+  conflict: 'destructive',
+  invalid: 'destructive',
+};
+
+export const ImportStudentsDialog = ({ open, onOpenChange, subjects, onSuccess }: ImportStudentsDialogProps) => {
+  const { toast } = useToast();
+  const [subjectId, setSubjectId] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<RosterPreviewRow[] | null>(null);
+  const [loadingPreview, setLoadingPreview] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  const reset = () => {
+    setFile(null);
+    setPreview(null);
+  };
+
+  const handlePreview = async () => {
+    if (!file || !subjectId) return;
+
+    setLoadingPreview(true);
+
+    try {
+      const roster = parseRoster(await file.text());
+      if (roster.length === 0) {
+        throw new Error('The file does not contain any rows');
+      }
+      setPreview(await previewRoster(subjectId, roster));
+    } catch (error) {
+      console.error('Error previewing roster:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to read the roster",
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingPreview(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!preview || !subjectId) return;
+
+    setImporting(true);
+
+    try {
+      const result = await importRoster(subjectId, preview);
+
+      toast({
+        title: "Success",
+        description: `${result.enrolled} student${result.enrolled === 1 ? '' : 's'} enrolled, ${result.invited} invitation${result.invited === 1 ? '' : 's'} created`,
+      });
+
+      reset();
+      onOpenChange(false);
+      onSuccess();
+    } catch (error) {
+      console.error('Error importing roster:', error);
+      toast({
+        title: "Error",
+        description: "Failed to import the roster. No students were enrolled.",
+        variant: "destructive",
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const counts = (preview || []).reduce((acc, row) => ({ ...acc, [row.status]: (acc[row.status] || 0) + 1 }), {} as Record<RosterRowStatus, number>);
+  const importable = (counts.matched || 0) + (counts.unmatched || 0);
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => { if (!value) reset(); onOpenChange(value); }}>
+      <DialogContent className="sm:max-w-[750px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Students from CSV</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="import-subject">Subject</Label>
+              <Select value={subjectId} onValueChange={(value) => { setSubjectId(value); setPreview(null); }}>
+                <SelectTrigger id="import-subject">
+                  <SelectValue placeholder="Select a subject" />
+                </SelectTrigger>
+                <SelectContent>
+                  {subjects.map((subject) => (
+                    <SelectItem key={subject.id} value={subject.id}>
+                      {subject.code} - {subject.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="import-file">Roster File</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".csv,text/csv"
+                onChange={(e) => { setFile(e.target.files?.[0] || null); setPreview(null); }}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            One student per row with an "email" column, and optionally "first name" and "last name" columns.
+          </p>
+
+          {!preview ? (
+            <div className="flex justify-end">
+              <Button onClick={handlePreview} disabled={!file || !subjectId || loadingPreview}>
+                {loadingPreview ? "Reading..." : "Preview"}
+              </Button>
+            </div>
+          ) : (
+            <>
+              <div className="flex gap-2">
+                {(Object.keys(STATUS_LABELS) as RosterRowStatus[]).map((status) => (
+                  <Badge key={status} variant={STATUS_VARIANTS[status]}>
+                    {STATUS_LABELS[status]}: {counts[status] || 0}
+                  </Badge>
+                ))}
+              </div>
+
+              <div className="max-h-80 overflow-y-auto border rounded-lg">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-left p-2 font-medium text-muted-foreground">Line</th>
+                      <th className="text-left p-2 font-medium text-muted-foreground">Email</th>
+                      <th className="text-left p-2 font-medium text-muted-foreground">Name</th>
+                      <th className="text-left p-2 font-medium text-muted-foreground">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.map((row) => (
+                      <tr key={row.line} className="border-b text-sm">
+                        <td className="p-2 text-muted-foreground">{row.line}</td>
+                        <td className="p-2">{row.email || '-'}</td>
+                        <td className="p-2">{[row.first_name, row.last_name].filter(Boolean).join(' ') || '-'}</td>
+                        <td className="p-2">
+                          <Badge variant={STATUS_VARIANTS[row.status]}>{STATUS_LABELS[row.status]}</Badge>
+                          <span className="text-xs text-muted-foreground ml-2">{row.detail}</span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="flex justify-between">
+                <Button variant="outline" onClick={() => setPreview(null)}>
+                  Back
+                </Button>
+                <Button onClick={handleImport} disabled={importing || importable === 0}>
+                  <Upload className="h-4 w-4 mr-2" />
+                  {importing
+                    ? "Importing..."
+                    : `Enroll ${counts.matched || 0} and invite ${counts.unmatched || 0}`}
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -5,9 +5,14 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Users, UserPlus, UserMinus } from "lucide-react";
+import { Users, UserPlus, UserMinus, Clock, FileUp } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { EnrollStudentDialog } from "./EnrollStudentDialog";
+import { ImportStudentsDialog } from "./ImportStudentsDialog";
+import { EnrollmentRequests } from "./EnrollmentRequests";
+import { Accommodation, AccommodationDialog } from "./AccommodationDialog";
+import { fetchManagedSubjects, ManagedSubject, ENROLLMENT_ROLES } from "@/lib/subject-staff";
+import { formatTimeMultiplier } from "@/lib/due-dates";
 
 interface Student {
   id: string;
@@ -22,29 +27,25 @@ interface Student {
   };
 }
 
-interface Subject {
-  id: string;
-  name: string;
-  code: string;
-}
-
 export const ProfessorStudents = () => {
-  const { user } = useAuth();
+  const { user, institution } = useAuth();
   const { toast } = useToast();
   const [students, setStudents] = useState<Student[]>([]);
-  const [subjects, setSubjects] = useState<Subject[]>([]);
+  const [subjects, setSubjects] = useState<ManagedSubject[]>([]);
   const [selectedSubject, setSelectedSubject] = useState<string>("all");
   const [loading, setLoading] = useState(true);
   const [enrollDialogOpen, setEnrollDialogOpen] = useState(false);
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
+  const [accommodations, setAccommodations] = useState<Accommodation[]>([]);
+  const [accommodationStudent, setAccommodationStudent] = useState<Student | null>(null);
 
   useEffect(() => {
-    if (user) {
-      fetchStudents();
+    if (user && institution) {
       fetchSubjects();
     }
-  }, [user]);
+  }, [user, institution]);
 
-  const fetchStudents = async () => {
+  const fetchStudents = async (managedSubjects: ManagedSubject[] = subjects) => {
     try {
       const { data, error } = await supabase
         .from('enrollments')
@@ -54,7 +55,8 @@ export const ProfessorStudents = () => {
           subjects!inner(id, name, code),
           profiles!inner(id, email, first_name, last_name)
         `)
-        .eq('subjects.professor_id', user?.id)
+        .in('subject_id', managedSubjects.map(subject => subject.id))
+        .eq('institution_id', institution?.id)
         .eq('is_active', true)
         .order('enrolled_at', { ascending: false });
 
@@ -70,6 +72,7 @@ export const ProfessorStudents = () => {
       })) || [];
 
       setStudents(formattedStudents);
+      fetchAccommodations(managedSubjects);
     } catch (error) {
       console.error('Error fetching students:', error);
       toast({
@@ -82,18 +85,34 @@ export const ProfessorStudents = () => {
     }
   };
 
-  const fetchSubjects = async () => {
+  const fetchAccommodations = async (managedSubjects: ManagedSubject[] = subjects) => {
     try {
       const { data, error } = await supabase
-        .from('subjects')
-        .select('id, name, code')
-        .eq('professor_id', user?.id)
-        .eq('is_active', true);
+        .from('student_accommodations')
+        .select('id, subject_id, student_id, time_multiplier, notes')
+        .in('subject_id', managedSubjects.map(subject => subject.id));
 
       if (error) throw error;
-      setSubjects(data || []);
+      setAccommodations(data || []);
+    } catch (error) {
+      console.error('Error fetching accommodations:', error);
+    }
+  };
+
+  const getAccommodation = (student: Student) =>
+    accommodations.find(a => a.student_id === student.id && a.subject_id === student.subject.id) || null;
+
+  // Subjects the user owns or may enroll students in as co-instructor or TA
+  const fetchSubjects = async () => {
+    if (!user) return;
+
+    try {
+      const data = await fetchManagedSubjects(user.id, ENROLLMENT_ROLES);
+      setSubjects(data);
+      fetchStudents(data);
     } catch (error) {
       console.error('Error fetching subjects:', error);
+      setLoading(false);
     }
   };
 
@@ -135,10 +154,16 @@ export const ProfessorStudents = () => {
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h2 className="text-2xl font-semibold">Enrolled Students</h2>
-        <Button onClick={() => setEnrollDialogOpen(true)}>
-          <UserPlus className="h-4 w-4 mr-2" />
-          Enroll Student
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setImportDialogOpen(true)}>
+            <FileUp className="h-4 w-4 mr-2" />
+            Import CSV
+          </Button>
+          <Button onClick={() => setEnrollDialogOpen(true)}>
+            <UserPlus className="h-4 w-4 mr-2" />
+            Enroll Student
+          </Button>
+        </div>
       </div>
 
       <div className="flex gap-4 items-center">
@@ -157,6 +182,12 @@ export const ProfessorStudents = () => {
         </Select>
       </div>
 
+      <EnrollmentRequests
+        subjects={subjects}
+        selectedSubject={selectedSubject}
+        onReviewed={() => fetchStudents()}
+      />
+
       {filteredStudents.length === 0 ? (
         <Card>
           <CardContent className="p-6 text-center">
@@ -185,16 +216,31 @@ export const ProfessorStudents = () => {
                       <Badge variant="outline">
                         Enrolled: {new Date(student.enrolled_at).toLocaleDateString()}
                       </Badge>
+                      {getAccommodation(student) && (
+                        <Badge variant="outline">
+                          {formatTimeMultiplier(getAccommodation(student).time_multiplier)}
+                        </Badge>
+                      )}
                     </div>
                   </div>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => handleUnenroll(student.id, student.subject.id)}
-                  >
-                    <UserMinus className="h-4 w-4 mr-2" />
-                    Unenroll
-                  </Button>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setAccommodationStudent(student)}
+                    >
+                      <Clock className="h-4 w-4 mr-2" />
+                      Accommodation
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleUnenroll(student.id, student.subject.id)}
+                    >
+                      <UserMinus className="h-4 w-4 mr-2" />
+                      Unenroll
+                    </Button>
+                  </div>
                 </div>
               </CardHeader>
             </Card>
@@ -206,8 +252,27 @@ export const ProfessorStudents = () => {
         open={enrollDialogOpen}
         onOpenChange={setEnrollDialogOpen}
         subjects={subjects}
-        onSuccess={fetchStudents}
+        onSuccess={() => fetchStudents()}
+      />
+
+      <ImportStudentsDialog
+        open={importDialogOpen}
+        onOpenChange={setImportDialogOpen}
+        subjects={subjects}
+        onSuccess={() => fetchStudents()}
       />
+
+      {accommodationStudent && (
+        <AccommodationDialog
+          open={!!accommodationStudent}
+          onOpenChange={(open) => !open && setAccommodationStudent(null)}
+          studentId={accommodationStudent.id}
+          studentName={`${accommodationStudent.first_name} ${accommodationStudent.last_name}`}
+          subjectId={accommodationStudent.subject.id}
+          accommodation={getAccommodation(accommodationStudent)}
+          onSuccess={() => fetchAccommodations()}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -20,7 +20,7 @@ interface CreateSubjectDialogProps {
 }
 
 export const CreateSubjectDialog = ({ open, onOpenChange, onSuccess }: CreateSubjectDialogProps) => {
-  const { user } = useAuth();
+  const { user, institution } = useAuth();
   const { toast } = useToast();
   const [loading, setLoading] = useState(false);
   const [formData, setFormData] = useState({
@@ -39,7 +39,8 @@ export const CreateSubjectDialog = ({ open, onOpenChange, onSuccess }: CreateSub
         .from('subjects')
         .insert({
           ...formData,
-          professor_id: user?.id
+          professor_id: user?.id,
+          institution_id: institution?.id
         });
 
       if (error) throw error;
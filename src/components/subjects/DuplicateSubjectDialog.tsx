@@ -0,0 +1,166 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useTerms } from "@/hooks/useTerms";
+import { duplicateSubject, getTermShiftDays } from "@/lib/subject-duplication";
+
+// Select value for a copy that is not tied to a term
+const NO_TERM = "none";
+
+interface DuplicateSubjectDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  subject: { id: string; name: string; code: string; term_id?: string | null } | null;
+  onSuccess: () => void;
+}
+
+export const DuplicateSubjectDialog = ({ open, onOpenChange, subject, onSuccess }: DuplicateSubjectDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { terms, getTerm } = useTerms();
+  const [loading, setLoading] = useState(false);
+  const [formData, setFormData] = useState({
+    name: "",
+    code: "",
+    term_id: NO_TERM,
+    shift_days: 0,
+  });
+
+  useEffect(() => {
+    if (open && subject) {
+      setFormData({ name: subject.name, code: subject.code, term_id: NO_TERM, shift_days: 0 });
+    }
+  }, [open, subject]);
+
+  const handleTermChange = (termId: string) => {
+    const target = termId === NO_TERM ? null : getTerm(termId);
+    setFormData({
+      ...formData,
+      term_id: termId,
+      shift_days: getTermShiftDays(getTerm(subject?.term_id), target),
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!subject || !user) return;
+
+    setLoading(true);
+
+    try {
+      const result = await duplicateSubject(subject.id, user.id, {
+        name: formData.name.trim(),
+        code: formData.code.trim(),
+        termId: formData.term_id === NO_TERM ? null : formData.term_id,
+        shiftDays: formData.shift_days,
+      });
+
+      if (result.failedMaterials.length > 0) {
+        toast({
+          title: "Subject duplicated with problems",
+          description: `${result.copiedMaterials} materials copied. Could not copy: ${result.failedMaterials.join(', ')}`,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Success",
+          description: `Subject duplicated with ${result.copiedMaterials} materials`,
+        });
+      }
+
+      onOpenChange(false);
+      onSuccess();
+    } catch (error) {
+      console.error('Error duplicating subject:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to duplicate subject",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Duplicate {subject?.code}</DialogTitle>
+          <DialogDescription>
+            Copies modules, materials, assignments, rubrics, quiz questions and grading settings into a new subject.
+            Students and submissions are not copied.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="duplicate-name">Subject Name</Label>
+            <Input
+              id="duplicate-name"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="duplicate-code">Subject Code</Label>
+            <Input
+              id="duplicate-code"
+              value={formData.code}
+              onChange={(e) => setFormData({ ...formData, code: e.target.value })}
+              required
+            />
+          </div>
+          {terms.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="duplicate-term">Term</Label>
+              <Select value={formData.term_id} onValueChange={handleTermChange}>
+                <SelectTrigger id="duplicate-term">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_TERM}>No term</SelectItem>
+                  {terms.filter(term => !term.archived_at).map((term) => (
+                    <SelectItem key={term.id} value={term.id}>{term.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="duplicate-shift">Shift Due Dates By (days)</Label>
+            <Input
+              id="duplicate-shift"
+              type="number"
+              step="1"
+              value={formData.shift_days}
+              onChange={(e) => setFormData({ ...formData, shift_days: parseInt(e.target.value) || 0 })}
+            />
+            <p className="text-xs text-muted-foreground">
+              Applied to due dates, quiz availability windows, publishing schedules and module release dates. Picking a term fills in the gap between the term starts.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading ? "Duplicating..." : "Duplicate Subject"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,75 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { joinSubjectWithCode } from "@/lib/subject-invites";
+import { describeEnrollmentRequest } from "@/lib/enrollments";
+
+interface JoinSubjectDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+}
+
+export const JoinSubjectDialog = ({ open, onOpenChange, onSuccess }: JoinSubjectDialogProps) => {
+  const { toast } = useToast();
+  const [code, setCode] = useState('');
+  const [joining, setJoining] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setJoining(true);
+
+    try {
+      const status = await joinSubjectWithCode(code);
+
+      toast({
+        title: "Success",
+        description: describeEnrollmentRequest(status),
+      });
+
+      setCode('');
+      onOpenChange(false);
+      onSuccess();
+    } catch (error) {
+      console.error('Error joining subject:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to join subject",
+        variant: "destructive",
+      });
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[400px]">
+        <DialogHeader>
+          <DialogTitle>Join a Subject</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="join-code">Join Code</Label>
+            <Input
+              id="join-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value.toUpperCase())}
+              placeholder="e.g. 4F7A2C9B"
+              className="font-mono"
+              required
+            />
+            <p className="text-xs text-muted-foreground mt-1">Ask your professor for the code of the subject.</p>
+          </div>
+          <Button type="submit" disabled={joining || !code.trim()}>
+            {joining ? "Joining..." : "Join Subject"}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
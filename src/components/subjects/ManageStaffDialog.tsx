@@ -0,0 +1,271 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { UserPlus, Trash2 } from "lucide-react";
+import { STAFF_ROLE_LABELS, SubjectStaffRole } from "@/lib/subject-staff";
+
+interface Subject {
+  id: string;
+  name: string;
+  code: string;
+}
+
+interface StaffMember {
+  id: string;
+  role: SubjectStaffRole;
+  profile: {
+    first_name: string | null;
+    last_name: string | null;
+    email: string;
+  };
+}
+
+interface ManageStaffDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  subject: Subject | null;
+}
+
+export const ManageStaffDialog = ({ open, onOpenChange, subject }: ManageStaffDialogProps) => {
+  const { user, institution } = useAuth();
+  const { toast } = useToast();
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [formData, setFormData] = useState<{ email: string; role: SubjectStaffRole }>({
+    email: '',
+    role: 'ta',
+  });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open && subject) {
+      fetchStaff();
+    }
+  }, [open, subject]);
+
+  const fetchStaff = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('subject_staff')
+        .select(`
+          id,
+          role,
+          profile:profiles!subject_staff_user_id_fkey(first_name, last_name, email)
+        `)
+        .eq('subject_id', subject?.id)
+        .order('created_at');
+
+      if (error) throw error;
+      setStaff(data || []);
+    } catch (error) {
+      console.error('Error fetching staff:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch subject staff",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !subject) return;
+
+    setSaving(true);
+
+    try {
+      // Staff members must already have an account in the same institution
+      const { data: profileData, error: profileError } = await supabase
+        .from('profiles')
+        .select('id')
+        .eq('email', formData.email)
+        .eq('institution_id', institution?.id)
+        .single();
+
+      if (profileError || !profileData) {
+        throw new Error('No user found with this email in your institution');
+      }
+
+      if (profileData.id === user.id) {
+        throw new Error('You already own this subject');
+      }
+
+      const { error } = await supabase
+        .from('subject_staff')
+        .insert({
+          subject_id: subject.id,
+          user_id: profileData.id,
+          role: formData.role,
+          added_by: user.id,
+        });
+
+      if (error) {
+        if (error.code === '23505') {
+          throw new Error('This user is already on the staff of this subject');
+        }
+        throw error;
+      }
+
+      toast({
+        title: "Success",
+        description: `${STAFF_ROLE_LABELS[formData.role]} added`,
+      });
+
+      setFormData({ email: '', role: 'ta' });
+      fetchStaff();
+    } catch (error) {
+      console.error('Error adding staff member:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to add staff member",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRoleChange = async (member: StaffMember, role: SubjectStaffRole) => {
+    try {
+      const { error } = await supabase
+        .from('subject_staff')
+        .update({ role })
+        .eq('id', member.id);
+
+      if (error) throw error;
+      fetchStaff();
+    } catch (error) {
+      console.error('Error updating staff role:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update staff role",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRemove = async (member: StaffMember) => {
+    try {
+      const { error } = await supabase
+        .from('subject_staff')
+        .delete()
+        .eq('id', member.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Staff member removed",
+      });
+
+      fetchStaff();
+    } catch (error) {
+      console.error('Error removing staff member:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove staff member",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[550px]">
+        <DialogHeader>
+          <DialogTitle>Staff: {subject?.code} - {subject?.name}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {staff.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              No co-instructors, TAs or graders yet.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {staff.map((member) => (
+                <div key={member.id} className="flex items-center justify-between p-3 rounded-lg border">
+                  <div>
+                    <p className="font-medium">
+                      {member.profile.first_name} {member.profile.last_name}
+                    </p>
+                    <p className="text-sm text-muted-foreground">{member.profile.email}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Select
+                      value={member.role}
+                      onValueChange={(value) => handleRoleChange(member, value as SubjectStaffRole)}
+                    >
+                      <SelectTrigger className="w-[170px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(STAFF_ROLE_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button variant="outline" size="sm" onClick={() => handleRemove(member)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <form onSubmit={handleAdd} className="space-y-4 border-t pt-4">
+            <div className="grid grid-cols-3 gap-2">
+              <div className="col-span-2">
+                <Label htmlFor="staff-email">Email</Label>
+                <Input
+                  id="staff-email"
+                  type="email"
+                  value={formData.email}
+                  onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                  placeholder="colleague@example.com"
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="staff-role">Role</Label>
+                <Select
+                  value={formData.role}
+                  onValueChange={(value) => setFormData({ ...formData, role: value as SubjectStaffRole })}
+                >
+                  <SelectTrigger id="staff-role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(STAFF_ROLE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Co-instructors and TAs can grade, upload materials and enroll students. Graders can only grade.
+              Fees and deletion stay with you as the owner.
+            </p>
+            <Button type="submit" disabled={saving || !formData.email}>
+              {saving ? (
+                "Adding..."
+              ) : (
+                <>
+                  <UserPlus className="h-4 w-4 mr-2" />
+                  Add Staff Member
+                </>
+              )}
+            </Button>
+          </form>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
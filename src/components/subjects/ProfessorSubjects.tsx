@@ -4,9 +4,10 @@ import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Plus, BookOpen, Users, DollarSign } from "lucide-react";
+import { Plus, BookOpen, Users, DollarSign, Copy } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { CreateSubjectDialog } from "./CreateSubjectDialog";
+import { DuplicateSubjectDialog } from "./DuplicateSubjectDialog";
 
 interface Subject {
   id: string;
@@ -14,22 +15,24 @@ interface Subject {
   code: string;
   description: string;
   fee_amount: number;
+  term_id: string | null;
   created_at: string;
   enrollments?: { count: number }[];
 }
 
 export const ProfessorSubjects = () => {
-  const { user } = useAuth();
+  const { user, institution } = useAuth();
   const { toast } = useToast();
   const [subjects, setSubjects] = useState<Subject[]>([]);
   const [loading, setLoading] = useState(true);
   const [dialogOpen, setDialogOpen] = useState(false);
+  const [duplicateSubject, setDuplicateSubject] = useState<Subject | null>(null);
 
   useEffect(() => {
-    if (user) {
+    if (user && institution) {
       fetchSubjects();
     }
-  }, [user]);
+  }, [user, institution]);
 
   const fetchSubjects = async () => {
     try {
@@ -40,6 +43,7 @@ export const ProfessorSubjects = () => {
           enrollments!inner(count)
         `)
         .eq('professor_id', user?.id)
+        .eq('institution_id', institution?.id)
         .eq('is_active', true)
         .order('created_at', { ascending: false });
 
@@ -99,6 +103,10 @@ export const ProfessorSubjects = () => {
                       {subject.code}
                     </Badge>
                   </div>
+                  <Button variant="outline" size="sm" onClick={() => setDuplicateSubject(subject)}>
+                    <Copy className="h-4 w-4 mr-1" />
+                    Duplicate
+                  </Button>
                 </div>
               </CardHeader>
               <CardContent>
@@ -126,6 +134,13 @@ export const ProfessorSubjects = () => {
         onOpenChange={setDialogOpen}
         onSuccess={handleSubjectCreated}
       />
+
+      <DuplicateSubjectDialog
+        open={!!duplicateSubject}
+        onOpenChange={(open) => !open && setDuplicateSubject(null)}
+        subject={duplicateSubject}
+        onSuccess={fetchSubjects}
+      />
     </div>
   );
 };
\ No newline at end of file
@@ -6,6 +6,9 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { BookOpen, DollarSign, Calendar, Check } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { StudentGradeSummary } from "@/components/gradebook/StudentGradeSummary";
+import { enrollInSubject } from "@/lib/subject-invites";
+import { describeEnrollmentRequest, ENROLLMENT_STATUS_LABELS, EnrollmentStatus, fetchMyWaitlistPositions, leaveSubject } from "@/lib/enrollments";
 
 interface Subject {
   id: string;
@@ -14,28 +17,33 @@ interface Subject {
   description: string;
   fee_amount: number;
   created_at: string;
+  is_invite_only: boolean;
+  requires_approval: boolean;
   isEnrolled?: boolean;
-  enrollmentId?: string;
+  // Set while a request to join is pending or waitlisted
+  requestStatus?: EnrollmentStatus | null;
 }
 
 export const StudentSubjects = () => {
-  const { user } = useAuth();
+  const { user, institution } = useAuth();
   const { toast } = useToast();
   const [subjects, setSubjects] = useState<Subject[]>([]);
   const [loading, setLoading] = useState(true);
+  const [waitlistPositions, setWaitlistPositions] = useState<Record<string, number>>({});
 
   useEffect(() => {
-    if (user) {
+    if (user && institution) {
       fetchSubjects();
     }
-  }, [user]);
+  }, [user, institution]);
 
   const fetchSubjects = async () => {
     try {
-      // Fetch all active subjects
+      // Fetch all active subjects of the student's institution
       const { data: allSubjects, error: subjectsError } = await supabase
         .from('subjects')
         .select('*')
+        .eq('institution_id', institution?.id)
         .eq('is_active', true)
         .order('created_at', { ascending: false });
 
@@ -44,20 +52,26 @@ export const StudentSubjects = () => {
       // Fetch student's enrollments
       const { data: enrollments, error: enrollmentsError } = await supabase
         .from('enrollments')
-        .select('subject_id, id')
-        .eq('student_id', user?.id)
-        .eq('is_active', true);
+        .select('subject_id, id, status, is_active')
+        .eq('student_id', user?.id);
 
       if (enrollmentsError) throw enrollmentsError;
 
       // Combine the data
-      const subjectsWithEnrollment = allSubjects?.map(subject => ({
-        ...subject,
-        isEnrolled: enrollments?.some(e => e.subject_id === subject.id),
-        enrollmentId: enrollments?.find(e => e.subject_id === subject.id)?.id
-      })) || [];
+      const subjectsWithEnrollment = allSubjects?.map(subject => {
+        const enrollment = enrollments?.find(e => e.subject_id === subject.id);
+        return {
+          ...subject,
+          isEnrolled: !!enrollment?.is_active,
+          requestStatus: enrollment?.status === 'pending' || enrollment?.status === 'waitlisted' ? enrollment.status : null,
+        };
+      }) || [];
 
       setSubjects(subjectsWithEnrollment);
+
+      if (subjectsWithEnrollment.some(subject => subject.requestStatus === 'waitlisted')) {
+        setWaitlistPositions(await fetchMyWaitlistPositions());
+      }
     } catch (error) {
       console.error('Error fetching subjects:', error);
       toast({
@@ -72,18 +86,11 @@ export const StudentSubjects = () => {
 
   const handleEnroll = async (subjectId: string) => {
     try {
-      const { error } = await supabase
-        .from('enrollments')
-        .insert({
-          student_id: user?.id,
-          subject_id: subjectId
-        });
-
-      if (error) throw error;
+      const status = await enrollInSubject(subjectId);
 
       toast({
         title: "Success",
-        description: "Successfully enrolled in the subject",
+        description: describeEnrollmentRequest(status),
       });
 
       fetchSubjects();
@@ -91,24 +98,21 @@ export const StudentSubjects = () => {
       console.error('Error enrolling:', error);
       toast({
         title: "Error",
-        description: "Failed to enroll in subject",
+        description: error instanceof Error ? error.message : "Failed to enroll in subject",
         variant: "destructive",
       });
     }
   };
 
-  const handleUnenroll = async (enrollmentId: string) => {
+  const handleUnenroll = async (subject: Subject) => {
     try {
-      const { error } = await supabase
-        .from('enrollments')
-        .update({ is_active: false })
-        .eq('id', enrollmentId);
-
-      if (error) throw error;
+      await leaveSubject(subject.id);
 
       toast({
         title: "Success",
-        description: "Successfully unenrolled from the subject",
+        description: subject.isEnrolled
+          ? "Successfully unenrolled from the subject"
+          : "Your request to join was withdrawn",
       });
 
       fetchSubjects();
@@ -127,7 +131,7 @@ export const StudentSubjects = () => {
   }
 
   const enrolledSubjects = subjects.filter(s => s.isEnrolled);
-  const availableSubjects = subjects.filter(s => !s.isEnrolled);
+  const availableSubjects = subjects.filter(s => !s.isEnrolled && !s.is_invite_only);
 
   return (
     <div className="space-y-8">
@@ -173,10 +177,13 @@ export const StudentSubjects = () => {
                       <span>Enrolled {new Date(subject.created_at).toLocaleDateString()}</span>
                     </div>
                   </div>
+                  <div className="mb-4 pt-4 border-t">
+                    <StudentGradeSummary subjectId={subject.id} />
+                  </div>
                   <Button
                     variant="outline"
                     size="sm"
-                    onClick={() => subject.enrollmentId && handleUnenroll(subject.enrollmentId)}
+                    onClick={() => handleUnenroll(subject)}
                     className="w-full"
                   >
                     Unenroll
@@ -222,12 +229,28 @@ export const StudentSubjects = () => {
                       <span>${subject.fee_amount}</span>
                     </div>
                   </div>
-                  <Button
-                    onClick={() => handleEnroll(subject.id)}
-                    className="w-full"
-                  >
-                    Enroll Now
-                  </Button>
+                  {subject.requestStatus ? (
+                    <div className="space-y-2">
+                      <Badge variant="secondary">
+                        {ENROLLMENT_STATUS_LABELS[subject.requestStatus]}
+                        {subject.requestStatus === 'waitlisted' && waitlistPositions[subject.id] && ` · #${waitlistPositions[subject.id]}`}
+                      </Badge>
+                      <Button
+                        variant="outline"
+                        onClick={() => handleUnenroll(subject)}
+                        className="w-full"
+                      >
+                        Withdraw Request
+                      </Button>
+                    </div>
+                  ) : (
+                    <Button
+                      onClick={() => handleEnroll(subject.id)}
+                      className="w-full"
+                    >
+                      {subject.requires_approval ? 'Request to Join' : 'Enroll Now'}
+                    </Button>
+                  )}
                 </CardContent>
               </Card>
             ))}
@@ -0,0 +1,483 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Copy, KeyRound, Mail, Trash2, Ban } from "lucide-react";
+import {
+  buildInviteLink,
+  enrollOrInviteByEmail,
+  formatJoinCodeUsage,
+  getJoinCodeProblem,
+  SubjectJoinCode,
+} from "@/lib/subject-invites";
+import { formatSeats } from "@/lib/enrollments";
+
+interface Subject {
+  id: string;
+  name: string;
+  code: string;
+  is_invite_only: boolean;
+  requires_approval: boolean;
+  max_students: number | null;
+}
+
+type EnrollmentSettings = Pick<Subject, 'is_invite_only' | 'requires_approval' | 'max_students'>;
+
+interface Invitation {
+  id: string;
+  email: string;
+  created_at: string;
+  expires_at: string | null;
+  accepted_at: string | null;
+}
+
+interface SubjectInvitesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  subject: Subject | null;
+  onSubjectChange: () => void;
+}
+
+export const SubjectInvitesDialog = ({ open, onOpenChange, subject, onSubjectChange }: SubjectInvitesDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [codes, setCodes] = useState<SubjectJoinCode[]>([]);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [settings, setSettings] = useState<EnrollmentSettings>({
+    is_invite_only: false,
+    requires_approval: false,
+    max_students: null,
+  });
+  const [maxStudents, setMaxStudents] = useState('');
+  const [seatsTaken, setSeatsTaken] = useState(0);
+  const [codeForm, setCodeForm] = useState({ expires_at: '', max_uses: '' });
+  const [inviteForm, setInviteForm] = useState({ email: '', expires_at: '' });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open && subject) {
+      setSettings({
+        is_invite_only: subject.is_invite_only,
+        requires_approval: subject.requires_approval,
+        max_students: subject.max_students,
+      });
+      setMaxStudents(subject.max_students?.toString() || '');
+      fetchSeatsTaken();
+      fetchCodes();
+      fetchInvitations();
+    }
+  }, [open, subject]);
+
+  const fetchCodes = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('subject_join_codes')
+        .select('*')
+        .eq('subject_id', subject?.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setCodes(data || []);
+    } catch (error) {
+      console.error('Error fetching join codes:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch join codes",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const fetchInvitations = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('enrollment_invitations')
+        .select('id, email, created_at, expires_at, accepted_at')
+        .eq('subject_id', subject?.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setInvitations(data || []);
+    } catch (error) {
+      console.error('Error fetching invitations:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch invitations",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Seats taken by enrolled students and by pending email invitations
+  const fetchSeatsTaken = async () => {
+    const { data, error } = await supabase.rpc('subject_seats_taken', { _subject_id: subject?.id });
+    if (error) {
+      console.error('Error fetching seats taken:', error);
+      return;
+    }
+    setSeatsTaken(data);
+  };
+
+  const updateSettings = async (changes: Partial<EnrollmentSettings>) => {
+    if (!subject) return;
+
+    const previous = settings;
+    setSettings({ ...settings, ...changes });
+
+    try {
+      const { error } = await supabase
+        .from('subjects')
+        .update(changes)
+        .eq('id', subject.id);
+
+      if (error) throw error;
+      // Raising the capacity promotes waitlisted students right away
+      fetchSeatsTaken();
+      onSubjectChange();
+    } catch (error) {
+      console.error('Error updating subject:', error);
+      setSettings(previous);
+      toast({
+        title: "Error",
+        description: "Failed to update enrollment settings",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCreateCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !subject) return;
+
+    setSaving(true);
+
+    try {
+      const { error } = await supabase
+        .from('subject_join_codes')
+        .insert({
+          subject_id: subject.id,
+          expires_at: codeForm.expires_at ? new Date(codeForm.expires_at).toISOString() : null,
+          max_uses: codeForm.max_uses ? parseInt(codeForm.max_uses) : null,
+          created_by: user.id,
+        });
+
+      if (error) throw error;
+
+      setCodeForm({ expires_at: '', max_uses: '' });
+      fetchCodes();
+    } catch (error) {
+      console.error('Error creating join code:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create join code",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDisableCode = async (codeId: string) => {
+    try {
+      const { error } = await supabase
+        .from('subject_join_codes')
+        .update({ is_active: false })
+        .eq('id', codeId);
+
+      if (error) throw error;
+      fetchCodes();
+    } catch (error) {
+      console.error('Error disabling join code:', error);
+      toast({
+        title: "Error",
+        description: "Failed to disable join code",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCopyLink = async (code: string) => {
+    try {
+      await navigator.clipboard.writeText(buildInviteLink(code));
+      toast({
+        title: "Link copied",
+        description: "Share it with the students you want to enroll",
+      });
+    } catch (error) {
+      console.error('Error copying invite link:', error);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !subject) return;
+
+    setSaving(true);
+
+    try {
+      const result = await enrollOrInviteByEmail(
+        subject.id,
+        inviteForm.email,
+        user.id,
+        inviteForm.expires_at ? new Date(inviteForm.expires_at).toISOString() : null
+      );
+
+      toast({
+        title: "Success",
+        description: result === 'enrolled'
+          ? "The student already had an account and was enrolled"
+          : "Invitation created. The student is enrolled once they sign up and confirm this email.",
+      });
+
+      setInviteForm({ email: '', expires_at: '' });
+      fetchInvitations();
+      fetchSeatsTaken();
+      onSubjectChange();
+    } catch (error) {
+      console.error('Error inviting student:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to invite student",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevokeInvitation = async (invitationId: string) => {
+    try {
+      const { error } = await supabase
+        .from('enrollment_invitations')
+        .delete()
+        .eq('id', invitationId);
+
+      if (error) throw error;
+      fetchInvitations();
+      fetchSeatsTaken();
+    } catch (error) {
+      console.error('Error revoking invitation:', error);
+      toast({
+        title: "Error",
+        description: "Failed to revoke invitation",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const getInvitationStatus = (invitation: Invitation) => {
+    if (invitation.accepted_at) return <Badge>Accepted</Badge>;
+    if (invitation.expires_at && new Date(invitation.expires_at) < new Date()) {
+      return <Badge variant="destructive">Expired</Badge>;
+    }
+    return <Badge variant="secondary">Pending</Badge>;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Enrollment - {subject?.code}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="border rounded-lg divide-y">
+            <div className="flex items-center justify-between p-3">
+              <div>
+                <Label htmlFor="invite-only">Invite-only</Label>
+                <p className="text-xs text-muted-foreground">
+                  Students can only join with a code, an invite link or an email invitation.
+                </p>
+              </div>
+              <Switch
+                id="invite-only"
+                checked={settings.is_invite_only}
+                onCheckedChange={(value) => updateSettings({ is_invite_only: value })}
+              />
+            </div>
+            <div className="flex items-center justify-between p-3">
+              <div>
+                <Label htmlFor="requires-approval">Require approval</Label>
+                <p className="text-xs text-muted-foreground">
+                  Requests from the subject list wait in the approval queue on the Students page.
+                  Invitations and join codes count as approved.
+                </p>
+              </div>
+              <Switch
+                id="requires-approval"
+                checked={settings.requires_approval}
+                onCheckedChange={(value) => updateSettings({ requires_approval: value })}
+              />
+            </div>
+            <div className="flex items-center justify-between gap-4 p-3">
+              <div>
+                <Label htmlFor="max-students">Capacity</Label>
+                <p className="text-xs text-muted-foreground">
+                  {formatSeats(seatsTaken, settings.max_students)} taken, including pending invitations.
+                  Students joining a full subject are waitlisted and enrolled as seats free up.
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Input
+                  id="max-students"
+                  type="number"
+                  min="1"
+                  className="w-24"
+                  value={maxStudents}
+                  onChange={(e) => setMaxStudents(e.target.value)}
+                  placeholder="No limit"
+                />
+                <Button
+                  variant="outline"
+                  onClick={() => updateSettings({ max_students: maxStudents ? parseInt(maxStudents) : null })}
+                  disabled={(maxStudents ? parseInt(maxStudents) : null) === settings.max_students}
+                >
+                  Save
+                </Button>
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <h4 className="font-semibold flex items-center gap-2">
+              <KeyRound className="h-4 w-4" />
+              Join Codes
+            </h4>
+
+            {codes.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No join codes yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {codes.map((code) => {
+                  const problem = getJoinCodeProblem(code);
+                  return (
+                    <div key={code.id} className="flex items-center justify-between border rounded-lg p-2">
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <span className="font-mono font-medium">{code.code}</span>
+                          {problem && <Badge variant="outline">{problem}</Badge>}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {formatJoinCodeUsage(code)}
+                          {code.expires_at && ` · Expires ${new Date(code.expires_at).toLocaleString()}`}
+                        </p>
+                      </div>
+                      <div className="flex gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => handleCopyLink(code.code)} disabled={!!problem}>
+                          <Copy className="h-4 w-4 mr-1" />
+                          Link
+                        </Button>
+                        {code.is_active && (
+                          <Button variant="ghost" size="sm" onClick={() => handleDisableCode(code.id)}>
+                            <Ban className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            <form onSubmit={handleCreateCode} className="grid grid-cols-3 gap-2 items-end">
+              <div>
+                <Label htmlFor="code-expires">Expires (optional)</Label>
+                <Input
+                  id="code-expires"
+                  type="datetime-local"
+                  value={codeForm.expires_at}
+                  onChange={(e) => setCodeForm({ ...codeForm, expires_at: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="code-max-uses">Max uses (optional)</Label>
+                <Input
+                  id="code-max-uses"
+                  type="number"
+                  min="1"
+                  value={codeForm.max_uses}
+                  onChange={(e) => setCodeForm({ ...codeForm, max_uses: e.target.value })}
+                />
+              </div>
+              <Button type="submit" disabled={saving}>
+                Create Code
+              </Button>
+            </form>
+          </div>
+
+          <div className="space-y-3">
+            <h4 className="font-semibold flex items-center gap-2">
+              <Mail className="h-4 w-4" />
+              Email Invitations
+            </h4>
+
+            {invitations.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No email invitations yet.</p>
+            ) : (
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left p-2 font-medium text-muted-foreground">Email</th>
+                    <th className="text-left p-2 font-medium text-muted-foreground">Invited</th>
+                    <th className="text-left p-2 font-medium text-muted-foreground">Status</th>
+                    <th className="p-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {invitations.map((invitation) => (
+                    <tr key={invitation.id} className="border-b text-sm">
+                      <td className="p-2">{invitation.email}</td>
+                      <td className="p-2 text-muted-foreground">
+                        {new Date(invitation.created_at).toLocaleDateString()}
+                      </td>
+                      <td className="p-2">{getInvitationStatus(invitation)}</td>
+                      <td className="p-2 text-right">
+                        {!invitation.accepted_at && (
+                          <Button variant="ghost" size="sm" onClick={() => handleRevokeInvitation(invitation.id)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            <form onSubmit={handleInvite} className="grid grid-cols-3 gap-2 items-end">
+              <div>
+                <Label htmlFor="invite-email">Email</Label>
+                <Input
+                  id="invite-email"
+                  type="email"
+                  value={inviteForm.email}
+                  onChange={(e) => setInviteForm({ ...inviteForm, email: e.target.value })}
+                  placeholder="student@example.com"
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="invite-expires">Expires (optional)</Label>
+                <Input
+                  id="invite-expires"
+                  type="datetime-local"
+                  value={inviteForm.expires_at}
+                  onChange={(e) => setInviteForm({ ...inviteForm, expires_at: e.target.value })}
+                />
+              </div>
+              <Button type="submit" disabled={saving || !inviteForm.email}>
+                Invite
+              </Button>
+            </form>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,31 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ALL_TERMS, Term } from "@/lib/terms";
+
+interface TermSelectProps {
+  terms: Term[];
+  value: string;
+  onValueChange: (value: string) => void;
+  className?: string;
+}
+
+// Term filter shared by the dashboards, materials and assignments pages
+export const TermSelect = ({ terms, value, onValueChange, className = "w-[220px]" }: TermSelectProps) => {
+  if (terms.length === 0) return null;
+
+  return (
+    <Select value={value} onValueChange={onValueChange}>
+      <SelectTrigger className={className}>
+        <SelectValue placeholder="Filter by term" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_TERMS}>All Terms</SelectItem>
+        {terms.map((term) => (
+          <SelectItem key={term.id} value={term.id}>
+            {term.name}
+            {term.archived_at && ' (archived)'}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
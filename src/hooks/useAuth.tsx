@@ -8,18 +8,31 @@ interface Profile {
   email: string
   first_name: string | null
   last_name: string | null
-  role: 'professor' | 'student'
+  role: 'professor' | 'student' | 'admin'
+  status: 'pending' | 'active' | 'deactivated'
+  requested_role: 'professor' | 'student' | 'admin' | null
   avatar_url: string | null
+  institution_id: string | null
+  department_id: string | null
   created_at: string
   updated_at: string
 }
 
+interface Institution {
+  id: string
+  name: string
+  slug: string
+}
+
 interface AuthContextType {
   user: User | null
   session: Session | null
   profile: Profile | null
+  institution: Institution | null
   loading: boolean
-  signUp: (email: string, password: string, firstName: string, lastName: string, role: 'professor' | 'student') => Promise<{ error: any }>
+  // True until the signed-in user's profile has been looked up, found or not
+  profileLoading: boolean
+  signUp: (email: string, password: string, firstName: string, lastName: string, role: 'professor' | 'student', institutionId: string) => Promise<{ error: any }>
   signIn: (email: string, password: string) => Promise<{ error: any }>
   signOut: () => Promise<{ error: any }>
   fetchProfile: () => Promise<void>
@@ -31,7 +44,9 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   const [user, setUser] = useState<User | null>(null)
   const [session, setSession] = useState<Session | null>(null)
   const [profile, setProfile] = useState<Profile | null>(null)
+  const [institution, setInstitution] = useState<Institution | null>(null)
   const [loading, setLoading] = useState(true)
+  const [profileLoading, setProfileLoading] = useState(true)
   const { toast } = useToast()
 
   const fetchProfile = async () => {
@@ -40,7 +55,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     try {
       const { data, error } = await supabase
         .from('profiles')
-        .select('*')
+        .select('*, institutions!profiles_institution_id_fkey(id, name, slug)')
         .eq('id', user.id)
         .maybeSingle()
 
@@ -49,9 +64,18 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
         return
       }
 
-      setProfile(data)
+      if (data) {
+        const { institutions, ...profileData } = data
+        setProfile(profileData)
+        setInstitution(institutions)
+      } else {
+        setProfile(null)
+        setInstitution(null)
+      }
     } catch (error) {
       console.error('Error fetching profile:', error)
+    } finally {
+      setProfileLoading(false)
     }
   }
 
@@ -68,6 +92,8 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
           }, 0)
         } else {
           setProfile(null)
+          setInstitution(null)
+          setProfileLoading(false)
         }
         setLoading(false)
       }
@@ -81,6 +107,8 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
         setTimeout(() => {
           fetchProfile()
         }, 0)
+      } else {
+        setProfileLoading(false)
       }
       setLoading(false)
     })
@@ -94,7 +122,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     }
   }, [user])
 
-  const signUp = async (email: string, password: string, firstName: string, lastName: string, role: 'professor' | 'student') => {
+  const signUp = async (email: string, password: string, firstName: string, lastName: string, role: 'professor' | 'student', institutionId: string) => {
     try {
       const redirectUrl = `${window.location.origin}/`
       
@@ -106,7 +134,8 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
           data: {
             first_name: firstName,
             last_name: lastName,
-            role: role
+            role: role,
+            institution_id: institutionId
           }
         }
       })
@@ -189,7 +218,9 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
       user,
       session,
       profile,
+      institution,
       loading,
+      profileLoading,
       signUp,
       signIn,
       signOut,
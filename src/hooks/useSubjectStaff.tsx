@@ -0,0 +1,45 @@
+import { useState, useEffect } from 'react'
+import { supabase } from '@/integrations/supabase/client'
+import { useAuth } from '@/hooks/useAuth'
+import type { SubjectStaffRole } from '@/lib/subject-staff'
+
+interface StaffAssignment {
+  subject_id: string
+  role: SubjectStaffRole
+}
+
+// Staff assignments of the signed in user, used to open professor pages to co-instructors, TAs and graders
+export const useSubjectStaff = () => {
+  const { user } = useAuth()
+  const [assignments, setAssignments] = useState<StaffAssignment[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    if (!user) {
+      setAssignments([])
+      setLoading(false)
+      return
+    }
+
+    const fetchAssignments = async () => {
+      const { data, error } = await supabase
+        .from('subject_staff')
+        .select('subject_id, role')
+        .eq('user_id', user.id)
+
+      if (error) {
+        console.error('Error fetching staff assignments:', error)
+      }
+
+      setAssignments(data || [])
+      setLoading(false)
+    }
+
+    fetchAssignments()
+  }, [user])
+
+  const hasStaffRole = (roles: SubjectStaffRole[]) =>
+    assignments.some(assignment => roles.includes(assignment.role))
+
+  return { assignments, loading, hasStaffRole }
+}
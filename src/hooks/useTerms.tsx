@@ -0,0 +1,32 @@
+import { useState, useEffect } from 'react'
+import { useAuth } from '@/hooks/useAuth'
+import { fetchTerms, Term } from '@/lib/terms'
+
+// Terms of the signed in user's institution, for the term filters and the archived checks
+export const useTerms = () => {
+  const { user } = useAuth()
+  const [terms, setTerms] = useState<Term[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    if (!user) {
+      setTerms([])
+      setLoading(false)
+      return
+    }
+
+    fetchTerms()
+      .then(setTerms)
+      .catch(error => console.error('Error fetching terms:', error))
+      .finally(() => setLoading(false))
+  }, [user])
+
+  const getTerm = (termId: string | null | undefined) =>
+    terms.find(term => term.id === termId) || null
+
+  // Subjects of an archived term are read-only
+  const isArchived = (termId: string | null | undefined) =>
+    !!getTerm(termId)?.archived_at
+
+  return { terms, loading, getTerm, isArchived }
+}
@@ -14,9 +14,156 @@ export type Database = {
   }
   public: {
     Tables: {
+      admin_audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          created_at: string
+          details: Json
+          id: string
+          institution_id: string | null
+          target_user_id: string | null
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          created_at?: string
+          details?: Json
+          id?: string
+          institution_id?: string | null
+          target_user_id?: string | null
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          created_at?: string
+          details?: Json
+          id?: string
+          institution_id?: string | null
+          target_user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "admin_audit_log_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "admin_audit_log_institution_id_fkey"
+            columns: ["institution_id"]
+            isOneToOne: false
+            referencedRelation: "institutions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "admin_audit_log_target_user_id_fkey"
+            columns: ["target_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      assignment_extensions: {
+        Row: {
+          assignment_id: string
+          created_at: string
+          due_date: string
+          granted_by: string | null
+          id: string
+          reason: string | null
+          student_id: string
+          updated_at: string
+        }
+        Insert: {
+          assignment_id: string
+          created_at?: string
+          due_date: string
+          granted_by?: string | null
+          id?: string
+          reason?: string | null
+          student_id: string
+          updated_at?: string
+        }
+        Update: {
+          assignment_id?: string
+          created_at?: string
+          due_date?: string
+          granted_by?: string | null
+          id?: string
+          reason?: string | null
+          student_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "assignment_extensions_assignment_id_fkey"
+            columns: ["assignment_id"]
+            isOneToOne: false
+            referencedRelation: "assignments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "assignment_extensions_granted_by_fkey"
+            columns: ["granted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "assignment_extensions_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      assignment_questions: {
+        Row: {
+          assignment_id: string
+          created_at: string
+          id: string
+          position: number
+          question_id: string
+        }
+        Insert: {
+          assignment_id: string
+          created_at?: string
+          id?: string
+          position?: number
+          question_id: string
+        }
+        Update: {
+          assignment_id?: string
+          created_at?: string
+          id?: string
+          position?: number
+          question_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "assignment_questions_assignment_id_fkey"
+            columns: ["assignment_id"]
+            isOneToOne: false
+            referencedRelation: "assignments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "assignment_questions_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "quiz_questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       assignment_submissions: {
         Row: {
           assignment_id: string
+          attempt_number: number
           feedback: string | null
           file_name: string | null
           file_path: string | null
@@ -26,13 +173,18 @@ export type Database = {
           graded_at: string | null
           graded_by: string | null
           id: string
+          is_counted: boolean
           is_late: boolean | null
+          late_penalty_percentage: number
+          minutes_late: number
+          raw_grade: number | null
           student_id: string
           submitted_at: string
           submitted_text: string | null
         }
         Insert: {
           assignment_id: string
+          attempt_number?: number
           feedback?: string | null
           file_name?: string | null
           file_path?: string | null
@@ -42,13 +194,18 @@ export type Database = {
           graded_at?: string | null
           graded_by?: string | null
           id?: string
+          is_counted?: boolean
           is_late?: boolean | null
+          late_penalty_percentage?: number
+          minutes_late?: number
+          raw_grade?: number | null
           student_id: string
           submitted_at?: string
           submitted_text?: string | null
         }
         Update: {
           assignment_id?: string
+          attempt_number?: number
           feedback?: string | null
           file_name?: string | null
           file_path?: string | null
@@ -58,7 +215,11 @@ export type Database = {
           graded_at?: string | null
           graded_by?: string | null
           id?: string
+          is_counted?: boolean
           is_late?: boolean | null
+          late_penalty_percentage?: number
+          minutes_late?: number
+          raw_grade?: number | null
           student_id?: string
           submitted_at?: string
           submitted_text?: string | null
@@ -67,75 +228,154 @@ export type Database = {
       }
       assignments: {
         Row: {
+          attempt_scoring: Database["public"]["Enums"]["attempt_scoring_policy"]
+          available_from: string | null
+          available_until: string | null
+          category_id: string | null
           created_at: string
           description: string | null
           due_date: string | null
           id: string
           is_active: boolean
+          kind: Database["public"]["Enums"]["assignment_kind"]
+          late_cutoff_days: number | null
+          late_grace_minutes: number
+          late_penalty_per_day: number
+          max_attempts: number | null
           max_points: number | null
+          module_id: string | null
           professor_id: string
+          publish_at: string | null
+          rubric_id: string | null
+          shuffle_questions: boolean
           subject_id: string
+          time_limit_minutes: number | null
           title: string
+          unpublish_at: string | null
           updated_at: string
         }
         Insert: {
+          attempt_scoring?: Database["public"]["Enums"]["attempt_scoring_policy"]
+          available_from?: string | null
+          available_until?: string | null
+          category_id?: string | null
           created_at?: string
           description?: string | null
           due_date?: string | null
           id?: string
           is_active?: boolean
+          kind?: Database["public"]["Enums"]["assignment_kind"]
+          late_cutoff_days?: number | null
+          late_grace_minutes?: number
+          late_penalty_per_day?: number
+          max_attempts?: number | null
           max_points?: number | null
+          module_id?: string | null
           professor_id: string
+          publish_at?: string | null
+          rubric_id?: string | null
+          shuffle_questions?: boolean
           subject_id: string
+          time_limit_minutes?: number | null
           title: string
+          unpublish_at?: string | null
           updated_at?: string
         }
         Update: {
+          attempt_scoring?: Database["public"]["Enums"]["attempt_scoring_policy"]
+          available_from?: string | null
+          available_until?: string | null
+          category_id?: string | null
           created_at?: string
           description?: string | null
           due_date?: string | null
           id?: string
           is_active?: boolean
+          kind?: Database["public"]["Enums"]["assignment_kind"]
+          late_cutoff_days?: number | null
+          late_grace_minutes?: number
+          late_penalty_per_day?: number
+          max_attempts?: number | null
           max_points?: number | null
+          module_id?: string | null
           professor_id?: string
+          publish_at?: string | null
+          rubric_id?: string | null
+          shuffle_questions?: boolean
           subject_id?: string
+          time_limit_minutes?: number | null
           title?: string
+          unpublish_at?: string | null
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "assignments_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "grade_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "assignments_module_id_fkey"
+            columns: ["module_id"]
+            isOneToOne: false
+            referencedRelation: "course_modules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "assignments_rubric_id_fkey"
+            columns: ["rubric_id"]
+            isOneToOne: false
+            referencedRelation: "rubrics"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      enrollments: {
+      course_modules: {
         Row: {
-          enrolled_at: string | null
+          created_at: string
+          description: string | null
           id: string
-          is_active: boolean | null
-          student_id: string
+          position: number
+          prerequisite_module_id: string | null
+          release_at: string | null
           subject_id: string
+          title: string
+          updated_at: string
         }
         Insert: {
-          enrolled_at?: string | null
+          created_at?: string
+          description?: string | null
           id?: string
-          is_active?: boolean | null
-          student_id: string
+          position?: number
+          prerequisite_module_id?: string | null
+          release_at?: string | null
           subject_id: string
+          title: string
+          updated_at?: string
         }
         Update: {
-          enrolled_at?: string | null
+          created_at?: string
+          description?: string | null
           id?: string
-          is_active?: boolean | null
-          student_id?: string
+          position?: number
+          prerequisite_module_id?: string | null
+          release_at?: string | null
           subject_id?: string
+          title?: string
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "enrollments_student_id_fkey"
-            columns: ["student_id"]
+            foreignKeyName: "course_modules_prerequisite_module_id_fkey"
+            columns: ["prerequisite_module_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "course_modules"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "enrollments_subject_id_fkey"
+            foreignKeyName: "course_modules_subject_id_fkey"
             columns: ["subject_id"]
             isOneToOne: false
             referencedRelation: "subjects"
@@ -143,84 +383,133 @@ export type Database = {
           },
         ]
       }
-      payment_reminders: {
+      departments: {
         Row: {
+          code: string
+          created_at: string
+          id: string
+          institution_id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          id?: string
+          institution_id: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          id?: string
+          institution_id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "departments_institution_id_fkey"
+            columns: ["institution_id"]
+            isOneToOne: false
+            referencedRelation: "institutions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      due_adjustments: {
+        Row: {
+          amount: number | null
           created_at: string
-          days_before: number
           due_id: string
           id: string
-          reminder_type: string
-          sent_at: string | null
-          student_id: string
+          kind: Database["public"]["Enums"]["due_adjustment_kind"]
+          percentage: number | null
+          reason: string
+          requested_by: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: Database["public"]["Enums"]["due_adjustment_status"]
         }
         Insert: {
+          amount?: number | null
           created_at?: string
-          days_before: number
           due_id: string
           id?: string
-          reminder_type: string
-          sent_at?: string | null
-          student_id: string
+          kind: Database["public"]["Enums"]["due_adjustment_kind"]
+          percentage?: number | null
+          reason: string
+          requested_by?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: Database["public"]["Enums"]["due_adjustment_status"]
         }
         Update: {
+          amount?: number | null
           created_at?: string
-          days_before?: number
           due_id?: string
           id?: string
-          reminder_type?: string
-          sent_at?: string | null
-          student_id?: string
+          kind?: Database["public"]["Enums"]["due_adjustment_kind"]
+          percentage?: number | null
+          reason?: string
+          requested_by?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: Database["public"]["Enums"]["due_adjustment_status"]
         }
         Relationships: [
           {
-            foreignKeyName: "fk_reminders_due"
+            foreignKeyName: "due_adjustments_due_id_fkey"
             columns: ["due_id"]
             isOneToOne: false
             referencedRelation: "student_dues"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "due_adjustments_requested_by_fkey"
+            columns: ["requested_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "due_adjustments_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      payments: {
+      due_installments: {
         Row: {
           amount: number
           created_at: string
+          due_date: string
           due_id: string
           id: string
-          paid_at: string
-          payment_gateway_id: string | null
-          payment_method: Database["public"]["Enums"]["payment_method"]
-          payment_reference: string | null
-          receipt_url: string | null
-          student_id: string
+          sequence: number
         }
         Insert: {
           amount: number
           created_at?: string
+          due_date: string
           due_id: string
           id?: string
-          paid_at?: string
-          payment_gateway_id?: string | null
-          payment_method: Database["public"]["Enums"]["payment_method"]
-          payment_reference?: string | null
-          receipt_url?: string | null
-          student_id: string
+          sequence: number
         }
         Update: {
           amount?: number
           created_at?: string
+          due_date?: string
           due_id?: string
           id?: string
-          paid_at?: string
-          payment_gateway_id?: string | null
-          payment_method?: Database["public"]["Enums"]["payment_method"]
-          payment_reference?: string | null
-          receipt_url?: string | null
-          student_id?: string
+          sequence?: number
         }
         Relationships: [
           {
-            foreignKeyName: "fk_payments_due"
+            foreignKeyName: "due_installments_due_id_fkey"
             columns: ["due_id"]
             isOneToOne: false
             referencedRelation: "student_dues"
@@ -228,79 +517,159 @@ export type Database = {
           },
         ]
       }
-      profiles: {
+      enrollment_invitations: {
         Row: {
-          avatar_url: string | null
-          created_at: string | null
+          accepted_at: string | null
+          created_at: string
           email: string
+          expires_at: string | null
           first_name: string | null
           id: string
+          invited_by: string | null
           last_name: string | null
-          role: Database["public"]["Enums"]["user_role"]
-          updated_at: string | null
+          student_id: string | null
+          subject_id: string
         }
         Insert: {
-          avatar_url?: string | null
-          created_at?: string | null
+          accepted_at?: string | null
+          created_at?: string
           email: string
+          expires_at?: string | null
           first_name?: string | null
-          id: string
+          id?: string
+          invited_by?: string | null
           last_name?: string | null
-          role?: Database["public"]["Enums"]["user_role"]
-          updated_at?: string | null
+          student_id?: string | null
+          subject_id: string
         }
         Update: {
-          avatar_url?: string | null
-          created_at?: string | null
+          accepted_at?: string | null
+          created_at?: string
           email?: string
+          expires_at?: string | null
           first_name?: string | null
           id?: string
+          invited_by?: string | null
           last_name?: string | null
-          role?: Database["public"]["Enums"]["user_role"]
-          updated_at?: string | null
+          student_id?: string | null
+          subject_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "enrollment_invitations_invited_by_fkey"
+            columns: ["invited_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "enrollment_invitations_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "enrollment_invitations_subject_id_fkey"
+            columns: ["subject_id"]
+            isOneToOne: false
+            referencedRelation: "subjects"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      student_dues: {
+      enrollments: {
         Row: {
-          amount: number
-          created_at: string
-          description: string
-          due_date: string
+          enrolled_at: string | null
           id: string
-          late_fee_percentage: number | null
-          status: Database["public"]["Enums"]["payment_status"]
+          institution_id: string
+          is_active: boolean | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: Database["public"]["Enums"]["enrollment_status"]
           student_id: string
-          subject_id: string | null
+          subject_id: string
+        }
+        Insert: {
+          enrolled_at?: string | null
+          id?: string
+          institution_id?: string
+          is_active?: boolean | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: Database["public"]["Enums"]["enrollment_status"]
+          student_id: string
+          subject_id: string
+        }
+        Update: {
+          enrolled_at?: string | null
+          id?: string
+          institution_id?: string
+          is_active?: boolean | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: Database["public"]["Enums"]["enrollment_status"]
+          student_id?: string
+          subject_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "enrollments_institution_id_fkey"
+            columns: ["institution_id"]
+            isOneToOne: false
+            referencedRelation: "institutions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "enrollments_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "enrollments_subject_id_fkey"
+            columns: ["subject_id"]
+            isOneToOne: false
+            referencedRelation: "subjects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      grade_categories: {
+        Row: {
+          created_at: string
+          drop_lowest: number
+          id: string
+          name: string
+          position: number
+          subject_id: string
           updated_at: string
+          weight: number
         }
         Insert: {
-          amount: number
           created_at?: string
-          description: string
-          due_date: string
+          drop_lowest?: number
           id?: string
-          late_fee_percentage?: number | null
-          status?: Database["public"]["Enums"]["payment_status"]
-          student_id: string
-          subject_id?: string | null
+          name: string
+          position?: number
+          subject_id: string
           updated_at?: string
+          weight?: number
         }
         Update: {
-          amount?: number
           created_at?: string
-          description?: string
-          due_date?: string
+          drop_lowest?: number
           id?: string
-          late_fee_percentage?: number | null
-          status?: Database["public"]["Enums"]["payment_status"]
-          student_id?: string
-          subject_id?: string | null
+          name?: string
+          position?: number
+          subject_id?: string
           updated_at?: string
+          weight?: number
         }
         Relationships: [
           {
-            foreignKeyName: "fk_student_dues_subject"
+            foreignKeyName: "grade_categories_subject_id_fkey"
             columns: ["subject_id"]
             isOneToOne: false
             referencedRelation: "subjects"
@@ -308,120 +677,1801 @@ export type Database = {
           },
         ]
       }
-      study_materials: {
+      grade_scale_levels: {
         Row: {
           created_at: string
-          description: string | null
+          id: string
+          letter: string
+          min_percentage: number
+          subject_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          letter: string
+          min_percentage: number
+          subject_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          letter?: string
+          min_percentage?: number
+          subject_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "grade_scale_levels_subject_id_fkey"
+            columns: ["subject_id"]
+            isOneToOne: false
+            referencedRelation: "subjects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      institutions: {
+        Row: {
+          created_at: string
+          id: string
+          is_active: boolean
+          name: string
+          slug: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          slug: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          slug?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      material_completions: {
+        Row: {
+          completed_at: string
+          id: string
+          material_id: string
+          student_id: string
+        }
+        Insert: {
+          completed_at?: string
+          id?: string
+          material_id: string
+          student_id: string
+        }
+        Update: {
+          completed_at?: string
+          id?: string
+          material_id?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "material_completions_material_id_fkey"
+            columns: ["material_id"]
+            isOneToOne: false
+            referencedRelation: "study_materials"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "material_completions_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      material_downloads: {
+        Row: {
+          downloaded_at: string
+          id: string
+          material_id: string
+          student_id: string
+          version: number
+        }
+        Insert: {
+          downloaded_at?: string
+          id?: string
+          material_id: string
+          student_id: string
+          version: number
+        }
+        Update: {
+          downloaded_at?: string
+          id?: string
+          material_id?: string
+          student_id?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "material_downloads_material_id_version_fkey"
+            columns: ["material_id", "version"]
+            isOneToOne: false
+            referencedRelation: "material_versions"
+            referencedColumns: ["material_id", "version"]
+          },
+          {
+            foreignKeyName: "material_downloads_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      material_versions: {
+        Row: {
+          change_note: string | null
+          created_at: string
           file_name: string
           file_path: string
           file_size: number | null
           file_type: string | null
           id: string
-          is_active: boolean
-          professor_id: string
-          subject_id: string
-          title: string
-          topic: string | null
-          updated_at: string
+          material_id: string
+          uploaded_by: string | null
+          version: number
         }
         Insert: {
+          change_note?: string | null
           created_at?: string
-          description?: string | null
           file_name: string
           file_path: string
           file_size?: number | null
           file_type?: string | null
           id?: string
-          is_active?: boolean
-          professor_id: string
-          subject_id: string
-          title: string
-          topic?: string | null
-          updated_at?: string
+          material_id: string
+          uploaded_by?: string | null
+          version: number
         }
         Update: {
+          change_note?: string | null
           created_at?: string
-          description?: string | null
           file_name?: string
           file_path?: string
           file_size?: number | null
           file_type?: string | null
           id?: string
-          is_active?: boolean
-          professor_id?: string
-          subject_id?: string
-          title?: string
-          topic?: string | null
-          updated_at?: string
+          material_id?: string
+          uploaded_by?: string | null
+          version?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "material_versions_material_id_fkey"
+            columns: ["material_id"]
+            isOneToOne: false
+            referencedRelation: "study_materials"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "material_versions_uploaded_by_fkey"
+            columns: ["uploaded_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      subjects: {
+      material_views: {
         Row: {
-          code: string
-          created_at: string | null
-          description: string | null
-          fee_amount: number | null
           id: string
-          is_active: boolean | null
-          name: string
-          professor_id: string
-          updated_at: string | null
+          material_id: string
+          student_id: string
+          version: number
+          viewed_at: string
         }
         Insert: {
-          code: string
-          created_at?: string | null
-          description?: string | null
-          fee_amount?: number | null
           id?: string
-          is_active?: boolean | null
-          name: string
-          professor_id: string
-          updated_at?: string | null
+          material_id: string
+          student_id: string
+          version: number
+          viewed_at?: string
         }
         Update: {
-          code?: string
-          created_at?: string | null
-          description?: string | null
-          fee_amount?: number | null
           id?: string
-          is_active?: boolean | null
-          name?: string
-          professor_id?: string
-          updated_at?: string | null
+          material_id?: string
+          student_id?: string
+          version?: number
+          viewed_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "subjects_professor_id_fkey"
-            columns: ["professor_id"]
+            foreignKeyName: "material_views_material_id_version_fkey"
+            columns: ["material_id", "version"]
+            isOneToOne: false
+            referencedRelation: "material_versions"
+            referencedColumns: ["material_id", "version"]
+          },
+          {
+            foreignKeyName: "material_views_student_id_fkey"
+            columns: ["student_id"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
         ]
       }
-    }
-    Views: {
-      [_ in never]: never
-    }
-    Functions: {
-      calculate_late_fee: {
-        Args: {
-          due_amount: number
-          due_date: string
-          late_fee_percentage: number
+      payment_orders: {
+        Row: {
+          amount: number
+          created_at: string
+          currency: string
+          due_id: string
+          failure_reason: string | null
+          gateway: string
+          gateway_order_id: string
+          id: string
+          payment_method: Database["public"]["Enums"]["payment_method"]
+          review_reason: string | null
+          status: Database["public"]["Enums"]["payment_order_status"]
+          student_id: string
+          updated_at: string
         }
-        Returns: number
-      }
-      mark_overdue_payments: {
-        Args: Record<PropertyKey, never>
-        Returns: undefined
+        Insert: {
+          amount: number
+          created_at?: string
+          currency?: string
+          due_id: string
+          failure_reason?: string | null
+          gateway: string
+          gateway_order_id: string
+          id?: string
+          payment_method: Database["public"]["Enums"]["payment_method"]
+          review_reason?: string | null
+          status?: Database["public"]["Enums"]["payment_order_status"]
+          student_id: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          currency?: string
+          due_id?: string
+          failure_reason?: string | null
+          gateway?: string
+          gateway_order_id?: string
+          id?: string
+          payment_method?: Database["public"]["Enums"]["payment_method"]
+          review_reason?: string | null
+          status?: Database["public"]["Enums"]["payment_order_status"]
+          student_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_orders_due_id_fkey"
+            columns: ["due_id"]
+            isOneToOne: false
+            referencedRelation: "student_dues"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_orders_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_reminders: {
+        Row: {
+          created_at: string
+          days_before: number
+          due_id: string
+          id: string
+          reminder_type: string
+          sent_at: string | null
+          student_id: string
+        }
+        Insert: {
+          created_at?: string
+          days_before: number
+          due_id: string
+          id?: string
+          reminder_type: string
+          sent_at?: string | null
+          student_id: string
+        }
+        Update: {
+          created_at?: string
+          days_before?: number
+          due_id?: string
+          id?: string
+          reminder_type?: string
+          sent_at?: string | null
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_reminders_due"
+            columns: ["due_id"]
+            isOneToOne: false
+            referencedRelation: "student_dues"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_reversals: {
+        Row: {
+          amount: number
+          created_at: string
+          created_by: string | null
+          due_id: string
+          gateway_reference: string | null
+          id: string
+          kind: Database["public"]["Enums"]["payment_reversal_kind"]
+          payment_id: string
+          reason: string
+          status: Database["public"]["Enums"]["payment_reversal_status"]
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          created_by?: string | null
+          due_id: string
+          gateway_reference?: string | null
+          id?: string
+          kind: Database["public"]["Enums"]["payment_reversal_kind"]
+          payment_id: string
+          reason: string
+          status?: Database["public"]["Enums"]["payment_reversal_status"]
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          created_by?: string | null
+          due_id?: string
+          gateway_reference?: string | null
+          id?: string
+          kind?: Database["public"]["Enums"]["payment_reversal_kind"]
+          payment_id?: string
+          reason?: string
+          status?: Database["public"]["Enums"]["payment_reversal_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_reversals_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_reversals_due_id_fkey"
+            columns: ["due_id"]
+            isOneToOne: false
+            referencedRelation: "student_dues"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_reversals_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_webhook_events: {
+        Row: {
+          error: string | null
+          event_id: string
+          event_type: string
+          gateway: string
+          id: string
+          payload: Json
+          processed_at: string | null
+          received_at: string
+          review_reason: string | null
+        }
+        Insert: {
+          error?: string | null
+          event_id: string
+          event_type: string
+          gateway: string
+          id?: string
+          payload: Json
+          processed_at?: string | null
+          received_at?: string
+          review_reason?: string | null
+        }
+        Update: {
+          error?: string | null
+          event_id?: string
+          event_type?: string
+          gateway?: string
+          id?: string
+          payload?: Json
+          processed_at?: string | null
+          received_at?: string
+          review_reason?: string | null
+        }
+        Relationships: []
+      }
+      payments: {
+        Row: {
+          amount: number
+          created_at: string
+          due_id: string
+          id: string
+          order_id: string | null
+          paid_at: string
+          payment_gateway_id: string | null
+          payment_method: Database["public"]["Enums"]["payment_method"]
+          payment_reference: string | null
+          receipt_url: string | null
+          status: Database["public"]["Enums"]["payment_entry_status"]
+          student_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          due_id: string
+          id?: string
+          order_id?: string | null
+          paid_at?: string
+          payment_gateway_id?: string | null
+          payment_method: Database["public"]["Enums"]["payment_method"]
+          payment_reference?: string | null
+          receipt_url?: string | null
+          status?: Database["public"]["Enums"]["payment_entry_status"]
+          student_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          due_id?: string
+          id?: string
+          order_id?: string | null
+          paid_at?: string
+          payment_gateway_id?: string | null
+          payment_method?: Database["public"]["Enums"]["payment_method"]
+          payment_reference?: string | null
+          receipt_url?: string | null
+          status?: Database["public"]["Enums"]["payment_entry_status"]
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_payments_due"
+            columns: ["due_id"]
+            isOneToOne: false
+            referencedRelation: "student_dues"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "payment_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          approved_at: string | null
+          approved_by: string | null
+          avatar_url: string | null
+          created_at: string | null
+          department_id: string | null
+          email: string
+          first_name: string | null
+          id: string
+          institution_id: string | null
+          last_name: string | null
+          requested_role: Database["public"]["Enums"]["user_role"] | null
+          role: Database["public"]["Enums"]["user_role"]
+          status: Database["public"]["Enums"]["account_status"]
+          updated_at: string | null
+        }
+        Insert: {
+          approved_at?: string | null
+          approved_by?: string | null
+          avatar_url?: string | null
+          created_at?: string | null
+          department_id?: string | null
+          email: string
+          first_name?: string | null
+          id: string
+          institution_id?: string | null
+          last_name?: string | null
+          requested_role?: Database["public"]["Enums"]["user_role"] | null
+          role?: Database["public"]["Enums"]["user_role"]
+          status?: Database["public"]["Enums"]["account_status"]
+          updated_at?: string | null
+        }
+        Update: {
+          approved_at?: string | null
+          approved_by?: string | null
+          avatar_url?: string | null
+          created_at?: string | null
+          department_id?: string | null
+          email?: string
+          first_name?: string | null
+          id?: string
+          institution_id?: string | null
+          last_name?: string | null
+          requested_role?: Database["public"]["Enums"]["user_role"] | null
+          role?: Database["public"]["Enums"]["user_role"]
+          status?: Database["public"]["Enums"]["account_status"]
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profiles_approved_by_fkey"
+            columns: ["approved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "profiles_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "profiles_institution_id_fkey"
+            columns: ["institution_id"]
+            isOneToOne: false
+            referencedRelation: "institutions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quiz_attempts: {
+        Row: {
+          answers: Json
+          assignment_id: string
+          created_at: string
+          deadline: string | null
+          finished_at: string | null
+          id: string
+          question_order: string[]
+          scores: Json
+          started_at: string
+          student_id: string
+          submission_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          answers?: Json
+          assignment_id: string
+          created_at?: string
+          deadline?: string | null
+          finished_at?: string | null
+          id?: string
+          question_order: string[]
+          scores?: Json
+          started_at?: string
+          student_id: string
+          submission_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          answers?: Json
+          assignment_id?: string
+          created_at?: string
+          deadline?: string | null
+          finished_at?: string | null
+          id?: string
+          question_order?: string[]
+          scores?: Json
+          started_at?: string
+          student_id?: string
+          submission_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_attempts_assignment_id_fkey"
+            columns: ["assignment_id"]
+            isOneToOne: false
+            referencedRelation: "assignments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quiz_attempts_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quiz_attempts_submission_id_fkey"
+            columns: ["submission_id"]
+            isOneToOne: false
+            referencedRelation: "assignment_submissions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quiz_questions: {
+        Row: {
+          correct_answer: Json
+          created_at: string
+          created_by: string | null
+          id: string
+          options: Json | null
+          points: number
+          prompt: string
+          subject_id: string
+          tolerance: number
+          type: Database["public"]["Enums"]["quiz_question_type"]
+          updated_at: string
+        }
+        Insert: {
+          correct_answer: Json
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          options?: Json | null
+          points?: number
+          prompt: string
+          subject_id: string
+          tolerance?: number
+          type: Database["public"]["Enums"]["quiz_question_type"]
+          updated_at?: string
+        }
+        Update: {
+          correct_answer?: Json
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          options?: Json | null
+          points?: number
+          prompt?: string
+          subject_id?: string
+          tolerance?: number
+          type?: Database["public"]["Enums"]["quiz_question_type"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_questions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quiz_questions_subject_id_fkey"
+            columns: ["subject_id"]
+            isOneToOne: false
+            referencedRelation: "subjects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rubric_criteria: {
+        Row: {
+          description: string | null
+          id: string
+          position: number
+          rubric_id: string
+          title: string
+        }
+        Insert: {
+          description?: string | null
+          id?: string
+          position?: number
+          rubric_id: string
+          title: string
+        }
+        Update: {
+          description?: string | null
+          id?: string
+          position?: number
+          rubric_id?: string
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rubric_criteria_rubric_id_fkey"
+            columns: ["rubric_id"]
+            isOneToOne: false
+            referencedRelation: "rubrics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rubric_levels: {
+        Row: {
+          criterion_id: string
+          description: string | null
+          id: string
+          label: string
+          points: number
+          position: number
+        }
+        Insert: {
+          criterion_id: string
+          description?: string | null
+          id?: string
+          label: string
+          points: number
+          position?: number
+        }
+        Update: {
+          criterion_id?: string
+          description?: string | null
+          id?: string
+          label?: string
+          points?: number
+          position?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rubric_levels_criterion_id_fkey"
+            columns: ["criterion_id"]
+            isOneToOne: false
+            referencedRelation: "rubric_criteria"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rubrics: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          subject_id: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          subject_id: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          subject_id?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rubrics_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rubrics_subject_id_fkey"
+            columns: ["subject_id"]
+            isOneToOne: false
+            referencedRelation: "subjects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      student_accommodations: {
+        Row: {
+          created_at: string
+          granted_by: string | null
+          id: string
+          notes: string | null
+          student_id: string
+          subject_id: string
+          time_multiplier: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          granted_by?: string | null
+          id?: string
+          notes?: string | null
+          student_id: string
+          subject_id: string
+          time_multiplier?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          granted_by?: string | null
+          id?: string
+          notes?: string | null
+          student_id?: string
+          subject_id?: string
+          time_multiplier?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "student_accommodations_granted_by_fkey"
+            columns: ["granted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "student_accommodations_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "student_accommodations_subject_id_fkey"
+            columns: ["subject_id"]
+            isOneToOne: false
+            referencedRelation: "subjects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      student_dues: {
+        Row: {
+          amount: number
+          created_at: string
+          description: string
+          due_date: string
+          id: string
+          institution_id: string
+          late_fee_cap: number | null
+          late_fee_flat: number
+          late_fee_grace_days: number
+          late_fee_percentage: number | null
+          late_fee_period: Database["public"]["Enums"]["late_fee_period"]
+          status: Database["public"]["Enums"]["payment_status"]
+          student_id: string
+          subject_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          description: string
+          due_date: string
+          id?: string
+          institution_id?: string
+          late_fee_cap?: number | null
+          late_fee_flat?: number
+          late_fee_grace_days?: number
+          late_fee_percentage?: number | null
+          late_fee_period?: Database["public"]["Enums"]["late_fee_period"]
+          status?: Database["public"]["Enums"]["payment_status"]
+          student_id: string
+          subject_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          description?: string
+          due_date?: string
+          id?: string
+          institution_id?: string
+          late_fee_cap?: number | null
+          late_fee_flat?: number
+          late_fee_grace_days?: number
+          late_fee_percentage?: number | null
+          late_fee_period?: Database["public"]["Enums"]["late_fee_period"]
+          status?: Database["public"]["Enums"]["payment_status"]
+          student_id?: string
+          subject_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_student_dues_subject"
+            columns: ["subject_id"]
+            isOneToOne: false
+            referencedRelation: "subjects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "student_dues_institution_id_fkey"
+            columns: ["institution_id"]
+            isOneToOne: false
+            referencedRelation: "institutions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      study_materials: {
+        Row: {
+          change_note: string | null
+          created_at: string
+          description: string | null
+          file_name: string
+          file_path: string
+          file_size: number | null
+          file_type: string | null
+          id: string
+          is_active: boolean
+          module_id: string | null
+          professor_id: string
+          publish_at: string | null
+          subject_id: string
+          title: string
+          topic: string | null
+          unpublish_at: string | null
+          updated_at: string
+          version: number
+        }
+        Insert: {
+          change_note?: string | null
+          created_at?: string
+          description?: string | null
+          file_name: string
+          file_path: string
+          file_size?: number | null
+          file_type?: string | null
+          id?: string
+          is_active?: boolean
+          module_id?: string | null
+          professor_id: string
+          publish_at?: string | null
+          subject_id: string
+          title: string
+          topic?: string | null
+          unpublish_at?: string | null
+          updated_at?: string
+          version?: number
+        }
+        Update: {
+          change_note?: string | null
+          created_at?: string
+          description?: string | null
+          file_name?: string
+          file_path?: string
+          file_size?: number | null
+          file_type?: string | null
+          id?: string
+          is_active?: boolean
+          module_id?: string | null
+          professor_id?: string
+          publish_at?: string | null
+          subject_id?: string
+          title?: string
+          topic?: string | null
+          unpublish_at?: string | null
+          updated_at?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "study_materials_module_id_fkey"
+            columns: ["module_id"]
+            isOneToOne: false
+            referencedRelation: "course_modules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      subject_join_codes: {
+        Row: {
+          code: string
+          created_at: string
+          created_by: string | null
+          expires_at: string | null
+          id: string
+          is_active: boolean
+          max_uses: number | null
+          subject_id: string
+          use_count: number
+        }
+        Insert: {
+          code?: string
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string | null
+          id?: string
+          is_active?: boolean
+          max_uses?: number | null
+          subject_id: string
+          use_count?: number
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string | null
+          id?: string
+          is_active?: boolean
+          max_uses?: number | null
+          subject_id?: string
+          use_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "subject_join_codes_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "subject_join_codes_subject_id_fkey"
+            columns: ["subject_id"]
+            isOneToOne: false
+            referencedRelation: "subjects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      subject_staff: {
+        Row: {
+          added_by: string | null
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["subject_staff_role"]
+          subject_id: string
+          user_id: string
+        }
+        Insert: {
+          added_by?: string | null
+          created_at?: string
+          id?: string
+          role: Database["public"]["Enums"]["subject_staff_role"]
+          subject_id: string
+          user_id: string
+        }
+        Update: {
+          added_by?: string | null
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["subject_staff_role"]
+          subject_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "subject_staff_added_by_fkey"
+            columns: ["added_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "subject_staff_subject_id_fkey"
+            columns: ["subject_id"]
+            isOneToOne: false
+            referencedRelation: "subjects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "subject_staff_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      subjects: {
+        Row: {
+          code: string
+          created_at: string | null
+          department_id: string | null
+          description: string | null
+          fee_amount: number | null
+          id: string
+          institution_id: string
+          is_active: boolean | null
+          is_invite_only: boolean
+          max_students: number | null
+          name: string
+          professor_id: string
+          requires_approval: boolean
+          term_id: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          code: string
+          created_at?: string | null
+          department_id?: string | null
+          description?: string | null
+          fee_amount?: number | null
+          id?: string
+          institution_id?: string
+          is_active?: boolean | null
+          is_invite_only?: boolean
+          max_students?: number | null
+          name: string
+          professor_id: string
+          requires_approval?: boolean
+          term_id?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          code?: string
+          created_at?: string | null
+          department_id?: string | null
+          description?: string | null
+          fee_amount?: number | null
+          id?: string
+          institution_id?: string
+          is_active?: boolean | null
+          is_invite_only?: boolean
+          max_students?: number | null
+          name?: string
+          professor_id?: string
+          requires_approval?: boolean
+          term_id?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "subjects_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "subjects_institution_id_fkey"
+            columns: ["institution_id"]
+            isOneToOne: false
+            referencedRelation: "institutions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "subjects_professor_id_fkey"
+            columns: ["professor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "subjects_term_id_fkey"
+            columns: ["term_id"]
+            isOneToOne: false
+            referencedRelation: "terms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      submission_annotations: {
+        Row: {
+          color: string
+          comment: string | null
+          created_at: string
+          created_by: string | null
+          geometry: Json
+          id: string
+          kind: Database["public"]["Enums"]["annotation_kind"]
+          page: number
+          submission_id: string
+          updated_at: string
+        }
+        Insert: {
+          color?: string
+          comment?: string | null
+          created_at?: string
+          created_by?: string | null
+          geometry: Json
+          id?: string
+          kind: Database["public"]["Enums"]["annotation_kind"]
+          page: number
+          submission_id: string
+          updated_at?: string
+        }
+        Update: {
+          color?: string
+          comment?: string | null
+          created_at?: string
+          created_by?: string | null
+          geometry?: Json
+          id?: string
+          kind?: Database["public"]["Enums"]["annotation_kind"]
+          page?: number
+          submission_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "submission_annotations_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "submission_annotations_submission_id_fkey"
+            columns: ["submission_id"]
+            isOneToOne: false
+            referencedRelation: "assignment_submissions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      submission_rubric_scores: {
+        Row: {
+          comment: string | null
+          created_at: string
+          criterion_id: string
+          graded_by: string | null
+          id: string
+          level_id: string | null
+          points: number
+          submission_id: string
+          updated_at: string
+        }
+        Insert: {
+          comment?: string | null
+          created_at?: string
+          criterion_id: string
+          graded_by?: string | null
+          id?: string
+          level_id?: string | null
+          points?: number
+          submission_id: string
+          updated_at?: string
+        }
+        Update: {
+          comment?: string | null
+          created_at?: string
+          criterion_id?: string
+          graded_by?: string | null
+          id?: string
+          level_id?: string | null
+          points?: number
+          submission_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "submission_rubric_scores_criterion_id_fkey"
+            columns: ["criterion_id"]
+            isOneToOne: false
+            referencedRelation: "rubric_criteria"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "submission_rubric_scores_graded_by_fkey"
+            columns: ["graded_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "submission_rubric_scores_level_id_fkey"
+            columns: ["level_id"]
+            isOneToOne: false
+            referencedRelation: "rubric_levels"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "submission_rubric_scores_submission_id_fkey"
+            columns: ["submission_id"]
+            isOneToOne: false
+            referencedRelation: "assignment_submissions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      terms: {
+        Row: {
+          archived_at: string | null
+          created_at: string
+          end_date: string
+          id: string
+          institution_id: string
+          name: string
+          start_date: string
+          updated_at: string
+        }
+        Insert: {
+          archived_at?: string | null
+          created_at?: string
+          end_date: string
+          id?: string
+          institution_id: string
+          name: string
+          start_date: string
+          updated_at?: string
+        }
+        Update: {
+          archived_at?: string | null
+          created_at?: string
+          end_date?: string
+          id?: string
+          institution_id?: string
+          name?: string
+          start_date?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "terms_institution_id_fkey"
+            columns: ["institution_id"]
+            isOneToOne: false
+            referencedRelation: "institutions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      accept_pending_invitations: {
+        Args: {
+          _user_id: string
+        }
+        Returns: undefined
+      }
+      calculate_due_discount: {
+        Args: {
+          _due_id: string
+        }
+        Returns: number
+      }
+      calculate_late_fee: {
+        Args: {
+          _due_id: string
+        }
+        Returns: number
+      }
+      calculate_lateness: {
+        Args: {
+          _assignment_id: string
+          _student_id: string
+          _submitted_at: string
+        }
+        Returns: {
+          days_late: number
+          minutes_late: number
+          penalty_percentage: number
+        }[]
+      }
+      calculate_net_paid: {
+        Args: {
+          _due_id: string
+        }
+        Returns: number
+      }
+      can_manage_due: {
+        Args: {
+          _due_id: string
+        }
+        Returns: boolean
+      }
+      cancel_refund: {
+        Args: {
+          _reversal_id: string
+        }
+        Returns: undefined
+      }
+      choose_counted_attempt: {
+        Args: {
+          _submission_id: string
+        }
+        Returns: undefined
+      }
+      complete_payment_order: {
+        Args: {
+          _amount: number
+          _gateway: string
+          _gateway_order_id: string
+          _gateway_payment_id: string
+        }
+        Returns: string
+      }
+      complete_refund: {
+        Args: {
+          _gateway_reference?: string
+          _reversal_id: string
+        }
+        Returns: undefined
+      }
+      create_due: {
+        Args: {
+          _due: Json
+          _installments?: Json
+        }
+        Returns: string
+      }
+      create_rubric: {
+        Args: {
+          _criteria: Json
+          _description: string
+          _subject_id: string
+          _title: string
+        }
+        Returns: string
+      }
+      duplicate_subject: {
+        Args: {
+          _code: string
+          _name: string
+          _shift_days?: number
+          _subject_id: string
+          _term_id?: string
+        }
+        Returns: Json
+      }
+      enroll_current_student: {
+        Args: {
+          _invited?: boolean
+          _subject_id: string
+        }
+        Returns: Database["public"]["Enums"]["enrollment_status"]
+      }
+      enroll_in_subject: {
+        Args: {
+          _subject_id: string
+        }
+        Returns: Database["public"]["Enums"]["enrollment_status"]
+      }
+      fail_payment_order: {
+        Args: {
+          _gateway: string
+          _gateway_order_id: string
+          _reason: string
+        }
+        Returns: undefined
+      }
+      finish_quiz_attempt: {
+        Args: {
+          _attempt_id: string
+        }
+        Returns: string
+      }
+      get_due_charges: {
+        Args: {
+          _due_ids: string[]
+        }
+        Returns: {
+          due_id: string
+          late_fee: number
+          discount: number
+          paid: number
+        }[]
+      }
+      get_effective_due_date: {
+        Args: {
+          _assignment_id: string
+          _student_id: string
+        }
+        Returns: string
+      }
+      get_gradebook: {
+        Args: {
+          _subject_id: string
+        }
+        Returns: {
+          categories: Json
+          letter_grade: string
+          student_id: string
+          total_percentage: number
+        }[]
+      }
+      get_letter_grade: {
+        Args: {
+          _percentage: number
+          _subject_id: string
+        }
+        Returns: string
+      }
+      get_material_access_trend: {
+        Args: {
+          _days?: number
+          _subject_id: string
+        }
+        Returns: {
+          active_students: number
+          day: string
+          downloads: number
+          views: number
+        }[]
+      }
+      get_material_reach: {
+        Args: {
+          _subject_id: string
+        }
+        Returns: {
+          downloaded_students: number
+          enrolled_students: number
+          last_accessed_at: string
+          material_id: string
+          reached_students: number
+          viewed_students: number
+        }[]
+      }
+      get_module_completion: {
+        Args: {
+          _subject_id: string
+        }
+        Returns: {
+          completed_students: number
+          enrolled_students: number
+          module_id: string
+        }[]
+      }
+      get_my_due_dates: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          assignment_id: string
+          due_date: string
+          is_extension: boolean
+        }[]
+      }
+      get_my_module_progress: {
+        Args: {
+          _subject_id: string
+        }
+        Returns: {
+          completed_items: number
+          is_complete: boolean
+          is_unlocked: boolean
+          module_id: string
+          total_items: number
+        }[]
+      }
+      get_my_waitlist_positions: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          subject_id: string
+          waitlist_position: number
+        }[]
+      }
+      get_students_without_material_access: {
+        Args: {
+          _subject_id: string
+        }
+        Returns: {
+          email: string
+          enrolled_at: string
+          first_name: string
+          last_name: string
+          student_id: string
+        }[]
+      }
+      get_user_institution_id: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      has_missed_installment: {
+        Args: {
+          _due_id: string
+        }
+        Returns: boolean
+      }
+      has_subject_access: {
+        Args: {
+          _roles: Database["public"]["Enums"]["subject_staff_role"][]
+          _subject_id: string
+        }
+        Returns: boolean
+      }
+      import_enrollments: {
+        Args: {
+          _rows: Json
+          _subject_id: string
+        }
+        Returns: Json
+      }
+      is_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      is_email_registered: {
+        Args: {
+          _email: string
+        }
+        Returns: boolean
+      }
+      is_module_complete: {
+        Args: {
+          _module_id: string
+          _student_id: string
+        }
+        Returns: boolean
+      }
+      is_module_unlocked: {
+        Args: {
+          _module_id: string
+          _student_id: string
+        }
+        Returns: boolean
+      }
+      is_published: {
+        Args: {
+          _publish_at: string
+          _unpublish_at: string
+        }
+        Returns: boolean
+      }
+      is_subject_archived: {
+        Args: {
+          _subject_id: string
+        }
+        Returns: boolean
+      }
+      is_term_archived: {
+        Args: {
+          _term_id: string
+        }
+        Returns: boolean
+      }
+      join_subject_with_code: {
+        Args: {
+          _code: string
+        }
+        Returns: Database["public"]["Enums"]["enrollment_status"]
+      }
+      leave_subject: {
+        Args: {
+          _subject_id: string
+        }
+        Returns: undefined
+      }
+      mark_overdue_payments: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      preview_enrollment_import: {
+        Args: {
+          _emails: string[]
+          _subject_id: string
+        }
+        Returns: {
+          email: string
+          first_name: string
+          last_name: string
+          status: string
+          student_id: string
+        }[]
+      }
+      promote_waitlist: {
+        Args: {
+          _subject_id: string
+        }
+        Returns: undefined
+      }
+      record_cash_payment: {
+        Args: {
+          _amount: number
+          _due_id: string
+          _reference?: string
+        }
+        Returns: string
+      }
+      record_payment_reversal: {
+        Args: {
+          _amount: number
+          _created_by?: string
+          _gateway_reference?: string
+          _kind: Database["public"]["Enums"]["payment_reversal_kind"]
+          _payment_id: string
+          _reason: string
+        }
+        Returns: string
+      }
+      refresh_counted_attempt: {
+        Args: {
+          _assignment_id: string
+          _student_id: string
+        }
+        Returns: undefined
+      }
+      reverse_payment: {
+        Args: {
+          _amount: number
+          _kind: Database["public"]["Enums"]["payment_reversal_kind"]
+          _payment_id: string
+          _reason: string
+        }
+        Returns: string
+      }
+      review_due_adjustment: {
+        Args: {
+          _adjustment_id: string
+          _approve: boolean
+        }
+        Returns: undefined
+      }
+      review_enrollment: {
+        Args: {
+          _approve: boolean
+          _enrollment_id: string
+        }
+        Returns: Database["public"]["Enums"]["enrollment_status"]
+      }
+      save_quiz_answers: {
+        Args: {
+          _answers: Json
+          _attempt_id: string
+        }
+        Returns: undefined
+      }
+      start_quiz_attempt: {
+        Args: {
+          _assignment_id: string
+        }
+        Returns: Json
+      }
+      start_refund: {
+        Args: {
+          _amount: number
+          _created_by: string
+          _payment_id: string
+          _reason: string
+        }
+        Returns: string
+      }
+      subject_has_open_seat: {
+        Args: {
+          _subject_id: string
+        }
+        Returns: boolean
+      }
+      subject_seats_taken: {
+        Args: {
+          _subject_id: string
+        }
+        Returns: number
+      }
+      submit_quiz_attempt: {
+        Args: {
+          _answers: Json
+          _attempt_id: string
+        }
+        Returns: string
       }
     }
     Enums: {
+      account_status: "pending" | "active" | "deactivated"
+      annotation_kind: "highlight" | "comment" | "drawing"
+      assignment_kind: "file" | "quiz"
+      attempt_scoring_policy: "latest" | "best" | "chosen"
+      due_adjustment_kind:
+        | "scholarship"
+        | "late_fee_waiver"
+        | "sibling_discount"
+        | "early_bird_discount"
+      due_adjustment_status: "pending" | "approved" | "rejected"
+      enrollment_status: "pending" | "approved" | "rejected" | "waitlisted"
+      late_fee_period: "once" | "week" | "month"
+      payment_entry_status:
+        | "completed"
+        | "partially_refunded"
+        | "refunded"
+        | "charged_back"
+        | "voided"
       payment_method: "card" | "upi" | "bank_transfer" | "cash"
+      payment_order_status: "created" | "paid" | "failed"
+      payment_reversal_kind: "refund" | "chargeback" | "void"
+      payment_reversal_status: "pending" | "completed"
       payment_status: "pending" | "paid" | "overdue" | "failed"
-      user_role: "professor" | "student"
+      quiz_question_type:
+        | "multiple_choice"
+        | "multi_select"
+        | "numeric"
+        | "short_answer"
+        | "true_false"
+      subject_staff_role: "co_instructor" | "ta" | "grader"
+      user_role: "professor" | "student" | "admin"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -549,9 +2599,40 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
+      account_status: ["pending", "active", "deactivated"],
+      annotation_kind: ["highlight", "comment", "drawing"],
+      assignment_kind: ["file", "quiz"],
+      attempt_scoring_policy: ["latest", "best", "chosen"],
+      due_adjustment_kind: [
+        "scholarship",
+        "late_fee_waiver",
+        "sibling_discount",
+        "early_bird_discount",
+      ],
+      due_adjustment_status: ["pending", "approved", "rejected"],
+      enrollment_status: ["pending", "approved", "rejected", "waitlisted"],
+      late_fee_period: ["once", "week", "month"],
+      payment_entry_status: [
+        "completed",
+        "partially_refunded",
+        "refunded",
+        "charged_back",
+        "voided",
+      ],
       payment_method: ["card", "upi", "bank_transfer", "cash"],
+      payment_order_status: ["created", "paid", "failed"],
+      payment_reversal_kind: ["refund", "chargeback", "void"],
+      payment_reversal_status: ["pending", "completed"],
       payment_status: ["pending", "paid", "overdue", "failed"],
-      user_role: ["professor", "student"],
+      quiz_question_type: [
+        "multiple_choice",
+        "multi_select",
+        "numeric",
+        "short_answer",
+        "true_false",
+      ],
+      subject_staff_role: ["co_instructor", "ta", "grader"],
+      user_role: ["professor", "student", "admin"],
     },
   },
 } as const
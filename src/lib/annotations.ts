@@ -0,0 +1,88 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type AnnotationKind = Database["public"]["Enums"]["annotation_kind"];
+
+// Coordinates are fractions of the page width and height
+export interface HighlightGeometry {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CommentGeometry {
+  x: number;
+  y: number;
+}
+
+export interface DrawingGeometry {
+  points: [number, number][];
+}
+
+export type AnnotationGeometry = HighlightGeometry | CommentGeometry | DrawingGeometry;
+
+export type SubmissionAnnotation = Omit<Database["public"]["Tables"]["submission_annotations"]["Row"], "geometry"> & {
+  geometry: AnnotationGeometry;
+};
+
+export type NewAnnotation = Pick<SubmissionAnnotation, "page" | "kind" | "geometry" | "comment" | "color">;
+
+export const ANNOTATION_COLORS = ['#facc15', '#4ade80', '#60a5fa', '#f87171'];
+
+export async function fetchAnnotations(submissionId: string): Promise<SubmissionAnnotation[]> {
+  const { data, error } = await supabase
+    .from('submission_annotations')
+    .select('*')
+    .eq('submission_id', submissionId)
+    .order('page')
+    .order('created_at');
+
+  if (error) throw error;
+  return (data || []) as unknown as SubmissionAnnotation[];
+}
+
+export async function createAnnotation(submissionId: string, userId: string, annotation: NewAnnotation): Promise<SubmissionAnnotation> {
+  const { data, error } = await supabase
+    .from('submission_annotations')
+    .insert({
+      submission_id: submissionId,
+      created_by: userId,
+      page: annotation.page,
+      kind: annotation.kind,
+      geometry: annotation.geometry as unknown as Database["public"]["Tables"]["submission_annotations"]["Insert"]["geometry"],
+      comment: annotation.comment,
+      color: annotation.color,
+    })
+    .select('*')
+    .single();
+
+  if (error) throw new Error(error.message);
+  return data as unknown as SubmissionAnnotation;
+}
+
+export async function updateAnnotationComment(annotationId: string, comment: string): Promise<void> {
+  const { error } = await supabase
+    .from('submission_annotations')
+    .update({ comment })
+    .eq('id', annotationId);
+
+  if (error) throw new Error(error.message);
+}
+
+export async function deleteAnnotation(annotationId: string): Promise<void> {
+  const { error } = await supabase
+    .from('submission_annotations')
+    .delete()
+    .eq('id', annotationId);
+
+  if (error) throw new Error(error.message);
+}
+
+// Comments are numbered in reading order so the list and the page markers match
+export const getCommentNumbers = (annotations: SubmissionAnnotation[]): Record<string, number> =>
+  Object.fromEntries(
+    annotations
+      .filter(annotation => annotation.comment)
+      .map((annotation, index) => [annotation.id, index + 1])
+  );
@@ -0,0 +1,16 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type AttemptScoringPolicy = Database["public"]["Enums"]["attempt_scoring_policy"];
+
+export const ATTEMPT_SCORING_LABELS: Record<AttemptScoringPolicy, string> = {
+  latest: 'Latest attempt',
+  best: 'Best attempt',
+  chosen: 'Chosen by staff',
+};
+
+// max_attempts is NULL for unlimited attempts
+export const formatAttemptLimit = (maxAttempts: number | null) =>
+  maxAttempts === null ? 'Unlimited attempts' : `${maxAttempts} attempt${maxAttempts === 1 ? '' : 's'}`;
+
+export const hasAttemptsLeft = (maxAttempts: number | null, attemptsUsed: number) =>
+  maxAttempts === null || attemptsUsed < maxAttempts;
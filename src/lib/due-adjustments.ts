@@ -0,0 +1,71 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { formatCurrency } from "@/lib/payment-utils";
+
+export type DueAdjustmentKind = Database["public"]["Enums"]["due_adjustment_kind"];
+export type DueAdjustmentStatus = Database["public"]["Enums"]["due_adjustment_status"];
+
+export type DueAdjustment = Database["public"]["Tables"]["due_adjustments"]["Row"] & {
+  requester: { first_name: string; last_name: string } | null;
+  reviewer: { first_name: string; last_name: string } | null;
+};
+
+// Exactly one of amount (in paisa) and percentage is set
+export interface NewDueAdjustment {
+  due_id: string;
+  kind: DueAdjustmentKind;
+  amount: number | null;
+  percentage: number | null;
+  reason: string;
+}
+
+export const ADJUSTMENT_KIND_LABELS: Record<DueAdjustmentKind, string> = {
+  scholarship: 'Scholarship',
+  late_fee_waiver: 'Late Fee Waiver',
+  sibling_discount: 'Sibling Discount',
+  early_bird_discount: 'Early-Bird Discount',
+};
+
+export const ADJUSTMENT_STATUS_LABELS: Record<DueAdjustmentStatus, string> = {
+  pending: 'Awaiting Approval',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+export async function fetchDueAdjustments(dueId: string): Promise<DueAdjustment[]> {
+  const { data, error } = await supabase
+    .from('due_adjustments')
+    .select(`
+      *,
+      requester:profiles!due_adjustments_requested_by_fkey (first_name, last_name),
+      reviewer:profiles!due_adjustments_reviewed_by_fkey (first_name, last_name)
+    `)
+    .eq('due_id', dueId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+// The requester is always the signed-in professor; the database fills it in. The entry
+// only counts once another professor approves it.
+export async function requestDueAdjustment(adjustment: NewDueAdjustment): Promise<void> {
+  const { error } = await supabase.from('due_adjustments').insert(adjustment);
+  if (error) throw new Error(error.message);
+}
+
+export async function reviewDueAdjustment(adjustmentId: string, approve: boolean): Promise<void> {
+  const { error } = await supabase.rpc('review_due_adjustment', {
+    _adjustment_id: adjustmentId,
+    _approve: approve,
+  });
+  if (error) throw new Error(error.message);
+}
+
+// Waiver percentages apply to the late fee, every other percentage to the due amount
+export function describeAdjustmentValue(adjustment: Pick<DueAdjustment, 'kind' | 'amount' | 'percentage'>): string {
+  if (adjustment.amount !== null) return formatCurrency(adjustment.amount);
+  return adjustment.kind === 'late_fee_waiver'
+    ? `${adjustment.percentage}% of the late fee`
+    : `${adjustment.percentage}% of the amount`;
+}
@@ -0,0 +1,35 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface EffectiveDueDate {
+  due_date: string;
+  // true for a personal extension, false when stretched by an accommodation
+  is_extension: boolean;
+}
+
+// Due dates of the current student that differ from the published ones, keyed by assignment id
+export async function fetchMyDueDates(): Promise<Record<string, EffectiveDueDate>> {
+  const { data, error } = await supabase.rpc('get_my_due_dates');
+  if (error) throw error;
+
+  const dueDates: Record<string, EffectiveDueDate> = {};
+  (data || []).forEach(row => {
+    dueDates[row.assignment_id] = { due_date: row.due_date, is_extension: row.is_extension };
+  });
+  return dueDates;
+}
+
+// Replace published due dates with the student's own, so countdowns and sorting use them
+export const withEffectiveDueDates = <T extends { id: string; due_date: string | null }>(
+  assignments: T[],
+  dueDates: Record<string, EffectiveDueDate>
+): T[] => assignments.map(assignment =>
+  dueDates[assignment.id] ? { ...assignment, due_date: dueDates[assignment.id].due_date } : assignment
+);
+
+export const formatTimeMultiplier = (multiplier: number) => `${Number(multiplier)}x time`;
+
+// Value for a datetime-local input in the browser's timezone
+export const toDateTimeInputValue = (dateString: string) => {
+  const date = new Date(dateString);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
@@ -0,0 +1,49 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type EnrollmentStatus = Database["public"]["Enums"]["enrollment_status"];
+
+export const ENROLLMENT_STATUS_LABELS: Record<EnrollmentStatus, string> = {
+  pending: 'Awaiting approval',
+  approved: 'Enrolled',
+  rejected: 'Declined',
+  waitlisted: 'Waitlisted',
+};
+
+// Toast text after a student asked to join a subject
+export function describeEnrollmentRequest(status: EnrollmentStatus): string {
+  switch (status) {
+    case 'pending':
+      return "Your request was sent. You will be enrolled once staff approve it.";
+    case 'waitlisted':
+      return "The subject is full. You are on the waitlist and will be enrolled when a seat frees up.";
+    default:
+      return "You have joined the subject";
+  }
+}
+
+export function formatSeats(seatsTaken: number, maxStudents: number | null): string {
+  return maxStudents !== null ? `${seatsTaken}/${maxStudents} seats` : `${seatsTaken} students`;
+}
+
+// Approve or reject a pending request. Approving a request for a full subject waitlists it.
+export async function reviewEnrollment(enrollmentId: string, approve: boolean): Promise<EnrollmentStatus> {
+  const { data, error } = await supabase.rpc('review_enrollment', {
+    _enrollment_id: enrollmentId,
+    _approve: approve,
+  });
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+// Leave a subject, or withdraw a pending or waitlisted request
+export async function leaveSubject(subjectId: string) {
+  const { error } = await supabase.rpc('leave_subject', { _subject_id: subjectId });
+  if (error) throw new Error(error.message);
+}
+
+export async function fetchMyWaitlistPositions(): Promise<Record<string, number>> {
+  const { data, error } = await supabase.rpc('get_my_waitlist_positions');
+  if (error) throw error;
+  return Object.fromEntries((data || []).map(row => [row.subject_id, row.waitlist_position]));
+}
@@ -0,0 +1,75 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type PreviewKind = 'pdf' | 'image' | 'markdown' | 'code' | 'text';
+
+export type StorageBucket = 'study-materials' | 'assignment-submissions';
+
+// Text files above this size are offered as a download instead of being rendered
+export const MAX_TEXT_PREVIEW_BYTES = 1024 * 1024;
+
+// Signed URLs only need to outlive the preview they are opened for
+const SIGNED_URL_SECONDS = 60 * 60;
+
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'svg', 'bmp'];
+const MARKDOWN_EXTENSIONS = ['md', 'markdown'];
+const TEXT_EXTENSIONS = ['txt', 'csv', 'log'];
+
+// File extension to the language used for syntax highlighting
+const CODE_LANGUAGES: Record<string, string> = {
+  js: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  ts: 'typescript',
+  tsx: 'typescript',
+  py: 'python',
+  java: 'java',
+  c: 'c',
+  h: 'c',
+  cpp: 'cpp',
+  cc: 'cpp',
+  hpp: 'cpp',
+  cs: 'csharp',
+  go: 'go',
+  rs: 'rust',
+  rb: 'ruby',
+  php: 'php',
+  kt: 'kotlin',
+  swift: 'swift',
+  sql: 'sql',
+  sh: 'shell',
+  bash: 'shell',
+  json: 'json',
+  yml: 'yaml',
+  yaml: 'yaml',
+  html: 'html',
+  xml: 'html',
+  css: 'css',
+};
+
+export const getFileExtension = (fileName: string) =>
+  fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : '';
+
+export const getCodeLanguage = (fileName: string): string | null =>
+  CODE_LANGUAGES[getFileExtension(fileName)] ?? null;
+
+// How a file can be shown in the browser, or null when it can only be downloaded
+export function getPreviewKind(fileName: string, fileType?: string | null): PreviewKind | null {
+  const extension = getFileExtension(fileName);
+
+  if (extension === 'pdf' || fileType === 'application/pdf') return 'pdf';
+  if (IMAGE_EXTENSIONS.includes(extension) || fileType?.startsWith('image/')) return 'image';
+  if (MARKDOWN_EXTENSIONS.includes(extension)) return 'markdown';
+  if (CODE_LANGUAGES[extension]) return 'code';
+  if (TEXT_EXTENSIONS.includes(extension) || fileType?.startsWith('text/')) return 'text';
+  return null;
+}
+
+// Both buckets are private, so previews load through short-lived signed URLs
+export async function createPreviewUrl(bucket: StorageBucket, filePath: string): Promise<string> {
+  const { data, error } = await supabase.storage
+    .from(bucket)
+    .createSignedUrl(filePath, SIGNED_URL_SECONDS);
+
+  if (error) throw new Error(error.message);
+  return data.signedUrl;
+}
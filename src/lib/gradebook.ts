@@ -0,0 +1,57 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type GradeCategory = Database["public"]["Tables"]["grade_categories"]["Row"];
+export type GradeScaleLevel = Database["public"]["Tables"]["grade_scale_levels"]["Row"];
+
+export interface CategoryScore {
+  // null for assignments without a category
+  category_id: string | null;
+  earned: number;
+  possible: number;
+}
+
+export interface GradebookRow {
+  student_id: string;
+  categories: CategoryScore[];
+  total_percentage: number | null;
+  letter_grade: string | null;
+}
+
+// Used by get_letter_grade when a subject has no scale of its own
+export const DEFAULT_GRADE_SCALE: { letter: string; min_percentage: number }[] = [
+  { letter: 'A', min_percentage: 90 },
+  { letter: 'B', min_percentage: 80 },
+  { letter: 'C', min_percentage: 70 },
+  { letter: 'D', min_percentage: 60 },
+  { letter: 'F', min_percentage: 0 },
+];
+
+// Running totals are computed by the get_gradebook RPC so every view shows the same numbers
+export async function fetchGradebook(subjectId: string): Promise<GradebookRow[]> {
+  const { data, error } = await supabase.rpc('get_gradebook', { _subject_id: subjectId });
+  if (error) throw error;
+
+  return (data || []).map(row => ({
+    ...row,
+    categories: (row.categories as unknown as CategoryScore[]) || [],
+  }));
+}
+
+export async function fetchGradeCategories(subjectId: string): Promise<GradeCategory[]> {
+  const { data, error } = await supabase
+    .from('grade_categories')
+    .select('*')
+    .eq('subject_id', subjectId)
+    .order('position')
+    .order('created_at');
+
+  if (error) throw error;
+  return data || [];
+}
+
+export const formatPercentage = (value: number | null | undefined) =>
+  value === null || value === undefined ? '-' : `${Number(value).toFixed(1)}%`;
+
+export const getCategoryPercentage = (score: CategoryScore | undefined) =>
+  score && score.possible > 0 ? (score.earned / score.possible) * 100 : null;
@@ -0,0 +1,85 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type DueInstallment = Database["public"]["Tables"]["due_installments"]["Row"];
+
+// Installment rows as edited in forms, with the amount in rupees
+export interface InstallmentInput {
+  amount: string;
+  due_date: string;
+}
+
+export interface NextInstallment {
+  installment: DueInstallment;
+  // What is still owed on this installment after earlier payments
+  remaining: number;
+}
+
+// Payments cover installments in order, so the next one is the first the paid total does not reach
+export function getNextInstallment(installments: DueInstallment[], paid: number): NextInstallment | null {
+  let scheduled = 0;
+
+  for (const installment of [...installments].sort((a, b) => a.sequence - b.sequence)) {
+    scheduled += installment.amount;
+    if (scheduled > paid) {
+      return { installment, remaining: scheduled - paid };
+    }
+  }
+
+  return null;
+}
+
+// Amounts are in paisa. Returns an error message, or null when the schedule is valid.
+export function validateInstallments(installments: InstallmentInput[], totalAmount: number): string | null {
+  if (installments.length < 2) return 'A schedule needs at least two installments';
+  if (installments.some(installment => !installment.amount || !installment.due_date)) {
+    return 'Every installment needs an amount and a date';
+  }
+  if (installments.some(installment => parseFloat(installment.amount) <= 0)) {
+    return 'Installment amounts must be positive';
+  }
+
+  const dates = installments.map(installment => installment.due_date);
+  if (dates.some((date, index) => index > 0 && date <= dates[index - 1])) {
+    return 'Installment dates must be in order';
+  }
+
+  const scheduled = installments.reduce((sum, installment) => sum + toPaisa(installment.amount), 0);
+  if (scheduled !== totalAmount) return 'Installments must add up to the due amount';
+
+  return null;
+}
+
+export const toPaisa = (rupees: string) => Math.round(parseFloat(rupees) * 100);
+
+// Splits the amount into equal monthly installments, putting any remainder on the last one
+export function splitEvenly(totalAmount: number, count: number, firstDate: string): InstallmentInput[] {
+  const share = Math.floor(totalAmount / count);
+
+  return Array.from({ length: count }, (_, index) => {
+    const date = new Date(`${firstDate}T00:00:00`);
+    date.setMonth(date.getMonth() + index);
+    const amount = index === count - 1 ? totalAmount - share * (count - 1) : share;
+
+    return {
+      amount: (amount / 100).toFixed(2),
+      due_date: `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`,
+    };
+  });
+}
+
+export type NewDue = Omit<Database["public"]["Tables"]["student_dues"]["Insert"], 'institution_id' | 'status'>;
+
+// The due and its schedule are written together; the database checks the schedule adds up
+export async function createDue(due: NewDue, installments: InstallmentInput[] = []): Promise<string> {
+  const { data, error } = await supabase.rpc('create_due', {
+    _due: due,
+    _installments: installments.map(installment => ({
+      amount: toPaisa(installment.amount),
+      due_date: installment.due_date,
+    })),
+  });
+
+  if (error) throw new Error(error.message);
+  return data;
+}
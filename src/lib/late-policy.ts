@@ -0,0 +1,45 @@
+interface LatePolicy {
+  late_grace_minutes: number;
+  late_penalty_per_day: number;
+  late_cutoff_days: number | null;
+}
+
+// Human readable summary of an assignment's late policy
+export const describeLatePolicy = (policy: LatePolicy) => {
+  const parts: string[] = [];
+
+  if (policy.late_grace_minutes > 0) {
+    parts.push(`${formatLateness(policy.late_grace_minutes)} grace`);
+  }
+  if (policy.late_cutoff_days === 0) {
+    parts.push('no late submissions');
+  } else {
+    if (Number(policy.late_penalty_per_day) > 0) {
+      parts.push(`-${Number(policy.late_penalty_per_day)}% per day late`);
+    }
+    if (policy.late_cutoff_days !== null) {
+      parts.push(`closes ${policy.late_cutoff_days} day${policy.late_cutoff_days === 1 ? '' : 's'} after due`);
+    }
+  }
+
+  return parts.length > 0 ? parts.join(', ') : 'Late work accepted without penalty';
+};
+
+export const formatLateness = (minutes: number) => {
+  if (minutes < 60) return `${minutes} min`;
+  if (minutes < 1440) return `${Math.round(minutes / 60)} h`;
+  const days = Math.ceil(minutes / 1440);
+  return `${days} day${days === 1 ? '' : 's'}`;
+};
+
+// Mirrors the apply_late_policy trigger so the submit dialog can warn before submitting.
+// The server decides the actual lateness and penalty.
+export const isPastCutoff = (policy: LatePolicy, dueDate: string | null, now = new Date()) => {
+  if (!dueDate || policy.late_cutoff_days === null) return false;
+
+  const minutesLate = Math.ceil((now.getTime() - new Date(dueDate).getTime()) / 60000);
+  if (minutesLate <= policy.late_grace_minutes) return false;
+
+  const daysLate = Math.ceil((minutesLate - policy.late_grace_minutes) / 1440);
+  return daysLate > policy.late_cutoff_days;
+};
@@ -0,0 +1,32 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type MaterialReach = Database["public"]["Functions"]["get_material_reach"]["Returns"][number];
+export type InactiveStudent = Database["public"]["Functions"]["get_students_without_material_access"]["Returns"][number];
+export type MaterialAccessDay = Database["public"]["Functions"]["get_material_access_trend"]["Returns"][number];
+
+export const TREND_PERIODS = [7, 30, 90];
+
+// Per material reach among enrolled students, keyed by material id
+export async function fetchMaterialReach(subjectId: string): Promise<Record<string, MaterialReach>> {
+  const { data, error } = await supabase.rpc('get_material_reach', { _subject_id: subjectId });
+  if (error) throw error;
+  return Object.fromEntries((data || []).map(row => [row.material_id, row]));
+}
+
+export async function fetchInactiveStudents(subjectId: string): Promise<InactiveStudent[]> {
+  const { data, error } = await supabase.rpc('get_students_without_material_access', { _subject_id: subjectId });
+  if (error) throw error;
+  return data || [];
+}
+
+export async function fetchMaterialAccessTrend(subjectId: string, days: number): Promise<MaterialAccessDay[]> {
+  const { data, error } = await supabase.rpc('get_material_access_trend', { _subject_id: subjectId, _days: days });
+  if (error) throw error;
+  return data || [];
+}
+
+export const getReachPercentage = (reach: MaterialReach | undefined) =>
+  reach && reach.enrolled_students > 0
+    ? Math.round((reach.reached_students / reach.enrolled_students) * 100)
+    : 0;
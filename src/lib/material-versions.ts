@@ -0,0 +1,95 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type MaterialVersion = Database["public"]["Tables"]["material_versions"]["Row"];
+
+// Every version of a material, newest first
+export async function fetchMaterialVersions(materialId: string): Promise<MaterialVersion[]> {
+  const { data, error } = await supabase
+    .from('material_versions')
+    .select('*')
+    .eq('material_id', materialId)
+    .order('version', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Upload a new file for a material. The previous file stays in storage as an earlier version.
+export async function replaceMaterialFile(materialId: string, userId: string, file: File, changeNote: string): Promise<void> {
+  const fileExt = file.name.split('.').pop();
+  const filePath = `${userId}/${Date.now()}.${fileExt}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from('study-materials')
+    .upload(filePath, file);
+
+  if (uploadError) throw new Error(uploadError.message);
+
+  const { error } = await supabase
+    .from('study_materials')
+    .update({
+      file_name: file.name,
+      file_path: filePath,
+      file_size: file.size,
+      file_type: file.type,
+      change_note: changeNote.trim() || null,
+    })
+    .eq('id', materialId);
+
+  if (error) {
+    await supabase.storage.from('study-materials').remove([filePath]);
+    throw new Error(error.message);
+  }
+}
+
+export async function downloadMaterialFile(filePath: string, fileName: string): Promise<void> {
+  const { data, error } = await supabase.storage
+    .from('study-materials')
+    .download(filePath);
+
+  if (error) throw error;
+
+  const url = URL.createObjectURL(data);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export async function recordMaterialDownload(materialId: string, version: number, studentId: string): Promise<void> {
+  const { error } = await supabase
+    .from('material_downloads')
+    .insert({ material_id: materialId, version, student_id: studentId });
+
+  if (error) throw new Error(error.message);
+}
+
+export async function recordMaterialView(materialId: string, version: number, studentId: string): Promise<void> {
+  const { error } = await supabase
+    .from('material_views')
+    .insert({ material_id: materialId, version, student_id: studentId });
+
+  if (error) throw new Error(error.message);
+}
+
+// The newest version the current student has downloaded, keyed by material id
+export async function fetchMyDownloadedVersions(studentId: string): Promise<Record<string, number>> {
+  const { data, error } = await supabase
+    .from('material_downloads')
+    .select('material_id, version')
+    .eq('student_id', studentId);
+
+  if (error) throw error;
+
+  const versions: Record<string, number> = {};
+  (data || []).forEach(row => {
+    versions[row.material_id] = Math.max(versions[row.material_id] ?? 0, row.version);
+  });
+  return versions;
+}
+
+// A student who downloaded an earlier version should know the file has changed since
+export const hasNewVersion = (material: { id: string; version: number }, downloadedVersions: Record<string, number>) =>
+  downloadedVersions[material.id] !== undefined && downloadedVersions[material.id] < material.version;
@@ -0,0 +1,73 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type CourseModule = Database["public"]["Tables"]["course_modules"]["Row"];
+export type ModuleProgress = Database["public"]["Functions"]["get_my_module_progress"]["Returns"][number];
+export type ModuleCompletion = Database["public"]["Functions"]["get_module_completion"]["Returns"][number];
+
+// Modules of the given subjects in outline order
+export async function fetchModules(subjectIds: string[]): Promise<CourseModule[]> {
+  if (subjectIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('course_modules')
+    .select('*')
+    .in('subject_id', subjectIds)
+    .order('position')
+    .order('created_at');
+
+  if (error) throw error;
+  return data || [];
+}
+
+// The current student's progress, keyed by module id
+export async function fetchMyModuleProgress(subjectId: string): Promise<Record<string, ModuleProgress>> {
+  const { data, error } = await supabase.rpc('get_my_module_progress', { _subject_id: subjectId });
+  if (error) throw error;
+  return Object.fromEntries((data || []).map(row => [row.module_id, row]));
+}
+
+// How many enrolled students completed each module, keyed by module id
+export async function fetchModuleCompletion(subjectId: string): Promise<Record<string, ModuleCompletion>> {
+  const { data, error } = await supabase.rpc('get_module_completion', { _subject_id: subjectId });
+  if (error) throw error;
+  return Object.fromEntries((data || []).map(row => [row.module_id, row]));
+}
+
+export async function setMaterialCompleted(materialId: string, studentId: string, completed: boolean): Promise<void> {
+  const { error } = completed
+    ? await supabase
+      .from('material_completions')
+      .upsert({ material_id: materialId, student_id: studentId }, { onConflict: 'material_id,student_id' })
+    : await supabase
+      .from('material_completions')
+      .delete()
+      .eq('material_id', materialId)
+      .eq('student_id', studentId);
+
+  if (error) throw new Error(error.message);
+}
+
+// Persist the order of a subject's modules after a move
+export async function saveModuleOrder(modules: CourseModule[]): Promise<void> {
+  const results = await Promise.all(modules.map((module, position) =>
+    supabase.from('course_modules').update({ position }).eq('id', module.id)
+  ));
+
+  const failed = results.find(result => result.error);
+  if (failed) throw new Error(failed.error.message);
+}
+
+// Why a student cannot open a module yet, or null when it is unlocked
+export function describeModuleLock(module: CourseModule, modules: CourseModule[], progress?: ModuleProgress): string | null {
+  if (module.release_at && new Date(module.release_at) > new Date()) {
+    return `Opens ${new Date(module.release_at).toLocaleString()}`;
+  }
+
+  if (progress && !progress.is_unlocked && module.prerequisite_module_id) {
+    const prerequisite = modules.find(other => other.id === module.prerequisite_module_id);
+    return `Complete ${prerequisite?.title ?? 'the previous module'} first`;
+  }
+
+  return null;
+}
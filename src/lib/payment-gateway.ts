@@ -0,0 +1,171 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type PaymentMethod = Database["public"]["Enums"]["payment_method"];
+export type PaymentOrderStatus = Database["public"]["Enums"]["payment_order_status"];
+export type PaymentEntryStatus = Database["public"]["Enums"]["payment_entry_status"];
+export type PaymentReversalKind = Database["public"]["Enums"]["payment_reversal_kind"];
+export type PaymentReversalStatus = Database["public"]["Enums"]["payment_reversal_status"];
+
+export type PaymentReversal = Database["public"]["Tables"]["payment_reversals"]["Row"] & {
+  creator: { first_name: string; last_name: string } | null;
+};
+
+export const PAYMENT_ENTRY_STATUS_LABELS: Record<PaymentEntryStatus, string> = {
+  completed: 'Paid',
+  partially_refunded: 'Partially Refunded',
+  refunded: 'Refunded',
+  charged_back: 'Charged Back',
+  voided: 'Voided',
+};
+
+export const REVERSAL_KIND_LABELS: Record<PaymentReversalKind, string> = {
+  refund: 'Refund',
+  chargeback: 'Chargeback',
+  void: 'Void',
+};
+
+export interface CheckoutOrder {
+  order_id: string;
+  gateway: 'razorpay' | 'mock';
+  amount: number;
+  currency: string;
+  checkout: Record<string, unknown>;
+}
+
+interface RazorpayCheckout {
+  open: () => void;
+}
+
+declare global {
+  interface Window {
+    Razorpay?: new (options: Record<string, unknown>) => RazorpayCheckout;
+  }
+}
+
+const RAZORPAY_SCRIPT_URL = 'https://checkout.razorpay.com/v1/checkout.js';
+
+// How long to wait for the gateway's webhook after the checkout reports success
+const ORDER_CONFIRMATION_TIMEOUT_MS = 60_000;
+const ORDER_POLL_INTERVAL_MS = 2_000;
+
+// Errors from edge functions carry the response body, which holds the actual reason
+const getFunctionErrorMessage = async (error: { message: string; context?: unknown }) => {
+  if (error.context instanceof Response) {
+    const body = await error.context.json().catch(() => null);
+    if (body?.error) return body.error as string;
+  }
+  return error.message;
+};
+
+// Without an amount the order covers the whole outstanding balance
+export async function createPaymentOrder(dueId: string, paymentMethod: PaymentMethod, amount?: number): Promise<CheckoutOrder> {
+  const { data, error } = await supabase.functions.invoke('create-payment-order', {
+    body: { due_id: dueId, payment_method: paymentMethod, amount },
+  });
+
+  if (error) throw new Error(await getFunctionErrorMessage(error));
+  return data as CheckoutOrder;
+}
+
+// Settles a mock order the way a real gateway would, through a signed webhook
+export async function completeMockCheckout(orderId: string, outcome: 'success' | 'failure'): Promise<void> {
+  const { error } = await supabase.functions.invoke('mock-gateway', {
+    body: { order_id: orderId, outcome },
+  });
+
+  if (error) throw new Error(await getFunctionErrorMessage(error));
+}
+
+const loadRazorpayScript = () =>
+  new Promise<void>((resolve, reject) => {
+    if (window.Razorpay) return resolve();
+
+    const script = document.createElement('script');
+    script.src = RAZORPAY_SCRIPT_URL;
+    script.onload = () => resolve();
+    script.onerror = () => reject(new Error('Failed to load the payment checkout'));
+    document.body.appendChild(script);
+  });
+
+// Opens Razorpay's checkout and resolves once the student completes it. Completion here only
+// means the gateway accepted the attempt; the payment is recorded when its webhook arrives.
+export async function openRazorpayCheckout(
+  order: CheckoutOrder,
+  details: { description: string; name?: string; email?: string }
+): Promise<void> {
+  await loadRazorpayScript();
+
+  return new Promise((resolve, reject) => {
+    const checkout = new window.Razorpay!({
+      ...order.checkout,
+      description: details.description,
+      prefill: { name: details.name, email: details.email },
+      handler: () => resolve(),
+      modal: { ondismiss: () => reject(new Error('Payment was cancelled')) },
+    });
+    checkout.open();
+  });
+}
+
+export async function fetchPaymentOrderStatus(orderId: string): Promise<{ status: PaymentOrderStatus; failure_reason: string | null }> {
+  const { data, error } = await supabase
+    .from('payment_orders')
+    .select('status, failure_reason')
+    .eq('id', orderId)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+// Polls until the webhook has settled the order, or gives up and leaves it pending
+export async function waitForPaymentOrder(orderId: string): Promise<{ status: PaymentOrderStatus; failure_reason: string | null }> {
+  const deadline = Date.now() + ORDER_CONFIRMATION_TIMEOUT_MS;
+
+  while (true) {
+    const order = await fetchPaymentOrderStatus(orderId);
+    if (order.status !== 'created' || Date.now() >= deadline) return order;
+    await new Promise(resolve => setTimeout(resolve, ORDER_POLL_INTERVAL_MS));
+  }
+}
+
+export async function recordCashPayment(dueId: string, amount: number, reference: string): Promise<void> {
+  const { error } = await supabase.rpc('record_cash_payment', {
+    _due_id: dueId,
+    _amount: amount,
+    _reference: reference,
+  });
+
+  if (error) throw new Error(error.message);
+}
+
+// Refunds go through the gateway, so they are issued by an edge function rather than written directly
+export async function refundPayment(paymentId: string, amount: number, reason: string): Promise<void> {
+  const { error } = await supabase.functions.invoke('refund-payment', {
+    body: { payment_id: paymentId, amount, reason },
+  });
+
+  if (error) throw new Error(await getFunctionErrorMessage(error));
+}
+
+// Voids a mistaken cash entry, or records a chargeback the bank reported outside the gateway
+export async function reversePayment(
+  paymentId: string,
+  kind: Exclude<PaymentReversalKind, 'refund'>,
+  amount: number,
+  reason: string
+): Promise<void> {
+  const { error } = await supabase.rpc('reverse_payment', {
+    _payment_id: paymentId,
+    _kind: kind,
+    _amount: amount,
+    _reason: reason,
+  });
+
+  if (error) throw new Error(error.message);
+}
+
+// What is left of a payment after earlier refunds and reversals
+export const getReversibleAmount = (payment: { amount: number; payment_reversals: { amount: number }[] }) =>
+  payment.amount - payment.payment_reversals.reduce((sum, reversal) => sum + reversal.amount, 0);
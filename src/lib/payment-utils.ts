@@ -1,3 +1,30 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type LateFeePeriod = Database["public"]["Enums"]["late_fee_period"];
+
+export interface LateFeeRule {
+  late_fee_flat: number;
+  late_fee_percentage: number | null;
+  late_fee_period: LateFeePeriod;
+  late_fee_cap: number | null;
+  late_fee_grace_days: number;
+}
+
+// What is charged on top of or taken off the due amount, and what has been paid net of
+// refunds and other reversals, as computed by the database
+export interface DueCharges {
+  late_fee: number;
+  discount: number;
+  paid: number;
+}
+
+export const LATE_FEE_PERIOD_LABELS: Record<LateFeePeriod, string> = {
+  once: 'once',
+  week: 'per week',
+  month: 'per month',
+};
+
 export function formatCurrency(amount: number): string {
   return new Intl.NumberFormat('en-IN', {
     style: 'currency',
@@ -21,13 +48,30 @@ export function getStatusColor(status: string): "default" | "secondary" | "destr
   }
 }
 
-export function calculateLateFee(amount: number, dueDate: string, lateFeePercentage: number): number {
-  const due = new Date(dueDate);
-  const today = new Date();
-  
-  if (today <= due) return 0;
-  
-  return Math.floor(amount * (lateFeePercentage / 100));
+// Late fees and discounts are computed by the database so every screen and the payment
+// trigger agree. Keyed by due id.
+export async function fetchDueCharges(dueIds: string[]): Promise<Record<string, DueCharges>> {
+  if (dueIds.length === 0) return {};
+
+  const { data, error } = await supabase.rpc('get_due_charges', { _due_ids: dueIds });
+  if (error) throw error;
+  return Object.fromEntries(
+    (data || []).map(row => [row.due_id, { late_fee: row.late_fee, discount: row.discount, paid: row.paid }])
+  );
+}
+
+export function describeLateFeeRule(rule: LateFeeRule): string {
+  const parts: string[] = [];
+  if (rule.late_fee_flat > 0) parts.push(formatCurrency(rule.late_fee_flat));
+  if (rule.late_fee_percentage) parts.push(`${rule.late_fee_percentage}% ${LATE_FEE_PERIOD_LABELS[rule.late_fee_period]}`);
+  if (parts.length === 0) return 'No late fee';
+
+  let description = parts.join(' + ');
+  if (rule.late_fee_cap !== null) description += `, capped at ${formatCurrency(rule.late_fee_cap)}`;
+  if (rule.late_fee_grace_days > 0) {
+    description += ` after a ${rule.late_fee_grace_days}-day grace period`;
+  }
+  return description;
 }
 
 export function getDaysUntilDue(dueDate: string): number {
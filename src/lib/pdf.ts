@@ -0,0 +1,14 @@
+import type { PDFDocumentProxy } from "pdfjs-dist";
+
+export type { PDFDocumentProxy };
+
+// pdf.js is large, so it is only loaded once a PDF is actually opened
+export async function loadPdfDocument(url: string): Promise<PDFDocumentProxy> {
+  const [pdfjs, { default: workerSrc }] = await Promise.all([
+    import("pdfjs-dist"),
+    import("pdfjs-dist/build/pdf.worker.min.mjs?url"),
+  ]);
+
+  pdfjs.GlobalWorkerOptions.workerSrc = workerSrc;
+  return pdfjs.getDocument(url).promise;
+}
@@ -0,0 +1,72 @@
+import { supabase } from "@/integrations/supabase/client";
+import { toDateTimeInputValue } from "@/lib/due-dates";
+
+export type PublishState = 'scheduled' | 'published' | 'unpublished';
+
+export interface PublishWindow {
+  publish_at: string | null;
+  unpublish_at: string | null;
+}
+
+// Form values of the publish window inputs; empty means no limit on that side
+export interface PublishWindowInput {
+  publish_at: string;
+  unpublish_at: string;
+}
+
+export const EMPTY_PUBLISH_WINDOW: PublishWindowInput = { publish_at: '', unpublish_at: '' };
+
+export const PUBLISH_STATE_LABELS: Record<PublishState, string> = {
+  scheduled: 'Scheduled',
+  published: 'Published',
+  unpublished: 'Hidden',
+};
+
+// Mirrors public.is_published, which decides what students can see
+export function getPublishState(item: PublishWindow, now = new Date()): PublishState {
+  if (item.publish_at && new Date(item.publish_at) > now) return 'scheduled';
+  if (item.unpublish_at && new Date(item.unpublish_at) <= now) return 'unpublished';
+  return 'published';
+}
+
+export function describePublishWindow(item: PublishWindow): string | null {
+  const format = (date: string) => new Date(date).toLocaleString();
+
+  switch (getPublishState(item)) {
+    case 'scheduled':
+      return item.unpublish_at
+        ? `Visible ${format(item.publish_at)} - ${format(item.unpublish_at)}`
+        : `Visible from ${format(item.publish_at)}`;
+    case 'unpublished':
+      return `Hidden since ${format(item.unpublish_at)}`;
+    default:
+      return item.unpublish_at ? `Hidden after ${format(item.unpublish_at)}` : null;
+  }
+}
+
+export const toPublishWindowInput = (item: PublishWindow): PublishWindowInput => ({
+  publish_at: item.publish_at ? toDateTimeInputValue(item.publish_at) : '',
+  unpublish_at: item.unpublish_at ? toDateTimeInputValue(item.unpublish_at) : '',
+});
+
+export const fromPublishWindowInput = (input: PublishWindowInput): PublishWindow => ({
+  publish_at: input.publish_at ? new Date(input.publish_at).toISOString() : null,
+  unpublish_at: input.unpublish_at ? new Date(input.unpublish_at).toISOString() : null,
+});
+
+// Error message for a window the database would reject, or null
+export function validatePublishWindow(input: PublishWindowInput): string | null {
+  if (input.publish_at && input.unpublish_at && new Date(input.unpublish_at) <= new Date(input.publish_at)) {
+    return 'The hide date must be after the publish date';
+  }
+  return null;
+}
+
+export async function updatePublishWindow(
+  table: 'study_materials' | 'assignments',
+  id: string,
+  window: PublishWindow,
+): Promise<void> {
+  const { error } = await supabase.from(table).update(window).eq('id', id);
+  if (error) throw new Error(error.message);
+}
@@ -0,0 +1,101 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Json } from "@/integrations/supabase/types";
+
+export type AssignmentKind = Database["public"]["Enums"]["assignment_kind"];
+export type QuizQuestionType = Database["public"]["Enums"]["quiz_question_type"];
+export type QuizQuestion = Database["public"]["Tables"]["quiz_questions"]["Row"];
+
+export const QUESTION_TYPE_LABELS: Record<QuizQuestionType, string> = {
+  multiple_choice: 'Multiple choice',
+  multi_select: 'Multiple select',
+  numeric: 'Numeric',
+  short_answer: 'Short answer',
+  true_false: 'True / False',
+};
+
+// Answer given by a student: option index, option indexes, boolean or typed text
+export type QuizAnswer = number | number[] | boolean | string;
+
+// Question as handed out by start_quiz_attempt, without the correct answer
+export interface QuizAttemptQuestion {
+  id: string;
+  type: QuizQuestionType;
+  prompt: string;
+  options: string[] | null;
+  points: number;
+}
+
+export interface QuizAttempt {
+  attempt_id: string;
+  started_at: string;
+  deadline: string | null;
+  answers: Record<string, QuizAnswer>;
+  questions: QuizAttemptQuestion[];
+}
+
+export async function fetchQuestionBank(subjectId: string): Promise<QuizQuestion[]> {
+  const { data, error } = await supabase
+    .from('quiz_questions')
+    .select('*')
+    .eq('subject_id', subjectId)
+    .order('created_at');
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function startQuizAttempt(assignmentId: string): Promise<QuizAttempt> {
+  const { data, error } = await supabase.rpc('start_quiz_attempt', { _assignment_id: assignmentId });
+  // The quiz functions raise messages meant for the student, e.g. "This quiz is closed"
+  if (error) throw new Error(error.message);
+  return data as unknown as QuizAttempt;
+}
+
+export async function saveQuizAnswers(attemptId: string, answers: Record<string, QuizAnswer>) {
+  const { error } = await supabase.rpc('save_quiz_answers', { _attempt_id: attemptId, _answers: answers as Json });
+  if (error) throw new Error(error.message);
+}
+
+// Returns the id of the graded submission
+export async function submitQuizAttempt(attemptId: string, answers: Record<string, QuizAnswer>): Promise<string> {
+  const { data, error } = await supabase.rpc('submit_quiz_attempt', { _attempt_id: attemptId, _answers: answers as Json });
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+// Readable form of an answer (or of a question's correct answer) for review screens
+export const formatQuizAnswer = (type: QuizQuestionType, options: Json | null, answer: Json | undefined) => {
+  if (answer === undefined || answer === null || answer === '') return 'No answer';
+
+  const optionList = Array.isArray(options) ? options.map(String) : [];
+  switch (type) {
+    case 'multiple_choice':
+      return optionList[Number(answer)] ?? String(answer);
+    case 'multi_select':
+      return Array.isArray(answer) ? answer.map(index => optionList[Number(index)] ?? String(index)).join(', ') : String(answer);
+    case 'true_false':
+      return answer === true ? 'True' : 'False';
+    case 'short_answer':
+      return Array.isArray(answer) ? answer.map(String).join(' / ') : String(answer);
+    default:
+      return String(answer);
+  }
+};
+
+export const formatTimeRemaining = (milliseconds: number) => {
+  const totalSeconds = Math.max(0, Math.floor(milliseconds / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+interface QuizWindow {
+  available_from: string | null;
+  available_until: string | null;
+}
+
+export const getQuizAvailability = (quiz: QuizWindow, now = new Date()) => {
+  if (quiz.available_from && now < new Date(quiz.available_from)) return 'upcoming';
+  if (quiz.available_until && now > new Date(quiz.available_until)) return 'closed';
+  return 'open';
+};
@@ -0,0 +1,147 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface RosterRow {
+  line: number;
+  email: string;
+  first_name: string;
+  last_name: string;
+}
+
+export type RosterRowStatus = 'matched' | 'unmatched' | 'duplicate' | 'conflict' | 'invalid';
+
+export interface RosterPreviewRow extends RosterRow {
+  status: RosterRowStatus;
+  // Why the row ended up in its group, e.g. "Already enrolled"
+  detail: string;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Minimal RFC 4180 parser: quoted fields, escaped quotes and line breaks inside quotes
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',' || char === ';') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim()));
+}
+
+// Roster rows from a CSV file. A header row naming an "email" column is optional;
+// without one the first column containing an @ is taken as the email.
+export function parseRoster(text: string): RosterRow[] {
+  const rows = parseCsv(text);
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map(cell => cell.trim().toLowerCase());
+  const hasHeader = header.some(cell => cell.includes('email'));
+  const emailIndex = hasHeader
+    ? header.findIndex(cell => cell.includes('email'))
+    : Math.max(0, rows[0].findIndex(cell => cell.includes('@')));
+  const firstNameIndex = hasHeader ? header.findIndex(cell => cell.includes('first')) : -1;
+  const lastNameIndex = hasHeader ? header.findIndex(cell => cell.includes('last')) : -1;
+
+  return rows.slice(hasHeader ? 1 : 0).map((row, index) => ({
+    line: index + (hasHeader ? 2 : 1),
+    email: (row[emailIndex] || '').trim().toLowerCase(),
+    first_name: firstNameIndex >= 0 ? (row[firstNameIndex] || '').trim() : '',
+    last_name: lastNameIndex >= 0 ? (row[lastNameIndex] || '').trim() : '',
+  }));
+}
+
+// Sort roster rows into matched (enroll), unmatched (invite), duplicate, conflict and invalid.
+// Conflicts are accounts that exist but cannot be enrolled or invited from this subject,
+// and rows past the subject's capacity.
+export async function previewRoster(subjectId: string, roster: RosterRow[]): Promise<RosterPreviewRow[]> {
+  const validEmails = [...new Set(roster.map(row => row.email).filter(email => EMAIL_PATTERN.test(email)))];
+
+  const { data, error } = await supabase.rpc('preview_enrollment_import', {
+    _subject_id: subjectId,
+    _emails: validEmails,
+  });
+
+  if (error) throw error;
+
+  const lookup = new Map((data || []).map(result => [result.email, result]));
+  const seen = new Set<string>();
+
+  return roster.map(row => {
+    if (!EMAIL_PATTERN.test(row.email)) {
+      return { ...row, status: 'invalid', detail: 'Not a valid email address' };
+    }
+    if (seen.has(row.email)) {
+      return { ...row, status: 'duplicate', detail: 'Listed more than once' };
+    }
+    seen.add(row.email);
+
+    const result = lookup.get(row.email);
+    switch (result?.status) {
+      case 'matched':
+        return {
+          ...row,
+          first_name: result.first_name || row.first_name,
+          last_name: result.last_name || row.last_name,
+          status: 'matched',
+          detail: 'Will be enrolled',
+        };
+      case 'enrolled':
+        return { ...row, status: 'duplicate', detail: 'Already enrolled' };
+      case 'invited':
+        return { ...row, status: 'duplicate', detail: 'Already invited' };
+      case 'not_student':
+        return { ...row, status: 'invalid', detail: 'Account is not a student' };
+      case 'inactive':
+        return { ...row, status: 'conflict', detail: 'Account is pending approval or deactivated' };
+      case 'other_institution':
+        return { ...row, status: 'conflict', detail: 'Account belongs to another institution' };
+      case 'full':
+        return { ...row, status: 'conflict', detail: 'No seat left in this subject' };
+      default:
+        return { ...row, status: 'unmatched', detail: 'No account yet, will be invited' };
+    }
+  });
+}
+
+export async function importRoster(subjectId: string, rows: RosterPreviewRow[]) {
+  const { data, error } = await supabase.rpc('import_enrollments', {
+    _subject_id: subjectId,
+    _rows: rows
+      .filter(row => row.status === 'matched' || row.status === 'unmatched')
+      .map(({ email, first_name, last_name }) => ({ email, first_name, last_name })),
+  });
+
+  if (error) throw error;
+  return data as { enrolled: number; invited: number };
+}
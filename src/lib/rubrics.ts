@@ -0,0 +1,109 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type RubricLevel = Database["public"]["Tables"]["rubric_levels"]["Row"];
+export type RubricScore = Database["public"]["Tables"]["submission_rubric_scores"]["Row"];
+
+export interface RubricCriterion {
+  id: string;
+  title: string;
+  description: string | null;
+  position: number;
+  levels: RubricLevel[];
+}
+
+export interface Rubric {
+  id: string;
+  subject_id: string;
+  title: string;
+  description: string | null;
+  criteria: RubricCriterion[];
+}
+
+// Draft shape accepted by the create_rubric RPC
+export interface RubricDraft {
+  title: string;
+  description: string;
+  criteria: {
+    title: string;
+    description: string;
+    levels: { label: string; description: string; points: number }[];
+  }[];
+}
+
+const RUBRIC_SELECT = `
+  id, subject_id, title, description,
+  rubric_criteria(id, title, description, position,
+    rubric_levels(*)
+  )
+`;
+
+interface RubricRow {
+  id: string;
+  subject_id: string;
+  title: string;
+  description: string | null;
+  rubric_criteria: (Omit<RubricCriterion, 'levels'> & { rubric_levels: RubricLevel[] })[];
+}
+
+const toRubric = (data: RubricRow): Rubric => ({
+  id: data.id,
+  subject_id: data.subject_id,
+  title: data.title,
+  description: data.description,
+  criteria: (data.rubric_criteria || [])
+    .map(({ rubric_levels, ...criterion }) => ({
+      ...criterion,
+      levels: [...(rubric_levels || [])].sort((a, b) => a.position - b.position),
+    }))
+    .sort((a, b) => a.position - b.position),
+});
+
+export async function fetchSubjectRubrics(subjectId: string): Promise<Rubric[]> {
+  const { data, error } = await supabase
+    .from('rubrics')
+    .select(RUBRIC_SELECT)
+    .eq('subject_id', subjectId)
+    .order('created_at');
+
+  if (error) throw error;
+  return (data || []).map(toRubric);
+}
+
+export async function fetchRubric(rubricId: string): Promise<Rubric> {
+  const { data, error } = await supabase
+    .from('rubrics')
+    .select(RUBRIC_SELECT)
+    .eq('id', rubricId)
+    .single();
+
+  if (error) throw error;
+  return toRubric(data);
+}
+
+export async function createRubric(subjectId: string, draft: RubricDraft): Promise<string> {
+  const { data, error } = await supabase.rpc('create_rubric', {
+    _subject_id: subjectId,
+    _title: draft.title,
+    _description: draft.description,
+    _criteria: draft.criteria,
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+export const getRubricMaxPoints = (rubric: Rubric) =>
+  rubric.criteria.reduce(
+    (sum, criterion) => sum + Math.max(0, ...criterion.levels.map(level => Number(level.points))),
+    0
+  );
+
+// Rubric points are scaled to the assignment's maximum when the two differ
+export const calculateRubricGrade = (rubric: Rubric, points: Record<string, number>, maxPoints: number) => {
+  const rubricMax = getRubricMaxPoints(rubric);
+  if (rubricMax === 0) return 0;
+
+  const earned = rubric.criteria.reduce((sum, criterion) => sum + (points[criterion.id] ?? 0), 0);
+  return Math.round((earned / rubricMax) * maxPoints);
+};
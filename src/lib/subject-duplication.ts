@@ -0,0 +1,102 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Term } from "@/lib/terms";
+
+export interface DuplicateSubjectOptions {
+  name: string;
+  code: string;
+  termId: string | null;
+  shiftDays: number;
+}
+
+export interface DuplicateSubjectResult {
+  subjectId: string;
+  copiedMaterials: number;
+  failedMaterials: string[];
+}
+
+// Whole days between the starts of two terms, used as the default due date shift
+export function getTermShiftDays(from: Term | null, to: Term | null): number {
+  if (!from || !to) return 0;
+  const start = (term: Term) => new Date(`${term.start_date}T00:00:00Z`).getTime();
+  return Math.round((start(to) - start(from)) / (1000 * 60 * 60 * 24));
+}
+
+const shiftDate = (date: string | null, days: number) =>
+  date ? new Date(new Date(date).getTime() + days * 24 * 60 * 60 * 1000).toISOString() : null;
+
+// Start a new offering of a subject. The database copies settings, grading setup, rubrics,
+// quiz questions, modules and assignments; materials are copied here because their files
+// have to be copied in storage first. Enrollments and submissions are not copied.
+export async function duplicateSubject(
+  sourceSubjectId: string,
+  userId: string,
+  options: DuplicateSubjectOptions,
+): Promise<DuplicateSubjectResult> {
+  const { data, error } = await supabase.rpc('duplicate_subject', {
+    _subject_id: sourceSubjectId,
+    _name: options.name,
+    _code: options.code,
+    _term_id: options.termId ?? undefined,
+    _shift_days: options.shiftDays,
+  });
+
+  if (error) throw new Error(error.message);
+
+  const { subject_id: subjectId, modules } = data as { subject_id: string; modules: Record<string, string> };
+
+  const { data: materials, error: materialsError } = await supabase
+    .from('study_materials')
+    .select('*')
+    .eq('subject_id', sourceSubjectId)
+    .eq('is_active', true)
+    .order('created_at');
+
+  if (materialsError) throw new Error(materialsError.message);
+
+  let copiedMaterials = 0;
+  const failedMaterials: string[] = [];
+
+  for (const [index, material] of (materials || []).entries()) {
+    // Same layout as UploadMaterialDialog: the copy lives in the copying user's folder
+    const fileExt = material.file_path.split('.').pop();
+    const filePath = `${userId}/${Date.now()}-${index}.${fileExt}`;
+
+    const { error: copyError } = await supabase.storage
+      .from('study-materials')
+      .copy(material.file_path, filePath);
+
+    if (copyError) {
+      console.error('Error copying material file:', copyError);
+      failedMaterials.push(material.title);
+      continue;
+    }
+
+    const { error: insertError } = await supabase
+      .from('study_materials')
+      .insert({
+        subject_id: subjectId,
+        professor_id: userId,
+        title: material.title,
+        description: material.description,
+        topic: material.topic,
+        file_name: material.file_name,
+        file_path: filePath,
+        file_size: material.file_size,
+        file_type: material.file_type,
+        module_id: material.module_id ? modules[material.module_id] ?? null : null,
+        publish_at: shiftDate(material.publish_at, options.shiftDays),
+        unpublish_at: shiftDate(material.unpublish_at, options.shiftDays),
+      });
+
+    if (insertError) {
+      console.error('Error copying material:', insertError);
+      await supabase.storage.from('study-materials').remove([filePath]);
+      failedMaterials.push(material.title);
+      continue;
+    }
+
+    copiedMaterials++;
+  }
+
+  return { subjectId, copiedMaterials, failedMaterials };
+}
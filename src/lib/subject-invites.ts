@@ -0,0 +1,93 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import type { EnrollmentStatus } from "@/lib/enrollments";
+
+export type SubjectJoinCode = Database["public"]["Tables"]["subject_join_codes"]["Row"];
+
+export function buildInviteLink(code: string): string {
+  return `${window.location.origin}/join/${code}`;
+}
+
+// Why a code can no longer be redeemed, or null while it still works
+export function getJoinCodeProblem(code: SubjectJoinCode): string | null {
+  if (!code.is_active) return 'Disabled';
+  if (code.expires_at && new Date(code.expires_at) < new Date()) return 'Expired';
+  if (code.max_uses !== null && code.use_count >= code.max_uses) return 'Used up';
+  return null;
+}
+
+export function formatJoinCodeUsage(code: SubjectJoinCode): string {
+  return code.max_uses !== null ? `${code.use_count}/${code.max_uses} uses` : `${code.use_count} uses`;
+}
+
+// Enroll the current student with a join code. Capacity still applies, so they may be waitlisted.
+export async function joinSubjectWithCode(code: string): Promise<EnrollmentStatus> {
+  const { data, error } = await supabase.rpc('join_subject_with_code', { _code: code });
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+// Self-enrollment in a subject that is not invite-only
+export async function enrollInSubject(subjectId: string): Promise<EnrollmentStatus> {
+  const { data, error } = await supabase.rpc('enroll_in_subject', { _subject_id: subjectId });
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+// Enroll the student with this email, or hold a seat with an invitation when they
+// have no account yet. The invitation is accepted once they sign up and confirm the email.
+export async function enrollOrInviteByEmail(
+  subjectId: string,
+  email: string,
+  invitedBy: string,
+  expiresAt: string | null = null,
+): Promise<'enrolled' | 'invited'> {
+  const normalizedEmail = email.trim().toLowerCase();
+
+  const { data, error } = await supabase.rpc('preview_enrollment_import', {
+    _subject_id: subjectId,
+    _emails: [normalizedEmail],
+  });
+
+  if (error) throw error;
+
+  const match = data?.[0];
+  switch (match?.status) {
+    case 'enrolled':
+      throw new Error('Student is already enrolled in this subject');
+    case 'invited':
+      throw new Error('This email has already been invited to this subject');
+    case 'not_student':
+      throw new Error('User is not a student');
+    case 'inactive':
+      throw new Error('This account is pending approval or deactivated');
+    case 'other_institution':
+      throw new Error('This email belongs to an account in another institution');
+    case 'full':
+      throw new Error('This subject is full');
+    case 'matched': {
+      const { error: enrollError } = await supabase
+        .from('enrollments')
+        .upsert(
+          { student_id: match.student_id, subject_id: subjectId, status: 'approved', is_active: true },
+          { onConflict: 'student_id,subject_id' }
+        );
+
+      if (enrollError) throw enrollError;
+      return 'enrolled';
+    }
+    default: {
+      const { error: inviteError } = await supabase
+        .from('enrollment_invitations')
+        .insert({
+          subject_id: subjectId,
+          email: normalizedEmail,
+          invited_by: invitedBy,
+          expires_at: expiresAt,
+        });
+
+      if (inviteError) throw inviteError;
+      return 'invited';
+    }
+  }
+}
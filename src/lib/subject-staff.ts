@@ -0,0 +1,56 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type SubjectStaffRole = Database["public"]["Enums"]["subject_staff_role"];
+
+export interface ManagedSubject {
+  id: string;
+  name: string;
+  code: string;
+  term_id: string | null;
+  // null when the current user owns the subject
+  staff_role: SubjectStaffRole | null;
+}
+
+export const STAFF_ROLE_LABELS: Record<SubjectStaffRole, string> = {
+  co_instructor: 'Co-instructor',
+  ta: 'Teaching Assistant',
+  grader: 'Grader',
+};
+
+// Staff roles allowed to perform each action, next to the subject owner
+export const GRADING_ROLES: SubjectStaffRole[] = ['co_instructor', 'ta', 'grader'];
+export const UPLOAD_ROLES: SubjectStaffRole[] = ['co_instructor', 'ta'];
+export const ENROLLMENT_ROLES: SubjectStaffRole[] = ['co_instructor', 'ta'];
+export const GRADEBOOK_SETUP_ROLES: SubjectStaffRole[] = ['co_instructor'];
+
+// Active subjects the user owns, plus those where they hold one of the given staff roles
+export async function fetchManagedSubjects(userId: string, roles: SubjectStaffRole[]): Promise<ManagedSubject[]> {
+  const [ownedRes, staffRes] = await Promise.all([
+    supabase
+      .from('subjects')
+      .select('id, name, code, term_id')
+      .eq('professor_id', userId)
+      .eq('is_active', true),
+    supabase
+      .from('subject_staff')
+      .select('role, subjects!inner(id, name, code, term_id, is_active)')
+      .eq('user_id', userId)
+      .in('role', roles)
+      .eq('subjects.is_active', true),
+  ]);
+
+  if (ownedRes.error) throw ownedRes.error;
+  if (staffRes.error) throw staffRes.error;
+
+  const owned = (ownedRes.data || []).map(subject => ({ ...subject, staff_role: null }));
+  const staffed = (staffRes.data || []).map(({ role, subjects }) => ({
+    id: subjects.id,
+    name: subjects.name,
+    code: subjects.code,
+    term_id: subjects.term_id,
+    staff_role: role,
+  }));
+
+  return [...owned, ...staffed];
+}
@@ -0,0 +1,121 @@
+export type TokenType = 'plain' | 'comment' | 'string' | 'number' | 'keyword';
+
+export interface Token {
+  type: TokenType;
+  text: string;
+}
+
+interface LanguageRules {
+  lineComment?: string;
+  blockComment?: [string, string];
+  keywords: string[];
+}
+
+const C_LIKE_KEYWORDS = [
+  'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'do', 'else', 'enum', 'extends',
+  'false', 'final', 'finally', 'for', 'if', 'implements', 'import', 'interface', 'new', 'null', 'private',
+  'protected', 'public', 'return', 'static', 'struct', 'super', 'switch', 'this', 'throw', 'true', 'try',
+  'void', 'while',
+];
+
+const LANGUAGE_RULES: Record<string, LanguageRules> = {
+  javascript: {
+    lineComment: '//',
+    blockComment: ['/*', '*/'],
+    keywords: [...C_LIKE_KEYWORDS, 'async', 'await', 'export', 'from', 'function', 'let', 'of', 'typeof', 'undefined', 'var', 'yield'],
+  },
+  typescript: {
+    lineComment: '//',
+    blockComment: ['/*', '*/'],
+    keywords: [...C_LIKE_KEYWORDS, 'as', 'async', 'await', 'export', 'from', 'function', 'let', 'of', 'type', 'typeof', 'undefined', 'var'],
+  },
+  java: { lineComment: '//', blockComment: ['/*', '*/'], keywords: [...C_LIKE_KEYWORDS, 'boolean', 'int', 'double', 'package', 'throws'] },
+  c: { lineComment: '//', blockComment: ['/*', '*/'], keywords: [...C_LIKE_KEYWORDS, 'char', 'double', 'float', 'int', 'long', 'sizeof', 'typedef', 'unsigned'] },
+  cpp: { lineComment: '//', blockComment: ['/*', '*/'], keywords: [...C_LIKE_KEYWORDS, 'auto', 'bool', 'char', 'double', 'int', 'namespace', 'std', 'template', 'using'] },
+  csharp: { lineComment: '//', blockComment: ['/*', '*/'], keywords: [...C_LIKE_KEYWORDS, 'bool', 'int', 'namespace', 'string', 'using', 'var'] },
+  go: { lineComment: '//', blockComment: ['/*', '*/'], keywords: [...C_LIKE_KEYWORDS, 'func', 'go', 'map', 'package', 'range', 'type', 'var'] },
+  rust: { lineComment: '//', blockComment: ['/*', '*/'], keywords: [...C_LIKE_KEYWORDS, 'fn', 'impl', 'let', 'loop', 'match', 'mod', 'mut', 'pub', 'use'] },
+  kotlin: { lineComment: '//', blockComment: ['/*', '*/'], keywords: [...C_LIKE_KEYWORDS, 'fun', 'val', 'var', 'when', 'object'] },
+  swift: { lineComment: '//', blockComment: ['/*', '*/'], keywords: [...C_LIKE_KEYWORDS, 'func', 'guard', 'let', 'var', 'nil'] },
+  php: { lineComment: '//', blockComment: ['/*', '*/'], keywords: [...C_LIKE_KEYWORDS, 'echo', 'function', 'foreach', 'as'] },
+  css: { blockComment: ['/*', '*/'], keywords: ['important', 'media', 'import'] },
+  python: {
+    lineComment: '#',
+    keywords: [
+      'and', 'as', 'break', 'class', 'continue', 'def', 'elif', 'else', 'except', 'False', 'finally', 'for',
+      'from', 'if', 'import', 'in', 'is', 'lambda', 'None', 'not', 'or', 'pass', 'raise', 'return', 'True',
+      'try', 'while', 'with', 'yield',
+    ],
+  },
+  ruby: { lineComment: '#', keywords: ['class', 'def', 'do', 'else', 'elsif', 'end', 'false', 'if', 'module', 'nil', 'require', 'return', 'true', 'unless', 'while'] },
+  shell: { lineComment: '#', keywords: ['case', 'do', 'done', 'echo', 'elif', 'else', 'esac', 'export', 'fi', 'for', 'function', 'if', 'in', 'then', 'while'] },
+  yaml: { lineComment: '#', keywords: ['true', 'false', 'null'] },
+  sql: {
+    lineComment: '--',
+    blockComment: ['/*', '*/'],
+    keywords: [
+      'and', 'as', 'by', 'create', 'delete', 'from', 'group', 'insert', 'into', 'join', 'left', 'not', 'null',
+      'on', 'or', 'order', 'select', 'set', 'table', 'update', 'values', 'where',
+    ],
+  },
+  json: { keywords: ['true', 'false', 'null'] },
+  html: { blockComment: ['<!--', '-->'], keywords: [] },
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// A small tokenizer for previews: comments, strings, numbers and keywords are enough to make
+// submitted code readable without shipping a full highlighting library
+export function tokenize(code: string, language: string | null): Token[] {
+  const rules = language ? LANGUAGE_RULES[language] : undefined;
+  if (!rules) return [{ type: 'plain', text: code }];
+
+  const patterns: string[] = [];
+  if (rules.blockComment) {
+    const [open, close] = rules.blockComment.map(escapeRegExp);
+    patterns.push(`(?<comment>${open}[\\s\\S]*?(?:${close}|$))`);
+  }
+  if (rules.lineComment) {
+    patterns.push(`(?<lineComment>${escapeRegExp(rules.lineComment)}[^\\n]*)`);
+  }
+  patterns.push('(?<string>"(?:\\\\.|[^"\\\\\\n])*"|\'(?:\\\\.|[^\'\\\\\\n])*\'|`(?:\\\\.|[^`\\\\])*`)');
+  patterns.push('(?<number>\\b\\d+(?:\\.\\d+)?\\b)');
+  patterns.push('(?<word>[A-Za-z_][A-Za-z0-9_]*)');
+
+  const matcher = new RegExp(patterns.join('|'), 'g');
+  const keywords = new Set(language === 'sql' ? rules.keywords.map(keyword => keyword.toLowerCase()) : rules.keywords);
+  const tokens: Token[] = [];
+  let lastIndex = 0;
+
+  const push = (type: TokenType, text: string) => {
+    const previous = tokens[tokens.length - 1];
+    if (previous && previous.type === type) {
+      previous.text += text;
+    } else {
+      tokens.push({ type, text });
+    }
+  };
+
+  for (const match of code.matchAll(matcher)) {
+    if (match.index > lastIndex) push('plain', code.slice(lastIndex, match.index));
+
+    const [text] = match;
+    const { comment, lineComment, string, number, word } = match.groups!;
+    if (comment !== undefined || lineComment !== undefined) {
+      push('comment', text);
+    } else if (string !== undefined) {
+      push('string', text);
+    } else if (number !== undefined) {
+      push('number', text);
+    } else if (word !== undefined && keywords.has(language === 'sql' ? word.toLowerCase() : word)) {
+      push('keyword', text);
+    } else {
+      push('plain', text);
+    }
+
+    lastIndex = match.index + text.length;
+  }
+
+  if (lastIndex < code.length) push('plain', code.slice(lastIndex));
+  return tokens;
+}
@@ -0,0 +1,42 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type Term = Database["public"]["Tables"]["terms"]["Row"];
+
+// Value of the term filters when no term is selected
+export const ALL_TERMS = 'all';
+
+// Terms of the user's institution, newest first
+export async function fetchTerms(): Promise<Term[]> {
+  const { data, error } = await supabase
+    .from('terms')
+    .select('*')
+    .order('start_date', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+// start_date and end_date are plain dates, compared against the local date
+export function getTermPhase(term: Term, now = new Date()): 'upcoming' | 'current' | 'finished' {
+  const today = [
+    now.getFullYear(),
+    String(now.getMonth() + 1).padStart(2, '0'),
+    String(now.getDate()).padStart(2, '0'),
+  ].join('-');
+
+  if (today < term.start_date) return 'upcoming';
+  if (today > term.end_date) return 'finished';
+  return 'current';
+}
+
+export function formatTermDates(term: Term): string {
+  const format = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString();
+  return `${format(term.start_date)} - ${format(term.end_date)}`;
+}
+
+// Keep the items whose subject is offered in the selected term
+export function filterByTerm<T>(items: T[], termId: string, getTermId: (item: T) => string | null | undefined): T[] {
+  if (termId === ALL_TERMS) return items;
+  return items.filter(item => getTermId(item) === termId);
+}
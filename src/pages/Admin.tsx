@@ -0,0 +1,65 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import Header from "@/components/Header";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { UserManagement } from "@/components/admin/UserManagement";
+import { AuditLog } from "@/components/admin/AuditLog";
+import { TermManagement } from "@/components/admin/TermManagement";
+
+const Admin = () => {
+  const { user, profile, loading, profileLoading } = useAuth();
+  const navigate = useNavigate();
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    if (!loading && !user) {
+      navigate('/auth');
+    }
+  }, [user, loading, navigate]);
+
+  if (loading || (user && profileLoading)) {
+    return <div className="p-6">Loading...</div>;
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  // Signed in without a profile row counts as not being an administrator
+  if (!profile || profile.role !== 'admin' || profile.status !== 'active') {
+    return (
+      <div className="p-6 text-center">
+        <h1 className="text-2xl font-bold text-destructive mb-4">Access Denied</h1>
+        <p className="text-muted-foreground">Only administrators can manage users.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <main className="container mx-auto px-4 py-8">
+        <h1 className="text-3xl font-bold mb-6">Administration</h1>
+        <Tabs defaultValue="users" className="w-full">
+          <TabsList>
+            <TabsTrigger value="users">Users</TabsTrigger>
+            <TabsTrigger value="terms">Terms</TabsTrigger>
+            <TabsTrigger value="audit">Audit Trail</TabsTrigger>
+          </TabsList>
+          <TabsContent value="users">
+            <UserManagement onChange={() => setRefreshKey(key => key + 1)} />
+          </TabsContent>
+          <TabsContent value="terms">
+            <TermManagement />
+          </TabsContent>
+          <TabsContent value="audit">
+            <AuditLog refreshKey={refreshKey} />
+          </TabsContent>
+        </Tabs>
+      </main>
+    </div>
+  );
+};
+
+export default Admin;
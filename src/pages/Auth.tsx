@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react'
-import { useNavigate } from 'react-router-dom'
+import { useNavigate, useSearchParams } from 'react-router-dom'
 import { useAuth } from '@/hooks/useAuth'
+import { supabase } from '@/integrations/supabase/client'
 import HCaptcha from '@hcaptcha/react-hcaptcha'
 import { useToast } from '@/hooks/use-toast'
 import { Button } from '@/components/ui/button'
@@ -12,7 +13,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form'
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form'
 
 const signInSchema = z.object({
   email: z.string().email('Please enter a valid email'),
@@ -24,15 +25,26 @@ const signUpSchema = z.object({
   password: z.string().min(6, 'Password must be at least 6 characters'),
   firstName: z.string().min(1, 'First name is required'),
   lastName: z.string().min(1, 'Last name is required'),
-  role: z.literal('student')
+  institutionId: z.string().min(1, 'Please select your institution'),
+  role: z.enum(['student', 'professor'])
 })
 
+interface Institution {
+  id: string
+  name: string
+}
+
 const Auth = () => {
   const navigate = useNavigate()
+  const [searchParams] = useSearchParams()
+  // Where to go after signing in, e.g. back to an invite link. Only same-site paths.
+  const redirect = searchParams.get('redirect')
+  const redirectTo = redirect && redirect.startsWith('/') && !redirect.startsWith('//') ? redirect : '/'
   const { signIn, signUp, user, loading } = useAuth()
   const { toast } = useToast()
   const [isLoading, setIsLoading] = useState(false)
   const [captchaToken, setCaptchaToken] = useState<string | null>(null)
+  const [institutions, setInstitutions] = useState<Institution[]>([])
 
   const signInForm = useForm<z.infer<typeof signInSchema>>({
     resolver: zodResolver(signInSchema),
@@ -49,15 +61,34 @@ const Auth = () => {
       password: '',
       firstName: '',
       lastName: '',
+      institutionId: '',
       role: 'student'
     }
   })
 
   useEffect(() => {
     if (user && !loading) {
-      navigate('/')
+      navigate(redirectTo)
+    }
+  }, [user, loading, navigate, redirectTo])
+
+  useEffect(() => {
+    const fetchInstitutions = async () => {
+      const { data, error } = await supabase
+        .from('institutions')
+        .select('id, name')
+        .order('name')
+
+      if (error) {
+        console.error('Error fetching institutions:', error)
+        return
+      }
+
+      setInstitutions(data || [])
     }
-  }, [user, loading, navigate])
+
+    fetchInstitutions()
+  }, [])
 
   if (loading) {
     return (
@@ -74,7 +105,7 @@ const Auth = () => {
     setIsLoading(true)
     const { error } = await signIn(values.email, values.password)
     if (!error) {
-      navigate('/')
+      navigate(redirectTo)
     }
     setIsLoading(false)
   }
@@ -96,7 +127,8 @@ const Auth = () => {
         values.password,
         values.firstName,
         values.lastName,
-        values.role
+        values.role,
+        values.institutionId
       )
       
       if (!error) {
@@ -234,7 +266,56 @@ const Auth = () => {
                         </FormItem>
                       )}
                     />
-                    <input type="hidden" {...signUpForm.register('role')} value="student" />
+                    <FormField
+                      control={signUpForm.control}
+                      name="institutionId"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Institution</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Select your institution" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {institutions.map((institution) => (
+                                <SelectItem key={institution.id} value={institution.id}>
+                                  {institution.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={signUpForm.control}
+                      name="role"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>I am a</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="student">Student</SelectItem>
+                              <SelectItem value="professor">Professor</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          {field.value === 'professor' && (
+                            <FormDescription>
+                              Professor accounts must be approved by an administrator before you can sign in to your courses.
+                            </FormDescription>
+                          )}
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
                     
                     <div className="flex justify-center">
                       <HCaptcha
@@ -1,18 +1,23 @@
 import { useAuth } from "@/hooks/useAuth";
+import { useSubjectStaff } from "@/hooks/useSubjectStaff";
 import { GradingInterface } from "@/components/grading/GradingInterface";
+import { ProfessorGradebook } from "@/components/gradebook/ProfessorGradebook";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { GRADING_ROLES } from "@/lib/subject-staff";
 
 const Grading = () => {
   const { profile } = useAuth();
+  const { loading: staffLoading, hasStaffRole } = useSubjectStaff();
 
-  if (!profile) {
+  if (!profile || staffLoading) {
     return <div className="p-6">Loading...</div>;
   }
 
-  if (profile.role !== 'professor') {
+  if (profile.role !== 'professor' && !hasStaffRole(GRADING_ROLES)) {
     return (
       <div className="p-6 text-center">
         <h1 className="text-2xl font-bold text-destructive mb-4">Access Denied</h1>
-        <p className="text-muted-foreground">Only professors can access the grading interface.</p>
+        <p className="text-muted-foreground">Only professors and subject staff can access the grading interface.</p>
       </div>
     );
   }
@@ -20,7 +25,18 @@ const Grading = () => {
   return (
     <div className="p-6">
       <h1 className="text-3xl font-bold mb-6">Grading Center</h1>
-      <GradingInterface />
+      <Tabs defaultValue="submissions" className="w-full">
+        <TabsList className="mb-4">
+          <TabsTrigger value="submissions">Submissions</TabsTrigger>
+          <TabsTrigger value="gradebook">Gradebook</TabsTrigger>
+        </TabsList>
+        <TabsContent value="submissions">
+          <GradingInterface />
+        </TabsContent>
+        <TabsContent value="gradebook">
+          <ProfessorGradebook />
+        </TabsContent>
+      </Tabs>
     </div>
   );
 };
@@ -7,6 +7,7 @@ import { Badge } from '@/components/ui/badge'
 import Header from '@/components/Header'
 import { ProfessorDashboard } from '@/components/dashboard/ProfessorDashboard'
 import { StudentDashboard } from '@/components/dashboard/StudentDashboard'
+import { Clock, Shield, UserX } from 'lucide-react'
 
 const Index = () => {
   const { user, profile, loading } = useAuth()
@@ -33,6 +34,54 @@ const Index = () => {
     return null
   }
 
+  const renderDashboard = () => {
+    if (profile?.status === 'pending') {
+      return (
+        <Card>
+          <CardContent className="p-6 text-center">
+            <Clock className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+            <h3 className="text-lg font-semibold mb-2">Awaiting approval</h3>
+            <p className="text-muted-foreground">
+              Your {profile.requested_role ?? 'account'} request has to be approved by an administrator before you can continue.
+            </p>
+          </CardContent>
+        </Card>
+      )
+    }
+
+    if (profile?.status === 'deactivated') {
+      return (
+        <Card>
+          <CardContent className="p-6 text-center">
+            <UserX className="h-12 w-12 mx-auto mb-4 text-destructive" />
+            <h3 className="text-lg font-semibold mb-2">Account deactivated</h3>
+            <p className="text-muted-foreground">
+              Your account has been deactivated. Please contact your institution's administrator.
+            </p>
+          </CardContent>
+        </Card>
+      )
+    }
+
+    if (profile?.role === 'admin') {
+      return (
+        <Card className="cursor-pointer hover:shadow-md transition-shadow" onClick={() => navigate('/admin')}>
+          <CardContent className="p-6">
+            <div className="flex items-center space-x-4">
+              <Shield className="h-8 w-8 text-primary" />
+              <div>
+                <h3 className="font-semibold">Administration</h3>
+                <p className="text-sm text-muted-foreground">Approve accounts, manage roles and review the audit trail</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )
+    }
+
+    return profile?.role === 'professor' ? <ProfessorDashboard /> : <StudentDashboard />
+  }
+
   return (
     <div className="min-h-screen bg-background">
       <Header />
@@ -49,11 +98,7 @@ const Index = () => {
           </p>
         </div>
 
-        {profile?.role === 'professor' ? (
-          <ProfessorDashboard />
-        ) : (
-          <StudentDashboard />
-        )}
+        {renderDashboard()}
       </main>
     </div>
   )
@@ -0,0 +1,86 @@
+import { useState } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import { useAuth } from '@/hooks/useAuth'
+import { useToast } from '@/hooks/use-toast'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { KeyRound } from 'lucide-react'
+import { joinSubjectWithCode } from '@/lib/subject-invites'
+import { describeEnrollmentRequest } from '@/lib/enrollments'
+
+// Landing page of invite links: /join/<code>
+const Join = () => {
+  const { code = '' } = useParams()
+  const navigate = useNavigate()
+  const { user, profile, loading } = useAuth()
+  const { toast } = useToast()
+  const [joining, setJoining] = useState(false)
+
+  const handleJoin = async () => {
+    setJoining(true)
+    try {
+      const status = await joinSubjectWithCode(code)
+      toast({
+        title: "Success",
+        description: describeEnrollmentRequest(status)
+      })
+      navigate('/subjects')
+    } catch (error) {
+      console.error('Error joining subject:', error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to join subject",
+        variant: "destructive"
+      })
+    } finally {
+      setJoining(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <KeyRound className="w-12 h-12 text-primary mx-auto mb-2" />
+          <CardTitle>Join a Subject</CardTitle>
+          <CardDescription>
+            You have been invited with the code <span className="font-mono font-medium">{code.toUpperCase()}</span>
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!user ? (
+            <div className="space-y-3 text-center">
+              <p className="text-sm text-muted-foreground">
+                Sign in or create a student account to join. You will come back here afterwards.
+              </p>
+              <Button className="w-full" onClick={() => navigate(`/auth?redirect=${encodeURIComponent(`/join/${code}`)}`)}>
+                Continue to Sign In
+              </Button>
+            </div>
+          ) : profile?.role !== 'student' ? (
+            <p className="text-sm text-muted-foreground text-center">
+              Only student accounts can join subjects with a code.
+            </p>
+          ) : (
+            <Button className="w-full" onClick={handleJoin} disabled={joining}>
+              {joining ? 'Joining...' : 'Join Subject'}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export default Join
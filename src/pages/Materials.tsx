@@ -1,18 +1,21 @@
 import { useAuth } from "@/hooks/useAuth";
 import { ProfessorMaterials } from "@/components/materials/ProfessorMaterials";
 import { StudentMaterials } from "@/components/materials/StudentMaterials";
+import { useSubjectStaff } from "@/hooks/useSubjectStaff";
+import { UPLOAD_ROLES } from "@/lib/subject-staff";
 
 const Materials = () => {
   const { profile } = useAuth();
+  const { loading: staffLoading, hasStaffRole } = useSubjectStaff();
 
-  if (!profile) {
+  if (!profile || staffLoading) {
     return <div className="p-6">Loading...</div>;
   }
 
   return (
     <div className="p-6">
       <h1 className="text-3xl font-bold mb-6">Study Materials</h1>
-      {profile.role === 'professor' ? <ProfessorMaterials /> : <StudentMaterials />}
+      {profile.role === 'professor' || hasStaffRole(UPLOAD_ROLES) ? <ProfessorMaterials /> : <StudentMaterials />}
     </div>
   );
 };
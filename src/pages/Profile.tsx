@@ -68,7 +68,7 @@ const Profile = () => {
         // Fetch student stats
         const [enrollmentsRes, submissionsRes] = await Promise.all([
           supabase.from('enrollments').select('id').eq('student_id', user.id).eq('is_active', true),
-          supabase.from('assignment_submissions').select('id').eq('student_id', user.id)
+          supabase.from('assignment_submissions').select('id').eq('student_id', user.id).eq('is_counted', true)
         ]);
 
         setStats({
@@ -1,18 +1,21 @@
 import { useAuth } from "@/hooks/useAuth";
+import { useSubjectStaff } from "@/hooks/useSubjectStaff";
 import { ProfessorStudents } from "@/components/students/ProfessorStudents";
+import { ENROLLMENT_ROLES } from "@/lib/subject-staff";
 
 const Students = () => {
   const { profile } = useAuth();
+  const { loading: staffLoading, hasStaffRole } = useSubjectStaff();
 
-  if (!profile) {
+  if (!profile || staffLoading) {
     return <div className="p-6">Loading...</div>;
   }
 
-  if (profile.role !== 'professor') {
+  if (profile.role !== 'professor' && !hasStaffRole(ENROLLMENT_ROLES)) {
     return (
       <div className="p-6 text-center">
         <h1 className="text-2xl font-bold text-destructive mb-4">Access Denied</h1>
-        <p className="text-muted-foreground">Only professors can manage students.</p>
+        <p className="text-muted-foreground">Only professors, co-instructors and TAs can manage students.</p>
       </div>
     );
   }
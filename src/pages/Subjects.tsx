@@ -7,9 +7,20 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { useToast } from '@/hooks/use-toast'
-import { Plus, BookOpen, Users, DollarSign } from 'lucide-react'
+import { Plus, BookOpen, Users, DollarSign, UserCog, Mail, KeyRound, Copy } from 'lucide-react'
 import Header from '@/components/Header'
+import { ManageStaffDialog } from '@/components/subjects/ManageStaffDialog'
+import { SubjectInvitesDialog } from '@/components/subjects/SubjectInvitesDialog'
+import { JoinSubjectDialog } from '@/components/subjects/JoinSubjectDialog'
+import { DuplicateSubjectDialog } from '@/components/subjects/DuplicateSubjectDialog'
+import { Badge } from '@/components/ui/badge'
+import { ENROLLMENT_STATUS_LABELS, EnrollmentStatus, fetchMyWaitlistPositions, formatSeats, leaveSubject } from '@/lib/enrollments'
+import { StudentGradeSummary } from '@/components/gradebook/StudentGradeSummary'
+import { TermSelect } from '@/components/terms/TermSelect'
+import { useTerms } from '@/hooks/useTerms'
+import { ALL_TERMS, filterByTerm } from '@/lib/terms'
 
 interface Subject {
   id: string
@@ -18,31 +29,53 @@ interface Subject {
   code: string
   fee_amount: number
   is_active: boolean
+  is_invite_only: boolean
+  requires_approval: boolean
+  max_students: number | null
+  term_id: string | null
   created_at: string
   professor_id: string
   enrollments?: any[]
   professor?: { first_name: string; last_name: string }
 }
 
+// Select value for subjects that are not tied to a term
+const NO_TERM = 'none'
+
+interface EnrollmentRequest {
+  id: string
+  status: EnrollmentStatus
+  subjects: { id: string; name: string; code: string }
+}
+
 const Subjects = () => {
-  const { profile } = useAuth()
+  const { profile, institution } = useAuth()
   const { toast } = useToast()
   const [subjects, setSubjects] = useState<Subject[]>([])
   const [loading, setLoading] = useState(true)
   const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [staffSubject, setStaffSubject] = useState<Subject | null>(null)
+  const [invitesSubject, setInvitesSubject] = useState<Subject | null>(null)
+  const [duplicateSubject, setDuplicateSubject] = useState<Subject | null>(null)
+  const [isJoinDialogOpen, setIsJoinDialogOpen] = useState(false)
+  const [requests, setRequests] = useState<EnrollmentRequest[]>([])
+  const [waitlistPositions, setWaitlistPositions] = useState<Record<string, number>>({})
+  const { terms, getTerm, isArchived } = useTerms()
+  const [selectedTerm, setSelectedTerm] = useState<string>(ALL_TERMS)
   const [formData, setFormData] = useState({
     name: '',
     description: '',
     code: '',
-    fee_amount: 0
+    fee_amount: 0,
+    term_id: NO_TERM
   })
 
   useEffect(() => {
     fetchSubjects()
-  }, [profile])
+  }, [profile, institution])
 
   const fetchSubjects = async () => {
-    if (!profile) return
+    if (!profile || !institution) return
 
     try {
       if (profile.role === 'professor') {
@@ -54,6 +87,8 @@ const Subjects = () => {
             enrollments(count)
           `)
           .eq('professor_id', profile.id)
+          .eq('institution_id', institution.id)
+          .eq('enrollments.is_active', true)
           .order('created_at', { ascending: false })
 
         if (error) throw error
@@ -64,11 +99,12 @@ const Subjects = () => {
           .from('enrollments')
           .select(`
             subjects(
-              id, name, description, code, fee_amount, is_active, created_at, professor_id,
+              id, name, description, code, fee_amount, is_active, is_invite_only, term_id, created_at, professor_id,
               profiles!subjects_professor_id_fkey(first_name, last_name)
             )
           `)
           .eq('student_id', profile.id)
+          .eq('institution_id', institution.id)
           .eq('is_active', true)
 
         if (error) throw error
@@ -79,6 +115,7 @@ const Subjects = () => {
           professor: enrollment.subjects.profiles
         })) || []
         setSubjects(transformedData)
+        fetchRequests()
       }
     } catch (error: any) {
       toast({
@@ -91,6 +128,46 @@ const Subjects = () => {
     }
   }
 
+  // Requests still waiting for approval or for a seat
+  const fetchRequests = async () => {
+    if (!profile) return
+
+    try {
+      const { data, error } = await supabase
+        .from('enrollments')
+        .select('id, status, subjects!inner(id, name, code)')
+        .eq('student_id', profile.id)
+        .in('status', ['pending', 'waitlisted'])
+
+      if (error) throw error
+      setRequests(data || [])
+
+      if (data?.some(request => request.status === 'waitlisted')) {
+        setWaitlistPositions(await fetchMyWaitlistPositions())
+      }
+    } catch (error) {
+      console.error('Error fetching enrollment requests:', error)
+    }
+  }
+
+  const handleWithdraw = async (subjectId: string) => {
+    try {
+      await leaveSubject(subjectId)
+      toast({
+        title: "Success",
+        description: "Your request to join was withdrawn"
+      })
+      fetchRequests()
+    } catch (error) {
+      console.error('Error withdrawing request:', error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to withdraw request",
+        variant: "destructive"
+      })
+    }
+  }
+
   const handleCreateSubject = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!profile) return
@@ -103,7 +180,9 @@ const Subjects = () => {
           description: formData.description,
           code: formData.code,
           fee_amount: formData.fee_amount * 100, // Convert to cents
-          professor_id: profile.id
+          professor_id: profile.id,
+          institution_id: institution?.id,
+          term_id: formData.term_id === NO_TERM ? null : formData.term_id
         })
 
       if (error) throw error
@@ -114,7 +193,7 @@ const Subjects = () => {
       })
 
       setIsDialogOpen(false)
-      setFormData({ name: '', description: '', code: '', fee_amount: 0 })
+      setFormData({ name: '', description: '', code: '', fee_amount: 0, term_id: NO_TERM })
       fetchSubjects()
     } catch (error: any) {
       toast({
@@ -125,6 +204,8 @@ const Subjects = () => {
     }
   }
 
+  const visibleSubjects = filterByTerm(subjects, selectedTerm, subject => subject.term_id)
+
   if (loading) {
     return (
       <div className="min-h-screen bg-background">
@@ -156,71 +237,129 @@ const Subjects = () => {
             </p>
           </div>
           
-          {profile?.role === 'professor' && (
-            <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-              <DialogTrigger asChild>
-                <Button>
-                  <Plus className="w-4 h-4 mr-2" />
-                  Create Subject
-                </Button>
-              </DialogTrigger>
-              <DialogContent>
-                <DialogHeader>
-                  <DialogTitle>Create New Subject</DialogTitle>
-                </DialogHeader>
-                <form onSubmit={handleCreateSubject} className="space-y-4">
-                  <div>
-                    <Label htmlFor="name">Subject Name</Label>
-                    <Input
-                      id="name"
-                      value={formData.name}
-                      onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-                      required
-                    />
-                  </div>
-                  <div>
-                    <Label htmlFor="code">Subject Code</Label>
-                    <Input
-                      id="code"
-                      value={formData.code}
-                      onChange={(e) => setFormData({ ...formData, code: e.target.value })}
-                      placeholder="e.g., MATH101"
-                      required
-                    />
-                  </div>
-                  <div>
-                    <Label htmlFor="description">Description</Label>
-                    <Textarea
-                      id="description"
-                      value={formData.description}
-                      onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                      placeholder="Brief description of the subject"
-                    />
-                  </div>
-                  <div>
-                    <Label htmlFor="fee_amount">Fee Amount ($)</Label>
-                    <Input
-                      id="fee_amount"
-                      type="number"
-                      value={formData.fee_amount}
-                      onChange={(e) => setFormData({ ...formData, fee_amount: parseFloat(e.target.value) || 0 })}
-                      min="0"
-                      step="0.01"
-                    />
-                  </div>
-                  <div className="flex justify-end space-x-2">
-                    <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
-                      Cancel
-                    </Button>
-                    <Button type="submit">Create Subject</Button>
-                  </div>
-                </form>
-              </DialogContent>
-            </Dialog>
-          )}
+          <div className="flex gap-2">
+            <TermSelect terms={terms} value={selectedTerm} onValueChange={setSelectedTerm} />
+
+            {profile?.role === 'professor' && (
+              <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+                <DialogTrigger asChild>
+                  <Button>
+                    <Plus className="w-4 h-4 mr-2" />
+                    Create Subject
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>Create New Subject</DialogTitle>
+                  </DialogHeader>
+                  <form onSubmit={handleCreateSubject} className="space-y-4">
+                    <div>
+                      <Label htmlFor="name">Subject Name</Label>
+                      <Input
+                        id="name"
+                        value={formData.name}
+                        onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                        required
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="code">Subject Code</Label>
+                      <Input
+                        id="code"
+                        value={formData.code}
+                        onChange={(e) => setFormData({ ...formData, code: e.target.value })}
+                        placeholder="e.g., MATH101"
+                        required
+                      />
+                    </div>
+                    {terms.length > 0 && (
+                      <div>
+                        <Label htmlFor="term">Term</Label>
+                        <Select
+                          value={formData.term_id}
+                          onValueChange={(value) => setFormData({ ...formData, term_id: value })}
+                        >
+                          <SelectTrigger id="term">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NO_TERM}>No term</SelectItem>
+                            {terms.filter(term => !term.archived_at).map((term) => (
+                              <SelectItem key={term.id} value={term.id}>{term.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Subject codes only need to be unique within a term
+                        </p>
+                      </div>
+                    )}
+                    <div>
+                      <Label htmlFor="description">Description</Label>
+                      <Textarea
+                        id="description"
+                        value={formData.description}
+                        onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                        placeholder="Brief description of the subject"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="fee_amount">Fee Amount ($)</Label>
+                      <Input
+                        id="fee_amount"
+                        type="number"
+                        value={formData.fee_amount}
+                        onChange={(e) => setFormData({ ...formData, fee_amount: parseFloat(e.target.value) || 0 })}
+                        min="0"
+                        step="0.01"
+                      />
+                    </div>
+                    <div className="flex justify-end space-x-2">
+                      <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                        Cancel
+                      </Button>
+                      <Button type="submit">Create Subject</Button>
+                    </div>
+                  </form>
+                </DialogContent>
+              </Dialog>
+            )}
+
+            {profile?.role === 'student' && (
+              <Button onClick={() => setIsJoinDialogOpen(true)}>
+                <KeyRound className="w-4 h-4 mr-2" />
+                Join with Code
+              </Button>
+            )}
+          </div>
         </div>
 
-        {subjects.length === 0 ? (
+        {profile?.role === 'student' && requests.length > 0 && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle className="text-lg">Pending Requests</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {requests.map((request) => (
+                <div key={request.id} className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{request.subjects.name}</span>
+                    <span className="font-mono text-sm text-muted-foreground">{request.subjects.code}</span>
+                    <Badge variant="secondary">
+                      {ENROLLMENT_STATUS_LABELS[request.status]}
+                      {request.status === 'waitlisted' && waitlistPositions[request.subjects.id] && ` #${waitlistPositions[request.subjects.id]}`}
+                    </Badge>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => handleWithdraw(request.subjects.id)}>
+                    Withdraw
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {visibleSubjects.length === 0 ? (
           <div className="text-center py-12">
             <BookOpen className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
             <h3 className="text-lg font-semibold text-foreground mb-2">
@@ -229,13 +368,13 @@ const Subjects = () => {
             <p className="text-muted-foreground">
               {profile?.role === 'professor' 
                 ? 'Create your first subject to get started'
-                : 'Contact your professor to get enrolled in subjects'
+                : 'Join with a code from your professor, or ask them to enroll you'
               }
             </p>
           </div>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {subjects.map((subject) => (
+            {visibleSubjects.map((subject) => (
               <Card key={subject.id} className="hover:shadow-lg transition-shadow">
                 <CardHeader>
                   <div className="flex justify-between items-start">
@@ -244,6 +383,12 @@ const Subjects = () => {
                       <CardDescription className="font-mono text-sm">
                         {subject.code}
                       </CardDescription>
+                      {subject.term_id && getTerm(subject.term_id) && (
+                        <div className="flex gap-2 mt-2">
+                          <Badge variant="outline">{getTerm(subject.term_id).name}</Badge>
+                          {isArchived(subject.term_id) && <Badge variant="secondary">Archived</Badge>}
+                        </div>
+                      )}
                     </div>
                     <div className="flex items-center text-sm text-muted-foreground">
                       <DollarSign className="w-4 h-4 mr-1" />
@@ -259,9 +404,33 @@ const Subjects = () => {
                   )}
                   
                   {profile?.role === 'professor' && (
-                    <div className="flex items-center text-sm text-muted-foreground">
-                      <Users className="w-4 h-4 mr-1" />
-                      {(subject as any).enrollments?.[0]?.count || 0} students enrolled
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center text-sm text-muted-foreground">
+                        <Users className="w-4 h-4 mr-1" />
+                        {subject.max_students !== null
+                          ? formatSeats(subject.enrollments?.[0]?.count || 0, subject.max_students)
+                          : `${subject.enrollments?.[0]?.count || 0} students enrolled`}
+                        {subject.is_invite_only && ' · Invite-only'}
+                        {subject.requires_approval && ' · Approval'}
+                      </div>
+                      <div className="flex gap-2">
+                        {!isArchived(subject.term_id) && (
+                          <>
+                            <Button variant="outline" size="sm" onClick={() => setInvitesSubject(subject)}>
+                              <Mail className="w-4 h-4 mr-1" />
+                              Enrollment
+                            </Button>
+                            <Button variant="outline" size="sm" onClick={() => setStaffSubject(subject)}>
+                              <UserCog className="w-4 h-4 mr-1" />
+                              Staff
+                            </Button>
+                          </>
+                        )}
+                        <Button variant="outline" size="sm" onClick={() => setDuplicateSubject(subject)}>
+                          <Copy className="w-4 h-4 mr-1" />
+                          Duplicate
+                        </Button>
+                      </div>
                     </div>
                   )}
 
@@ -271,11 +440,43 @@ const Subjects = () => {
                       {(subject as any).professor.first_name} {(subject as any).professor.last_name}
                     </div>
                   )}
+
+                  {profile?.role === 'student' && (
+                    <div className="mt-4 pt-4 border-t">
+                      <StudentGradeSummary subjectId={subject.id} />
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             ))}
           </div>
         )}
+
+        <ManageStaffDialog
+          open={!!staffSubject}
+          onOpenChange={(open) => !open && setStaffSubject(null)}
+          subject={staffSubject}
+        />
+
+        <SubjectInvitesDialog
+          open={!!invitesSubject}
+          onOpenChange={(open) => !open && setInvitesSubject(null)}
+          subject={invitesSubject}
+          onSubjectChange={fetchSubjects}
+        />
+
+        <DuplicateSubjectDialog
+          open={!!duplicateSubject}
+          onOpenChange={(open) => !open && setDuplicateSubject(null)}
+          subject={duplicateSubject}
+          onSuccess={fetchSubjects}
+        />
+
+        <JoinSubjectDialog
+          open={isJoinDialogOpen}
+          onOpenChange={setIsJoinDialogOpen}
+          onSuccess={fetchSubjects}
+        />
       </main>
     </div>
   )
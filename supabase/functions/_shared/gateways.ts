@@ -0,0 +1,207 @@
+// Payment gateways follow the Razorpay model: the server creates an order, the student pays
+// for it in the gateway's checkout, and the gateway reports the outcome to our webhook.
+// The browser's own success callback is never trusted.
+
+export interface CreateOrderInput {
+  amount: number; // In paisa
+  currency: string;
+  receipt: string;
+}
+
+export interface GatewayOrder {
+  gatewayOrderId: string;
+  // Options the browser needs to open the gateway's checkout
+  checkout: Record<string, unknown>;
+}
+
+export interface RefundInput {
+  gatewayPaymentId: string;
+  amount: number; // In paisa
+}
+
+export type WebhookEvent =
+  | { id: string; type: "payment.captured"; gatewayOrderId: string; gatewayPaymentId: string; amount: number }
+  | { id: string; type: "payment.failed"; gatewayOrderId: string; reason: string }
+  | { id: string; type: "payment.dispute.lost"; gatewayPaymentId: string; gatewayDisputeId: string; amount: number; reason: string }
+  | { id: string; type: string };
+
+// The gateway answered and turned the request down, so nothing happened on its side. Any
+// other error, such as a timeout or a 5xx, leaves the outcome unknown.
+export class GatewayRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GatewayRejectedError";
+  }
+}
+
+export interface PaymentGateway {
+  name: "razorpay" | "mock";
+  createOrder(input: CreateOrderInput): Promise<GatewayOrder>;
+  // Returns the gateway's refund id
+  refundPayment(input: RefundInput): Promise<string>;
+  verifyWebhook(rawBody: string, headers: Headers): Promise<boolean>;
+  parseWebhook(rawBody: string, headers: Headers): WebhookEvent;
+}
+
+const encoder = new TextEncoder();
+
+export async function signPayload(secret: string, payload: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(payload));
+  return Array.from(new Uint8Array(signature), byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// Compares in constant time so the signature cannot be guessed byte by byte
+const safeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return difference === 0;
+};
+
+const verifySignature = async (secret: string | undefined, rawBody: string, signature: string | null) =>
+  !!secret && !!signature && safeEqual(await signPayload(secret, rawBody), signature);
+
+// Both gateways deliver Razorpay's event shape:
+// { event, payload: { payment: { entity: { id, order_id, amount, error_description } } } }
+// Dispute events carry { payload: { dispute: { entity: { id, payment_id, amount, reason_description } } } }
+const parsePaymentEvent = (id: string, rawBody: string): WebhookEvent => {
+  const body = JSON.parse(rawBody);
+  const payment = body.payload?.payment?.entity;
+  const dispute = body.payload?.dispute?.entity;
+
+  switch (body.event) {
+    case "payment.captured":
+      return { id, type: body.event, gatewayOrderId: payment.order_id, gatewayPaymentId: payment.id, amount: payment.amount };
+    case "payment.failed":
+      return { id, type: body.event, gatewayOrderId: payment.order_id, reason: payment.error_description ?? "Payment failed" };
+    case "payment.dispute.lost":
+      return {
+        id,
+        type: body.event,
+        gatewayPaymentId: dispute.payment_id,
+        gatewayDisputeId: dispute.id,
+        amount: dispute.amount,
+        reason: dispute.reason_description ?? "Chargeback by the cardholder's bank",
+      };
+    default:
+      return { id, type: body.event };
+  }
+};
+
+const razorpayHeaders = () => ({
+  "Authorization": `Basic ${btoa(`${Deno.env.get("RAZORPAY_KEY_ID")}:${Deno.env.get("RAZORPAY_KEY_SECRET")}`)}`,
+  "Content-Type": "application/json",
+});
+
+const razorpayGateway: PaymentGateway = {
+  name: "razorpay",
+
+  async createOrder({ amount, currency, receipt }) {
+    const keyId = Deno.env.get("RAZORPAY_KEY_ID")!;
+
+    const response = await fetch("https://api.razorpay.com/v1/orders", {
+      method: "POST",
+      headers: razorpayHeaders(),
+      body: JSON.stringify({ amount, currency, receipt }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Razorpay order creation failed with status ${response.status}`);
+    }
+
+    const order = await response.json();
+    return {
+      gatewayOrderId: order.id,
+      checkout: { key: keyId, order_id: order.id, amount, currency },
+    };
+  },
+
+  async refundPayment({ gatewayPaymentId, amount }) {
+    const response = await fetch(`https://api.razorpay.com/v1/payments/${gatewayPaymentId}/refund`, {
+      method: "POST",
+      headers: razorpayHeaders(),
+      body: JSON.stringify({ amount }),
+    });
+
+    if (response.status >= 400 && response.status < 500) {
+      throw new GatewayRejectedError(`Razorpay refused the refund with status ${response.status}`);
+    }
+    if (!response.ok) {
+      throw new Error(`Razorpay refund failed with status ${response.status}`);
+    }
+
+    const refund = await response.json();
+    return refund.id;
+  },
+
+  verifyWebhook(rawBody, headers) {
+    return verifySignature(Deno.env.get("RAZORPAY_WEBHOOK_SECRET"), rawBody, headers.get("x-razorpay-signature"));
+  },
+
+  parseWebhook(rawBody, headers) {
+    return parsePaymentEvent(headers.get("x-razorpay-event-id") ?? crypto.randomUUID(), rawBody);
+  },
+};
+
+export const MOCK_SIGNATURE_HEADER = "x-mock-signature";
+export const MOCK_EVENT_ID_HEADER = "x-mock-event-id";
+
+// There is no default secret: without one, mock webhooks are never accepted
+export const getMockWebhookSecret = () => Deno.env.get("MOCK_GATEWAY_WEBHOOK_SECRET");
+
+// The mock gateway records payments nobody made, so it has to be switched on explicitly and
+// only ever for local development
+export const isMockGatewayAllowed = () => Deno.env.get("ALLOW_MOCK_GATEWAY") === "local";
+
+// Issues orders locally and is "paid" through the mock-gateway function, for offline testing
+const mockGateway: PaymentGateway = {
+  name: "mock",
+
+  createOrder({ amount, currency }) {
+    const gatewayOrderId = `order_mock_${crypto.randomUUID().replaceAll("-", "")}`;
+    return Promise.resolve({
+      gatewayOrderId,
+      checkout: { order_id: gatewayOrderId, amount, currency },
+    });
+  },
+
+  refundPayment() {
+    return Promise.resolve(`rfnd_mock_${crypto.randomUUID().replaceAll("-", "")}`);
+  },
+
+  verifyWebhook(rawBody, headers) {
+    return verifySignature(getMockWebhookSecret(), rawBody, headers.get(MOCK_SIGNATURE_HEADER));
+  },
+
+  parseWebhook(rawBody, headers) {
+    return parsePaymentEvent(headers.get(MOCK_EVENT_ID_HEADER) ?? crypto.randomUUID(), rawBody);
+  },
+};
+
+const GATEWAYS: Record<PaymentGateway["name"], PaymentGateway> = {
+  razorpay: razorpayGateway,
+  mock: mockGateway,
+};
+
+// PAYMENT_GATEWAY selects the active gateway. A missing or unknown value is a configuration
+// error rather than a reason to fall back to the mock.
+export function getGateway(): PaymentGateway {
+  const name = Deno.env.get("PAYMENT_GATEWAY") as PaymentGateway["name"] | undefined;
+  if (!name) throw new Error("PAYMENT_GATEWAY is not configured");
+
+  const gateway = GATEWAYS[name];
+  if (!gateway) throw new Error(`Unknown payment gateway: ${name}`);
+  if (gateway.name === "mock" && !isMockGatewayAllowed()) {
+    throw new Error('The mock gateway is only available with ALLOW_MOCK_GATEWAY set to "local"');
+  }
+  return gateway;
+}
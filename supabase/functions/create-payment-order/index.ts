@@ -0,0 +1,125 @@
+import { corsHeaders, createServiceClient, createUserClient, jsonResponse } from "../_shared/http.ts";
+import { getGateway } from "../_shared/gateways.ts";
+
+// An order left open this long is taken to be an abandoned checkout
+const OPEN_ORDER_EXPIRY_MS = 30 * 60 * 1000;
+
+// Creates a gateway order against one of the caller's dues. Students may pay part of the
+// balance; the outstanding amount is computed here and caps what the client asks for.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const { due_id, payment_method, amount: requestedAmount } = await req.json();
+
+    if (!due_id || !payment_method) {
+      return jsonResponse({ error: "due_id and payment_method are required" }, 400);
+    }
+    if (requestedAmount !== undefined && (!Number.isInteger(requestedAmount) || requestedAmount <= 0)) {
+      return jsonResponse({ error: "amount must be a positive whole number of paisa" }, 400);
+    }
+    if (payment_method === "cash") {
+      return jsonResponse({ error: "Cash payments are recorded at the office" }, 400);
+    }
+
+    const userClient = createUserClient(req);
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) {
+      return jsonResponse({ error: "Not signed in" }, 401);
+    }
+
+    // Row level security limits this to the caller's own dues
+    const { data: due, error: dueError } = await userClient
+      .from("student_dues")
+      .select("id, student_id, amount, status")
+      .eq("id", due_id)
+      .eq("student_id", user.id)
+      .maybeSingle();
+
+    if (dueError) throw dueError;
+    if (!due) {
+      return jsonResponse({ error: "Due not found" }, 404);
+    }
+    if (due.status === "paid") {
+      return jsonResponse({ error: "This due is already paid" }, 409);
+    }
+
+    const serviceClient = createServiceClient();
+
+    // Only one checkout per due may be in progress; the database enforces this as well
+    const { data: openOrder, error: openOrderError } = await serviceClient
+      .from("payment_orders")
+      .select("id, created_at")
+      .eq("due_id", due.id)
+      .eq("status", "created")
+      .maybeSingle();
+
+    if (openOrderError) throw openOrderError;
+    if (openOrder) {
+      if (Date.now() - new Date(openOrder.created_at).getTime() < OPEN_ORDER_EXPIRY_MS) {
+        return jsonResponse({ error: "A payment for this due is already in progress" }, 409);
+      }
+
+      const { error: expireError } = await serviceClient
+        .from("payment_orders")
+        .update({ status: "failed", failure_reason: "Checkout was not completed" })
+        .eq("id", openOrder.id)
+        .eq("status", "created");
+
+      if (expireError) throw expireError;
+    }
+
+    // Net of refunds and other reversals
+    const { data: charges, error: chargesError } = await serviceClient
+      .rpc("get_due_charges", { _due_ids: [due.id] })
+      .single();
+
+    if (chargesError) throw chargesError;
+
+    const outstanding = due.amount - charges.discount + charges.late_fee - charges.paid;
+    if (outstanding <= 0) {
+      return jsonResponse({ error: "Nothing left to pay on this due" }, 409);
+    }
+    if (requestedAmount > outstanding) {
+      return jsonResponse({ error: "amount exceeds the outstanding balance" }, 400);
+    }
+
+    const amount = requestedAmount ?? outstanding;
+
+    const gateway = getGateway();
+    const currency = "INR";
+    const order = await gateway.createOrder({ amount, currency, receipt: due.id });
+
+    const { data: paymentOrder, error: orderError } = await serviceClient
+      .from("payment_orders")
+      .insert({
+        due_id: due.id,
+        student_id: user.id,
+        amount,
+        currency,
+        payment_method,
+        gateway: gateway.name,
+        gateway_order_id: order.gatewayOrderId,
+      })
+      .select("id")
+      .single();
+
+    if (orderError?.code === "23505") {
+      return jsonResponse({ error: "A payment for this due is already in progress" }, 409);
+    }
+    if (orderError) throw orderError;
+
+    return jsonResponse({
+      order_id: paymentOrder.id,
+      gateway: gateway.name,
+      amount,
+      currency,
+      checkout: order.checkout,
+    });
+  } catch (error) {
+    console.error("Error creating payment order:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Failed to create payment order" }, 500);
+  }
+});
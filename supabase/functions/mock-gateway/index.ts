@@ -0,0 +1,73 @@
+import { corsHeaders, createUserClient, jsonResponse } from "../_shared/http.ts";
+import {
+  getMockWebhookSecret,
+  isMockGatewayAllowed,
+  MOCK_EVENT_ID_HEADER,
+  MOCK_SIGNATURE_HEADER,
+  signPayload,
+} from "../_shared/gateways.ts";
+
+// Stands in for the gateway's checkout page when PAYMENT_GATEWAY is "mock". It settles one of
+// the caller's orders by sending a signed callback to payment-webhook, exactly as a real
+// gateway would, so the whole flow can be exercised without network access or a merchant account.
+// Anyone calling it can mark their own order paid, so it only runs in local development.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const secret = getMockWebhookSecret();
+  if (Deno.env.get("PAYMENT_GATEWAY") !== "mock" || !isMockGatewayAllowed() || !secret) {
+    return jsonResponse({ error: "The mock gateway is disabled" }, 404);
+  }
+
+  try {
+    const { order_id, outcome = "success" } = await req.json();
+
+    // Row level security limits this to the caller's own orders
+    const { data: order, error } = await createUserClient(req)
+      .from("payment_orders")
+      .select("id, gateway_order_id, amount, status")
+      .eq("id", order_id)
+      .eq("gateway", "mock")
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!order) {
+      return jsonResponse({ error: "Order not found" }, 404);
+    }
+    if (order.status !== "created") {
+      return jsonResponse({ error: `Order is already ${order.status}` }, 409);
+    }
+
+    const succeeded = outcome === "success";
+    const body = JSON.stringify({
+      event: succeeded ? "payment.captured" : "payment.failed",
+      payload: {
+        payment: {
+          entity: {
+            id: `pay_mock_${crypto.randomUUID().replaceAll("-", "")}`,
+            order_id: order.gateway_order_id,
+            amount: order.amount,
+            error_description: succeeded ? null : "Declined by the mock gateway",
+          },
+        },
+      },
+    });
+
+    const response = await fetch(`${Deno.env.get("SUPABASE_URL")}/functions/v1/payment-webhook`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        [MOCK_EVENT_ID_HEADER]: `evt_mock_${crypto.randomUUID()}`,
+        [MOCK_SIGNATURE_HEADER]: await signPayload(secret, body),
+      },
+      body,
+    });
+
+    return jsonResponse(await response.json(), response.status);
+  } catch (error) {
+    console.error("Error in mock checkout:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Mock checkout failed" }, 500);
+  }
+});
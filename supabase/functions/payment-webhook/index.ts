@@ -0,0 +1,137 @@
+import { createServiceClient, jsonResponse } from "../_shared/http.ts";
+import { getGateway, PaymentGateway, WebhookEvent } from "../_shared/gateways.ts";
+
+// Receives the gateway's server-to-server callbacks. This is the only place gateway payments
+// are written, and only after the signature over the raw body checks out.
+Deno.serve(async (req) => {
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  let gateway: PaymentGateway;
+  try {
+    gateway = getGateway();
+  } catch (error) {
+    console.error("Payment gateway misconfigured:", error);
+    return jsonResponse({ error: "Payment gateway is not configured" }, 500);
+  }
+
+  const rawBody = await req.text();
+
+  if (!(await gateway.verifyWebhook(rawBody, req.headers))) {
+    console.warn(`Rejected ${gateway.name} webhook with an invalid signature`);
+    return jsonResponse({ error: "Invalid signature" }, 401);
+  }
+
+  const event = gateway.parseWebhook(rawBody, req.headers);
+  const serviceClient = createServiceClient();
+
+  // Gateways redeliver until they get a 2xx, so an event that was processed before is acknowledged as is
+  const { data: existing, error: lookupError } = await serviceClient
+    .from("payment_webhook_events")
+    .select("id, processed_at")
+    .eq("gateway", gateway.name)
+    .eq("event_id", event.id)
+    .maybeSingle();
+
+  if (lookupError) {
+    console.error("Error looking up webhook event:", lookupError);
+    return jsonResponse({ error: "Failed to record event" }, 500);
+  }
+  if (existing?.processed_at) {
+    return jsonResponse({ received: true, duplicate: true });
+  }
+
+  let eventRowId = existing?.id;
+  if (!eventRowId) {
+    const { data: inserted, error: insertError } = await serviceClient
+      .from("payment_webhook_events")
+      .insert({ gateway: gateway.name, event_id: event.id, event_type: event.type, payload: JSON.parse(rawBody) })
+      .select("id")
+      .single();
+
+    if (insertError) {
+      console.error("Error recording webhook event:", insertError);
+      return jsonResponse({ error: "Failed to record event" }, 500);
+    }
+    eventRowId = inserted.id;
+  }
+
+  try {
+    const reviewReason = await handleEvent(serviceClient, gateway.name, event);
+    if (reviewReason) {
+      console.warn(`Webhook event ${event.id} needs review: ${reviewReason}`);
+    }
+    await serviceClient
+      .from("payment_webhook_events")
+      .update({ processed_at: new Date().toISOString(), error: null, review_reason: reviewReason })
+      .eq("id", eventRowId);
+
+    return jsonResponse({ received: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("Error processing webhook event:", error);
+    await serviceClient.from("payment_webhook_events").update({ error: message }).eq("id", eventRowId);
+    // A non-2xx response makes the gateway retry the delivery later
+    return jsonResponse({ error: message }, 500);
+  }
+});
+
+// Returns why the event needs a person to look at it, when it was only partly applied
+async function handleEvent(
+  serviceClient: ReturnType<typeof createServiceClient>,
+  gatewayName: string,
+  event: WebhookEvent,
+): Promise<string | null> {
+  if (event.type === "payment.captured" && "gatewayPaymentId" in event) {
+    const { error } = await serviceClient.rpc("complete_payment_order", {
+      _gateway: gatewayName,
+      _gateway_order_id: event.gatewayOrderId,
+      _gateway_payment_id: event.gatewayPaymentId,
+      _amount: event.amount,
+    });
+    if (error) throw new Error(error.message);
+  } else if (event.type === "payment.failed" && "reason" in event) {
+    const { error } = await serviceClient.rpc("fail_payment_order", {
+      _gateway: gatewayName,
+      _gateway_order_id: event.gatewayOrderId,
+      _reason: event.reason,
+    });
+    if (error) throw new Error(error.message);
+  } else if (event.type === "payment.dispute.lost" && "gatewayDisputeId" in event) {
+    const { data: payment, error: paymentError } = await serviceClient
+      .from("payments")
+      .select("id, amount, payment_reversals (amount, gateway_reference)")
+      .eq("payment_gateway_id", event.gatewayPaymentId)
+      .single();
+    if (paymentError) throw new Error(paymentError.message);
+
+    // A redelivered event was recorded the first time round
+    if (payment.payment_reversals.some(reversal => reversal.gateway_reference === event.gatewayDisputeId)) {
+      return null;
+    }
+
+    // The bank has already taken the money back, so a dispute for more than is left after
+    // earlier refunds is recorded up to that remainder rather than refused on every retry
+    const remaining = payment.amount - payment.payment_reversals.reduce((sum, reversal) => sum + reversal.amount, 0);
+    if (remaining <= 0) {
+      return `Dispute ${event.gatewayDisputeId} for ${event.amount} arrived after the payment was fully reversed`;
+    }
+
+    // Keyed on the dispute id, so a redelivered event records the chargeback once
+    const { error } = await serviceClient.rpc("record_payment_reversal", {
+      _payment_id: payment.id,
+      _kind: "chargeback",
+      _amount: Math.min(event.amount, remaining),
+      _reason: event.reason,
+      _gateway_reference: event.gatewayDisputeId,
+    });
+    if (error) throw new Error(error.message);
+
+    if (event.amount > remaining) {
+      return `Dispute ${event.gatewayDisputeId} for ${event.amount} exceeded the ${remaining} left on the payment`;
+    }
+  }
+  // Other event types are logged but need no action
+  return null;
+}
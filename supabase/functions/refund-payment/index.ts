@@ -0,0 +1,105 @@
+import { corsHeaders, createServiceClient, createUserClient, jsonResponse } from "../_shared/http.ts";
+import { GatewayRejectedError, getGateway, PaymentGateway } from "../_shared/gateways.ts";
+
+// Refunds all or part of a payment for staff managing the due. The refund is recorded as
+// pending, gateway payments are then refunded through the gateway, and the refund completes
+// once it accepts or is dropped once it refuses; cash is handed back at the office.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const { payment_id, amount, reason } = await req.json();
+
+    if (!payment_id || !reason?.trim()) {
+      return jsonResponse({ error: "payment_id and reason are required" }, 400);
+    }
+    if (!Number.isInteger(amount) || amount <= 0) {
+      return jsonResponse({ error: "amount must be a positive whole number of paisa" }, 400);
+    }
+
+    const userClient = createUserClient(req);
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) {
+      return jsonResponse({ error: "Not signed in" }, 401);
+    }
+
+    // Row level security limits this to payments the caller can see
+    const { data: payment, error: paymentError } = await userClient
+      .from("payments")
+      .select("id, due_id, amount, status, payment_gateway_id, payment_orders (gateway)")
+      .eq("id", payment_id)
+      .maybeSingle();
+
+    if (paymentError) throw paymentError;
+    if (!payment) {
+      return jsonResponse({ error: "Payment not found" }, 404);
+    }
+
+    const { data: canManage, error: accessError } = await userClient.rpc("can_manage_due", { _due_id: payment.due_id });
+    if (accessError) throw accessError;
+    if (!canManage) {
+      return jsonResponse({ error: "Not allowed to refund this payment" }, 403);
+    }
+    if (payment.status === "voided" || payment.status === "charged_back") {
+      return jsonResponse({ error: `This payment has been ${payment.status.replace("_", " ")}` }, 409);
+    }
+
+    let gateway: PaymentGateway | null = null;
+    if (payment.payment_gateway_id) {
+      gateway = getGateway();
+      if (payment.payment_orders?.gateway !== gateway.name) {
+        return jsonResponse({ error: `This payment was made through ${payment.payment_orders?.gateway ?? "another gateway"}` }, 409);
+      }
+    }
+
+    // The refund is reserved first, under a lock on the payment, so it is on record before any
+    // money moves and concurrent refunds cannot go past what was paid
+    const serviceClient = createServiceClient();
+    const { data: reversalId, error: startError } = await serviceClient.rpc("start_refund", {
+      _payment_id: payment.id,
+      _amount: amount,
+      _reason: reason,
+      _created_by: user.id,
+    });
+
+    if (startError) {
+      return jsonResponse({ error: startError.message }, 409);
+    }
+
+    let gatewayRefundId: string | null = null;
+    if (gateway) {
+      try {
+        gatewayRefundId = await gateway.refundPayment({ gatewayPaymentId: payment.payment_gateway_id, amount });
+      } catch (error) {
+        // Only a definite refusal releases the reservation. The gateway may have refunded
+        // despite a timeout, so the refund then stays pending until someone checks.
+        if (!(error instanceof GatewayRejectedError)) {
+          console.error(`Refund ${reversalId} has an unknown outcome and stays pending:`, error);
+          return jsonResponse({ error: "The gateway did not confirm the refund. It stays pending until it is checked.", reversal_id: reversalId }, 502);
+        }
+
+        const { error: cancelError } = await serviceClient.rpc("cancel_refund", { _reversal_id: reversalId });
+        if (cancelError) console.error(`Failed to release refund ${reversalId}:`, cancelError);
+        return jsonResponse({ error: error.message }, 409);
+      }
+    }
+
+    // Past this point the money has gone back; a failure leaves the refund pending for review
+    const { error: completeError } = await serviceClient.rpc("complete_refund", {
+      _reversal_id: reversalId,
+      _gateway_reference: gatewayRefundId,
+    });
+
+    if (completeError) {
+      console.error(`Refund ${reversalId} went through (${gatewayRefundId ?? "cash"}) but could not be completed:`, completeError);
+      throw completeError;
+    }
+
+    return jsonResponse({ reversal_id: reversalId });
+  } catch (error) {
+    console.error("Error refunding payment:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Failed to refund payment" }, 500);
+  }
+});
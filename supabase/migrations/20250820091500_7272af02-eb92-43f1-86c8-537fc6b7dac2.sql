@@ -0,0 +1,241 @@
+-- Create institutions table
+CREATE TABLE public.institutions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  slug TEXT NOT NULL UNIQUE,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Create departments table
+CREATE TABLE public.departments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  institution_id UUID NOT NULL REFERENCES public.institutions(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  code TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(institution_id, code)
+);
+
+-- Enable RLS
+ALTER TABLE public.institutions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.departments ENABLE ROW LEVEL SECURITY;
+
+-- Institutions and departments are listed on the sign up form, before a session exists
+CREATE POLICY "Anyone can view active institutions"
+ON public.institutions
+FOR SELECT
+USING (is_active = true);
+
+CREATE POLICY "Anyone can view departments"
+ON public.departments
+FOR SELECT
+USING (true);
+
+-- Scope profiles, subjects, enrollments and dues to an institution
+ALTER TABLE public.profiles
+  ADD COLUMN institution_id UUID REFERENCES public.institutions(id) ON DELETE SET NULL,
+  ADD COLUMN department_id UUID REFERENCES public.departments(id) ON DELETE SET NULL;
+
+ALTER TABLE public.subjects
+  ADD COLUMN institution_id UUID REFERENCES public.institutions(id) ON DELETE CASCADE,
+  ADD COLUMN department_id UUID REFERENCES public.departments(id) ON DELETE SET NULL;
+
+ALTER TABLE public.enrollments
+  ADD COLUMN institution_id UUID REFERENCES public.institutions(id) ON DELETE CASCADE;
+
+ALTER TABLE public.student_dues
+  ADD COLUMN institution_id UUID REFERENCES public.institutions(id) ON DELETE CASCADE;
+
+-- Move existing data into a default institution
+INSERT INTO public.institutions (name, slug) VALUES ('Default Institution', 'default');
+
+UPDATE public.profiles
+SET institution_id = (SELECT id FROM public.institutions WHERE slug = 'default');
+
+UPDATE public.subjects
+SET institution_id = (SELECT id FROM public.institutions WHERE slug = 'default');
+
+UPDATE public.enrollments
+SET institution_id = (SELECT id FROM public.institutions WHERE slug = 'default');
+
+UPDATE public.student_dues
+SET institution_id = (SELECT id FROM public.institutions WHERE slug = 'default');
+
+ALTER TABLE public.subjects ALTER COLUMN institution_id SET NOT NULL;
+ALTER TABLE public.enrollments ALTER COLUMN institution_id SET NOT NULL;
+ALTER TABLE public.student_dues ALTER COLUMN institution_id SET NOT NULL;
+
+-- Create function to look up the institution of the current user.
+-- SECURITY DEFINER so it can be used inside profiles policies without recursion.
+CREATE OR REPLACE FUNCTION public.get_user_institution_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT institution_id FROM public.profiles WHERE id = auth.uid();
+$$;
+
+-- Create function to copy the institution onto new rows and reject cross-institution links
+CREATE OR REPLACE FUNCTION public.assign_institution_id()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  student_institution_id UUID;
+BEGIN
+  IF TG_TABLE_NAME = 'subjects' THEN
+    NEW.institution_id := COALESCE(
+      NEW.institution_id,
+      (SELECT institution_id FROM public.profiles WHERE id = NEW.professor_id)
+    );
+  ELSIF TG_TABLE_NAME = 'enrollments' THEN
+    NEW.institution_id := (SELECT institution_id FROM public.subjects WHERE id = NEW.subject_id);
+    student_institution_id := (SELECT institution_id FROM public.profiles WHERE id = NEW.student_id);
+  ELSIF TG_TABLE_NAME = 'student_dues' THEN
+    student_institution_id := (SELECT institution_id FROM public.profiles WHERE id = NEW.student_id);
+    NEW.institution_id := COALESCE(NEW.institution_id, student_institution_id);
+  END IF;
+
+  IF student_institution_id IS DISTINCT FROM NULL
+     AND student_institution_id IS DISTINCT FROM NEW.institution_id THEN
+    RAISE EXCEPTION 'Student does not belong to this institution';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_subjects_institution_id
+  BEFORE INSERT ON public.subjects
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_institution_id();
+
+CREATE TRIGGER assign_enrollments_institution_id
+  BEFORE INSERT OR UPDATE OF subject_id, student_id ON public.enrollments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_institution_id();
+
+CREATE TRIGGER assign_student_dues_institution_id
+  BEFORE INSERT OR UPDATE OF student_id ON public.student_dues
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_institution_id();
+
+-- Store the institution chosen on sign up
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  INSERT INTO public.profiles (id, email, first_name, last_name, role, institution_id)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    NEW.raw_user_meta_data->>'first_name',
+    NEW.raw_user_meta_data->>'last_name',
+    COALESCE((NEW.raw_user_meta_data->>'role')::public.user_role, 'student'::public.user_role),
+    NULLIF(NEW.raw_user_meta_data->>'institution_id', '')::uuid
+  );
+  RETURN NEW;
+END;
+$$;
+
+-- Replace the global policies with institution scoped ones
+DROP POLICY "Users can view all profiles" ON public.profiles;
+
+CREATE POLICY "Users can view profiles in their institution"
+ON public.profiles
+FOR SELECT
+USING (id = auth.uid() OR institution_id = public.get_user_institution_id());
+
+DROP POLICY "Users can update their own profile" ON public.profiles;
+
+CREATE POLICY "Users can update their own profile"
+ON public.profiles
+FOR UPDATE
+USING (auth.uid() = id)
+WITH CHECK (
+  auth.uid() = id
+  AND institution_id IS NOT DISTINCT FROM public.get_user_institution_id()
+);
+
+DROP POLICY "Professors can manage their own subjects" ON public.subjects;
+
+CREATE POLICY "Professors can manage their own subjects"
+ON public.subjects
+FOR ALL
+USING (professor_id = auth.uid() AND institution_id = public.get_user_institution_id())
+WITH CHECK (professor_id = auth.uid() AND institution_id = public.get_user_institution_id());
+
+DROP POLICY "Students can view active subjects" ON public.subjects;
+
+CREATE POLICY "Students can view active subjects"
+ON public.subjects
+FOR SELECT
+USING (is_active = true AND institution_id = public.get_user_institution_id());
+
+DROP POLICY "Professors can manage enrollments for their subjects" ON public.enrollments;
+
+CREATE POLICY "Professors can manage enrollments for their subjects"
+ON public.enrollments
+FOR ALL
+USING (
+  institution_id = public.get_user_institution_id() AND
+  EXISTS (
+    SELECT 1 FROM public.subjects
+    WHERE subjects.id = enrollments.subject_id
+    AND subjects.professor_id = auth.uid()
+  )
+);
+
+DROP POLICY "Professors can view dues for their students" ON public.student_dues;
+DROP POLICY "Professors can manage dues" ON public.student_dues;
+
+CREATE POLICY "Professors can manage dues in their institution" ON public.student_dues
+  FOR ALL
+  USING (
+    institution_id = public.get_user_institution_id() AND
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'professor'::user_role
+    )
+  );
+
+DROP POLICY "Professors can view all payments" ON public.payments;
+
+CREATE POLICY "Professors can view payments in their institution" ON public.payments
+  FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM student_dues
+    JOIN profiles ON profiles.id = auth.uid()
+    WHERE student_dues.id = payments.due_id
+    AND student_dues.institution_id = profiles.institution_id
+    AND profiles.role = 'professor'::user_role
+  ));
+
+-- Add triggers for updated_at
+CREATE TRIGGER update_institutions_updated_at
+  BEFORE UPDATE ON public.institutions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_departments_updated_at
+  BEFORE UPDATE ON public.departments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create indexes for better performance
+CREATE INDEX idx_departments_institution_id ON public.departments(institution_id);
+CREATE INDEX idx_profiles_institution_id ON public.profiles(institution_id);
+CREATE INDEX idx_subjects_institution_id ON public.subjects(institution_id);
+CREATE INDEX idx_enrollments_institution_id ON public.enrollments(institution_id);
+CREATE INDEX idx_student_dues_institution_id ON public.student_dues(institution_id);
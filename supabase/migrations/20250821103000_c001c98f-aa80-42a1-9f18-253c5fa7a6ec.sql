@@ -0,0 +1,6 @@
+-- Add admin role. Kept in its own migration because a new enum value
+-- cannot be used in the same transaction that adds it.
+ALTER TYPE public.user_role ADD VALUE IF NOT EXISTS 'admin';
+
+-- Create enum for account status
+CREATE TYPE public.account_status AS ENUM ('pending', 'active', 'deactivated');
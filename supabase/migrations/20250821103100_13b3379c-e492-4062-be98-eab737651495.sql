@@ -0,0 +1,179 @@
+-- Track account approval on profiles
+ALTER TABLE public.profiles
+  ADD COLUMN status account_status NOT NULL DEFAULT 'active',
+  ADD COLUMN requested_role user_role,
+  ADD COLUMN approved_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  ADD COLUMN approved_at TIMESTAMPTZ;
+
+-- Create admin audit log table
+CREATE TABLE public.admin_audit_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  institution_id UUID REFERENCES public.institutions(id) ON DELETE CASCADE,
+  actor_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  target_user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+  action TEXT NOT NULL, -- 'approve', 'role_change', 'deactivate', 'reactivate'
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.admin_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Create function to check whether the current user is an active admin
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = auth.uid()
+    AND role = 'admin'::public.user_role
+    AND status = 'active'::public.account_status
+  );
+$$;
+
+-- Pending and deactivated accounts no longer resolve to an institution,
+-- which locks them out of every institution scoped policy
+CREATE OR REPLACE FUNCTION public.get_user_institution_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT institution_id FROM public.profiles
+  WHERE id = auth.uid()
+  AND status = 'active'::public.account_status;
+$$;
+
+-- Never trust the role from sign up metadata: anything other than a student
+-- starts as a pending student account with the requested role recorded
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  requested public.user_role;
+BEGIN
+  requested := CASE NEW.raw_user_meta_data->>'role'
+    WHEN 'professor' THEN 'professor'::public.user_role
+    ELSE NULL
+  END;
+
+  INSERT INTO public.profiles (id, email, first_name, last_name, role, status, requested_role, institution_id)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    NEW.raw_user_meta_data->>'first_name',
+    NEW.raw_user_meta_data->>'last_name',
+    'student'::public.user_role,
+    CASE WHEN requested IS NULL THEN 'active'::public.account_status ELSE 'pending'::public.account_status END,
+    requested,
+    NULLIF(NEW.raw_user_meta_data->>'institution_id', '')::uuid
+  );
+  RETURN NEW;
+END;
+$$;
+
+-- Only admins may change roles, account status or institution
+CREATE OR REPLACE FUNCTION public.protect_profile_privileges()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  -- Service role and SQL editor calls have no auth.uid()
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF (NEW.role IS DISTINCT FROM OLD.role
+      OR NEW.status IS DISTINCT FROM OLD.status
+      OR NEW.requested_role IS DISTINCT FROM OLD.requested_role
+      OR NEW.institution_id IS DISTINCT FROM OLD.institution_id
+      OR NEW.approved_by IS DISTINCT FROM OLD.approved_by
+      OR NEW.approved_at IS DISTINCT FROM OLD.approved_at)
+     AND NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only administrators can change roles or account status';
+  END IF;
+
+  IF NEW.id = auth.uid() AND (NEW.role IS DISTINCT FROM OLD.role OR NEW.status IS DISTINCT FROM OLD.status) THEN
+    RAISE EXCEPTION 'Administrators cannot change their own role or status';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_profile_privileges_trigger
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_profile_privileges();
+
+-- Create function to record role and status changes in the audit log
+CREATE OR REPLACE FUNCTION public.log_profile_admin_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF OLD.status = 'pending' AND NEW.status = 'active' THEN
+    INSERT INTO public.admin_audit_log (institution_id, actor_id, target_user_id, action, details)
+    VALUES (NEW.institution_id, auth.uid(), NEW.id, 'approve',
+      jsonb_build_object('role', NEW.role, 'requested_role', OLD.requested_role));
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.admin_audit_log (institution_id, actor_id, target_user_id, action, details)
+    VALUES (NEW.institution_id, auth.uid(), NEW.id,
+      CASE WHEN NEW.status = 'deactivated' THEN 'deactivate' ELSE 'reactivate' END,
+      jsonb_build_object('from', OLD.status, 'to', NEW.status));
+  END IF;
+
+  IF NEW.role IS DISTINCT FROM OLD.role THEN
+    INSERT INTO public.admin_audit_log (institution_id, actor_id, target_user_id, action, details)
+    VALUES (NEW.institution_id, auth.uid(), NEW.id, 'role_change',
+      jsonb_build_object('from', OLD.role, 'to', NEW.role));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_profile_admin_changes_trigger
+  AFTER UPDATE OF role, status ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_profile_admin_changes();
+
+-- RLS policies for admins. Admins already see every profile of their
+-- institution through "Users can view profiles in their institution".
+CREATE POLICY "Admins can update profiles in their institution"
+ON public.profiles
+FOR UPDATE
+USING (public.is_admin() AND institution_id = public.get_user_institution_id())
+WITH CHECK (institution_id = public.get_user_institution_id());
+
+CREATE POLICY "Admins can view the audit log of their institution"
+ON public.admin_audit_log
+FOR SELECT
+USING (public.is_admin() AND institution_id = public.get_user_institution_id());
+
+CREATE POLICY "Admins can update their institution"
+ON public.institutions
+FOR UPDATE
+USING (public.is_admin() AND id = public.get_user_institution_id());
+
+CREATE POLICY "Admins can manage departments of their institution"
+ON public.departments
+FOR ALL
+USING (public.is_admin() AND institution_id = public.get_user_institution_id());
+
+-- Create indexes for better performance
+CREATE INDEX idx_profiles_status ON public.profiles(status);
+CREATE INDEX idx_admin_audit_log_institution_id ON public.admin_audit_log(institution_id);
+CREATE INDEX idx_admin_audit_log_target_user_id ON public.admin_audit_log(target_user_id);
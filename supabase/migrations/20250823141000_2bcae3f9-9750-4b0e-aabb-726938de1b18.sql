@@ -0,0 +1,203 @@
+-- Create enum for subject staff roles
+CREATE TYPE public.subject_staff_role AS ENUM ('co_instructor', 'ta', 'grader');
+
+-- Create subject_staff table for co-instructors, teaching assistants and graders
+CREATE TABLE public.subject_staff (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  subject_id UUID NOT NULL REFERENCES public.subjects(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  role subject_staff_role NOT NULL,
+  added_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(subject_id, user_id)
+);
+
+-- Enable RLS
+ALTER TABLE public.subject_staff ENABLE ROW LEVEL SECURITY;
+
+-- Create function to check whether the current user owns a subject or holds one of the given staff roles on it.
+-- SECURITY DEFINER so policies on subjects and subject_staff can use it without recursion.
+CREATE OR REPLACE FUNCTION public.has_subject_access(_subject_id UUID, _roles public.subject_staff_role[])
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.subjects
+    WHERE id = _subject_id
+    AND professor_id = auth.uid()
+  ) OR EXISTS (
+    SELECT 1 FROM public.subject_staff
+    WHERE subject_id = _subject_id
+    AND user_id = auth.uid()
+    AND role = ANY(_roles)
+  );
+$$;
+
+-- Staff must belong to the subject's institution
+CREATE OR REPLACE FUNCTION public.validate_subject_staff()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF (SELECT institution_id FROM public.profiles WHERE id = NEW.user_id) IS DISTINCT FROM
+     (SELECT institution_id FROM public.subjects WHERE id = NEW.subject_id) THEN
+    RAISE EXCEPTION 'Staff member does not belong to this institution';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.subjects WHERE id = NEW.subject_id AND professor_id = NEW.user_id) THEN
+    RAISE EXCEPTION 'The subject owner cannot be added as staff';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_subject_staff_trigger
+  BEFORE INSERT OR UPDATE ON public.subject_staff
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_subject_staff();
+
+-- RLS policies for subject_staff
+CREATE POLICY "Subject owners can manage staff"
+ON public.subject_staff
+FOR ALL
+USING (EXISTS (
+  SELECT 1 FROM subjects
+  WHERE subjects.id = subject_staff.subject_id
+  AND subjects.professor_id = auth.uid()
+));
+
+CREATE POLICY "Staff can view the staff of their subjects"
+ON public.subject_staff
+FOR SELECT
+USING (public.has_subject_access(subject_id, ARRAY['co_instructor', 'ta', 'grader']::public.subject_staff_role[]));
+
+-- Staff can see the subjects they work on. Updating and deleting a subject,
+-- including its fee, stays with "Professors can manage their own subjects".
+CREATE POLICY "Staff can view their subjects"
+ON public.subjects
+FOR SELECT
+USING (public.has_subject_access(id, ARRAY['co_instructor', 'ta', 'grader']::public.subject_staff_role[]));
+
+-- Enrollments: co-instructors and TAs can enroll and unenroll, only the owner can delete
+CREATE POLICY "Staff can view enrollments for their subjects"
+ON public.enrollments
+FOR SELECT
+USING (public.has_subject_access(subject_id, ARRAY['co_instructor', 'ta', 'grader']::public.subject_staff_role[]));
+
+CREATE POLICY "Staff can enroll students in their subjects"
+ON public.enrollments
+FOR INSERT
+WITH CHECK (public.has_subject_access(subject_id, ARRAY['co_instructor', 'ta']::public.subject_staff_role[]));
+
+CREATE POLICY "Staff can update enrollments for their subjects"
+ON public.enrollments
+FOR UPDATE
+USING (public.has_subject_access(subject_id, ARRAY['co_instructor', 'ta']::public.subject_staff_role[]));
+
+-- Study materials: the owner manages every material of the subject, not only the ones they uploaded
+DROP POLICY "Professors can manage materials for their subjects" ON public.study_materials;
+
+CREATE POLICY "Professors can manage materials for their subjects"
+ON public.study_materials
+FOR ALL
+USING (EXISTS (
+  SELECT 1 FROM subjects
+  WHERE subjects.id = study_materials.subject_id
+  AND subjects.professor_id = auth.uid()
+));
+
+CREATE POLICY "Staff can view materials for their subjects"
+ON public.study_materials
+FOR SELECT
+USING (public.has_subject_access(subject_id, ARRAY['co_instructor', 'ta', 'grader']::public.subject_staff_role[]));
+
+CREATE POLICY "Staff can upload materials for their subjects"
+ON public.study_materials
+FOR INSERT
+WITH CHECK (
+  professor_id = auth.uid() AND
+  public.has_subject_access(subject_id, ARRAY['co_instructor', 'ta']::public.subject_staff_role[])
+);
+
+CREATE POLICY "Staff can update their own uploads"
+ON public.study_materials
+FOR UPDATE
+USING (
+  professor_id = auth.uid() AND
+  public.has_subject_access(subject_id, ARRAY['co_instructor', 'ta']::public.subject_staff_role[])
+)
+WITH CHECK (is_active = true);
+
+-- Storage policies for study materials uploaded by staff
+CREATE POLICY "Staff can view materials for their subjects"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'study-materials' AND
+  EXISTS (
+    SELECT 1 FROM public.study_materials sm
+    WHERE sm.file_path = name
+    AND public.has_subject_access(sm.subject_id, ARRAY['co_instructor', 'ta', 'grader']::public.subject_staff_role[])
+  )
+);
+
+CREATE POLICY "Subject owners can delete materials uploaded by staff"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'study-materials' AND
+  EXISTS (
+    SELECT 1 FROM public.study_materials sm
+    JOIN public.subjects s ON s.id = sm.subject_id
+    WHERE sm.file_path = name
+    AND s.professor_id = auth.uid()
+  )
+);
+
+-- Assignments: staff can see assignments of their subjects
+CREATE POLICY "Staff can view assignments for their subjects"
+ON public.assignments
+FOR SELECT
+USING (public.has_subject_access(subject_id, ARRAY['co_instructor', 'ta', 'grader']::public.subject_staff_role[]));
+
+-- Submissions: every staff role can grade
+CREATE POLICY "Staff can view submissions for their subjects"
+ON public.assignment_submissions
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM assignments
+  WHERE assignments.id = assignment_submissions.assignment_id
+  AND public.has_subject_access(assignments.subject_id, ARRAY['co_instructor', 'ta', 'grader']::public.subject_staff_role[])
+));
+
+CREATE POLICY "Staff can grade submissions for their subjects"
+ON public.assignment_submissions
+FOR UPDATE
+USING (EXISTS (
+  SELECT 1 FROM assignments
+  WHERE assignments.id = assignment_submissions.assignment_id
+  AND public.has_subject_access(assignments.subject_id, ARRAY['co_instructor', 'ta', 'grader']::public.subject_staff_role[])
+));
+
+CREATE POLICY "Staff can view submission files for their subjects"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'assignment-submissions' AND
+  EXISTS (
+    SELECT 1 FROM public.assignment_submissions
+    JOIN public.assignments ON assignments.id = assignment_submissions.assignment_id
+    WHERE assignment_submissions.file_path = name
+    AND public.has_subject_access(assignments.subject_id, ARRAY['co_instructor', 'ta', 'grader']::public.subject_staff_role[])
+  )
+);
+
+-- Create indexes for better performance
+CREATE INDEX idx_subject_staff_subject_id ON public.subject_staff(subject_id);
+CREATE INDEX idx_subject_staff_user_id ON public.subject_staff(user_id);
@@ -0,0 +1,224 @@
+-- Create grade_categories table for weighted gradebooks (e.g. homework 30%, exams 50%)
+CREATE TABLE public.grade_categories (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  subject_id UUID NOT NULL REFERENCES public.subjects(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  weight NUMERIC(5,2) NOT NULL DEFAULT 0 CHECK (weight >= 0 AND weight <= 100),
+  drop_lowest INTEGER NOT NULL DEFAULT 0 CHECK (drop_lowest >= 0),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(subject_id, name)
+);
+
+-- Create grade_scale_levels table for per-subject letter grade scales
+CREATE TABLE public.grade_scale_levels (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  subject_id UUID NOT NULL REFERENCES public.subjects(id) ON DELETE CASCADE,
+  letter TEXT NOT NULL,
+  min_percentage NUMERIC(5,2) NOT NULL CHECK (min_percentage >= 0 AND min_percentage <= 100),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(subject_id, letter),
+  UNIQUE(subject_id, min_percentage)
+);
+
+-- Assignments can be placed in one category of their subject
+ALTER TABLE public.assignments
+  ADD COLUMN category_id UUID REFERENCES public.grade_categories(id) ON DELETE SET NULL;
+
+-- Enable RLS
+ALTER TABLE public.grade_categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.grade_scale_levels ENABLE ROW LEVEL SECURITY;
+
+-- Categories must belong to the assignment's subject
+CREATE OR REPLACE FUNCTION public.validate_assignment_category()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.category_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.grade_categories
+    WHERE id = NEW.category_id
+    AND subject_id = NEW.subject_id
+  ) THEN
+    RAISE EXCEPTION 'Grade category does not belong to this subject';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_assignment_category_trigger
+  BEFORE INSERT OR UPDATE OF category_id, subject_id ON public.assignments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_assignment_category();
+
+-- Create function to map a percentage to a letter grade. Subjects without
+-- their own scale use the standard A/B/C/D/F scale.
+CREATE OR REPLACE FUNCTION public.get_letter_grade(_subject_id UUID, _percentage NUMERIC)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT CASE
+    WHEN _percentage IS NULL THEN NULL
+    WHEN EXISTS (SELECT 1 FROM public.grade_scale_levels WHERE subject_id = _subject_id) THEN (
+      SELECT letter FROM public.grade_scale_levels
+      WHERE subject_id = _subject_id
+      AND min_percentage <= _percentage
+      ORDER BY min_percentage DESC
+      LIMIT 1
+    )
+    WHEN _percentage >= 90 THEN 'A'
+    WHEN _percentage >= 80 THEN 'B'
+    WHEN _percentage >= 70 THEN 'C'
+    WHEN _percentage >= 60 THEN 'D'
+    ELSE 'F'
+  END;
+$$;
+
+-- Create function to compute the running total of every student in a subject.
+-- Only graded work counts. Each category drops its lowest scores (always keeping
+-- one) and the total is weighted over the categories that have graded work.
+-- Subjects without categories fall back to total points. Staff see the whole
+-- roster, students only their own row.
+CREATE OR REPLACE FUNCTION public.get_gradebook(_subject_id UUID)
+RETURNS TABLE (
+  student_id UUID,
+  categories JSONB,
+  total_percentage NUMERIC,
+  letter_grade TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  WITH roster AS (
+    SELECT e.student_id
+    FROM public.enrollments e
+    WHERE e.subject_id = _subject_id
+    AND e.is_active = true
+    AND (
+      e.student_id = auth.uid() OR
+      public.has_subject_access(_subject_id, ARRAY['co_instructor', 'ta', 'grader']::public.subject_staff_role[])
+    )
+  ),
+  graded AS (
+    SELECT
+      s.student_id,
+      a.category_id,
+      s.grade::numeric AS earned,
+      a.max_points::numeric AS possible,
+      ROW_NUMBER() OVER (
+        PARTITION BY s.student_id, a.category_id
+        ORDER BY s.grade::numeric / a.max_points
+      ) AS low_rank,
+      COUNT(*) OVER (PARTITION BY s.student_id, a.category_id) AS graded_count
+    FROM public.assignment_submissions s
+    JOIN public.assignments a ON a.id = s.assignment_id
+    JOIN roster r ON r.student_id = s.student_id
+    WHERE a.subject_id = _subject_id
+    AND a.is_active = true
+    AND s.grade IS NOT NULL
+    AND COALESCE(a.max_points, 0) > 0
+  ),
+  kept AS (
+    SELECT g.*
+    FROM graded g
+    LEFT JOIN public.grade_categories c ON c.id = g.category_id
+    WHERE g.low_rank > LEAST(COALESCE(c.drop_lowest, 0), g.graded_count - 1)
+  ),
+  category_totals AS (
+    SELECT k.student_id, k.category_id, SUM(k.earned) AS earned, SUM(k.possible) AS possible
+    FROM kept k
+    GROUP BY k.student_id, k.category_id
+  ),
+  totals AS (
+    SELECT
+      r.student_id,
+      COALESCE(
+        jsonb_agg(jsonb_build_object(
+          'category_id', ct.category_id,
+          'earned', ct.earned,
+          'possible', ct.possible
+        )) FILTER (WHERE ct.student_id IS NOT NULL),
+        '[]'::jsonb
+      ) AS categories,
+      CASE
+        WHEN EXISTS (SELECT 1 FROM public.grade_categories WHERE subject_id = _subject_id) THEN
+          SUM(c.weight * ct.earned / ct.possible) FILTER (WHERE c.id IS NOT NULL)
+            / NULLIF(SUM(c.weight) FILTER (WHERE c.id IS NOT NULL), 0) * 100
+        ELSE
+          SUM(ct.earned) / NULLIF(SUM(ct.possible), 0) * 100
+      END AS total_percentage
+    FROM roster r
+    LEFT JOIN category_totals ct ON ct.student_id = r.student_id
+    LEFT JOIN public.grade_categories c ON c.id = ct.category_id
+    GROUP BY r.student_id
+  )
+  SELECT
+    t.student_id,
+    t.categories,
+    ROUND(t.total_percentage, 2),
+    public.get_letter_grade(_subject_id, t.total_percentage)
+  FROM totals t;
+$$;
+
+-- RLS policies for grade categories: owners and co-instructors set them up,
+-- the rest of the staff and enrolled students can read them
+CREATE POLICY "Instructors can manage grade categories"
+ON public.grade_categories
+FOR ALL
+USING (public.has_subject_access(subject_id, ARRAY['co_instructor']::public.subject_staff_role[]));
+
+CREATE POLICY "Staff can view grade categories"
+ON public.grade_categories
+FOR SELECT
+USING (public.has_subject_access(subject_id, ARRAY['co_instructor', 'ta', 'grader']::public.subject_staff_role[]));
+
+CREATE POLICY "Students can view grade categories for enrolled subjects"
+ON public.grade_categories
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM enrollments
+  WHERE enrollments.subject_id = grade_categories.subject_id
+  AND enrollments.student_id = auth.uid()
+  AND enrollments.is_active = true
+));
+
+-- RLS policies for grade scales
+CREATE POLICY "Instructors can manage grade scales"
+ON public.grade_scale_levels
+FOR ALL
+USING (public.has_subject_access(subject_id, ARRAY['co_instructor']::public.subject_staff_role[]));
+
+CREATE POLICY "Staff can view grade scales"
+ON public.grade_scale_levels
+FOR SELECT
+USING (public.has_subject_access(subject_id, ARRAY['co_instructor', 'ta', 'grader']::public.subject_staff_role[]));
+
+CREATE POLICY "Students can view grade scales for enrolled subjects"
+ON public.grade_scale_levels
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM enrollments
+  WHERE enrollments.subject_id = grade_scale_levels.subject_id
+  AND enrollments.student_id = auth.uid()
+  AND enrollments.is_active = true
+));
+
+-- Add triggers for updated_at
+CREATE TRIGGER update_grade_categories_updated_at
+BEFORE UPDATE ON public.grade_categories
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create indexes for better performance
+CREATE INDEX idx_grade_categories_subject_id ON public.grade_categories(subject_id);
+CREATE INDEX idx_grade_scale_levels_subject_id ON public.grade_scale_levels(subject_id);
+CREATE INDEX idx_assignments_category_id ON public.assignments(category_id);
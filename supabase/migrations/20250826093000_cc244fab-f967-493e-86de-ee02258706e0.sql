@@ -0,0 +1,226 @@
+-- Create rubrics table, reusable across the assignments of a subject
+CREATE TABLE public.rubrics (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  subject_id UUID NOT NULL REFERENCES public.subjects(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Create rubric_criteria table
+CREATE TABLE public.rubric_criteria (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  rubric_id UUID NOT NULL REFERENCES public.rubrics(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT,
+  position INTEGER NOT NULL DEFAULT 0
+);
+
+-- Create rubric_levels table, one row per cell of the rubric grid
+CREATE TABLE public.rubric_levels (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  criterion_id UUID NOT NULL REFERENCES public.rubric_criteria(id) ON DELETE CASCADE,
+  label TEXT NOT NULL,
+  description TEXT,
+  points NUMERIC(6,2) NOT NULL CHECK (points >= 0),
+  position INTEGER NOT NULL DEFAULT 0
+);
+
+-- Create submission_rubric_scores table for per-criterion scores and comments
+CREATE TABLE public.submission_rubric_scores (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  submission_id UUID NOT NULL REFERENCES public.assignment_submissions(id) ON DELETE CASCADE,
+  criterion_id UUID NOT NULL REFERENCES public.rubric_criteria(id) ON DELETE CASCADE,
+  level_id UUID REFERENCES public.rubric_levels(id) ON DELETE SET NULL,
+  points NUMERIC(6,2) NOT NULL DEFAULT 0,
+  comment TEXT,
+  graded_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(submission_id, criterion_id)
+);
+
+-- Attach a rubric to an assignment. Rubrics in use cannot be deleted.
+ALTER TABLE public.assignments
+  ADD COLUMN rubric_id UUID REFERENCES public.rubrics(id) ON DELETE RESTRICT;
+
+-- Enable RLS
+ALTER TABLE public.rubrics ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rubric_criteria ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rubric_levels ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.submission_rubric_scores ENABLE ROW LEVEL SECURITY;
+
+-- Rubrics must belong to the assignment's subject
+CREATE OR REPLACE FUNCTION public.validate_assignment_rubric()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.rubric_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.rubrics
+    WHERE id = NEW.rubric_id
+    AND subject_id = NEW.subject_id
+  ) THEN
+    RAISE EXCEPTION 'Rubric does not belong to this subject';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_assignment_rubric_trigger
+  BEFORE INSERT OR UPDATE OF rubric_id, subject_id ON public.assignments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_assignment_rubric();
+
+-- Create function to save a rubric with its criteria and levels in one transaction.
+-- _criteria: [{ "title", "description", "levels": [{ "label", "description", "points" }] }]
+-- Runs with the caller's rights, so the RLS policies below decide who may create rubrics.
+CREATE OR REPLACE FUNCTION public.create_rubric(
+  _subject_id UUID,
+  _title TEXT,
+  _description TEXT,
+  _criteria JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  new_rubric_id UUID;
+  new_criterion_id UUID;
+  criterion JSONB;
+  level JSONB;
+  criterion_position INTEGER := 0;
+  level_position INTEGER;
+BEGIN
+  IF jsonb_array_length(COALESCE(_criteria, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'A rubric needs at least one criterion';
+  END IF;
+
+  INSERT INTO public.rubrics (subject_id, title, description, created_by)
+  VALUES (_subject_id, _title, _description, auth.uid())
+  RETURNING id INTO new_rubric_id;
+
+  FOR criterion IN SELECT * FROM jsonb_array_elements(_criteria) LOOP
+    IF jsonb_array_length(COALESCE(criterion->'levels', '[]'::jsonb)) = 0 THEN
+      RAISE EXCEPTION 'Every criterion needs at least one level';
+    END IF;
+
+    INSERT INTO public.rubric_criteria (rubric_id, title, description, position)
+    VALUES (new_rubric_id, criterion->>'title', criterion->>'description', criterion_position)
+    RETURNING id INTO new_criterion_id;
+
+    level_position := 0;
+    FOR level IN SELECT * FROM jsonb_array_elements(criterion->'levels') LOOP
+      INSERT INTO public.rubric_levels (criterion_id, label, description, points, position)
+      VALUES (new_criterion_id, level->>'label', level->>'description', (level->>'points')::numeric, level_position);
+      level_position := level_position + 1;
+    END LOOP;
+
+    criterion_position := criterion_position + 1;
+  END LOOP;
+
+  RETURN new_rubric_id;
+END;
+$$;
+
+-- RLS policies for rubrics: owners and co-instructors author them,
+-- graders and enrolled students can read them
+CREATE POLICY "Instructors can manage rubrics"
+ON public.rubrics
+FOR ALL
+USING (public.has_subject_access(subject_id, ARRAY['co_instructor']::public.subject_staff_role[]));
+
+CREATE POLICY "Staff can view rubrics"
+ON public.rubrics
+FOR SELECT
+USING (public.has_subject_access(subject_id, ARRAY['co_instructor', 'ta', 'grader']::public.subject_staff_role[]));
+
+CREATE POLICY "Students can view rubrics for enrolled subjects"
+ON public.rubrics
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM enrollments
+  WHERE enrollments.subject_id = rubrics.subject_id
+  AND enrollments.student_id = auth.uid()
+  AND enrollments.is_active = true
+));
+
+-- Criteria and levels follow the visibility of their rubric
+CREATE POLICY "Instructors can manage rubric criteria"
+ON public.rubric_criteria
+FOR ALL
+USING (EXISTS (
+  SELECT 1 FROM rubrics
+  WHERE rubrics.id = rubric_criteria.rubric_id
+  AND public.has_subject_access(rubrics.subject_id, ARRAY['co_instructor']::public.subject_staff_role[])
+));
+
+CREATE POLICY "Users can view criteria of visible rubrics"
+ON public.rubric_criteria
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM rubrics
+  WHERE rubrics.id = rubric_criteria.rubric_id
+));
+
+CREATE POLICY "Instructors can manage rubric levels"
+ON public.rubric_levels
+FOR ALL
+USING (EXISTS (
+  SELECT 1 FROM rubric_criteria
+  JOIN rubrics ON rubrics.id = rubric_criteria.rubric_id
+  WHERE rubric_criteria.id = rubric_levels.criterion_id
+  AND public.has_subject_access(rubrics.subject_id, ARRAY['co_instructor']::public.subject_staff_role[])
+));
+
+CREATE POLICY "Users can view levels of visible rubrics"
+ON public.rubric_levels
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM rubric_criteria
+  WHERE rubric_criteria.id = rubric_levels.criterion_id
+));
+
+-- RLS policies for rubric scores: everyone who can grade records them, students read their own
+CREATE POLICY "Staff can manage rubric scores for their subjects"
+ON public.submission_rubric_scores
+FOR ALL
+USING (EXISTS (
+  SELECT 1 FROM assignment_submissions
+  JOIN assignments ON assignments.id = assignment_submissions.assignment_id
+  WHERE assignment_submissions.id = submission_rubric_scores.submission_id
+  AND public.has_subject_access(assignments.subject_id, ARRAY['co_instructor', 'ta', 'grader']::public.subject_staff_role[])
+));
+
+CREATE POLICY "Students can view their own rubric scores"
+ON public.submission_rubric_scores
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM assignment_submissions
+  WHERE assignment_submissions.id = submission_rubric_scores.submission_id
+  AND assignment_submissions.student_id = auth.uid()
+));
+
+-- Add triggers for updated_at
+CREATE TRIGGER update_rubrics_updated_at
+BEFORE UPDATE ON public.rubrics
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_submission_rubric_scores_updated_at
+BEFORE UPDATE ON public.submission_rubric_scores
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create indexes for better performance
+CREATE INDEX idx_rubrics_subject_id ON public.rubrics(subject_id);
+CREATE INDEX idx_rubric_criteria_rubric_id ON public.rubric_criteria(rubric_id);
+CREATE INDEX idx_rubric_levels_criterion_id ON public.rubric_levels(criterion_id);
+CREATE INDEX idx_submission_rubric_scores_submission_id ON public.submission_rubric_scores(submission_id);
+CREATE INDEX idx_assignments_rubric_id ON public.assignments(rubric_id);
@@ -0,0 +1,266 @@
+-- Create enum for choosing which attempt counts towards the grade
+CREATE TYPE public.attempt_scoring_policy AS ENUM ('latest', 'best', 'chosen');
+
+-- Attempt limits per assignment. One attempt keeps the previous behaviour,
+-- NULL allows unlimited attempts.
+ALTER TABLE public.assignments
+  ADD COLUMN max_attempts INTEGER DEFAULT 1 CHECK (max_attempts IS NULL OR max_attempts > 0),
+  ADD COLUMN attempt_scoring attempt_scoring_policy NOT NULL DEFAULT 'latest';
+
+-- Every submission row is now one attempt
+ALTER TABLE public.assignment_submissions
+  DROP CONSTRAINT assignment_submissions_assignment_id_student_id_key,
+  ADD COLUMN attempt_number INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN is_counted BOOLEAN NOT NULL DEFAULT false,
+  ADD CONSTRAINT assignment_submissions_attempt_key UNIQUE (assignment_id, student_id, attempt_number);
+
+-- Existing submissions were the only attempt
+UPDATE public.assignment_submissions SET is_counted = true;
+
+-- Number new attempts and enforce the attempt limit
+CREATE OR REPLACE FUNCTION public.assign_attempt_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  allowed INTEGER;
+  used INTEGER;
+BEGIN
+  SELECT max_attempts INTO allowed
+  FROM public.assignments
+  WHERE id = NEW.assignment_id;
+
+  SELECT COALESCE(MAX(attempt_number), 0) INTO used
+  FROM public.assignment_submissions
+  WHERE assignment_id = NEW.assignment_id
+  AND student_id = NEW.student_id;
+
+  IF allowed IS NOT NULL AND used >= allowed THEN
+    RAISE EXCEPTION 'No attempts left for this assignment';
+  END IF;
+
+  NEW.attempt_number := used + 1;
+  NEW.is_counted := false;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_attempt_number_trigger
+  BEFORE INSERT ON public.assignment_submissions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_attempt_number();
+
+-- Create function to mark the attempt that counts for a student.
+-- latest: the most recent attempt. best: the highest graded attempt, or the
+-- latest while nothing is graded. chosen: whatever staff picked, starting
+-- with the first attempt until they choose another one.
+CREATE OR REPLACE FUNCTION public.refresh_counted_attempt(_assignment_id UUID, _student_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  scoring public.attempt_scoring_policy;
+  counted_id UUID;
+BEGIN
+  SELECT attempt_scoring INTO scoring
+  FROM public.assignments
+  WHERE id = _assignment_id;
+
+  IF scoring = 'chosen' THEN
+    SELECT id INTO counted_id
+    FROM public.assignment_submissions
+    WHERE assignment_id = _assignment_id
+    AND student_id = _student_id
+    AND is_counted = true
+    LIMIT 1;
+  ELSIF scoring = 'best' THEN
+    SELECT id INTO counted_id
+    FROM public.assignment_submissions
+    WHERE assignment_id = _assignment_id
+    AND student_id = _student_id
+    AND grade IS NOT NULL
+    ORDER BY grade DESC, attempt_number DESC
+    LIMIT 1;
+  END IF;
+
+  IF counted_id IS NULL THEN
+    SELECT id INTO counted_id
+    FROM public.assignment_submissions
+    WHERE assignment_id = _assignment_id
+    AND student_id = _student_id
+    ORDER BY attempt_number DESC
+    LIMIT 1;
+  END IF;
+
+  UPDATE public.assignment_submissions
+  SET is_counted = (id = counted_id)
+  WHERE assignment_id = _assignment_id
+  AND student_id = _student_id
+  AND is_counted IS DISTINCT FROM (id = counted_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_submission_attempt_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  PERFORM public.refresh_counted_attempt(NEW.assignment_id, NEW.student_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER refresh_counted_attempt_trigger
+  AFTER INSERT OR UPDATE OF grade ON public.assignment_submissions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_submission_attempt_change();
+
+-- Re-evaluate every student when an assignment switches scoring policy
+CREATE OR REPLACE FUNCTION public.handle_attempt_scoring_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  submitter UUID;
+BEGIN
+  FOR submitter IN
+    SELECT DISTINCT student_id FROM public.assignment_submissions WHERE assignment_id = NEW.id
+  LOOP
+    PERFORM public.refresh_counted_attempt(NEW.id, submitter);
+  END LOOP;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER handle_attempt_scoring_change_trigger
+  AFTER UPDATE OF attempt_scoring ON public.assignments
+  FOR EACH ROW
+  WHEN (OLD.attempt_scoring IS DISTINCT FROM NEW.attempt_scoring)
+  EXECUTE FUNCTION public.handle_attempt_scoring_change();
+
+-- Create function for staff to pick the counted attempt on 'chosen' assignments
+CREATE OR REPLACE FUNCTION public.choose_counted_attempt(_submission_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  target RECORD;
+BEGIN
+  SELECT s.assignment_id, s.student_id, a.subject_id, a.attempt_scoring
+  INTO target
+  FROM public.assignment_submissions s
+  JOIN public.assignments a ON a.id = s.assignment_id
+  WHERE s.id = _submission_id;
+
+  IF NOT FOUND OR NOT public.has_subject_access(target.subject_id, ARRAY['co_instructor', 'ta', 'grader']::public.subject_staff_role[]) THEN
+    RAISE EXCEPTION 'Not allowed to grade this submission';
+  END IF;
+
+  IF target.attempt_scoring <> 'chosen' THEN
+    RAISE EXCEPTION 'This assignment picks the counted attempt automatically';
+  END IF;
+
+  UPDATE public.assignment_submissions
+  SET is_counted = (id = _submission_id)
+  WHERE assignment_id = target.assignment_id
+  AND student_id = target.student_id;
+END;
+$$;
+
+-- The gradebook only uses the counted attempt
+CREATE OR REPLACE FUNCTION public.get_gradebook(_subject_id UUID)
+RETURNS TABLE (
+  student_id UUID,
+  categories JSONB,
+  total_percentage NUMERIC,
+  letter_grade TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  WITH roster AS (
+    SELECT e.student_id
+    FROM public.enrollments e
+    WHERE e.subject_id = _subject_id
+    AND e.is_active = true
+    AND (
+      e.student_id = auth.uid() OR
+      public.has_subject_access(_subject_id, ARRAY['co_instructor', 'ta', 'grader']::public.subject_staff_role[])
+    )
+  ),
+  graded AS (
+    SELECT
+      s.student_id,
+      a.category_id,
+      s.grade::numeric AS earned,
+      a.max_points::numeric AS possible,
+      ROW_NUMBER() OVER (
+        PARTITION BY s.student_id, a.category_id
+        ORDER BY s.grade::numeric / a.max_points
+      ) AS low_rank,
+      COUNT(*) OVER (PARTITION BY s.student_id, a.category_id) AS graded_count
+    FROM public.assignment_submissions s
+    JOIN public.assignments a ON a.id = s.assignment_id
+    JOIN roster r ON r.student_id = s.student_id
+    WHERE a.subject_id = _subject_id
+    AND a.is_active = true
+    AND s.is_counted = true
+    AND s.grade IS NOT NULL
+    AND COALESCE(a.max_points, 0) > 0
+  ),
+  kept AS (
+    SELECT g.*
+    FROM graded g
+    LEFT JOIN public.grade_categories c ON c.id = g.category_id
+    WHERE g.low_rank > LEAST(COALESCE(c.drop_lowest, 0), g.graded_count - 1)
+  ),
+  category_totals AS (
+    SELECT k.student_id, k.category_id, SUM(k.earned) AS earned, SUM(k.possible) AS possible
+    FROM kept k
+    GROUP BY k.student_id, k.category_id
+  ),
+  totals AS (
+    SELECT
+      r.student_id,
+      COALESCE(
+        jsonb_agg(jsonb_build_object(
+          'category_id', ct.category_id,
+          'earned', ct.earned,
+          'possible', ct.possible
+        )) FILTER (WHERE ct.student_id IS NOT NULL),
+        '[]'::jsonb
+      ) AS categories,
+      CASE
+        WHEN EXISTS (SELECT 1 FROM public.grade_categories WHERE subject_id = _subject_id) THEN
+          SUM(c.weight * ct.earned / ct.possible) FILTER (WHERE c.id IS NOT NULL)
+            / NULLIF(SUM(c.weight) FILTER (WHERE c.id IS NOT NULL), 0) * 100
+        ELSE
+          SUM(ct.earned) / NULLIF(SUM(ct.possible), 0) * 100
+      END AS total_percentage
+    FROM roster r
+    LEFT JOIN category_totals ct ON ct.student_id = r.student_id
+    LEFT JOIN public.grade_categories c ON c.id = ct.category_id
+    GROUP BY r.student_id
+  )
+  SELECT
+    t.student_id,
+    t.categories,
+    ROUND(t.total_percentage, 2),
+    public.get_letter_grade(_subject_id, t.total_percentage)
+  FROM totals t;
+$$;
+
+-- Create indexes for better performance
+CREATE INDEX idx_assignment_submissions_student_assignment ON public.assignment_submissions(student_id, assignment_id);
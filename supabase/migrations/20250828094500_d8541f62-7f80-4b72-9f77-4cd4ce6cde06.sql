@@ -0,0 +1,134 @@
+-- Late policy per assignment:
+--   late_grace_minutes     lateness tolerated without any penalty
+--   late_penalty_per_day   percentage taken off the raw score per started day late
+--   late_cutoff_days       late work is refused after this many days, 0 is a hard cutoff
+ALTER TABLE public.assignments
+  ADD COLUMN late_grace_minutes INTEGER NOT NULL DEFAULT 0 CHECK (late_grace_minutes >= 0),
+  ADD COLUMN late_penalty_per_day NUMERIC(5,2) NOT NULL DEFAULT 0 CHECK (late_penalty_per_day >= 0 AND late_penalty_per_day <= 100),
+  ADD COLUMN late_cutoff_days INTEGER CHECK (late_cutoff_days IS NULL OR late_cutoff_days >= 0);
+
+-- Lateness is recorded by the server. grade becomes the adjusted score,
+-- raw_grade is the score entered by the grader.
+ALTER TABLE public.assignment_submissions
+  ADD COLUMN minutes_late INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN late_penalty_percentage NUMERIC(5,2) NOT NULL DEFAULT 0,
+  ADD COLUMN raw_grade INTEGER;
+
+UPDATE public.assignment_submissions SET raw_grade = grade;
+
+-- Create function returning the due date that applies to a student
+CREATE OR REPLACE FUNCTION public.get_effective_due_date(_assignment_id UUID, _student_id UUID)
+RETURNS TIMESTAMPTZ
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT due_date FROM public.assignments WHERE id = _assignment_id;
+$$;
+
+-- Stamp new submissions with the server time, compute lateness and refuse
+-- submissions past the cutoff. Grading fields can never be set by the submitter.
+CREATE OR REPLACE FUNCTION public.apply_late_policy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  policy RECORD;
+  due TIMESTAMPTZ;
+  days_late INTEGER;
+BEGIN
+  SELECT late_grace_minutes, late_penalty_per_day, late_cutoff_days
+  INTO policy
+  FROM public.assignments
+  WHERE id = NEW.assignment_id;
+
+  due := public.get_effective_due_date(NEW.assignment_id, NEW.student_id);
+
+  NEW.submitted_at := now();
+  NEW.grade := NULL;
+  NEW.raw_grade := NULL;
+  NEW.feedback := NULL;
+  NEW.graded_at := NULL;
+  NEW.graded_by := NULL;
+  NEW.minutes_late := 0;
+  NEW.late_penalty_percentage := 0;
+  NEW.is_late := false;
+
+  IF due IS NULL OR NEW.submitted_at <= due THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.minutes_late := CEIL(EXTRACT(EPOCH FROM (NEW.submitted_at - due)) / 60);
+
+  IF NEW.minutes_late <= policy.late_grace_minutes THEN
+    RETURN NEW;
+  END IF;
+
+  days_late := CEIL((NEW.minutes_late - policy.late_grace_minutes) / 1440.0);
+
+  IF policy.late_cutoff_days IS NOT NULL AND days_late > policy.late_cutoff_days THEN
+    RAISE EXCEPTION 'The deadline for this assignment has passed';
+  END IF;
+
+  NEW.is_late := true;
+  NEW.late_penalty_percentage := LEAST(100, days_late * policy.late_penalty_per_day);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_late_policy_trigger
+  BEFORE INSERT ON public.assignment_submissions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_late_policy();
+
+-- Derive the adjusted grade from the raw grade and the late penalty.
+-- Older clients that still write grade directly have it treated as the raw score.
+CREATE OR REPLACE FUNCTION public.apply_late_penalty()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.grade IS DISTINCT FROM OLD.grade AND NEW.raw_grade IS NOT DISTINCT FROM OLD.raw_grade THEN
+    NEW.raw_grade := NEW.grade;
+  END IF;
+
+  NEW.grade := CASE
+    WHEN NEW.raw_grade IS NULL THEN NULL
+    ELSE ROUND(NEW.raw_grade * (100 - NEW.late_penalty_percentage) / 100)
+  END;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_late_penalty_trigger
+  BEFORE UPDATE OF grade, raw_grade, late_penalty_percentage ON public.assignment_submissions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_late_penalty();
+
+-- Grading now usually writes raw_grade only, which must also refresh the counted attempt
+DROP TRIGGER refresh_counted_attempt_trigger ON public.assignment_submissions;
+
+CREATE TRIGGER refresh_counted_attempt_trigger
+  AFTER INSERT OR UPDATE OF grade, raw_grade, late_penalty_percentage ON public.assignment_submissions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_submission_attempt_change();
+
+-- Students could previously update their own rows, including grades and lateness.
+-- They may now only hand in new attempts and read them back.
+DROP POLICY "Students can manage their own submissions" ON public.assignment_submissions;
+
+CREATE POLICY "Students can view their own submissions"
+ON public.assignment_submissions
+FOR SELECT
+USING (student_id = auth.uid());
+
+CREATE POLICY "Students can submit their own work"
+ON public.assignment_submissions
+FOR INSERT
+WITH CHECK (student_id = auth.uid());
@@ -0,0 +1,116 @@
+-- Create assignment extensions table (individual due date per student)
+CREATE TABLE public.assignment_extensions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  assignment_id UUID NOT NULL REFERENCES public.assignments(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  due_date TIMESTAMPTZ NOT NULL,
+  reason TEXT,
+  granted_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(assignment_id, student_id)
+);
+
+-- Create student accommodations table (subject wide, e.g. 1.5x time)
+CREATE TABLE public.student_accommodations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  subject_id UUID NOT NULL REFERENCES public.subjects(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  time_multiplier NUMERIC(4,2) NOT NULL DEFAULT 1 CHECK (time_multiplier >= 1 AND time_multiplier <= 5),
+  notes TEXT,
+  granted_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(subject_id, student_id)
+);
+
+CREATE INDEX idx_assignment_extensions_student_id ON public.assignment_extensions(student_id);
+CREATE INDEX idx_student_accommodations_student_id ON public.student_accommodations(student_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.assignment_extensions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.student_accommodations ENABLE ROW LEVEL SECURITY;
+
+-- RLS policies for extensions
+CREATE POLICY "Staff can manage extensions"
+ON public.assignment_extensions
+FOR ALL
+USING (EXISTS (
+  SELECT 1 FROM public.assignments a
+  WHERE a.id = assignment_extensions.assignment_id
+  AND public.has_subject_access(a.subject_id, ARRAY['co_instructor', 'ta']::public.subject_staff_role[])
+));
+
+CREATE POLICY "Students can view their own extensions"
+ON public.assignment_extensions
+FOR SELECT
+USING (student_id = auth.uid());
+
+-- RLS policies for accommodations
+CREATE POLICY "Staff can manage accommodations"
+ON public.student_accommodations
+FOR ALL
+USING (public.has_subject_access(subject_id, ARRAY['co_instructor', 'ta']::public.subject_staff_role[]));
+
+CREATE POLICY "Students can view their own accommodations"
+ON public.student_accommodations
+FOR SELECT
+USING (student_id = auth.uid());
+
+-- Add triggers for updated_at
+CREATE TRIGGER update_assignment_extensions_updated_at
+  BEFORE UPDATE ON public.assignment_extensions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_student_accommodations_updated_at
+  BEFORE UPDATE ON public.student_accommodations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The due date that applies to a student: an extension wins, otherwise the
+-- time between publishing and the due date is stretched by the accommodation.
+CREATE OR REPLACE FUNCTION public.get_effective_due_date(_assignment_id UUID, _student_id UUID)
+RETURNS TIMESTAMPTZ
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT COALESCE(
+    e.due_date,
+    CASE
+      WHEN a.due_date IS NULL OR COALESCE(sa.time_multiplier, 1) = 1 THEN a.due_date
+      ELSE a.created_at + (a.due_date - a.created_at) * sa.time_multiplier
+    END
+  )
+  FROM public.assignments a
+  LEFT JOIN public.assignment_extensions e
+    ON e.assignment_id = a.id AND e.student_id = _student_id
+  LEFT JOIN public.student_accommodations sa
+    ON sa.subject_id = a.subject_id AND sa.student_id = _student_id
+  WHERE a.id = _assignment_id;
+$$;
+
+-- Effective due dates of the current student's assignments that differ from the published one
+CREATE OR REPLACE FUNCTION public.get_my_due_dates()
+RETURNS TABLE(assignment_id UUID, due_date TIMESTAMPTZ, is_extension BOOLEAN)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT
+    a.id,
+    public.get_effective_due_date(a.id, auth.uid()),
+    EXISTS (
+      SELECT 1 FROM public.assignment_extensions e
+      WHERE e.assignment_id = a.id AND e.student_id = auth.uid()
+    )
+  FROM public.assignments a
+  JOIN public.enrollments en
+    ON en.subject_id = a.subject_id AND en.student_id = auth.uid() AND en.is_active = true
+  WHERE a.is_active = true
+  AND a.due_date IS NOT NULL
+  AND public.get_effective_due_date(a.id, auth.uid()) IS DISTINCT FROM a.due_date;
+$$;
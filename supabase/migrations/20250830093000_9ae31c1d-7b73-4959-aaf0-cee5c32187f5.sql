@@ -0,0 +1,414 @@
+-- Assignments can now be quizzes, answered online and graded automatically
+CREATE TYPE public.assignment_kind AS ENUM ('file', 'quiz');
+CREATE TYPE public.quiz_question_type AS ENUM ('multiple_choice', 'multi_select', 'numeric', 'short_answer', 'true_false');
+
+-- Quiz settings:
+--   time_limit_minutes  time from starting an attempt until it is submitted automatically
+--   available_from/until  window in which attempts can be started
+ALTER TABLE public.assignments
+  ADD COLUMN kind public.assignment_kind NOT NULL DEFAULT 'file',
+  ADD COLUMN time_limit_minutes INTEGER CHECK (time_limit_minutes IS NULL OR time_limit_minutes > 0),
+  ADD COLUMN shuffle_questions BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN available_from TIMESTAMPTZ,
+  ADD COLUMN available_until TIMESTAMPTZ,
+  ADD CONSTRAINT assignments_availability_check CHECK (available_until IS NULL OR available_from IS NULL OR available_until > available_from);
+
+-- Create question bank table.
+-- correct_answer depends on the type:
+--   multiple_choice  index into options
+--   multi_select     array of indexes into options, all of them and nothing else
+--   numeric          number, answers within tolerance are accepted
+--   short_answer     array of accepted answers, compared case-insensitively
+--   true_false       boolean
+CREATE TABLE public.quiz_questions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  subject_id UUID NOT NULL REFERENCES public.subjects(id) ON DELETE CASCADE,
+  type public.quiz_question_type NOT NULL,
+  prompt TEXT NOT NULL,
+  options JSONB,
+  correct_answer JSONB NOT NULL,
+  tolerance NUMERIC NOT NULL DEFAULT 0 CHECK (tolerance >= 0),
+  points NUMERIC(6,2) NOT NULL DEFAULT 1 CHECK (points > 0),
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT quiz_questions_answer_check CHECK (
+    CASE type
+      WHEN 'multiple_choice' THEN jsonb_typeof(options) = 'array' AND jsonb_typeof(correct_answer) = 'number'
+      WHEN 'multi_select' THEN jsonb_typeof(options) = 'array' AND jsonb_typeof(correct_answer) = 'array'
+      WHEN 'numeric' THEN jsonb_typeof(correct_answer) = 'number'
+      WHEN 'short_answer' THEN jsonb_typeof(correct_answer) = 'array'
+      WHEN 'true_false' THEN jsonb_typeof(correct_answer) = 'boolean'
+    END
+  )
+);
+
+-- Create table linking quizzes to the questions they ask
+CREATE TABLE public.assignment_questions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  assignment_id UUID NOT NULL REFERENCES public.assignments(id) ON DELETE CASCADE,
+  question_id UUID NOT NULL REFERENCES public.quiz_questions(id) ON DELETE RESTRICT,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(assignment_id, question_id)
+);
+
+-- Create quiz attempts table. An attempt becomes a submission when it is finished.
+CREATE TABLE public.quiz_attempts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  assignment_id UUID NOT NULL REFERENCES public.assignments(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  question_order UUID[] NOT NULL,
+  answers JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- Points earned per question id, filled in when the attempt is graded
+  scores JSONB NOT NULL DEFAULT '{}'::jsonb,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  deadline TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ,
+  submission_id UUID REFERENCES public.assignment_submissions(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_quiz_questions_subject_id ON public.quiz_questions(subject_id);
+CREATE INDEX idx_quiz_attempts_submission_id ON public.quiz_attempts(submission_id);
+CREATE UNIQUE INDEX idx_quiz_attempts_open ON public.quiz_attempts(assignment_id, student_id) WHERE finished_at IS NULL;
+
+-- Enable Row Level Security
+ALTER TABLE public.quiz_questions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.assignment_questions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quiz_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Students never read the question bank directly since it holds the answers.
+-- They receive their questions through start_quiz_attempt.
+CREATE POLICY "Instructors can manage quiz questions"
+ON public.quiz_questions
+FOR ALL
+USING (public.has_subject_access(subject_id, ARRAY['co_instructor', 'ta']::public.subject_staff_role[]));
+
+CREATE POLICY "Staff can view quiz questions"
+ON public.quiz_questions
+FOR SELECT
+USING (public.has_subject_access(subject_id, ARRAY['co_instructor', 'ta', 'grader']::public.subject_staff_role[]));
+
+CREATE POLICY "Instructors can manage assignment questions"
+ON public.assignment_questions
+FOR ALL
+USING (EXISTS (
+  SELECT 1 FROM public.assignments a
+  WHERE a.id = assignment_questions.assignment_id
+  AND public.has_subject_access(a.subject_id, ARRAY['co_instructor', 'ta']::public.subject_staff_role[])
+));
+
+CREATE POLICY "Staff can view assignment questions"
+ON public.assignment_questions
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.assignments a
+  WHERE a.id = assignment_questions.assignment_id
+  AND public.has_subject_access(a.subject_id, ARRAY['co_instructor', 'ta', 'grader']::public.subject_staff_role[])
+));
+
+-- Attempts are only written by the quiz functions below
+CREATE POLICY "Staff can view quiz attempts"
+ON public.quiz_attempts
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.assignments a
+  WHERE a.id = quiz_attempts.assignment_id
+  AND public.has_subject_access(a.subject_id, ARRAY['co_instructor', 'ta', 'grader']::public.subject_staff_role[])
+));
+
+CREATE POLICY "Students can view their own quiz attempts"
+ON public.quiz_attempts
+FOR SELECT
+USING (student_id = auth.uid());
+
+-- Quiz submissions only come from submit_quiz_attempt
+DROP POLICY "Students can submit their own work" ON public.assignment_submissions;
+
+CREATE POLICY "Students can submit their own work"
+ON public.assignment_submissions
+FOR INSERT
+WITH CHECK (
+  student_id = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.assignments a
+    WHERE a.id = assignment_submissions.assignment_id
+    AND a.kind = 'file'
+  )
+);
+
+-- Add triggers for updated_at
+CREATE TRIGGER update_quiz_questions_updated_at
+  BEFORE UPDATE ON public.quiz_questions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_quiz_attempts_updated_at
+  BEFORE UPDATE ON public.quiz_attempts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Make sure quizzes only ask questions from their own subject's bank
+CREATE OR REPLACE FUNCTION public.validate_assignment_question()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.assignments a
+    JOIN public.quiz_questions q ON q.subject_id = a.subject_id
+    WHERE a.id = NEW.assignment_id
+    AND a.kind = 'quiz'
+    AND q.id = NEW.question_id
+  ) THEN
+    RAISE EXCEPTION 'Question does not belong to this quiz''s subject';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_assignment_question_trigger
+  BEFORE INSERT OR UPDATE ON public.assignment_questions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_assignment_question();
+
+-- Create function checking one answer against a question
+CREATE OR REPLACE FUNCTION public.is_correct_quiz_answer(_question public.quiz_questions, _answer JSONB)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = ''
+AS $$
+BEGIN
+  IF _answer IS NULL OR jsonb_typeof(_answer) = 'null' THEN
+    RETURN false;
+  END IF;
+
+  CASE _question.type
+    WHEN 'multiple_choice', 'true_false' THEN
+      RETURN _answer = _question.correct_answer;
+    WHEN 'multi_select' THEN
+      IF jsonb_typeof(_answer) <> 'array' THEN
+        RETURN false;
+      END IF;
+      RETURN (SELECT array_agg(DISTINCT value::numeric ORDER BY value::numeric) FROM jsonb_array_elements_text(_answer))
+        IS NOT DISTINCT FROM
+        (SELECT array_agg(DISTINCT value::numeric ORDER BY value::numeric) FROM jsonb_array_elements_text(_question.correct_answer));
+    WHEN 'numeric' THEN
+      IF (_answer #>> '{}') !~ '^\s*-?[0-9]+(\.[0-9]+)?\s*$' THEN
+        RETURN false;
+      END IF;
+      RETURN abs(trim(_answer #>> '{}')::numeric - (_question.correct_answer #>> '{}')::numeric) <= _question.tolerance;
+    WHEN 'short_answer' THEN
+      RETURN EXISTS (
+        SELECT 1 FROM jsonb_array_elements_text(_question.correct_answer) accepted
+        WHERE lower(trim(accepted)) = lower(trim(_answer #>> '{}'))
+      );
+  END CASE;
+
+  RETURN false;
+END;
+$$;
+
+-- Grade an attempt and hand it in as a submission. The submission goes through the
+-- usual attempt numbering and late policy triggers; the score is scaled to max_points.
+CREATE OR REPLACE FUNCTION public.finish_quiz_attempt(_attempt_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  attempt public.quiz_attempts;
+  quiz public.assignments;
+  question public.quiz_questions;
+  earned NUMERIC := 0;
+  possible NUMERIC := 0;
+  question_scores JSONB := '{}'::jsonb;
+  new_submission_id UUID;
+BEGIN
+  SELECT * INTO attempt
+  FROM public.quiz_attempts
+  WHERE id = _attempt_id AND student_id = auth.uid()
+  FOR UPDATE;
+
+  IF attempt.id IS NULL THEN
+    RAISE EXCEPTION 'Quiz attempt not found';
+  END IF;
+
+  IF attempt.finished_at IS NOT NULL THEN
+    RETURN attempt.submission_id;
+  END IF;
+
+  SELECT * INTO quiz FROM public.assignments WHERE id = attempt.assignment_id;
+
+  FOR question IN
+    SELECT q.* FROM public.quiz_questions q WHERE q.id = ANY(attempt.question_order)
+  LOOP
+    possible := possible + question.points;
+    IF public.is_correct_quiz_answer(question, attempt.answers -> question.id::text) THEN
+      earned := earned + question.points;
+      question_scores := question_scores || jsonb_build_object(question.id::text, question.points);
+    ELSE
+      question_scores := question_scores || jsonb_build_object(question.id::text, 0);
+    END IF;
+  END LOOP;
+
+  INSERT INTO public.assignment_submissions (assignment_id, student_id, submitted_text)
+  VALUES (attempt.assignment_id, attempt.student_id, format('Quiz answered: %s of %s points', earned, possible))
+  RETURNING id INTO new_submission_id;
+
+  UPDATE public.assignment_submissions
+  SET raw_grade = CASE WHEN possible > 0 THEN ROUND(earned / possible * quiz.max_points) ELSE 0 END,
+      graded_at = now()
+  WHERE id = new_submission_id;
+
+  UPDATE public.quiz_attempts
+  SET finished_at = now(), scores = question_scores, submission_id = new_submission_id
+  WHERE id = _attempt_id;
+
+  RETURN new_submission_id;
+END;
+$$;
+
+-- Start (or resume) a quiz attempt for the current student.
+-- Returns the attempt with its questions, without the answers.
+CREATE OR REPLACE FUNCTION public.start_quiz_attempt(_assignment_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  quiz public.assignments;
+  attempt public.quiz_attempts;
+  attempts_used INTEGER;
+  multiplier NUMERIC;
+BEGIN
+  SELECT a.* INTO quiz
+  FROM public.assignments a
+  JOIN public.enrollments e ON e.subject_id = a.subject_id
+  WHERE a.id = _assignment_id
+  AND a.kind = 'quiz'
+  AND a.is_active = true
+  AND e.student_id = auth.uid()
+  AND e.is_active = true;
+
+  IF quiz.id IS NULL THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+
+  SELECT * INTO attempt
+  FROM public.quiz_attempts
+  WHERE assignment_id = _assignment_id
+  AND student_id = auth.uid()
+  AND finished_at IS NULL;
+
+  -- An attempt left running past its time is handed in with the answers saved so far
+  IF attempt.id IS NOT NULL AND attempt.deadline IS NOT NULL AND attempt.deadline < now() THEN
+    BEGIN
+      PERFORM public.finish_quiz_attempt(attempt.id);
+    EXCEPTION WHEN raise_exception THEN
+      UPDATE public.quiz_attempts SET finished_at = now() WHERE id = attempt.id;
+    END;
+    attempt := NULL;
+  END IF;
+
+  IF attempt.id IS NULL THEN
+    IF quiz.available_from IS NOT NULL AND now() < quiz.available_from THEN
+      RAISE EXCEPTION 'This quiz is not open yet';
+    END IF;
+    IF quiz.available_until IS NOT NULL AND now() > quiz.available_until THEN
+      RAISE EXCEPTION 'This quiz is closed';
+    END IF;
+
+    SELECT COUNT(*) INTO attempts_used
+    FROM public.assignment_submissions
+    WHERE assignment_id = _assignment_id AND student_id = auth.uid();
+
+    IF quiz.max_attempts IS NOT NULL AND attempts_used >= quiz.max_attempts THEN
+      RAISE EXCEPTION 'No attempts left for this assignment';
+    END IF;
+
+    SELECT COALESCE(
+      (SELECT time_multiplier FROM public.student_accommodations
+       WHERE subject_id = quiz.subject_id AND student_id = auth.uid()),
+      1
+    ) INTO multiplier;
+
+    INSERT INTO public.quiz_attempts (assignment_id, student_id, question_order, deadline)
+    SELECT
+      _assignment_id,
+      auth.uid(),
+      COALESCE(array_agg(question_id ORDER BY CASE WHEN quiz.shuffle_questions THEN random() ELSE position END), '{}'),
+      LEAST(now() + quiz.time_limit_minutes * multiplier * interval '1 minute', quiz.available_until)
+    FROM public.assignment_questions
+    WHERE assignment_id = _assignment_id
+    RETURNING * INTO attempt;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'attempt_id', attempt.id,
+    'started_at', attempt.started_at,
+    'deadline', attempt.deadline,
+    'answers', attempt.answers,
+    'questions', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', q.id,
+        'type', q.type,
+        'prompt', q.prompt,
+        'options', q.options,
+        'points', q.points
+      ) ORDER BY o.ord)
+      FROM unnest(attempt.question_order) WITH ORDINALITY AS o(question_id, ord)
+      JOIN public.quiz_questions q ON q.id = o.question_id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+-- Save answers while the attempt is running. A minute of slack covers network delays.
+CREATE OR REPLACE FUNCTION public.save_quiz_answers(_attempt_id UUID, _answers JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  UPDATE public.quiz_attempts
+  SET answers = COALESCE(_answers, '{}'::jsonb)
+  WHERE id = _attempt_id
+  AND student_id = auth.uid()
+  AND finished_at IS NULL
+  AND (deadline IS NULL OR now() <= deadline + interval '1 minute');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This quiz attempt is no longer open';
+  END IF;
+END;
+$$;
+
+-- Hand in an attempt. Answers sent after the time limit are ignored and the
+-- answers saved before it are graded instead.
+CREATE OR REPLACE FUNCTION public.submit_quiz_attempt(_attempt_id UUID, _answers JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  UPDATE public.quiz_attempts
+  SET answers = COALESCE(_answers, '{}'::jsonb)
+  WHERE id = _attempt_id
+  AND student_id = auth.uid()
+  AND finished_at IS NULL
+  AND (deadline IS NULL OR now() <= deadline + interval '1 minute');
+
+  RETURN public.finish_quiz_attempt(_attempt_id);
+END;
+$$;
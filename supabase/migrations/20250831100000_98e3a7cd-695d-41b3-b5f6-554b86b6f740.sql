@@ -0,0 +1,113 @@
+-- Create enrollment invitations table for students who do not have an account yet
+CREATE TABLE public.enrollment_invitations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  subject_id UUID NOT NULL REFERENCES public.subjects(id) ON DELETE CASCADE,
+  email TEXT NOT NULL CHECK (email = lower(trim(email))),
+  first_name TEXT,
+  last_name TEXT,
+  invited_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  accepted_at TIMESTAMPTZ,
+  student_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(subject_id, email)
+);
+
+CREATE INDEX idx_enrollment_invitations_email ON public.enrollment_invitations(email);
+
+-- Enable Row Level Security
+ALTER TABLE public.enrollment_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can manage enrollment invitations"
+ON public.enrollment_invitations
+FOR ALL
+USING (public.has_subject_access(subject_id, ARRAY['co_instructor', 'ta']::public.subject_staff_role[]));
+
+-- Classify roster emails for the import preview:
+--   enrolled     already actively enrolled in the subject
+--   matched      student account in the caller's institution, ready to enroll
+--   not_student  account exists but is not a student
+--   invited      no account yet, an invitation is already pending
+--   no_account   no account yet, an invitation will be created
+-- Runs with the caller's rights, so only visible profiles can match.
+CREATE OR REPLACE FUNCTION public.preview_enrollment_import(_subject_id UUID, _emails TEXT[])
+RETURNS TABLE(email TEXT, student_id UUID, first_name TEXT, last_name TEXT, status TEXT)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT
+    e.email,
+    p.id,
+    p.first_name,
+    p.last_name,
+    CASE
+      WHEN p.id IS NULL AND i.id IS NOT NULL THEN 'invited'
+      WHEN p.id IS NULL THEN 'no_account'
+      WHEN p.role <> 'student'::public.user_role THEN 'not_student'
+      WHEN en.is_active = true THEN 'enrolled'
+      ELSE 'matched'
+    END
+  FROM (SELECT DISTINCT lower(trim(unnest(_emails))) AS email) e
+  LEFT JOIN public.profiles p
+    ON lower(p.email) = e.email
+    AND p.institution_id = public.get_user_institution_id()
+  LEFT JOIN public.enrollments en
+    ON en.student_id = p.id AND en.subject_id = _subject_id
+  LEFT JOIN public.enrollment_invitations i
+    ON i.subject_id = _subject_id AND i.email = e.email AND i.accepted_at IS NULL;
+$$;
+
+-- Enroll every matched student of a roster and invite the rest, in one transaction.
+-- _rows: [{ "email", "first_name", "last_name" }]
+-- Runs with the caller's rights, so the enrollment and invitation policies decide who may import.
+CREATE OR REPLACE FUNCTION public.import_enrollments(_subject_id UUID, _rows JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  enrolled_count INTEGER;
+  invited_count INTEGER;
+BEGIN
+  WITH roster AS (
+    SELECT DISTINCT ON (lower(trim(r->>'email')))
+      lower(trim(r->>'email')) AS email,
+      NULLIF(trim(r->>'first_name'), '') AS first_name,
+      NULLIF(trim(r->>'last_name'), '') AS last_name
+    FROM jsonb_array_elements(COALESCE(_rows, '[]'::jsonb)) r
+    WHERE COALESCE(trim(r->>'email'), '') <> ''
+  ),
+  matched AS (
+    SELECT p.id AS student_id
+    FROM roster
+    JOIN public.profiles p
+      ON lower(p.email) = roster.email
+      AND p.institution_id = public.get_user_institution_id()
+      AND p.role = 'student'::public.user_role
+  ),
+  enrolled AS (
+    INSERT INTO public.enrollments AS en (student_id, subject_id)
+    SELECT student_id, _subject_id FROM matched
+    ON CONFLICT (student_id, subject_id) DO UPDATE
+      SET is_active = true, enrolled_at = now()
+      WHERE en.is_active IS DISTINCT FROM true
+    RETURNING 1
+  ),
+  invited AS (
+    INSERT INTO public.enrollment_invitations (subject_id, email, first_name, last_name, invited_by)
+    SELECT _subject_id, roster.email, roster.first_name, roster.last_name, auth.uid()
+    FROM roster
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.profiles p
+      WHERE lower(p.email) = roster.email
+      AND p.institution_id = public.get_user_institution_id()
+    )
+    ON CONFLICT (subject_id, email) DO NOTHING
+    RETURNING 1
+  )
+  SELECT (SELECT COUNT(*) FROM enrolled), (SELECT COUNT(*) FROM invited)
+  INTO enrolled_count, invited_count;
+
+  RETURN jsonb_build_object('enrolled', enrolled_count, 'invited', invited_count);
+END;
+$$;
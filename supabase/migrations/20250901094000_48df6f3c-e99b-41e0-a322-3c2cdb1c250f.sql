@@ -0,0 +1,198 @@
+-- Invite-only subjects can only be joined through an invitation, a join code or by staff
+ALTER TABLE public.subjects
+  ADD COLUMN is_invite_only BOOLEAN NOT NULL DEFAULT false;
+
+-- Create join codes table. The same code is used typed in and inside invite links.
+CREATE TABLE public.subject_join_codes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  subject_id UUID NOT NULL REFERENCES public.subjects(id) ON DELETE CASCADE,
+  code TEXT NOT NULL UNIQUE DEFAULT upper(substr(replace(gen_random_uuid()::text, '-', ''), 1, 8)),
+  expires_at TIMESTAMPTZ,
+  max_uses INTEGER CHECK (max_uses IS NULL OR max_uses > 0),
+  use_count INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_subject_join_codes_subject_id ON public.subject_join_codes(subject_id);
+
+-- Email invitations can expire too
+ALTER TABLE public.enrollment_invitations
+  ADD COLUMN expires_at TIMESTAMPTZ;
+
+-- Enable Row Level Security
+ALTER TABLE public.subject_join_codes ENABLE ROW LEVEL SECURITY;
+
+-- Students redeem codes through join_subject_with_code and never read the table
+CREATE POLICY "Staff can manage join codes"
+ON public.subject_join_codes
+FOR ALL
+USING (public.has_subject_access(subject_id, ARRAY['co_instructor', 'ta']::public.subject_staff_role[]));
+
+-- Enroll the current student in a subject, reactivating an earlier enrollment
+CREATE OR REPLACE FUNCTION public.enroll_current_student(_subject_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = auth.uid()
+    AND role = 'student'::public.user_role
+    AND status = 'active'::public.account_status
+  ) THEN
+    RAISE EXCEPTION 'Only students can join subjects';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.enrollments
+    WHERE student_id = auth.uid() AND subject_id = _subject_id AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'You are already enrolled in this subject';
+  END IF;
+
+  INSERT INTO public.enrollments (student_id, subject_id)
+  VALUES (auth.uid(), _subject_id)
+  ON CONFLICT (student_id, subject_id) DO UPDATE
+    SET is_active = true, enrolled_at = now();
+END;
+$$;
+
+-- Self-enrollment in an open subject of the student's institution
+CREATE OR REPLACE FUNCTION public.enroll_in_subject(_subject_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.subjects
+    WHERE id = _subject_id
+    AND is_active = true
+    AND institution_id = public.get_user_institution_id()
+  ) THEN
+    RAISE EXCEPTION 'Subject not found';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.subjects WHERE id = _subject_id AND is_invite_only = true) THEN
+    RAISE EXCEPTION 'This subject is invite-only';
+  END IF;
+
+  PERFORM public.enroll_current_student(_subject_id);
+END;
+$$;
+
+-- Redeem a join code, also for invite-only subjects. Returns the subject joined.
+CREATE OR REPLACE FUNCTION public.join_subject_with_code(_code TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  join_code public.subject_join_codes;
+BEGIN
+  SELECT c.* INTO join_code
+  FROM public.subject_join_codes c
+  JOIN public.subjects s ON s.id = c.subject_id
+  WHERE c.code = upper(trim(_code))
+  AND c.is_active = true
+  AND s.is_active = true
+  AND s.institution_id = public.get_user_institution_id()
+  FOR UPDATE OF c;
+
+  IF join_code.id IS NULL THEN
+    RAISE EXCEPTION 'This join code is not valid';
+  END IF;
+
+  IF join_code.expires_at IS NOT NULL AND join_code.expires_at < now() THEN
+    RAISE EXCEPTION 'This join code has expired';
+  END IF;
+
+  IF join_code.max_uses IS NOT NULL AND join_code.use_count >= join_code.max_uses THEN
+    RAISE EXCEPTION 'This join code has been used up';
+  END IF;
+
+  PERFORM public.enroll_current_student(join_code.subject_id);
+
+  UPDATE public.subject_join_codes
+  SET use_count = use_count + 1
+  WHERE id = join_code.id;
+
+  RETURN join_code.subject_id;
+END;
+$$;
+
+-- Enroll a new user in every subject they were invited to by email.
+-- Invitations from another institution than the one chosen at sign up are left pending.
+CREATE OR REPLACE FUNCTION public.accept_pending_invitations(_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  invitation RECORD;
+BEGIN
+  FOR invitation IN
+    SELECT i.id, i.subject_id
+    FROM public.enrollment_invitations i
+    JOIN public.subjects s ON s.id = i.subject_id
+    JOIN public.profiles p ON p.id = _user_id
+    WHERE i.email = lower(trim(p.email))
+    AND i.accepted_at IS NULL
+    AND (i.expires_at IS NULL OR i.expires_at > now())
+    AND s.is_active = true
+    AND s.institution_id = p.institution_id
+    AND p.role = 'student'::public.user_role
+  LOOP
+    INSERT INTO public.enrollments (student_id, subject_id)
+    VALUES (_user_id, invitation.subject_id)
+    ON CONFLICT (student_id, subject_id) DO UPDATE
+      SET is_active = true, enrolled_at = now();
+
+    UPDATE public.enrollment_invitations
+    SET accepted_at = now(), student_id = _user_id
+    WHERE id = invitation.id;
+  END LOOP;
+END;
+$$;
+
+-- Same as before, and complete the invitations waiting for this email address
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  requested public.user_role;
+BEGIN
+  requested := CASE NEW.raw_user_meta_data->>'role'
+    WHEN 'professor' THEN 'professor'::public.user_role
+    ELSE NULL
+  END;
+
+  INSERT INTO public.profiles (id, email, first_name, last_name, role, status, requested_role, institution_id)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    NEW.raw_user_meta_data->>'first_name',
+    NEW.raw_user_meta_data->>'last_name',
+    'student'::public.user_role,
+    CASE WHEN requested IS NULL THEN 'active'::public.account_status ELSE 'pending'::public.account_status END,
+    requested,
+    NULLIF(NEW.raw_user_meta_data->>'institution_id', '')::uuid
+  );
+
+  IF requested IS NULL THEN
+    PERFORM public.accept_pending_invitations(NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
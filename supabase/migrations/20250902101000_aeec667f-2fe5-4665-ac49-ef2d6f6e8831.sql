@@ -0,0 +1,465 @@
+-- Enrollment requests go through approval and a waitlist before taking a seat
+CREATE TYPE public.enrollment_status AS ENUM ('pending', 'approved', 'rejected', 'waitlisted');
+
+ALTER TABLE public.subjects
+  ADD COLUMN max_students INTEGER CHECK (max_students IS NULL OR max_students > 0),
+  ADD COLUMN requires_approval BOOLEAN NOT NULL DEFAULT false;
+
+-- is_active keeps meaning "holds a seat": only approved enrollments can be active.
+-- An approved but inactive enrollment is a student who left or was unenrolled.
+-- reviewed_by points at auth.users so that enrollments keep a single relationship
+-- to profiles and the existing profiles!inner embeds stay unambiguous.
+ALTER TABLE public.enrollments
+  ADD COLUMN status public.enrollment_status NOT NULL DEFAULT 'approved',
+  ADD COLUMN reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN reviewed_at TIMESTAMPTZ;
+
+CREATE INDEX idx_enrollments_status ON public.enrollments(subject_id, status);
+
+CREATE OR REPLACE FUNCTION public.enforce_enrollment_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.status <> 'approved'::public.enrollment_status THEN
+    NEW.is_active := false;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_enrollment_status
+  BEFORE INSERT OR UPDATE ON public.enrollments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_enrollment_status();
+
+-- Seats taken: active enrollments plus the seats held by pending email invitations
+CREATE OR REPLACE FUNCTION public.subject_seats_taken(_subject_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT (
+    SELECT COUNT(*) FROM public.enrollments
+    WHERE subject_id = _subject_id AND is_active = true
+  )::integer + (
+    SELECT COUNT(*) FROM public.enrollment_invitations
+    WHERE subject_id = _subject_id
+    AND accepted_at IS NULL
+    AND (expires_at IS NULL OR expires_at > now())
+  )::integer;
+$$;
+
+CREATE OR REPLACE FUNCTION public.subject_has_open_seat(_subject_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT COALESCE(s.max_students IS NULL OR public.subject_seats_taken(s.id) < s.max_students, false)
+  FROM public.subjects s
+  WHERE s.id = _subject_id;
+$$;
+
+-- Fill free seats with waitlisted students, first come first served
+CREATE OR REPLACE FUNCTION public.promote_waitlist(_subject_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  PERFORM 1 FROM public.subjects WHERE id = _subject_id FOR UPDATE;
+
+  WHILE public.subject_has_open_seat(_subject_id) LOOP
+    UPDATE public.enrollments
+    SET status = 'approved'::public.enrollment_status, is_active = true, enrolled_at = now()
+    WHERE id = (
+      SELECT id FROM public.enrollments
+      WHERE subject_id = _subject_id AND status = 'waitlisted'::public.enrollment_status
+      ORDER BY enrolled_at, id
+      LIMIT 1
+    );
+
+    EXIT WHEN NOT FOUND;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.promote_waitlist_after_enrollment_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF OLD.is_active = true AND (TG_OP = 'DELETE' OR NEW.is_active IS DISTINCT FROM true) THEN
+    PERFORM public.promote_waitlist(OLD.subject_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER promote_waitlist_after_enrollment_change
+  AFTER UPDATE OF is_active, status OR DELETE ON public.enrollments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.promote_waitlist_after_enrollment_change();
+
+CREATE OR REPLACE FUNCTION public.promote_waitlist_after_capacity_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.max_students IS NULL OR NEW.max_students > COALESCE(OLD.max_students, 0) THEN
+    PERFORM public.promote_waitlist(NEW.id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER promote_waitlist_after_capacity_change
+  AFTER UPDATE OF max_students ON public.subjects
+  FOR EACH ROW
+  WHEN (OLD.max_students IS DISTINCT FROM NEW.max_students)
+  EXECUTE FUNCTION public.promote_waitlist_after_capacity_change();
+
+-- A revoked invitation gives its held seat back
+CREATE OR REPLACE FUNCTION public.promote_waitlist_after_invitation_revoked()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF OLD.accepted_at IS NULL THEN
+    PERFORM public.promote_waitlist(OLD.subject_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER promote_waitlist_after_invitation_revoked
+  AFTER DELETE ON public.enrollment_invitations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.promote_waitlist_after_invitation_revoked();
+
+-- The return types change, so drop the functions from the invite codes migration first
+DROP FUNCTION public.join_subject_with_code(TEXT);
+DROP FUNCTION public.enroll_in_subject(UUID);
+DROP FUNCTION public.enroll_current_student(UUID);
+
+-- Request a seat for the current student and return where the request ended up.
+-- Invitations and join codes count as approval; capacity still applies.
+CREATE OR REPLACE FUNCTION public.enroll_current_student(_subject_id UUID, _invited BOOLEAN DEFAULT false)
+RETURNS public.enrollment_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  subject public.subjects;
+  existing public.enrollments;
+  new_status public.enrollment_status;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = auth.uid()
+    AND role = 'student'::public.user_role
+    AND status = 'active'::public.account_status
+  ) THEN
+    RAISE EXCEPTION 'Only students can join subjects';
+  END IF;
+
+  -- Serialize seat allocation per subject
+  SELECT * INTO subject FROM public.subjects WHERE id = _subject_id FOR UPDATE;
+
+  SELECT * INTO existing
+  FROM public.enrollments
+  WHERE student_id = auth.uid() AND subject_id = _subject_id;
+
+  IF existing.is_active THEN
+    RAISE EXCEPTION 'You are already enrolled in this subject';
+  ELSIF existing.status = 'pending'::public.enrollment_status THEN
+    RAISE EXCEPTION 'Your request to join this subject is awaiting approval';
+  ELSIF existing.status = 'waitlisted'::public.enrollment_status THEN
+    RAISE EXCEPTION 'You are already on the waitlist for this subject';
+  ELSIF existing.status = 'rejected'::public.enrollment_status AND NOT _invited THEN
+    RAISE EXCEPTION 'Your request to join this subject was declined';
+  END IF;
+
+  new_status := CASE
+    WHEN subject.requires_approval AND NOT _invited THEN 'pending'::public.enrollment_status
+    WHEN public.subject_has_open_seat(_subject_id) THEN 'approved'::public.enrollment_status
+    ELSE 'waitlisted'::public.enrollment_status
+  END;
+
+  INSERT INTO public.enrollments (student_id, subject_id, status, is_active)
+  VALUES (auth.uid(), _subject_id, new_status, new_status = 'approved'::public.enrollment_status)
+  ON CONFLICT (student_id, subject_id) DO UPDATE
+    SET status = EXCLUDED.status,
+        is_active = EXCLUDED.is_active,
+        enrolled_at = now(),
+        reviewed_by = NULL,
+        reviewed_at = NULL;
+
+  RETURN new_status;
+END;
+$$;
+
+-- Self-enrollment in an open subject of the student's institution
+CREATE OR REPLACE FUNCTION public.enroll_in_subject(_subject_id UUID)
+RETURNS public.enrollment_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.subjects
+    WHERE id = _subject_id
+    AND is_active = true
+    AND institution_id = public.get_user_institution_id()
+  ) THEN
+    RAISE EXCEPTION 'Subject not found';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.subjects WHERE id = _subject_id AND is_invite_only = true) THEN
+    RAISE EXCEPTION 'This subject is invite-only';
+  END IF;
+
+  RETURN public.enroll_current_student(_subject_id);
+END;
+$$;
+
+-- Redeem a join code, also for invite-only subjects
+CREATE OR REPLACE FUNCTION public.join_subject_with_code(_code TEXT)
+RETURNS public.enrollment_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  join_code public.subject_join_codes;
+  new_status public.enrollment_status;
+BEGIN
+  SELECT c.* INTO join_code
+  FROM public.subject_join_codes c
+  JOIN public.subjects s ON s.id = c.subject_id
+  WHERE c.code = upper(trim(_code))
+  AND c.is_active = true
+  AND s.is_active = true
+  AND s.institution_id = public.get_user_institution_id()
+  FOR UPDATE OF c;
+
+  IF join_code.id IS NULL THEN
+    RAISE EXCEPTION 'This join code is not valid';
+  END IF;
+
+  IF join_code.expires_at IS NOT NULL AND join_code.expires_at < now() THEN
+    RAISE EXCEPTION 'This join code has expired';
+  END IF;
+
+  IF join_code.max_uses IS NOT NULL AND join_code.use_count >= join_code.max_uses THEN
+    RAISE EXCEPTION 'This join code has been used up';
+  END IF;
+
+  new_status := public.enroll_current_student(join_code.subject_id, true);
+
+  UPDATE public.subject_join_codes
+  SET use_count = use_count + 1
+  WHERE id = join_code.id;
+
+  RETURN new_status;
+END;
+$$;
+
+-- Leave a subject, or withdraw a request that is still pending or waitlisted
+CREATE OR REPLACE FUNCTION public.leave_subject(_subject_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  DELETE FROM public.enrollments
+  WHERE student_id = auth.uid()
+  AND subject_id = _subject_id
+  AND status IN ('pending'::public.enrollment_status, 'waitlisted'::public.enrollment_status);
+
+  IF FOUND THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.enrollments
+  SET is_active = false
+  WHERE student_id = auth.uid()
+  AND subject_id = _subject_id
+  AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not enrolled in this subject';
+  END IF;
+END;
+$$;
+
+-- Approve or reject a pending request. Approved requests wait on the waitlist
+-- while the subject is full. Also used to reject waitlisted students.
+CREATE OR REPLACE FUNCTION public.review_enrollment(_enrollment_id UUID, _approve BOOLEAN)
+RETURNS public.enrollment_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  enrollment public.enrollments;
+  new_status public.enrollment_status;
+BEGIN
+  SELECT * INTO enrollment FROM public.enrollments WHERE id = _enrollment_id;
+
+  IF enrollment.id IS NULL
+    OR NOT public.has_subject_access(enrollment.subject_id, ARRAY['co_instructor', 'ta']::public.subject_staff_role[]) THEN
+    RAISE EXCEPTION 'Enrollment not found';
+  END IF;
+
+  IF enrollment.status NOT IN ('pending'::public.enrollment_status, 'waitlisted'::public.enrollment_status) THEN
+    RAISE EXCEPTION 'This request has already been reviewed';
+  END IF;
+
+  PERFORM 1 FROM public.subjects WHERE id = enrollment.subject_id FOR UPDATE;
+
+  new_status := CASE
+    WHEN NOT _approve THEN 'rejected'::public.enrollment_status
+    WHEN enrollment.status = 'waitlisted'::public.enrollment_status THEN 'waitlisted'::public.enrollment_status
+    WHEN public.subject_has_open_seat(enrollment.subject_id) THEN 'approved'::public.enrollment_status
+    ELSE 'waitlisted'::public.enrollment_status
+  END;
+
+  UPDATE public.enrollments
+  SET status = new_status,
+      is_active = new_status = 'approved'::public.enrollment_status,
+      -- The waitlist is ordered by the time of approval
+      enrolled_at = CASE WHEN enrollment.status = 'pending'::public.enrollment_status THEN now() ELSE enrolled_at END,
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  WHERE id = _enrollment_id;
+
+  RETURN new_status;
+END;
+$$;
+
+-- Position of the current student on each waitlist they are on
+CREATE OR REPLACE FUNCTION public.get_my_waitlist_positions()
+RETURNS TABLE(subject_id UUID, waitlist_position INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT ranked.subject_id, ranked.waitlist_position
+  FROM (
+    SELECT
+      e.subject_id,
+      e.student_id,
+      (ROW_NUMBER() OVER (PARTITION BY e.subject_id ORDER BY e.enrolled_at, e.id))::integer AS waitlist_position
+    FROM public.enrollments e
+    WHERE e.status = 'waitlisted'::public.enrollment_status
+    AND e.subject_id IN (
+      SELECT own.subject_id FROM public.enrollments own
+      WHERE own.student_id = auth.uid() AND own.status = 'waitlisted'::public.enrollment_status
+    )
+  ) ranked
+  WHERE ranked.student_id = auth.uid();
+$$;
+
+-- Invitations held a seat, so accepting one always approves
+CREATE OR REPLACE FUNCTION public.accept_pending_invitations(_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  invitation RECORD;
+BEGIN
+  FOR invitation IN
+    SELECT i.id, i.subject_id
+    FROM public.enrollment_invitations i
+    JOIN public.subjects s ON s.id = i.subject_id
+    JOIN public.profiles p ON p.id = _user_id
+    WHERE i.email = lower(trim(p.email))
+    AND i.accepted_at IS NULL
+    AND (i.expires_at IS NULL OR i.expires_at > now())
+    AND s.is_active = true
+    AND s.institution_id = p.institution_id
+    AND p.role = 'student'::public.user_role
+  LOOP
+    INSERT INTO public.enrollments (student_id, subject_id)
+    VALUES (_user_id, invitation.subject_id)
+    ON CONFLICT (student_id, subject_id) DO UPDATE
+      SET status = 'approved'::public.enrollment_status, is_active = true, enrolled_at = now();
+
+    UPDATE public.enrollment_invitations
+    SET accepted_at = now(), student_id = _user_id
+    WHERE id = invitation.id;
+  END LOOP;
+END;
+$$;
+
+-- Same as before; students enrolled by staff are approved even when they had a pending request
+CREATE OR REPLACE FUNCTION public.import_enrollments(_subject_id UUID, _rows JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  enrolled_count INTEGER;
+  invited_count INTEGER;
+BEGIN
+  WITH roster AS (
+    SELECT DISTINCT ON (lower(trim(r->>'email')))
+      lower(trim(r->>'email')) AS email,
+      NULLIF(trim(r->>'first_name'), '') AS first_name,
+      NULLIF(trim(r->>'last_name'), '') AS last_name
+    FROM jsonb_array_elements(COALESCE(_rows, '[]'::jsonb)) r
+    WHERE COALESCE(trim(r->>'email'), '') <> ''
+  ),
+  matched AS (
+    SELECT p.id AS student_id
+    FROM roster
+    JOIN public.profiles p
+      ON lower(p.email) = roster.email
+      AND p.institution_id = public.get_user_institution_id()
+      AND p.role = 'student'::public.user_role
+  ),
+  enrolled AS (
+    INSERT INTO public.enrollments AS en (student_id, subject_id)
+    SELECT student_id, _subject_id FROM matched
+    ON CONFLICT (student_id, subject_id) DO UPDATE
+      SET status = 'approved'::public.enrollment_status, is_active = true, enrolled_at = now()
+      WHERE en.is_active IS DISTINCT FROM true
+    RETURNING 1
+  ),
+  invited AS (
+    INSERT INTO public.enrollment_invitations (subject_id, email, first_name, last_name, invited_by)
+    SELECT _subject_id, roster.email, roster.first_name, roster.last_name, auth.uid()
+    FROM roster
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.profiles p
+      WHERE lower(p.email) = roster.email
+      AND p.institution_id = public.get_user_institution_id()
+    )
+    ON CONFLICT (subject_id, email) DO NOTHING
+    RETURNING 1
+  )
+  SELECT (SELECT COUNT(*) FROM enrolled), (SELECT COUNT(*) FROM invited)
+  INTO enrolled_count, invited_count;
+
+  RETURN jsonb_build_object('enrolled', enrolled_count, 'invited', invited_count);
+END;
+$$;
@@ -0,0 +1,215 @@
+-- Create terms table. A subject is offered in a term; the same code can come back every term.
+CREATE TABLE public.terms (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  institution_id UUID NOT NULL REFERENCES public.institutions(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  -- Set once the term is over; everything in an archived term is read-only
+  archived_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(institution_id, name),
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX idx_terms_institution_id ON public.terms(institution_id);
+
+CREATE TRIGGER update_terms_updated_at
+  BEFORE UPDATE ON public.terms
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE public.terms ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view terms of their institution"
+ON public.terms
+FOR SELECT
+USING (institution_id = public.get_user_institution_id());
+
+CREATE POLICY "Admins can manage terms of their institution"
+ON public.terms
+FOR ALL
+USING (public.is_admin() AND institution_id = public.get_user_institution_id())
+WITH CHECK (public.is_admin() AND institution_id = public.get_user_institution_id());
+
+-- Subjects without a term keep working as before
+ALTER TABLE public.subjects
+  ADD COLUMN term_id UUID REFERENCES public.terms(id) ON DELETE RESTRICT;
+
+CREATE INDEX idx_subjects_term_id ON public.subjects(term_id);
+
+-- Codes were unique across all institutions; now per institution and term
+ALTER TABLE public.subjects DROP CONSTRAINT subjects_code_key;
+
+ALTER TABLE public.subjects
+  ADD CONSTRAINT subjects_institution_term_code_key UNIQUE NULLS NOT DISTINCT (institution_id, term_id, code);
+
+CREATE OR REPLACE FUNCTION public.is_term_archived(_term_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.terms
+    WHERE id = _term_id AND archived_at IS NOT NULL
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_subject_archived(_subject_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.subjects s
+    JOIN public.terms t ON t.id = s.term_id
+    WHERE s.id = _subject_id AND t.archived_at IS NOT NULL
+  );
+$$;
+
+-- Subjects of an archived term cannot be changed, moved or deleted, and no subject can be added to one
+CREATE OR REPLACE FUNCTION public.prevent_archived_subject_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' AND public.is_term_archived(OLD.term_id) THEN
+    RAISE EXCEPTION 'This subject belongs to an archived term and is read-only';
+  END IF;
+
+  IF TG_OP <> 'DELETE' AND public.is_term_archived(NEW.term_id) THEN
+    RAISE EXCEPTION 'Subjects cannot be added to an archived term';
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+CREATE TRIGGER prevent_archived_subject_changes
+  BEFORE INSERT OR UPDATE OR DELETE ON public.subjects
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_archived_subject_changes();
+
+-- Shared by the tables that hang off a subject. TG_ARGV[0] names the column
+-- leading to the subject: subject_id, assignment_id or submission_id.
+CREATE OR REPLACE FUNCTION public.prevent_archived_term_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  row_data JSONB;
+  subject UUID;
+BEGIN
+  row_data := to_jsonb(CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END);
+
+  subject := CASE TG_ARGV[0]
+    WHEN 'subject_id' THEN (row_data->>'subject_id')::uuid
+    WHEN 'assignment_id' THEN (
+      SELECT a.subject_id FROM public.assignments a
+      WHERE a.id = (row_data->>'assignment_id')::uuid
+    )
+    WHEN 'submission_id' THEN (
+      SELECT a.subject_id FROM public.assignment_submissions sub
+      JOIN public.assignments a ON a.id = sub.assignment_id
+      WHERE sub.id = (row_data->>'submission_id')::uuid
+    )
+  END;
+
+  IF public.is_subject_archived(subject) THEN
+    RAISE EXCEPTION 'This subject belongs to an archived term and is read-only';
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+CREATE TRIGGER prevent_archived_term_changes
+  BEFORE INSERT OR UPDATE OR DELETE ON public.enrollments
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_archived_term_changes('subject_id');
+
+CREATE TRIGGER prevent_archived_term_changes
+  BEFORE INSERT OR UPDATE OR DELETE ON public.study_materials
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_archived_term_changes('subject_id');
+
+CREATE TRIGGER prevent_archived_term_changes
+  BEFORE INSERT OR UPDATE OR DELETE ON public.assignments
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_archived_term_changes('subject_id');
+
+CREATE TRIGGER prevent_archived_term_changes
+  BEFORE INSERT OR UPDATE OR DELETE ON public.subject_staff
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_archived_term_changes('subject_id');
+
+CREATE TRIGGER prevent_archived_term_changes
+  BEFORE INSERT OR UPDATE OR DELETE ON public.grade_categories
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_archived_term_changes('subject_id');
+
+CREATE TRIGGER prevent_archived_term_changes
+  BEFORE INSERT OR UPDATE OR DELETE ON public.grade_scale_levels
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_archived_term_changes('subject_id');
+
+CREATE TRIGGER prevent_archived_term_changes
+  BEFORE INSERT OR UPDATE OR DELETE ON public.rubrics
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_archived_term_changes('subject_id');
+
+CREATE TRIGGER prevent_archived_term_changes
+  BEFORE INSERT OR UPDATE OR DELETE ON public.student_accommodations
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_archived_term_changes('subject_id');
+
+CREATE TRIGGER prevent_archived_term_changes
+  BEFORE INSERT OR UPDATE OR DELETE ON public.quiz_questions
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_archived_term_changes('subject_id');
+
+CREATE TRIGGER prevent_archived_term_changes
+  BEFORE INSERT OR UPDATE OR DELETE ON public.enrollment_invitations
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_archived_term_changes('subject_id');
+
+CREATE TRIGGER prevent_archived_term_changes
+  BEFORE INSERT OR UPDATE OR DELETE ON public.subject_join_codes
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_archived_term_changes('subject_id');
+
+CREATE TRIGGER prevent_archived_term_changes
+  BEFORE INSERT OR UPDATE OR DELETE ON public.assignment_submissions
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_archived_term_changes('assignment_id');
+
+CREATE TRIGGER prevent_archived_term_changes
+  BEFORE INSERT OR UPDATE OR DELETE ON public.assignment_extensions
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_archived_term_changes('assignment_id');
+
+CREATE TRIGGER prevent_archived_term_changes
+  BEFORE INSERT OR UPDATE OR DELETE ON public.assignment_questions
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_archived_term_changes('assignment_id');
+
+CREATE TRIGGER prevent_archived_term_changes
+  BEFORE INSERT OR UPDATE OR DELETE ON public.quiz_attempts
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_archived_term_changes('assignment_id');
+
+CREATE TRIGGER prevent_archived_term_changes
+  BEFORE INSERT OR UPDATE OR DELETE ON public.submission_rubric_scores
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_archived_term_changes('submission_id');
+
+-- Archiving is for terms that are over; unarchiving stays possible for corrections
+CREATE OR REPLACE FUNCTION public.validate_term_archive()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.archived_at IS NOT NULL AND OLD.archived_at IS NULL AND NEW.end_date >= current_date THEN
+    RAISE EXCEPTION 'Only finished terms can be archived';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_term_archive
+  BEFORE UPDATE OF archived_at ON public.terms
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_term_archive();
@@ -0,0 +1,436 @@
+-- Create course modules table. Modules are the ordered units (weeks, chapters) of a subject.
+CREATE TABLE public.course_modules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  subject_id UUID NOT NULL REFERENCES public.subjects(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT,
+  position INTEGER NOT NULL DEFAULT 0,
+  -- Hidden from students until this moment; NULL means released
+  release_at TIMESTAMPTZ,
+  -- Students must complete this module first
+  prerequisite_module_id UUID REFERENCES public.course_modules(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (prerequisite_module_id <> id)
+);
+
+CREATE INDEX idx_course_modules_subject_id ON public.course_modules(subject_id);
+
+CREATE TRIGGER update_course_modules_updated_at
+  BEFORE UPDATE ON public.course_modules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER prevent_archived_term_changes
+  BEFORE INSERT OR UPDATE OR DELETE ON public.course_modules
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_archived_term_changes('subject_id');
+
+-- Materials, assignments and quizzes can be placed in a module
+ALTER TABLE public.study_materials
+  ADD COLUMN module_id UUID REFERENCES public.course_modules(id) ON DELETE SET NULL;
+
+ALTER TABLE public.assignments
+  ADD COLUMN module_id UUID REFERENCES public.course_modules(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_study_materials_module_id ON public.study_materials(module_id);
+CREATE INDEX idx_assignments_module_id ON public.assignments(module_id);
+
+-- Create material completions table. Assignments count as completed once submitted.
+CREATE TABLE public.material_completions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  material_id UUID NOT NULL REFERENCES public.study_materials(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  completed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(material_id, student_id)
+);
+
+CREATE INDEX idx_material_completions_student_id ON public.material_completions(student_id);
+
+-- Modules and items must belong to the same subject, and prerequisites may not loop
+CREATE OR REPLACE FUNCTION public.validate_module_placement()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'course_modules' THEN
+    IF NEW.prerequisite_module_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM public.course_modules
+      WHERE id = NEW.prerequisite_module_id AND subject_id = NEW.subject_id
+    ) THEN
+      RAISE EXCEPTION 'The prerequisite must be a module of the same subject';
+    END IF;
+
+    IF NEW.prerequisite_module_id IS NOT NULL AND EXISTS (
+      WITH RECURSIVE chain AS (
+        SELECT id, prerequisite_module_id FROM public.course_modules WHERE id = NEW.prerequisite_module_id
+        UNION
+        SELECT m.id, m.prerequisite_module_id
+        FROM public.course_modules m
+        JOIN chain c ON m.id = c.prerequisite_module_id
+      )
+      SELECT 1 FROM chain WHERE id = NEW.id
+    ) THEN
+      RAISE EXCEPTION 'Module prerequisites cannot form a loop';
+    END IF;
+  ELSIF NEW.module_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.course_modules
+    WHERE id = NEW.module_id AND subject_id = NEW.subject_id
+  ) THEN
+    RAISE EXCEPTION 'The module must belong to the same subject';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_module_placement
+  BEFORE INSERT OR UPDATE OF prerequisite_module_id, subject_id ON public.course_modules
+  FOR EACH ROW EXECUTE FUNCTION public.validate_module_placement();
+
+CREATE TRIGGER validate_module_placement
+  BEFORE INSERT OR UPDATE OF module_id, subject_id ON public.study_materials
+  FOR EACH ROW EXECUTE FUNCTION public.validate_module_placement();
+
+CREATE TRIGGER validate_module_placement
+  BEFORE INSERT OR UPDATE OF module_id, subject_id ON public.assignments
+  FOR EACH ROW EXECUTE FUNCTION public.validate_module_placement();
+
+-- A module is complete when every active material is marked done and every active
+-- assignment or quiz has a submission. Empty modules are complete.
+CREATE OR REPLACE FUNCTION public.is_module_complete(_module_id UUID, _student_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM public.study_materials sm
+    WHERE sm.module_id = _module_id
+    AND sm.is_active = true
+    AND NOT EXISTS (
+      SELECT 1 FROM public.material_completions mc
+      WHERE mc.material_id = sm.id AND mc.student_id = _student_id
+    )
+  ) AND NOT EXISTS (
+    SELECT 1 FROM public.assignments a
+    WHERE a.module_id = _module_id
+    AND a.is_active = true
+    AND NOT EXISTS (
+      SELECT 1 FROM public.assignment_submissions sub
+      WHERE sub.assignment_id = a.id AND sub.student_id = _student_id
+    )
+  );
+$$;
+
+-- Released, and the prerequisite (if any) completed. Items outside a module are always unlocked.
+CREATE OR REPLACE FUNCTION public.is_module_unlocked(_module_id UUID, _student_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT _module_id IS NULL OR EXISTS (
+    SELECT 1 FROM public.course_modules m
+    WHERE m.id = _module_id
+    AND (m.release_at IS NULL OR m.release_at <= now())
+    AND (m.prerequisite_module_id IS NULL OR public.is_module_complete(m.prerequisite_module_id, _student_id))
+  );
+$$;
+
+-- Enable Row Level Security
+ALTER TABLE public.course_modules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.material_completions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can manage modules"
+ON public.course_modules
+FOR ALL
+USING (public.has_subject_access(subject_id, ARRAY['co_instructor', 'ta']::public.subject_staff_role[]));
+
+CREATE POLICY "Staff can view modules"
+ON public.course_modules
+FOR SELECT
+USING (public.has_subject_access(subject_id, ARRAY['co_instructor', 'ta', 'grader']::public.subject_staff_role[]));
+
+-- Students see the whole outline, including modules that are still locked
+CREATE POLICY "Students can view modules for enrolled subjects"
+ON public.course_modules
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.enrollments
+  WHERE enrollments.subject_id = course_modules.subject_id
+  AND enrollments.student_id = auth.uid()
+  AND enrollments.is_active = true
+));
+
+CREATE POLICY "Students can manage their own material completions"
+ON public.material_completions
+FOR ALL
+USING (student_id = auth.uid())
+WITH CHECK (
+  student_id = auth.uid() AND
+  EXISTS (SELECT 1 FROM public.study_materials WHERE study_materials.id = material_id)
+);
+
+CREATE POLICY "Staff can view material completions for their subjects"
+ON public.material_completions
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.study_materials sm
+  WHERE sm.id = material_completions.material_id
+  AND public.has_subject_access(sm.subject_id, ARRAY['co_instructor', 'ta', 'grader']::public.subject_staff_role[])
+));
+
+-- Locked items stay hidden from students, which also hides their files in storage
+DROP POLICY "Students can view materials for enrolled subjects" ON public.study_materials;
+
+CREATE POLICY "Students can view materials for enrolled subjects"
+ON public.study_materials
+FOR SELECT
+USING (
+  is_active = true AND
+  EXISTS (
+    SELECT 1 FROM public.enrollments
+    WHERE enrollments.subject_id = study_materials.subject_id
+    AND enrollments.student_id = auth.uid()
+    AND enrollments.is_active = true
+  ) AND
+  public.is_module_unlocked(module_id, auth.uid())
+);
+
+DROP POLICY "Students can view assignments for enrolled subjects" ON public.assignments;
+
+CREATE POLICY "Students can view assignments for enrolled subjects"
+ON public.assignments
+FOR SELECT
+USING (
+  is_active = true AND
+  EXISTS (
+    SELECT 1 FROM public.enrollments
+    WHERE enrollments.subject_id = assignments.subject_id
+    AND enrollments.student_id = auth.uid()
+    AND enrollments.is_active = true
+  ) AND
+  public.is_module_unlocked(module_id, auth.uid())
+);
+
+-- Quiz attempts and submissions go through definer functions, so check the lock here too
+CREATE OR REPLACE FUNCTION public.prevent_locked_module_work()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT public.is_module_unlocked(
+    (SELECT module_id FROM public.assignments WHERE id = NEW.assignment_id),
+    NEW.student_id
+  ) THEN
+    RAISE EXCEPTION 'This assignment belongs to a module that is still locked';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_locked_module_work
+  BEFORE INSERT ON public.quiz_attempts
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_locked_module_work();
+
+CREATE TRIGGER prevent_locked_module_work
+  BEFORE INSERT ON public.assignment_submissions
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_locked_module_work();
+
+-- The current student's progress through the modules of a subject
+CREATE OR REPLACE FUNCTION public.get_my_module_progress(_subject_id UUID)
+RETURNS TABLE (
+  module_id UUID,
+  total_items INTEGER,
+  completed_items INTEGER,
+  is_complete BOOLEAN,
+  is_unlocked BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT
+    m.id,
+    (
+      (SELECT count(*) FROM public.study_materials sm WHERE sm.module_id = m.id AND sm.is_active = true) +
+      (SELECT count(*) FROM public.assignments a WHERE a.module_id = m.id AND a.is_active = true)
+    )::integer,
+    (
+      (SELECT count(*) FROM public.study_materials sm
+        JOIN public.material_completions mc ON mc.material_id = sm.id AND mc.student_id = auth.uid()
+        WHERE sm.module_id = m.id AND sm.is_active = true) +
+      (SELECT count(*) FROM public.assignments a
+        WHERE a.module_id = m.id AND a.is_active = true
+        AND EXISTS (
+          SELECT 1 FROM public.assignment_submissions sub
+          WHERE sub.assignment_id = a.id AND sub.student_id = auth.uid()
+        ))
+    )::integer,
+    public.is_module_complete(m.id, auth.uid()),
+    public.is_module_unlocked(m.id, auth.uid())
+  FROM public.course_modules m
+  WHERE m.subject_id = _subject_id
+  AND EXISTS (
+    SELECT 1 FROM public.enrollments e
+    WHERE e.subject_id = _subject_id AND e.student_id = auth.uid() AND e.is_active = true
+  );
+$$;
+
+-- How many enrolled students have completed each module, for the staff view
+CREATE OR REPLACE FUNCTION public.get_module_completion(_subject_id UUID)
+RETURNS TABLE (
+  module_id UUID,
+  completed_students INTEGER,
+  enrolled_students INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT
+    m.id,
+    count(e.student_id) FILTER (WHERE public.is_module_complete(m.id, e.student_id))::integer,
+    count(e.student_id)::integer
+  FROM public.course_modules m
+  LEFT JOIN public.enrollments e ON e.subject_id = m.subject_id AND e.is_active = true
+  WHERE m.subject_id = _subject_id
+  AND public.has_subject_access(_subject_id, ARRAY['co_instructor', 'ta', 'grader']::public.subject_staff_role[])
+  GROUP BY m.id;
+$$;
+
+-- Duplicating a subject now copies its modules as well. Returns the new subject id
+-- and the module id mapping, which the client uses to place the copied materials.
+DROP FUNCTION public.duplicate_subject(UUID, TEXT, TEXT, UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.duplicate_subject(
+  _subject_id UUID,
+  _name TEXT,
+  _code TEXT,
+  _term_id UUID DEFAULT NULL,
+  _shift_days INTEGER DEFAULT 0
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  source public.subjects%ROWTYPE;
+  new_subject_id UUID;
+  new_id UUID;
+  new_criterion_id UUID;
+  shift INTERVAL := make_interval(days => COALESCE(_shift_days, 0));
+  category_map JSONB := '{}'::jsonb;
+  rubric_map JSONB := '{}'::jsonb;
+  question_map JSONB := '{}'::jsonb;
+  module_map JSONB := '{}'::jsonb;
+  module public.course_modules%ROWTYPE;
+  category public.grade_categories%ROWTYPE;
+  rubric public.rubrics%ROWTYPE;
+  criterion public.rubric_criteria%ROWTYPE;
+  question public.quiz_questions%ROWTYPE;
+  assignment public.assignments%ROWTYPE;
+BEGIN
+  SELECT * INTO source FROM public.subjects WHERE id = _subject_id;
+
+  IF NOT FOUND OR NOT public.has_subject_access(_subject_id, ARRAY['co_instructor']::public.subject_staff_role[]) THEN
+    RAISE EXCEPTION 'Subject not found';
+  END IF;
+
+  INSERT INTO public.subjects (
+    name, code, description, fee_amount, professor_id, institution_id, department_id, term_id,
+    is_invite_only, requires_approval, max_students
+  )
+  VALUES (
+    _name, _code, source.description, source.fee_amount, auth.uid(), source.institution_id, source.department_id, _term_id,
+    source.is_invite_only, source.requires_approval, source.max_students
+  )
+  RETURNING id INTO new_subject_id;
+
+  INSERT INTO public.grade_scale_levels (subject_id, letter, min_percentage)
+  SELECT new_subject_id, letter, min_percentage
+  FROM public.grade_scale_levels
+  WHERE subject_id = _subject_id;
+
+  FOR category IN SELECT * FROM public.grade_categories WHERE subject_id = _subject_id LOOP
+    INSERT INTO public.grade_categories (subject_id, name, weight, drop_lowest, position)
+    VALUES (new_subject_id, category.name, category.weight, category.drop_lowest, category.position)
+    RETURNING id INTO new_id;
+    category_map := category_map || jsonb_build_object(category.id::text, new_id);
+  END LOOP;
+
+  FOR rubric IN SELECT * FROM public.rubrics WHERE subject_id = _subject_id LOOP
+    INSERT INTO public.rubrics (subject_id, title, description, created_by)
+    VALUES (new_subject_id, rubric.title, rubric.description, auth.uid())
+    RETURNING id INTO new_id;
+    rubric_map := rubric_map || jsonb_build_object(rubric.id::text, new_id);
+
+    FOR criterion IN SELECT * FROM public.rubric_criteria WHERE rubric_id = rubric.id LOOP
+      INSERT INTO public.rubric_criteria (rubric_id, title, description, position)
+      VALUES (new_id, criterion.title, criterion.description, criterion.position)
+      RETURNING id INTO new_criterion_id;
+
+      INSERT INTO public.rubric_levels (criterion_id, label, description, points, position)
+      SELECT new_criterion_id, label, description, points, position
+      FROM public.rubric_levels
+      WHERE criterion_id = criterion.id;
+    END LOOP;
+  END LOOP;
+
+  FOR question IN SELECT * FROM public.quiz_questions WHERE subject_id = _subject_id LOOP
+    INSERT INTO public.quiz_questions (subject_id, type, prompt, options, correct_answer, tolerance, points, created_by)
+    VALUES (new_subject_id, question.type, question.prompt, question.options, question.correct_answer, question.tolerance, question.points, auth.uid())
+    RETURNING id INTO new_id;
+    question_map := question_map || jsonb_build_object(question.id::text, new_id);
+  END LOOP;
+
+  FOR module IN SELECT * FROM public.course_modules WHERE subject_id = _subject_id ORDER BY position LOOP
+    INSERT INTO public.course_modules (subject_id, title, description, position, release_at)
+    VALUES (new_subject_id, module.title, module.description, module.position, module.release_at + shift)
+    RETURNING id INTO new_id;
+    module_map := module_map || jsonb_build_object(module.id::text, new_id);
+  END LOOP;
+
+  -- Prerequisites can only be linked once every module exists
+  UPDATE public.course_modules m
+  SET prerequisite_module_id = (module_map->>source_module.prerequisite_module_id::text)::uuid
+  FROM public.course_modules source_module
+  WHERE source_module.subject_id = _subject_id
+  AND source_module.prerequisite_module_id IS NOT NULL
+  AND m.id = (module_map->>source_module.id::text)::uuid;
+
+  FOR assignment IN SELECT * FROM public.assignments WHERE subject_id = _subject_id AND is_active = true LOOP
+    INSERT INTO public.assignments (
+      subject_id, professor_id, title, description, max_points, kind,
+      due_date, available_from, available_until,
+      rubric_id, category_id, max_attempts, attempt_scoring,
+      late_grace_minutes, late_penalty_per_day, late_cutoff_days,
+      time_limit_minutes, shuffle_questions, module_id
+    )
+    VALUES (
+      new_subject_id, auth.uid(), assignment.title, assignment.description, assignment.max_points, assignment.kind,
+      assignment.due_date + shift, assignment.available_from + shift, assignment.available_until + shift,
+      (rubric_map->>assignment.rubric_id::text)::uuid, (category_map->>assignment.category_id::text)::uuid,
+      assignment.max_attempts, assignment.attempt_scoring,
+      assignment.late_grace_minutes, assignment.late_penalty_per_day, assignment.late_cutoff_days,
+      assignment.time_limit_minutes, assignment.shuffle_questions,
+      (module_map->>assignment.module_id::text)::uuid
+    )
+    RETURNING id INTO new_id;
+
+    INSERT INTO public.assignment_questions (assignment_id, question_id, position)
+    SELECT new_id, (question_map->>question_id::text)::uuid, position
+    FROM public.assignment_questions
+    WHERE assignment_id = assignment.id;
+  END LOOP;
+
+  RETURN jsonb_build_object('subject_id', new_subject_id, 'modules', module_map);
+END;
+$$;
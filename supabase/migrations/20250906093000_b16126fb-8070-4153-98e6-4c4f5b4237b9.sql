@@ -0,0 +1,281 @@
+-- Scheduled publishing. is_active stays the soft delete switch; these timestamps
+-- decide when students can see an item. NULL means no limit on that side.
+ALTER TABLE public.study_materials
+  ADD COLUMN publish_at TIMESTAMPTZ,
+  ADD COLUMN unpublish_at TIMESTAMPTZ,
+  ADD CONSTRAINT study_materials_publish_window_check CHECK (unpublish_at > publish_at);
+
+ALTER TABLE public.assignments
+  ADD COLUMN publish_at TIMESTAMPTZ,
+  ADD COLUMN unpublish_at TIMESTAMPTZ,
+  ADD CONSTRAINT assignments_publish_window_check CHECK (unpublish_at > publish_at);
+
+CREATE OR REPLACE FUNCTION public.is_published(_publish_at TIMESTAMPTZ, _unpublish_at TIMESTAMPTZ)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT (_publish_at IS NULL OR _publish_at <= now())
+    AND (_unpublish_at IS NULL OR _unpublish_at > now());
+$$;
+
+DROP POLICY "Students can view materials for enrolled subjects" ON public.study_materials;
+
+CREATE POLICY "Students can view materials for enrolled subjects"
+ON public.study_materials
+FOR SELECT
+USING (
+  is_active = true AND
+  public.is_published(publish_at, unpublish_at) AND
+  EXISTS (
+    SELECT 1 FROM public.enrollments
+    WHERE enrollments.subject_id = study_materials.subject_id
+    AND enrollments.student_id = auth.uid()
+    AND enrollments.is_active = true
+  ) AND
+  public.is_module_unlocked(module_id, auth.uid())
+);
+
+DROP POLICY "Students can view assignments for enrolled subjects" ON public.assignments;
+
+CREATE POLICY "Students can view assignments for enrolled subjects"
+ON public.assignments
+FOR SELECT
+USING (
+  is_active = true AND
+  public.is_published(publish_at, unpublish_at) AND
+  EXISTS (
+    SELECT 1 FROM public.enrollments
+    WHERE enrollments.subject_id = assignments.subject_id
+    AND enrollments.student_id = auth.uid()
+    AND enrollments.is_active = true
+  ) AND
+  public.is_module_unlocked(module_id, auth.uid())
+);
+
+-- Students cannot start or submit work on assignments they cannot see
+CREATE OR REPLACE FUNCTION public.prevent_locked_module_work()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  assignment public.assignments%ROWTYPE;
+BEGIN
+  SELECT * INTO assignment FROM public.assignments WHERE id = NEW.assignment_id;
+
+  IF NOT public.is_published(assignment.publish_at, assignment.unpublish_at) THEN
+    RAISE EXCEPTION 'This assignment is not published';
+  END IF;
+
+  IF NOT public.is_module_unlocked(assignment.module_id, NEW.student_id) THEN
+    RAISE EXCEPTION 'This assignment belongs to a module that is still locked';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Items that are not published yet, or no longer, do not count towards module completion
+CREATE OR REPLACE FUNCTION public.is_module_complete(_module_id UUID, _student_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM public.study_materials sm
+    WHERE sm.module_id = _module_id
+    AND sm.is_active = true
+    AND public.is_published(sm.publish_at, sm.unpublish_at)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.material_completions mc
+      WHERE mc.material_id = sm.id AND mc.student_id = _student_id
+    )
+  ) AND NOT EXISTS (
+    SELECT 1 FROM public.assignments a
+    WHERE a.module_id = _module_id
+    AND a.is_active = true
+    AND public.is_published(a.publish_at, a.unpublish_at)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.assignment_submissions sub
+      WHERE sub.assignment_id = a.id AND sub.student_id = _student_id
+    )
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_my_module_progress(_subject_id UUID)
+RETURNS TABLE (
+  module_id UUID,
+  total_items INTEGER,
+  completed_items INTEGER,
+  is_complete BOOLEAN,
+  is_unlocked BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT
+    m.id,
+    (
+      (SELECT count(*) FROM public.study_materials sm
+        WHERE sm.module_id = m.id AND sm.is_active = true
+        AND public.is_published(sm.publish_at, sm.unpublish_at)) +
+      (SELECT count(*) FROM public.assignments a
+        WHERE a.module_id = m.id AND a.is_active = true
+        AND public.is_published(a.publish_at, a.unpublish_at))
+    )::integer,
+    (
+      (SELECT count(*) FROM public.study_materials sm
+        JOIN public.material_completions mc ON mc.material_id = sm.id AND mc.student_id = auth.uid()
+        WHERE sm.module_id = m.id AND sm.is_active = true
+        AND public.is_published(sm.publish_at, sm.unpublish_at)) +
+      (SELECT count(*) FROM public.assignments a
+        WHERE a.module_id = m.id AND a.is_active = true
+        AND public.is_published(a.publish_at, a.unpublish_at)
+        AND EXISTS (
+          SELECT 1 FROM public.assignment_submissions sub
+          WHERE sub.assignment_id = a.id AND sub.student_id = auth.uid()
+        ))
+    )::integer,
+    public.is_module_complete(m.id, auth.uid()),
+    public.is_module_unlocked(m.id, auth.uid())
+  FROM public.course_modules m
+  WHERE m.subject_id = _subject_id
+  AND EXISTS (
+    SELECT 1 FROM public.enrollments e
+    WHERE e.subject_id = _subject_id AND e.student_id = auth.uid() AND e.is_active = true
+  );
+$$;
+
+-- Copies keep their publishing schedule, shifted like the due dates
+CREATE OR REPLACE FUNCTION public.duplicate_subject(
+  _subject_id UUID,
+  _name TEXT,
+  _code TEXT,
+  _term_id UUID DEFAULT NULL,
+  _shift_days INTEGER DEFAULT 0
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  source public.subjects%ROWTYPE;
+  new_subject_id UUID;
+  new_id UUID;
+  new_criterion_id UUID;
+  shift INTERVAL := make_interval(days => COALESCE(_shift_days, 0));
+  category_map JSONB := '{}'::jsonb;
+  rubric_map JSONB := '{}'::jsonb;
+  question_map JSONB := '{}'::jsonb;
+  module_map JSONB := '{}'::jsonb;
+  module public.course_modules%ROWTYPE;
+  category public.grade_categories%ROWTYPE;
+  rubric public.rubrics%ROWTYPE;
+  criterion public.rubric_criteria%ROWTYPE;
+  question public.quiz_questions%ROWTYPE;
+  assignment public.assignments%ROWTYPE;
+BEGIN
+  SELECT * INTO source FROM public.subjects WHERE id = _subject_id;
+
+  IF NOT FOUND OR NOT public.has_subject_access(_subject_id, ARRAY['co_instructor']::public.subject_staff_role[]) THEN
+    RAISE EXCEPTION 'Subject not found';
+  END IF;
+
+  INSERT INTO public.subjects (
+    name, code, description, fee_amount, professor_id, institution_id, department_id, term_id,
+    is_invite_only, requires_approval, max_students
+  )
+  VALUES (
+    _name, _code, source.description, source.fee_amount, auth.uid(), source.institution_id, source.department_id, _term_id,
+    source.is_invite_only, source.requires_approval, source.max_students
+  )
+  RETURNING id INTO new_subject_id;
+
+  INSERT INTO public.grade_scale_levels (subject_id, letter, min_percentage)
+  SELECT new_subject_id, letter, min_percentage
+  FROM public.grade_scale_levels
+  WHERE subject_id = _subject_id;
+
+  FOR category IN SELECT * FROM public.grade_categories WHERE subject_id = _subject_id LOOP
+    INSERT INTO public.grade_categories (subject_id, name, weight, drop_lowest, position)
+    VALUES (new_subject_id, category.name, category.weight, category.drop_lowest, category.position)
+    RETURNING id INTO new_id;
+    category_map := category_map || jsonb_build_object(category.id::text, new_id);
+  END LOOP;
+
+  FOR rubric IN SELECT * FROM public.rubrics WHERE subject_id = _subject_id LOOP
+    INSERT INTO public.rubrics (subject_id, title, description, created_by)
+    VALUES (new_subject_id, rubric.title, rubric.description, auth.uid())
+    RETURNING id INTO new_id;
+    rubric_map := rubric_map || jsonb_build_object(rubric.id::text, new_id);
+
+    FOR criterion IN SELECT * FROM public.rubric_criteria WHERE rubric_id = rubric.id LOOP
+      INSERT INTO public.rubric_criteria (rubric_id, title, description, position)
+      VALUES (new_id, criterion.title, criterion.description, criterion.position)
+      RETURNING id INTO new_criterion_id;
+
+      INSERT INTO public.rubric_levels (criterion_id, label, description, points, position)
+      SELECT new_criterion_id, label, description, points, position
+      FROM public.rubric_levels
+      WHERE criterion_id = criterion.id;
+    END LOOP;
+  END LOOP;
+
+  FOR question IN SELECT * FROM public.quiz_questions WHERE subject_id = _subject_id LOOP
+    INSERT INTO public.quiz_questions (subject_id, type, prompt, options, correct_answer, tolerance, points, created_by)
+    VALUES (new_subject_id, question.type, question.prompt, question.options, question.correct_answer, question.tolerance, question.points, auth.uid())
+    RETURNING id INTO new_id;
+    question_map := question_map || jsonb_build_object(question.id::text, new_id);
+  END LOOP;
+
+  FOR module IN SELECT * FROM public.course_modules WHERE subject_id = _subject_id ORDER BY position LOOP
+    INSERT INTO public.course_modules (subject_id, title, description, position, release_at)
+    VALUES (new_subject_id, module.title, module.description, module.position, module.release_at + shift)
+    RETURNING id INTO new_id;
+    module_map := module_map || jsonb_build_object(module.id::text, new_id);
+  END LOOP;
+
+  -- Prerequisites can only be linked once every module exists
+  UPDATE public.course_modules m
+  SET prerequisite_module_id = (module_map->>source_module.prerequisite_module_id::text)::uuid
+  FROM public.course_modules source_module
+  WHERE source_module.subject_id = _subject_id
+  AND source_module.prerequisite_module_id IS NOT NULL
+  AND m.id = (module_map->>source_module.id::text)::uuid;
+
+  FOR assignment IN SELECT * FROM public.assignments WHERE subject_id = _subject_id AND is_active = true LOOP
+    INSERT INTO public.assignments (
+      subject_id, professor_id, title, description, max_points, kind,
+      due_date, available_from, available_until,
+      rubric_id, category_id, max_attempts, attempt_scoring,
+      late_grace_minutes, late_penalty_per_day, late_cutoff_days,
+      time_limit_minutes, shuffle_questions, module_id,
+      publish_at, unpublish_at
+    )
+    VALUES (
+      new_subject_id, auth.uid(), assignment.title, assignment.description, assignment.max_points, assignment.kind,
+      assignment.due_date + shift, assignment.available_from + shift, assignment.available_until + shift,
+      (rubric_map->>assignment.rubric_id::text)::uuid, (category_map->>assignment.category_id::text)::uuid,
+      assignment.max_attempts, assignment.attempt_scoring,
+      assignment.late_grace_minutes, assignment.late_penalty_per_day, assignment.late_cutoff_days,
+      assignment.time_limit_minutes, assignment.shuffle_questions,
+      (module_map->>assignment.module_id::text)::uuid,
+      assignment.publish_at + shift, assignment.unpublish_at + shift
+    )
+    RETURNING id INTO new_id;
+
+    INSERT INTO public.assignment_questions (assignment_id, question_id, position)
+    SELECT new_id, (question_map->>question_id::text)::uuid, position
+    FROM public.assignment_questions
+    WHERE assignment_id = assignment.id;
+  END LOOP;
+
+  RETURN jsonb_build_object('subject_id', new_subject_id, 'modules', module_map);
+END;
+$$;
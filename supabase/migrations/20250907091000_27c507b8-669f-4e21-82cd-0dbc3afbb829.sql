@@ -0,0 +1,144 @@
+-- Material versioning. The study_materials row always describes the current file;
+-- replacing the file bumps the version and keeps every earlier file in storage.
+ALTER TABLE public.study_materials
+  ADD COLUMN version INTEGER NOT NULL DEFAULT 1,
+  -- What changed in the current version
+  ADD COLUMN change_note TEXT;
+
+-- Create material versions table
+CREATE TABLE public.material_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  material_id UUID NOT NULL REFERENCES public.study_materials(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  file_name TEXT NOT NULL,
+  file_path TEXT NOT NULL,
+  file_size BIGINT,
+  file_type TEXT,
+  change_note TEXT,
+  uploaded_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(material_id, version)
+);
+
+CREATE INDEX idx_material_versions_material_id ON public.material_versions(material_id);
+CREATE INDEX idx_material_versions_file_path ON public.material_versions(file_path);
+
+-- Existing materials start at version 1
+INSERT INTO public.material_versions (material_id, version, file_name, file_path, file_size, file_type, uploaded_by, created_at)
+SELECT id, 1, file_name, file_path, file_size, file_type, professor_id, created_at
+FROM public.study_materials;
+
+-- Create material downloads table. Downloads point at the version that was downloaded,
+-- which stays available after the material is replaced.
+CREATE TABLE public.material_downloads (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  material_id UUID NOT NULL,
+  version INTEGER NOT NULL,
+  student_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  downloaded_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  FOREIGN KEY (material_id, version) REFERENCES public.material_versions(material_id, version) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_material_downloads_material_id ON public.material_downloads(material_id);
+CREATE INDEX idx_material_downloads_student_id ON public.material_downloads(student_id);
+
+-- New materials start at version 1, and the version goes up whenever the file is replaced
+CREATE OR REPLACE FUNCTION public.bump_material_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.version := 1;
+  ELSIF NEW.file_path IS DISTINCT FROM OLD.file_path THEN
+    NEW.version := OLD.version + 1;
+  ELSE
+    NEW.version := OLD.version;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER bump_material_version
+  BEFORE INSERT OR UPDATE ON public.study_materials
+  FOR EACH ROW EXECUTE FUNCTION public.bump_material_version();
+
+-- Versions are only written here, so the history cannot be edited from the client
+CREATE OR REPLACE FUNCTION public.record_material_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.version <> OLD.version THEN
+    INSERT INTO public.material_versions (
+      material_id, version, file_name, file_path, file_size, file_type, change_note, uploaded_by
+    )
+    VALUES (
+      NEW.id, NEW.version, NEW.file_name, NEW.file_path, NEW.file_size, NEW.file_type, NEW.change_note, auth.uid()
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_material_version
+  AFTER INSERT OR UPDATE ON public.study_materials
+  FOR EACH ROW EXECUTE FUNCTION public.record_material_version();
+
+-- Enable RLS
+ALTER TABLE public.material_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.material_downloads ENABLE ROW LEVEL SECURITY;
+
+-- Anyone who can see a material can see its history
+CREATE POLICY "Users can view versions of visible materials"
+ON public.material_versions
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.study_materials sm
+  WHERE sm.id = material_versions.material_id
+));
+
+CREATE POLICY "Students can record their own downloads"
+ON public.material_downloads
+FOR INSERT
+WITH CHECK (
+  student_id = auth.uid() AND
+  EXISTS (
+    SELECT 1 FROM public.study_materials sm
+    JOIN public.enrollments e ON e.subject_id = sm.subject_id
+    WHERE sm.id = material_downloads.material_id
+    AND e.student_id = auth.uid()
+    AND e.is_active = true
+  )
+);
+
+CREATE POLICY "Students can view their own downloads"
+ON public.material_downloads
+FOR SELECT
+USING (student_id = auth.uid());
+
+CREATE POLICY "Staff can view downloads for their subjects"
+ON public.material_downloads
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.study_materials sm
+  WHERE sm.id = material_downloads.material_id
+  AND public.has_subject_access(sm.subject_id, ARRAY['co_instructor', 'ta', 'grader']::public.subject_staff_role[])
+));
+
+-- Earlier files stay downloadable for everyone who can see the material
+CREATE POLICY "Users can view previous versions of materials"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'study-materials' AND
+  EXISTS (
+    SELECT 1 FROM public.material_versions mv
+    WHERE mv.file_path = name
+  )
+);
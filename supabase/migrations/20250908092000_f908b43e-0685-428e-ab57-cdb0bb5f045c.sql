@@ -0,0 +1,56 @@
+-- Annotations graders place on pages of a submitted PDF
+CREATE TYPE public.annotation_kind AS ENUM ('highlight', 'comment', 'drawing');
+
+-- Create submission annotations table. Geometry is stored relative to the page (0 to 1),
+-- so annotations line up at any zoom level:
+--   highlight: {"x", "y", "width", "height"}
+--   comment:   {"x", "y"}
+--   drawing:   {"points": [[x, y], ...]}
+CREATE TABLE public.submission_annotations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  submission_id UUID NOT NULL REFERENCES public.assignment_submissions(id) ON DELETE CASCADE,
+  page INTEGER NOT NULL CHECK (page >= 1),
+  kind public.annotation_kind NOT NULL,
+  geometry JSONB NOT NULL,
+  comment TEXT,
+  color TEXT NOT NULL DEFAULT '#facc15',
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (kind <> 'comment' OR comment IS NOT NULL)
+);
+
+CREATE INDEX idx_submission_annotations_submission_id ON public.submission_annotations(submission_id);
+
+-- Enable RLS
+ALTER TABLE public.submission_annotations ENABLE ROW LEVEL SECURITY;
+
+-- Everyone who can grade annotates; students read them once their work is graded
+CREATE POLICY "Staff can manage annotations for their subjects"
+ON public.submission_annotations
+FOR ALL
+USING (EXISTS (
+  SELECT 1 FROM public.assignment_submissions sub
+  JOIN public.assignments a ON a.id = sub.assignment_id
+  WHERE sub.id = submission_annotations.submission_id
+  AND public.has_subject_access(a.subject_id, ARRAY['co_instructor', 'ta', 'grader']::public.subject_staff_role[])
+));
+
+CREATE POLICY "Students can view annotations on their graded submissions"
+ON public.submission_annotations
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.assignment_submissions sub
+  WHERE sub.id = submission_annotations.submission_id
+  AND sub.student_id = auth.uid()
+  AND sub.graded_at IS NOT NULL
+));
+
+CREATE TRIGGER update_submission_annotations_updated_at
+BEFORE UPDATE ON public.submission_annotations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER prevent_archived_term_changes
+  BEFORE INSERT OR UPDATE OR DELETE ON public.submission_annotations
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_archived_term_changes('submission_id');
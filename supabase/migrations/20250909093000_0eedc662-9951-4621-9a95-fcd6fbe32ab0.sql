@@ -0,0 +1,157 @@
+-- Create material views table. Opening a material's in-browser preview counts as a view;
+-- together with material_downloads this is the access log professors report on.
+CREATE TABLE public.material_views (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  material_id UUID NOT NULL,
+  version INTEGER NOT NULL,
+  student_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  viewed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  FOREIGN KEY (material_id, version) REFERENCES public.material_versions(material_id, version) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_material_views_material_id ON public.material_views(material_id);
+CREATE INDEX idx_material_views_student_id ON public.material_views(student_id);
+CREATE INDEX idx_material_downloads_downloaded_at ON public.material_downloads(downloaded_at);
+CREATE INDEX idx_material_views_viewed_at ON public.material_views(viewed_at);
+
+-- Enable RLS
+ALTER TABLE public.material_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Students can record their own views"
+ON public.material_views
+FOR INSERT
+WITH CHECK (
+  student_id = auth.uid() AND
+  EXISTS (
+    SELECT 1 FROM public.study_materials sm
+    JOIN public.enrollments e ON e.subject_id = sm.subject_id
+    WHERE sm.id = material_views.material_id
+    AND e.student_id = auth.uid()
+    AND e.is_active = true
+  )
+);
+
+CREATE POLICY "Students can view their own views"
+ON public.material_views
+FOR SELECT
+USING (student_id = auth.uid());
+
+CREATE POLICY "Staff can view material views for their subjects"
+ON public.material_views
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.study_materials sm
+  WHERE sm.id = material_views.material_id
+  AND public.has_subject_access(sm.subject_id, ARRAY['co_instructor', 'ta', 'grader']::public.subject_staff_role[])
+));
+
+-- How many enrolled students viewed, downloaded or did either with each active material
+CREATE OR REPLACE FUNCTION public.get_material_reach(_subject_id UUID)
+RETURNS TABLE (
+  material_id UUID,
+  viewed_students INTEGER,
+  downloaded_students INTEGER,
+  reached_students INTEGER,
+  enrolled_students INTEGER,
+  last_accessed_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  WITH enrolled AS (
+    SELECT e.student_id
+    FROM public.enrollments e
+    WHERE e.subject_id = _subject_id AND e.is_active = true
+  ),
+  events AS (
+    SELECT v.material_id, v.student_id, 'view' AS kind, v.viewed_at AS occurred_at
+    FROM public.material_views v
+    UNION ALL
+    SELECT d.material_id, d.student_id, 'download', d.downloaded_at
+    FROM public.material_downloads d
+  )
+  SELECT
+    sm.id,
+    count(DISTINCT ev.student_id) FILTER (WHERE ev.kind = 'view')::integer,
+    count(DISTINCT ev.student_id) FILTER (WHERE ev.kind = 'download')::integer,
+    count(DISTINCT ev.student_id)::integer,
+    (SELECT count(*) FROM enrolled)::integer,
+    max(ev.occurred_at)
+  FROM public.study_materials sm
+  LEFT JOIN events ev ON ev.material_id = sm.id AND ev.student_id IN (SELECT student_id FROM enrolled)
+  WHERE sm.subject_id = _subject_id
+  AND sm.is_active = true
+  AND public.has_subject_access(_subject_id, ARRAY['co_instructor', 'ta', 'grader']::public.subject_staff_role[])
+  GROUP BY sm.id;
+$$;
+
+-- Enrolled students who have not opened or downloaded any material of the subject
+CREATE OR REPLACE FUNCTION public.get_students_without_material_access(_subject_id UUID)
+RETURNS TABLE (
+  student_id UUID,
+  first_name TEXT,
+  last_name TEXT,
+  email TEXT,
+  enrolled_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT p.id, p.first_name, p.last_name, p.email, e.enrolled_at
+  FROM public.enrollments e
+  JOIN public.profiles p ON p.id = e.student_id
+  WHERE e.subject_id = _subject_id
+  AND e.is_active = true
+  AND public.has_subject_access(_subject_id, ARRAY['co_instructor', 'ta', 'grader']::public.subject_staff_role[])
+  AND NOT EXISTS (
+    SELECT 1 FROM public.material_views v
+    JOIN public.study_materials sm ON sm.id = v.material_id
+    WHERE sm.subject_id = _subject_id AND v.student_id = e.student_id
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM public.material_downloads d
+    JOIN public.study_materials sm ON sm.id = d.material_id
+    WHERE sm.subject_id = _subject_id AND d.student_id = e.student_id
+  )
+  ORDER BY p.last_name, p.first_name;
+$$;
+
+-- Daily views, downloads and distinct active students over the last _days days
+CREATE OR REPLACE FUNCTION public.get_material_access_trend(_subject_id UUID, _days INTEGER DEFAULT 30)
+RETURNS TABLE (
+  day DATE,
+  views INTEGER,
+  downloads INTEGER,
+  active_students INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  WITH events AS (
+    SELECT v.student_id, 'view' AS kind, v.viewed_at::date AS day
+    FROM public.material_views v
+    JOIN public.study_materials sm ON sm.id = v.material_id
+    WHERE sm.subject_id = _subject_id
+    UNION ALL
+    SELECT d.student_id, 'download', d.downloaded_at::date
+    FROM public.material_downloads d
+    JOIN public.study_materials sm ON sm.id = d.material_id
+    WHERE sm.subject_id = _subject_id
+  )
+  SELECT
+    days.day::date,
+    count(ev.kind) FILTER (WHERE ev.kind = 'view')::integer,
+    count(ev.kind) FILTER (WHERE ev.kind = 'download')::integer,
+    count(DISTINCT ev.student_id)::integer
+  FROM generate_series(current_date - (GREATEST(_days, 1) - 1), current_date, interval '1 day') AS days(day)
+  LEFT JOIN events ev ON ev.day = days.day::date
+  WHERE public.has_subject_access(_subject_id, ARRAY['co_instructor', 'ta', 'grader']::public.subject_staff_role[])
+  GROUP BY days.day
+  ORDER BY days.day;
+$$;
@@ -0,0 +1,186 @@
+-- Payments now come from a gateway: the client asks the create-payment-order edge function
+-- for an order, the student pays in the gateway's checkout, and the payment-webhook edge
+-- function records the payment once the gateway's signed callback is verified.
+CREATE TYPE public.payment_order_status AS ENUM ('created', 'paid', 'failed');
+
+-- Create payment orders table
+CREATE TABLE public.payment_orders (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  due_id UUID NOT NULL REFERENCES public.student_dues(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  amount INTEGER NOT NULL CHECK (amount > 0), -- Amount in cents/paisa
+  currency TEXT NOT NULL DEFAULT 'INR',
+  payment_method public.payment_method NOT NULL,
+  gateway TEXT NOT NULL, -- 'razorpay' or 'mock'
+  gateway_order_id TEXT NOT NULL,
+  status public.payment_order_status NOT NULL DEFAULT 'created',
+  failure_reason TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (gateway, gateway_order_id)
+);
+
+CREATE INDEX idx_payment_orders_due_id ON public.payment_orders(due_id);
+CREATE INDEX idx_payment_orders_student_id ON public.payment_orders(student_id);
+
+-- Every webhook delivery is kept, and the unique event id makes redelivered callbacks no-ops
+CREATE TABLE public.payment_webhook_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  gateway TEXT NOT NULL,
+  event_id TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  processed_at TIMESTAMPTZ,
+  error TEXT,
+  UNIQUE (gateway, event_id)
+);
+
+-- Link payments to the order they settle. A gateway payment can only be recorded once.
+ALTER TABLE public.payments
+  ADD COLUMN order_id UUID REFERENCES public.payment_orders(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX idx_payments_payment_gateway_id ON public.payments(payment_gateway_id)
+  WHERE payment_gateway_id IS NOT NULL;
+
+-- Enable RLS
+ALTER TABLE public.payment_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payment_webhook_events ENABLE ROW LEVEL SECURITY;
+
+-- Students no longer write payments; only the webhook (service role) and staff recording cash do
+DROP POLICY "Students can create their own payments" ON public.payments;
+
+CREATE POLICY "Students can view their own payment orders"
+ON public.payment_orders
+FOR SELECT
+USING (student_id = auth.uid());
+
+CREATE POLICY "Professors can view payment orders in their institution"
+ON public.payment_orders
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.student_dues
+  JOIN public.profiles ON profiles.id = auth.uid()
+  WHERE student_dues.id = payment_orders.due_id
+  AND student_dues.institution_id = profiles.institution_id
+  AND profiles.role = 'professor'::public.user_role
+));
+
+CREATE TRIGGER update_payment_orders_updated_at
+  BEFORE UPDATE ON public.payment_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Professors of the due's institution manage it
+CREATE OR REPLACE FUNCTION public.can_manage_due(_due_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.student_dues d
+    JOIN public.profiles p ON p.id = auth.uid()
+    WHERE d.id = _due_id
+    AND d.institution_id = p.institution_id
+    AND p.role = 'professor'::public.user_role
+  );
+$$;
+
+-- Settle an order from a verified gateway callback. Safe to call again for the same payment.
+CREATE OR REPLACE FUNCTION public.complete_payment_order(
+  _gateway TEXT,
+  _gateway_order_id TEXT,
+  _gateway_payment_id TEXT,
+  _amount INTEGER
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  payment_order public.payment_orders%ROWTYPE;
+  payment_id UUID;
+BEGIN
+  SELECT * INTO payment_order
+  FROM public.payment_orders
+  WHERE gateway = _gateway AND gateway_order_id = _gateway_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown payment order %', _gateway_order_id;
+  END IF;
+
+  SELECT id INTO payment_id FROM public.payments WHERE payment_gateway_id = _gateway_payment_id;
+  IF FOUND THEN
+    RETURN payment_id;
+  END IF;
+
+  IF _amount <> payment_order.amount THEN
+    RAISE EXCEPTION 'Captured amount % does not match order amount %', _amount, payment_order.amount;
+  END IF;
+
+  INSERT INTO public.payments (
+    student_id, due_id, amount, payment_method, payment_reference, payment_gateway_id, order_id
+  )
+  VALUES (
+    payment_order.student_id, payment_order.due_id, payment_order.amount, payment_order.payment_method,
+    payment_order.gateway_order_id, _gateway_payment_id, payment_order.id
+  )
+  RETURNING id INTO payment_id;
+
+  UPDATE public.payment_orders
+  SET status = 'paid', failure_reason = NULL
+  WHERE id = payment_order.id;
+
+  RETURN payment_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.fail_payment_order(_gateway TEXT, _gateway_order_id TEXT, _reason TEXT)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  UPDATE public.payment_orders
+  SET status = 'failed', failure_reason = _reason
+  WHERE gateway = _gateway AND gateway_order_id = _gateway_order_id AND status = 'created';
+$$;
+
+-- Only the edge functions, running with the service role, may settle orders
+REVOKE EXECUTE ON FUNCTION public.complete_payment_order(TEXT, TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.fail_payment_order(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_payment_order(TEXT, TEXT, TEXT, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.fail_payment_order(TEXT, TEXT, TEXT) TO service_role;
+
+-- Cash is handed over at the office, so it is recorded by a professor rather than a gateway
+CREATE OR REPLACE FUNCTION public.record_cash_payment(_due_id UUID, _amount INTEGER, _reference TEXT DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  due public.student_dues%ROWTYPE;
+  payment_id UUID;
+BEGIN
+  IF NOT public.can_manage_due(_due_id) THEN
+    RAISE EXCEPTION 'Not allowed to record payments for this due';
+  END IF;
+
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Payment amount must be positive';
+  END IF;
+
+  SELECT * INTO due FROM public.student_dues WHERE id = _due_id;
+
+  INSERT INTO public.payments (student_id, due_id, amount, payment_method, payment_reference)
+  VALUES (due.student_id, due.id, _amount, 'cash', NULLIF(trim(_reference), ''))
+  RETURNING id INTO payment_id;
+
+  RETURN payment_id;
+END;
+$$;
@@ -0,0 +1,97 @@
+-- Create due installments table. A due split into installments is still paid against the
+-- due itself; the schedule only says how much should be paid by when. The installment
+-- amounts add up to the due amount and the last installment date is the due date.
+CREATE TABLE public.due_installments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  due_id UUID NOT NULL REFERENCES public.student_dues(id) ON DELETE CASCADE,
+  sequence INTEGER NOT NULL CHECK (sequence >= 1),
+  amount INTEGER NOT NULL CHECK (amount > 0), -- Amount in cents/paisa
+  due_date DATE NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (due_id, sequence)
+);
+
+CREATE INDEX idx_due_installments_due_id ON public.due_installments(due_id);
+
+-- Enable RLS
+ALTER TABLE public.due_installments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Students can view installments of their own dues"
+ON public.due_installments
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.student_dues
+  WHERE student_dues.id = due_installments.due_id
+  AND student_dues.student_id = auth.uid()
+));
+
+CREATE POLICY "Professors can manage installments in their institution"
+ON public.due_installments
+FOR ALL
+USING (public.can_manage_due(due_id))
+WITH CHECK (public.can_manage_due(due_id));
+
+-- An installment is missed once its date has passed and the payments so far do not cover it
+-- together with every installment before it
+CREATE OR REPLACE FUNCTION public.has_missed_installment(_due_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.due_installments i
+    WHERE i.due_id = _due_id
+    AND i.due_date < CURRENT_DATE
+    AND (
+      SELECT COALESCE(SUM(earlier.amount), 0) FROM public.due_installments earlier
+      WHERE earlier.due_id = _due_id AND earlier.sequence <= i.sequence
+    ) > (
+      SELECT COALESCE(SUM(p.amount), 0) FROM public.payments p WHERE p.due_id = _due_id
+    )
+  );
+$$;
+
+-- Dues with a schedule are overdue as soon as an installment is missed
+CREATE OR REPLACE FUNCTION public.mark_overdue_payments()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  UPDATE public.student_dues
+  SET status = 'overdue', updated_at = now()
+  WHERE status = 'pending'
+    AND (due_date < CURRENT_DATE OR public.has_missed_installment(id));
+END;
+$$;
+
+-- Partial payments keep the due open. Once a payment catches up on the missed installments
+-- of a due that is not past its final date, it goes back to pending.
+CREATE OR REPLACE FUNCTION public.update_due_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  due public.student_dues%ROWTYPE;
+BEGIN
+  SELECT * INTO due FROM public.student_dues WHERE id = NEW.due_id;
+
+  IF (SELECT COALESCE(SUM(amount), 0) FROM public.payments WHERE due_id = NEW.due_id) >=
+     due.amount + public.calculate_late_fee(due.amount, due.due_date, due.late_fee_percentage) THEN
+    UPDATE public.student_dues
+    SET status = 'paid', updated_at = now()
+    WHERE id = NEW.due_id;
+  ELSIF due.status = 'overdue' AND due.due_date >= CURRENT_DATE AND NOT public.has_missed_installment(due.id) THEN
+    UPDATE public.student_dues
+    SET status = 'pending', updated_at = now()
+    WHERE id = NEW.due_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
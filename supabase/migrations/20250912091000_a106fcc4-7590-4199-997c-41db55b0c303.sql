@@ -0,0 +1,108 @@
+-- Late fees are configured per due: a flat fee, a percentage charged once or for every
+-- started week or month, an optional cap and a grace period. The old behaviour (the
+-- percentage once, from the day after the due date) is the default.
+CREATE TYPE public.late_fee_period AS ENUM ('once', 'week', 'month');
+
+ALTER TABLE public.student_dues
+  ADD COLUMN late_fee_period public.late_fee_period NOT NULL DEFAULT 'once',
+  ADD COLUMN late_fee_flat INTEGER NOT NULL DEFAULT 0 CHECK (late_fee_flat >= 0), -- Amount in cents/paisa
+  ADD COLUMN late_fee_cap INTEGER CHECK (late_fee_cap IS NULL OR late_fee_cap >= 0), -- Amount in cents/paisa
+  ADD COLUMN late_fee_grace_days INTEGER NOT NULL DEFAULT 0 CHECK (late_fee_grace_days >= 0);
+
+-- The single place late fees are computed; the payment trigger, the edge functions and the
+-- client all go through it, so they always agree and always use the database clock.
+DROP FUNCTION public.calculate_late_fee(INTEGER, DATE, DECIMAL);
+
+CREATE OR REPLACE FUNCTION public.calculate_late_fee(_due_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  due public.student_dues%ROWTYPE;
+  as_of DATE := CURRENT_DATE;
+  days_late INTEGER;
+  periods INTEGER;
+  fee NUMERIC;
+BEGIN
+  SELECT * INTO due FROM public.student_dues WHERE id = _due_id;
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  -- Triggers and the service role run without a user; everyone else needs access to the due
+  IF auth.uid() IS NOT NULL AND due.student_id <> auth.uid() AND NOT public.can_manage_due(_due_id) THEN
+    RAISE EXCEPTION 'Not allowed to view this due';
+  END IF;
+
+  -- A settled due stops accruing on the day it was paid off
+  IF due.status = 'paid' THEN
+    SELECT COALESCE(max(paid_at)::date, CURRENT_DATE) INTO as_of FROM public.payments WHERE due_id = _due_id;
+  END IF;
+
+  -- Paying within the grace period costs nothing; after it, periods count from the due date
+  days_late := as_of - due.due_date;
+  IF days_late <= due.late_fee_grace_days THEN
+    RETURN 0;
+  END IF;
+
+  periods := CASE due.late_fee_period
+    WHEN 'week' THEN CEIL(days_late / 7.0)
+    WHEN 'month' THEN CEIL(days_late / 30.0)
+    ELSE 1
+  END;
+
+  fee := due.late_fee_flat + FLOOR(due.amount * COALESCE(due.late_fee_percentage, 0) / 100) * periods;
+  IF due.late_fee_cap IS NOT NULL THEN
+    fee := LEAST(fee, due.late_fee_cap);
+  END IF;
+
+  RETURN fee::INTEGER;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.calculate_late_fee(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.calculate_late_fee(UUID) TO authenticated, service_role;
+
+-- Late fees for several dues at once; row level security limits it to dues the caller can see
+CREATE OR REPLACE FUNCTION public.get_late_fees(_due_ids UUID[])
+RETURNS TABLE (
+  due_id UUID,
+  late_fee INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT d.id, public.calculate_late_fee(d.id)
+  FROM public.student_dues d
+  WHERE d.id = ANY(_due_ids);
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_due_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  due public.student_dues%ROWTYPE;
+BEGIN
+  SELECT * INTO due FROM public.student_dues WHERE id = NEW.due_id;
+
+  IF (SELECT COALESCE(SUM(amount), 0) FROM public.payments WHERE due_id = NEW.due_id) >=
+     due.amount + public.calculate_late_fee(due.id) THEN
+    UPDATE public.student_dues
+    SET status = 'paid', updated_at = now()
+    WHERE id = NEW.due_id;
+  ELSIF due.status = 'overdue' AND due.due_date >= CURRENT_DATE AND NOT public.has_missed_installment(due.id) THEN
+    UPDATE public.student_dues
+    SET status = 'pending', updated_at = now()
+    WHERE id = NEW.due_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,214 @@
+-- Adjustments reduce what a student owes on a due without touching the due itself. They form
+-- an append-only ledger: every entry records why it was granted and who approved it.
+-- Late fee waivers reduce the late fee; every other kind reduces the due amount.
+CREATE TYPE public.due_adjustment_kind AS ENUM (
+  'scholarship',
+  'late_fee_waiver',
+  'sibling_discount',
+  'early_bird_discount'
+);
+
+CREATE TABLE public.due_adjustments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  due_id UUID NOT NULL REFERENCES public.student_dues(id) ON DELETE CASCADE,
+  kind public.due_adjustment_kind NOT NULL,
+  amount INTEGER CHECK (amount > 0), -- Amount in cents/paisa
+  percentage DECIMAL(5,2) CHECK (percentage > 0 AND percentage <= 100),
+  reason TEXT NOT NULL CHECK (length(trim(reason)) > 0),
+  approved_by UUID NOT NULL DEFAULT auth.uid() REFERENCES public.profiles(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- Either a fixed amount or a percentage, never both
+  CHECK ((amount IS NULL) <> (percentage IS NULL))
+);
+
+CREATE INDEX idx_due_adjustments_due_id ON public.due_adjustments(due_id);
+
+-- Enable RLS
+ALTER TABLE public.due_adjustments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Students can view adjustments to their own dues"
+ON public.due_adjustments
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.student_dues
+  WHERE student_dues.id = due_adjustments.due_id
+  AND student_dues.student_id = auth.uid()
+));
+
+CREATE POLICY "Professors can view adjustments in their institution"
+ON public.due_adjustments
+FOR SELECT
+USING (public.can_manage_due(due_id));
+
+-- No update or delete policies: entries are never edited once approved
+CREATE POLICY "Professors can approve adjustments to open dues in their institution"
+ON public.due_adjustments
+FOR INSERT
+WITH CHECK (
+  public.can_manage_due(due_id)
+  AND approved_by = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.student_dues
+    WHERE student_dues.id = due_adjustments.due_id
+    AND student_dues.status <> 'paid'
+  )
+);
+
+-- How much of the due amount has been taken off by scholarships and discounts
+CREATE OR REPLACE FUNCTION public.calculate_due_discount(_due_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  due public.student_dues%ROWTYPE;
+  discount NUMERIC;
+BEGIN
+  SELECT * INTO due FROM public.student_dues WHERE id = _due_id;
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND due.student_id <> auth.uid() AND NOT public.can_manage_due(_due_id) THEN
+    RAISE EXCEPTION 'Not allowed to view this due';
+  END IF;
+
+  SELECT COALESCE(SUM(COALESCE(a.amount, FLOOR(due.amount * a.percentage / 100))), 0) INTO discount
+  FROM public.due_adjustments a
+  WHERE a.due_id = _due_id AND a.kind <> 'late_fee_waiver';
+
+  RETURN LEAST(discount, due.amount)::INTEGER;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.calculate_due_discount(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.calculate_due_discount(UUID) TO authenticated, service_role;
+
+-- Same schedule as before, less any waivers. Percentage waivers are taken from the full fee.
+CREATE OR REPLACE FUNCTION public.calculate_late_fee(_due_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  due public.student_dues%ROWTYPE;
+  as_of DATE := CURRENT_DATE;
+  days_late INTEGER;
+  periods INTEGER;
+  fee NUMERIC;
+  waived NUMERIC;
+BEGIN
+  SELECT * INTO due FROM public.student_dues WHERE id = _due_id;
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  -- Triggers and the service role run without a user; everyone else needs access to the due
+  IF auth.uid() IS NOT NULL AND due.student_id <> auth.uid() AND NOT public.can_manage_due(_due_id) THEN
+    RAISE EXCEPTION 'Not allowed to view this due';
+  END IF;
+
+  -- A settled due stops accruing on the day it was paid off
+  IF due.status = 'paid' THEN
+    SELECT COALESCE(max(paid_at)::date, CURRENT_DATE) INTO as_of FROM public.payments WHERE due_id = _due_id;
+  END IF;
+
+  -- Paying within the grace period costs nothing; after it, periods count from the due date
+  days_late := as_of - due.due_date;
+  IF days_late <= due.late_fee_grace_days THEN
+    RETURN 0;
+  END IF;
+
+  periods := CASE due.late_fee_period
+    WHEN 'week' THEN CEIL(days_late / 7.0)
+    WHEN 'month' THEN CEIL(days_late / 30.0)
+    ELSE 1
+  END;
+
+  fee := due.late_fee_flat + FLOOR(due.amount * COALESCE(due.late_fee_percentage, 0) / 100) * periods;
+  IF due.late_fee_cap IS NOT NULL THEN
+    fee := LEAST(fee, due.late_fee_cap);
+  END IF;
+
+  SELECT COALESCE(SUM(COALESCE(a.amount, FLOOR(fee * a.percentage / 100))), 0) INTO waived
+  FROM public.due_adjustments a
+  WHERE a.due_id = _due_id AND a.kind = 'late_fee_waiver';
+
+  RETURN GREATEST(fee - waived, 0)::INTEGER;
+END;
+$$;
+
+-- Replaces get_late_fees: everything the client needs to show a balance, for several dues at once
+DROP FUNCTION public.get_late_fees(UUID[]);
+
+CREATE OR REPLACE FUNCTION public.get_due_charges(_due_ids UUID[])
+RETURNS TABLE (
+  due_id UUID,
+  late_fee INTEGER,
+  discount INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT d.id, public.calculate_late_fee(d.id), public.calculate_due_discount(d.id)
+  FROM public.student_dues d
+  WHERE d.id = ANY(_due_ids);
+$$;
+
+-- Discounts count towards installments the same way payments do
+CREATE OR REPLACE FUNCTION public.has_missed_installment(_due_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.due_installments i
+    WHERE i.due_id = _due_id
+    AND i.due_date < CURRENT_DATE
+    AND (
+      SELECT COALESCE(SUM(earlier.amount), 0) FROM public.due_installments earlier
+      WHERE earlier.due_id = _due_id AND earlier.sequence <= i.sequence
+    ) > (
+      SELECT COALESCE(SUM(p.amount), 0) FROM public.payments p WHERE p.due_id = _due_id
+    ) + public.calculate_due_discount(_due_id)
+  );
+$$;
+
+-- Runs after payments and after adjustments, so a discount that covers the rest settles the due
+CREATE OR REPLACE FUNCTION public.update_due_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  due public.student_dues%ROWTYPE;
+BEGIN
+  SELECT * INTO due FROM public.student_dues WHERE id = NEW.due_id;
+
+  IF (SELECT COALESCE(SUM(amount), 0) FROM public.payments WHERE due_id = NEW.due_id) >=
+     due.amount - public.calculate_due_discount(due.id) + public.calculate_late_fee(due.id) THEN
+    UPDATE public.student_dues
+    SET status = 'paid', updated_at = now()
+    WHERE id = NEW.due_id;
+  ELSIF due.status = 'overdue' AND due.due_date >= CURRENT_DATE AND NOT public.has_missed_installment(due.id) THEN
+    UPDATE public.student_dues
+    SET status = 'pending', updated_at = now()
+    WHERE id = NEW.due_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER update_due_status_on_adjustment
+  AFTER INSERT ON public.due_adjustments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_due_status();
@@ -0,0 +1,255 @@
+-- Payments are never edited or deleted. Money going back the other way is recorded as a
+-- reversal against the payment: a refund (full or partial), a chargeback raised by the
+-- student's bank, or a void of a cash entry recorded by mistake. The reversals are the audit
+-- trail; the status on the payment summarises them.
+CREATE TYPE public.payment_entry_status AS ENUM ('completed', 'partially_refunded', 'refunded', 'charged_back', 'voided');
+CREATE TYPE public.payment_reversal_kind AS ENUM ('refund', 'chargeback', 'void');
+
+ALTER TABLE public.payments
+  ADD COLUMN status public.payment_entry_status NOT NULL DEFAULT 'completed';
+
+CREATE TABLE public.payment_reversals (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  payment_id UUID NOT NULL REFERENCES public.payments(id) ON DELETE CASCADE,
+  due_id UUID NOT NULL REFERENCES public.student_dues(id) ON DELETE CASCADE,
+  kind public.payment_reversal_kind NOT NULL,
+  amount INTEGER NOT NULL CHECK (amount > 0), -- Amount in cents/paisa
+  reason TEXT NOT NULL CHECK (length(trim(reason)) > 0),
+  -- The gateway's refund or dispute id, when the gateway was involved
+  gateway_reference TEXT,
+  -- Null when the gateway reported it, e.g. a chargeback arriving through the webhook
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_payment_reversals_payment_id ON public.payment_reversals(payment_id);
+CREATE INDEX idx_payment_reversals_due_id ON public.payment_reversals(due_id);
+CREATE UNIQUE INDEX idx_payment_reversals_gateway_reference ON public.payment_reversals(gateway_reference)
+  WHERE gateway_reference IS NOT NULL;
+
+-- Enable RLS
+ALTER TABLE public.payment_reversals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Students can view reversals of their own payments"
+ON public.payment_reversals
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.payments
+  WHERE payments.id = payment_reversals.payment_id
+  AND payments.student_id = auth.uid()
+));
+
+CREATE POLICY "Professors can view reversals in their institution"
+ON public.payment_reversals
+FOR SELECT
+USING (public.can_manage_due(due_id));
+
+-- Reversals are only written through the functions below
+
+-- What has actually been received for a due: payments less everything reversed
+CREATE OR REPLACE FUNCTION public.calculate_net_paid(_due_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  due public.student_dues%ROWTYPE;
+BEGIN
+  SELECT * INTO due FROM public.student_dues WHERE id = _due_id;
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND due.student_id <> auth.uid() AND NOT public.can_manage_due(_due_id) THEN
+    RAISE EXCEPTION 'Not allowed to view this due';
+  END IF;
+
+  RETURN (SELECT COALESCE(SUM(amount), 0) FROM public.payments WHERE due_id = _due_id)
+    - (SELECT COALESCE(SUM(amount), 0) FROM public.payment_reversals WHERE due_id = _due_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.calculate_net_paid(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.calculate_net_paid(UUID) TO authenticated, service_role;
+
+-- Adds the net amount paid, so clients no longer sum payments themselves
+DROP FUNCTION public.get_due_charges(UUID[]);
+
+CREATE OR REPLACE FUNCTION public.get_due_charges(_due_ids UUID[])
+RETURNS TABLE (
+  due_id UUID,
+  late_fee INTEGER,
+  discount INTEGER,
+  paid INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT d.id, public.calculate_late_fee(d.id), public.calculate_due_discount(d.id), public.calculate_net_paid(d.id)
+  FROM public.student_dues d
+  WHERE d.id = ANY(_due_ids);
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_missed_installment(_due_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.due_installments i
+    WHERE i.due_id = _due_id
+    AND i.due_date < CURRENT_DATE
+    AND (
+      SELECT COALESCE(SUM(earlier.amount), 0) FROM public.due_installments earlier
+      WHERE earlier.due_id = _due_id AND earlier.sequence <= i.sequence
+    ) > public.calculate_net_paid(_due_id) + public.calculate_due_discount(_due_id)
+  );
+$$;
+
+-- Runs after payments, adjustments and reversals. A due is paid while what was received covers
+-- what is owed; once a reversal leaves it short it reopens as pending or overdue, and an overdue
+-- due that has caught up on its installments before its final date goes back to pending.
+CREATE OR REPLACE FUNCTION public.update_due_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  due public.student_dues%ROWTYPE;
+  new_status public.payment_status;
+BEGIN
+  SELECT * INTO due FROM public.student_dues WHERE id = NEW.due_id;
+
+  IF public.calculate_net_paid(due.id) >=
+     due.amount - public.calculate_due_discount(due.id) + public.calculate_late_fee(due.id) THEN
+    new_status := 'paid';
+  ELSIF due.status IN ('paid', 'overdue') THEN
+    new_status := CASE
+      WHEN due.due_date < CURRENT_DATE OR public.has_missed_installment(due.id) THEN 'overdue'
+      ELSE 'pending'
+    END;
+  ELSE
+    new_status := due.status;
+  END IF;
+
+  IF new_status <> due.status THEN
+    UPDATE public.student_dues
+    SET status = new_status, updated_at = now()
+    WHERE id = NEW.due_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER update_due_status_on_reversal
+  AFTER INSERT ON public.payment_reversals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_due_status();
+
+-- The single place reversals are written. Safe to call again with the same gateway reference.
+CREATE OR REPLACE FUNCTION public.record_payment_reversal(
+  _payment_id UUID,
+  _kind public.payment_reversal_kind,
+  _amount INTEGER,
+  _reason TEXT,
+  _gateway_reference TEXT DEFAULT NULL,
+  _created_by UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  payment public.payments%ROWTYPE;
+  reversed INTEGER;
+  reversal_id UUID;
+BEGIN
+  IF _gateway_reference IS NOT NULL THEN
+    SELECT id INTO reversal_id FROM public.payment_reversals WHERE gateway_reference = _gateway_reference;
+    IF FOUND THEN
+      RETURN reversal_id;
+    END IF;
+  END IF;
+
+  SELECT * INTO payment FROM public.payments WHERE id = _payment_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown payment %', _payment_id;
+  END IF;
+
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Reversal amount must be positive';
+  END IF;
+  IF _reason IS NULL OR trim(_reason) = '' THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO reversed FROM public.payment_reversals WHERE payment_id = _payment_id;
+
+  IF _kind = 'void' AND (payment.payment_method <> 'cash' OR reversed > 0 OR _amount <> payment.amount) THEN
+    RAISE EXCEPTION 'Only untouched cash entries can be voided, and only in full';
+  END IF;
+  IF _amount > payment.amount - reversed THEN
+    RAISE EXCEPTION 'Only % of this payment is left to reverse', payment.amount - reversed;
+  END IF;
+
+  INSERT INTO public.payment_reversals (payment_id, due_id, kind, amount, reason, gateway_reference, created_by)
+  VALUES (payment.id, payment.due_id, _kind, _amount, trim(_reason), _gateway_reference, _created_by)
+  RETURNING id INTO reversal_id;
+
+  UPDATE public.payments
+  SET status = CASE
+    WHEN _kind = 'void' THEN 'voided'
+    WHEN _kind = 'chargeback' THEN 'charged_back'
+    WHEN reversed + _amount >= payment.amount THEN 'refunded'
+    ELSE 'partially_refunded'
+  END::public.payment_entry_status
+  WHERE id = payment.id;
+
+  RETURN reversal_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_payment_reversal(UUID, public.payment_reversal_kind, INTEGER, TEXT, TEXT, UUID)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_payment_reversal(UUID, public.payment_reversal_kind, INTEGER, TEXT, TEXT, UUID)
+  TO service_role;
+
+-- Staff void mistaken cash entries and record chargebacks the bank tells them about. Refunds
+-- move money, so they go through the refund-payment edge function instead.
+CREATE OR REPLACE FUNCTION public.reverse_payment(
+  _payment_id UUID,
+  _kind public.payment_reversal_kind,
+  _amount INTEGER,
+  _reason TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  payment public.payments%ROWTYPE;
+BEGIN
+  SELECT * INTO payment FROM public.payments WHERE id = _payment_id;
+  IF NOT FOUND OR NOT public.can_manage_due(payment.due_id) THEN
+    RAISE EXCEPTION 'Not allowed to reverse this payment';
+  END IF;
+
+  IF _kind = 'refund' THEN
+    RAISE EXCEPTION 'Refunds are issued through the refund-payment function';
+  END IF;
+  IF _kind = 'chargeback' AND payment.payment_method = 'cash' THEN
+    RAISE EXCEPTION 'Cash payments cannot be charged back';
+  END IF;
+
+  RETURN public.record_payment_reversal(_payment_id, _kind, _amount, _reason, NULL, auth.uid());
+END;
+$$;
@@ -0,0 +1,83 @@
+-- A due has at most one checkout in progress, so two orders opened side by side can no longer
+-- both be captured against the same balance. Older duplicates are closed before the index exists.
+UPDATE public.payment_orders o
+SET status = 'failed', failure_reason = 'Superseded by a newer order'
+WHERE o.status = 'created'
+AND EXISTS (
+  SELECT 1 FROM public.payment_orders newer
+  WHERE newer.due_id = o.due_id
+  AND newer.status = 'created'
+  AND newer.created_at > o.created_at
+);
+
+CREATE UNIQUE INDEX idx_payment_orders_open_due ON public.payment_orders(due_id) WHERE status = 'created';
+
+-- Set when a capture could not simply be applied, e.g. it arrived after the due was settled
+-- some other way. The payment is still recorded; staff decide whether to refund the excess.
+ALTER TABLE public.payment_orders
+  ADD COLUMN review_reason TEXT;
+
+-- Settle an order from a verified gateway callback. Safe to call again for the same payment.
+-- The due is locked while the balance is re-checked, so captures arriving together are applied
+-- one after the other. Money the gateway has taken is always recorded, even past the balance.
+CREATE OR REPLACE FUNCTION public.complete_payment_order(
+  _gateway TEXT,
+  _gateway_order_id TEXT,
+  _gateway_payment_id TEXT,
+  _amount INTEGER
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  payment_order public.payment_orders%ROWTYPE;
+  due public.student_dues%ROWTYPE;
+  outstanding INTEGER;
+  payment_id UUID;
+BEGIN
+  SELECT * INTO payment_order
+  FROM public.payment_orders
+  WHERE gateway = _gateway AND gateway_order_id = _gateway_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown payment order %', _gateway_order_id;
+  END IF;
+
+  SELECT id INTO payment_id FROM public.payments WHERE payment_gateway_id = _gateway_payment_id;
+  IF FOUND THEN
+    RETURN payment_id;
+  END IF;
+
+  IF _amount <> payment_order.amount THEN
+    RAISE EXCEPTION 'Captured amount % does not match order amount %', _amount, payment_order.amount;
+  END IF;
+
+  SELECT * INTO due FROM public.student_dues WHERE id = payment_order.due_id FOR UPDATE;
+
+  outstanding := due.amount - public.calculate_due_discount(due.id) + public.calculate_late_fee(due.id)
+    - public.calculate_net_paid(due.id);
+
+  INSERT INTO public.payments (
+    student_id, due_id, amount, payment_method, payment_reference, payment_gateway_id, order_id
+  )
+  VALUES (
+    payment_order.student_id, payment_order.due_id, payment_order.amount, payment_order.payment_method,
+    payment_order.gateway_order_id, _gateway_payment_id, payment_order.id
+  )
+  RETURNING id INTO payment_id;
+
+  UPDATE public.payment_orders
+  SET status = 'paid',
+    failure_reason = NULL,
+    review_reason = CASE
+      WHEN payment_order.amount > outstanding THEN
+        format('Captured %s paisa against an outstanding balance of %s paisa', payment_order.amount, GREATEST(outstanding, 0))
+    END
+  WHERE id = payment_order.id;
+
+  RETURN payment_id;
+END;
+$$;
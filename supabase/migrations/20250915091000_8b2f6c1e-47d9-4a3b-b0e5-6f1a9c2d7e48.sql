@@ -0,0 +1,18 @@
+-- Deactivated and pending professors lose the right to manage dues, like every other
+-- institution scoped permission
+CREATE OR REPLACE FUNCTION public.can_manage_due(_due_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.student_dues d
+    JOIN public.profiles p ON p.id = auth.uid()
+    WHERE d.id = _due_id
+    AND d.institution_id = p.institution_id
+    AND p.role = 'professor'::public.user_role
+    AND p.status = 'active'::public.account_status
+  );
+$$;
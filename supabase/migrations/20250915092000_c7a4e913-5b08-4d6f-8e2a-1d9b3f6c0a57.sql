@@ -0,0 +1,26 @@
+-- Subject rights follow the account: a deactivated or pending owner or staff member keeps
+-- their rows but no longer has access through them
+CREATE OR REPLACE FUNCTION public.has_subject_access(_subject_id UUID, _roles public.subject_staff_role[])
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = auth.uid()
+    AND status = 'active'::public.account_status
+  ) AND (
+    EXISTS (
+      SELECT 1 FROM public.subjects
+      WHERE id = _subject_id
+      AND professor_id = auth.uid()
+    ) OR EXISTS (
+      SELECT 1 FROM public.subject_staff
+      WHERE subject_id = _subject_id
+      AND user_id = auth.uid()
+      AND role = ANY(_roles)
+    )
+  );
+$$;
@@ -0,0 +1,136 @@
+-- Refunds are written before the gateway is asked to send money back. A pending refund holds
+-- its share of the payment, so refunds issued side by side cannot exceed what was paid. Once
+-- the gateway accepts, the refund completes and counts against the due; if it refuses, the
+-- pending row is removed again. A pending row left behind means the gateway outcome is unknown
+-- and has to be checked by hand.
+CREATE TYPE public.payment_reversal_status AS ENUM ('pending', 'completed');
+
+ALTER TABLE public.payment_reversals
+  ADD COLUMN status public.payment_reversal_status NOT NULL DEFAULT 'completed';
+
+-- Only completed reversals reduce what was received
+CREATE OR REPLACE FUNCTION public.calculate_net_paid(_due_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  due public.student_dues%ROWTYPE;
+BEGIN
+  SELECT * INTO due FROM public.student_dues WHERE id = _due_id;
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND due.student_id <> auth.uid() AND NOT public.can_manage_due(_due_id) THEN
+    RAISE EXCEPTION 'Not allowed to view this due';
+  END IF;
+
+  RETURN (SELECT COALESCE(SUM(amount), 0) FROM public.payments WHERE due_id = _due_id)
+    - (SELECT COALESCE(SUM(amount), 0) FROM public.payment_reversals WHERE due_id = _due_id AND status = 'completed');
+END;
+$$;
+
+-- A refund completing changes the due just like a new reversal does
+CREATE TRIGGER update_due_status_on_reversal_completion
+  AFTER UPDATE OF status ON public.payment_reversals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_due_status();
+
+-- Reserves a refund against the payment, under a lock on the payment row
+CREATE OR REPLACE FUNCTION public.start_refund(
+  _payment_id UUID,
+  _amount INTEGER,
+  _reason TEXT,
+  _created_by UUID
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  payment public.payments%ROWTYPE;
+  reversed INTEGER;
+  reversal_id UUID;
+BEGIN
+  SELECT * INTO payment FROM public.payments WHERE id = _payment_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown payment %', _payment_id;
+  END IF;
+
+  IF payment.status IN ('voided', 'charged_back') THEN
+    RAISE EXCEPTION 'This payment has been %', replace(payment.status::TEXT, '_', ' ');
+  END IF;
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Reversal amount must be positive';
+  END IF;
+  IF _reason IS NULL OR trim(_reason) = '' THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+
+  -- Pending refunds count, so the gateway is never asked for more than was paid
+  SELECT COALESCE(SUM(amount), 0) INTO reversed FROM public.payment_reversals WHERE payment_id = _payment_id;
+  IF _amount > payment.amount - reversed THEN
+    RAISE EXCEPTION 'Only % of this payment is left to reverse', payment.amount - reversed;
+  END IF;
+
+  INSERT INTO public.payment_reversals (payment_id, due_id, kind, amount, reason, created_by, status)
+  VALUES (payment.id, payment.due_id, 'refund', _amount, trim(_reason), _created_by, 'pending')
+  RETURNING id INTO reversal_id;
+
+  RETURN reversal_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.complete_refund(_reversal_id UUID, _gateway_reference TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  reversal public.payment_reversals%ROWTYPE;
+  payment public.payments%ROWTYPE;
+  refunded INTEGER;
+BEGIN
+  SELECT * INTO reversal FROM public.payment_reversals WHERE id = _reversal_id;
+  IF NOT FOUND OR reversal.status <> 'pending' THEN
+    RAISE EXCEPTION 'No pending refund %', _reversal_id;
+  END IF;
+
+  SELECT * INTO payment FROM public.payments WHERE id = reversal.payment_id FOR UPDATE;
+
+  UPDATE public.payment_reversals
+  SET status = 'completed', gateway_reference = _gateway_reference
+  WHERE id = _reversal_id;
+
+  SELECT COALESCE(SUM(amount), 0) INTO refunded
+  FROM public.payment_reversals
+  WHERE payment_id = payment.id AND status = 'completed';
+
+  UPDATE public.payments
+  SET status = CASE WHEN refunded >= payment.amount THEN 'refunded' ELSE 'partially_refunded' END::public.payment_entry_status
+  WHERE id = payment.id
+  AND status NOT IN ('voided', 'charged_back');
+END;
+$$;
+
+-- The gateway refused the refund, so nothing went back and the reservation is released
+CREATE OR REPLACE FUNCTION public.cancel_refund(_reversal_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  DELETE FROM public.payment_reversals WHERE id = _reversal_id AND status = 'pending';
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.start_refund(UUID, INTEGER, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_refund(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.cancel_refund(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.start_refund(UUID, INTEGER, TEXT, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.complete_refund(UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.cancel_refund(UUID) TO service_role;
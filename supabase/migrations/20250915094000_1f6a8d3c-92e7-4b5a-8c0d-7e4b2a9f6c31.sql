@@ -0,0 +1,4 @@
+-- Set when an event was acknowledged but only partly applied, e.g. a dispute for more than
+-- was left on the payment. The gateway stops retrying; staff follow up by hand.
+ALTER TABLE public.payment_webhook_events
+  ADD COLUMN review_reason TEXT;
@@ -0,0 +1,80 @@
+-- Deleting a profile or institution cascades into subjects and their rows, including those of
+-- archived terms. Those cascades are foreign key actions, which run one trigger level down:
+-- a delete, or an update that only clears columns (ON DELETE SET NULL), is let through there.
+-- Direct changes to archived rows are still refused.
+CREATE OR REPLACE FUNCTION public.is_cascaded_removal(_old JSONB, _new JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT pg_trigger_depth() > 1 AND (
+    _new IS NULL OR NOT EXISTS (
+      SELECT 1 FROM jsonb_each(_new) n
+      WHERE n.value <> 'null'::jsonb
+      AND n.value IS DISTINCT FROM _old->n.key
+    )
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.prevent_archived_subject_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' AND public.is_cascaded_removal(
+    to_jsonb(OLD), CASE WHEN TG_OP = 'UPDATE' THEN to_jsonb(NEW) END
+  ) THEN
+    RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+  END IF;
+
+  IF TG_OP <> 'INSERT' AND public.is_term_archived(OLD.term_id) THEN
+    RAISE EXCEPTION 'This subject belongs to an archived term and is read-only';
+  END IF;
+
+  IF TG_OP <> 'DELETE' AND public.is_term_archived(NEW.term_id) THEN
+    RAISE EXCEPTION 'Subjects cannot be added to an archived term';
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.prevent_archived_term_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  row_data JSONB;
+  subject UUID;
+BEGIN
+  IF TG_OP <> 'INSERT' AND public.is_cascaded_removal(
+    to_jsonb(OLD), CASE WHEN TG_OP = 'UPDATE' THEN to_jsonb(NEW) END
+  ) THEN
+    RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+  END IF;
+
+  row_data := to_jsonb(CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END);
+
+  subject := CASE TG_ARGV[0]
+    WHEN 'subject_id' THEN (row_data->>'subject_id')::uuid
+    WHEN 'assignment_id' THEN (
+      SELECT a.subject_id FROM public.assignments a
+      WHERE a.id = (row_data->>'assignment_id')::uuid
+    )
+    WHEN 'submission_id' THEN (
+      SELECT a.subject_id FROM public.assignment_submissions sub
+      JOIN public.assignments a ON a.id = sub.assignment_id
+      WHERE sub.id = (row_data->>'submission_id')::uuid
+    )
+  END;
+
+  IF public.is_subject_archived(subject) THEN
+    RAISE EXCEPTION 'This subject belongs to an archived term and is read-only';
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
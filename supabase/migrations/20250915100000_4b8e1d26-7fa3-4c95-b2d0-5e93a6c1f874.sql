@@ -0,0 +1,3 @@
+-- Invitations are accepted by the profile trigger on sign up. Called directly, the function
+-- would accept them on behalf of whichever user id it was given.
+REVOKE EXECUTE ON FUNCTION public.accept_pending_invitations(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,108 @@
+-- Roster imports only enroll active student accounts. Pending applicants and deactivated
+-- accounts are reported instead of enrolled, and so are emails registered in another
+-- institution, which could never accept an invitation from this one.
+
+-- Profiles of other institutions are hidden from the caller, so this looks past row level security
+CREATE OR REPLACE FUNCTION public.is_email_registered(_email TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT public.get_user_institution_id() IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE lower(email) = lower(trim(_email))
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_email_registered(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.is_email_registered(TEXT) TO authenticated;
+
+-- Classify roster emails for the import preview:
+--   enrolled           already actively enrolled in the subject
+--   matched            active student account in the caller's institution, ready to enroll
+--   not_student        account exists but is not a student
+--   inactive           account exists but is pending approval or deactivated
+--   other_institution  account belongs to another institution
+--   invited            no account yet, an invitation is already pending
+--   no_account         no account yet, an invitation will be created
+-- Runs with the caller's rights, so only visible profiles can match.
+CREATE OR REPLACE FUNCTION public.preview_enrollment_import(_subject_id UUID, _emails TEXT[])
+RETURNS TABLE(email TEXT, student_id UUID, first_name TEXT, last_name TEXT, status TEXT)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT
+    e.email,
+    p.id,
+    p.first_name,
+    p.last_name,
+    CASE
+      WHEN p.id IS NULL AND public.is_email_registered(e.email) THEN 'other_institution'
+      WHEN p.id IS NULL AND i.id IS NOT NULL THEN 'invited'
+      WHEN p.id IS NULL THEN 'no_account'
+      WHEN p.status <> 'active'::public.account_status THEN 'inactive'
+      WHEN p.role <> 'student'::public.user_role THEN 'not_student'
+      WHEN en.is_active = true THEN 'enrolled'
+      ELSE 'matched'
+    END
+  FROM (SELECT DISTINCT lower(trim(unnest(_emails))) AS email) e
+  LEFT JOIN public.profiles p
+    ON lower(p.email) = e.email
+    AND p.institution_id = public.get_user_institution_id()
+  LEFT JOIN public.enrollments en
+    ON en.student_id = p.id AND en.subject_id = _subject_id
+  LEFT JOIN public.enrollment_invitations i
+    ON i.subject_id = _subject_id AND i.email = e.email AND i.accepted_at IS NULL;
+$$;
+
+CREATE OR REPLACE FUNCTION public.import_enrollments(_subject_id UUID, _rows JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  enrolled_count INTEGER;
+  invited_count INTEGER;
+BEGIN
+  WITH roster AS (
+    SELECT DISTINCT ON (lower(trim(r->>'email')))
+      lower(trim(r->>'email')) AS email,
+      NULLIF(trim(r->>'first_name'), '') AS first_name,
+      NULLIF(trim(r->>'last_name'), '') AS last_name
+    FROM jsonb_array_elements(COALESCE(_rows, '[]'::jsonb)) r
+    WHERE COALESCE(trim(r->>'email'), '') <> ''
+  ),
+  matched AS (
+    SELECT p.id AS student_id
+    FROM roster
+    JOIN public.profiles p
+      ON lower(p.email) = roster.email
+      AND p.institution_id = public.get_user_institution_id()
+      AND p.role = 'student'::public.user_role
+      AND p.status = 'active'::public.account_status
+  ),
+  enrolled AS (
+    INSERT INTO public.enrollments AS en (student_id, subject_id)
+    SELECT student_id, _subject_id FROM matched
+    ON CONFLICT (student_id, subject_id) DO UPDATE
+      SET status = 'approved'::public.enrollment_status, is_active = true, enrolled_at = now()
+      WHERE en.is_active IS DISTINCT FROM true
+    RETURNING 1
+  ),
+  invited AS (
+    INSERT INTO public.enrollment_invitations (subject_id, email, first_name, last_name, invited_by)
+    SELECT _subject_id, roster.email, roster.first_name, roster.last_name, auth.uid()
+    FROM roster
+    WHERE NOT public.is_email_registered(roster.email)
+    ON CONFLICT (subject_id, email) DO NOTHING
+    RETURNING 1
+  )
+  SELECT (SELECT COUNT(*) FROM enrolled), (SELECT COUNT(*) FROM invited)
+  INTO enrolled_count, invited_count;
+
+  RETURN jsonb_build_object('enrolled', enrolled_count, 'invited', invited_count);
+END;
+$$;
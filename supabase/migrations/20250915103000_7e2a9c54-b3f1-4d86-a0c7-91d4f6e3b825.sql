@@ -0,0 +1,182 @@
+-- Adjustments are requested by one professor and approved or rejected by another; only
+-- approved entries reduce what is owed. The ledger stays append-only: a review sets the
+-- outcome once and nothing else about an entry ever changes. Entries made before this were
+-- approved by whoever created them and are kept as approved.
+CREATE TYPE public.due_adjustment_status AS ENUM ('pending', 'approved', 'rejected');
+
+ALTER TABLE public.due_adjustments
+  ADD COLUMN status public.due_adjustment_status NOT NULL DEFAULT 'approved',
+  ADD COLUMN requested_by UUID REFERENCES public.profiles(id),
+  ADD COLUMN reviewed_at TIMESTAMPTZ;
+
+ALTER TABLE public.due_adjustments RENAME COLUMN approved_by TO reviewed_by;
+ALTER TABLE public.due_adjustments RENAME CONSTRAINT due_adjustments_approved_by_fkey TO due_adjustments_reviewed_by_fkey;
+
+UPDATE public.due_adjustments SET requested_by = reviewed_by, reviewed_at = created_at;
+
+ALTER TABLE public.due_adjustments
+  ALTER COLUMN status SET DEFAULT 'pending',
+  ALTER COLUMN requested_by SET NOT NULL,
+  ALTER COLUMN requested_by SET DEFAULT auth.uid(),
+  ALTER COLUMN reviewed_by DROP NOT NULL,
+  ALTER COLUMN reviewed_by DROP DEFAULT,
+  ADD CHECK ((status = 'pending') = (reviewed_by IS NULL AND reviewed_at IS NULL));
+
+-- Nobody approves their own request. Older self-approved entries are left as they are.
+ALTER TABLE public.due_adjustments
+  ADD CONSTRAINT due_adjustments_separate_reviewer CHECK (reviewed_by IS DISTINCT FROM requested_by) NOT VALID;
+
+-- Students only see what was granted
+DROP POLICY "Students can view adjustments to their own dues" ON public.due_adjustments;
+
+CREATE POLICY "Students can view approved adjustments to their own dues"
+ON public.due_adjustments
+FOR SELECT
+USING (
+  status = 'approved'
+  AND EXISTS (
+    SELECT 1 FROM public.student_dues
+    WHERE student_dues.id = due_adjustments.due_id
+    AND student_dues.student_id = auth.uid()
+  )
+);
+
+DROP POLICY "Professors can approve adjustments to open dues in their institution" ON public.due_adjustments;
+
+-- Reviews go through review_due_adjustment; there are still no update or delete policies
+CREATE POLICY "Professors can request adjustments to open dues in their institution"
+ON public.due_adjustments
+FOR INSERT
+WITH CHECK (
+  public.can_manage_due(due_id)
+  AND requested_by = auth.uid()
+  AND status = 'pending'
+  AND EXISTS (
+    SELECT 1 FROM public.student_dues
+    WHERE student_dues.id = due_adjustments.due_id
+    AND student_dues.status <> 'paid'
+  )
+);
+
+CREATE OR REPLACE FUNCTION public.review_due_adjustment(_adjustment_id UUID, _approve BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  adjustment public.due_adjustments%ROWTYPE;
+BEGIN
+  SELECT * INTO adjustment FROM public.due_adjustments WHERE id = _adjustment_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.can_manage_due(adjustment.due_id) THEN
+    RAISE EXCEPTION 'Adjustment not found';
+  END IF;
+  IF adjustment.status <> 'pending' THEN
+    RAISE EXCEPTION 'This adjustment has already been %', adjustment.status;
+  END IF;
+  IF adjustment.requested_by = auth.uid() THEN
+    RAISE EXCEPTION 'Adjustments must be reviewed by someone other than the requester';
+  END IF;
+
+  UPDATE public.due_adjustments
+  SET status = CASE WHEN _approve THEN 'approved' ELSE 'rejected' END::public.due_adjustment_status,
+    reviewed_by = auth.uid(),
+    reviewed_at = now()
+  WHERE id = _adjustment_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.review_due_adjustment(UUID, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.review_due_adjustment(UUID, BOOLEAN) TO authenticated;
+
+-- Only approved scholarships and discounts count
+CREATE OR REPLACE FUNCTION public.calculate_due_discount(_due_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  due public.student_dues%ROWTYPE;
+  discount NUMERIC;
+BEGIN
+  SELECT * INTO due FROM public.student_dues WHERE id = _due_id;
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND due.student_id <> auth.uid() AND NOT public.can_manage_due(_due_id) THEN
+    RAISE EXCEPTION 'Not allowed to view this due';
+  END IF;
+
+  SELECT COALESCE(SUM(COALESCE(a.amount, FLOOR(due.amount * a.percentage / 100))), 0) INTO discount
+  FROM public.due_adjustments a
+  WHERE a.due_id = _due_id AND a.kind <> 'late_fee_waiver' AND a.status = 'approved';
+
+  RETURN LEAST(discount, due.amount)::INTEGER;
+END;
+$$;
+
+-- Only approved waivers count
+CREATE OR REPLACE FUNCTION public.calculate_late_fee(_due_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  due public.student_dues%ROWTYPE;
+  as_of DATE := CURRENT_DATE;
+  days_late INTEGER;
+  periods INTEGER;
+  fee NUMERIC;
+  waived NUMERIC;
+BEGIN
+  SELECT * INTO due FROM public.student_dues WHERE id = _due_id;
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  -- Triggers and the service role run without a user; everyone else needs access to the due
+  IF auth.uid() IS NOT NULL AND due.student_id <> auth.uid() AND NOT public.can_manage_due(_due_id) THEN
+    RAISE EXCEPTION 'Not allowed to view this due';
+  END IF;
+
+  -- A settled due stops accruing on the day it was paid off
+  IF due.status = 'paid' THEN
+    SELECT COALESCE(max(paid_at)::date, CURRENT_DATE) INTO as_of FROM public.payments WHERE due_id = _due_id;
+  END IF;
+
+  -- Paying within the grace period costs nothing; after it, periods count from the due date
+  days_late := as_of - due.due_date;
+  IF days_late <= due.late_fee_grace_days THEN
+    RETURN 0;
+  END IF;
+
+  periods := CASE due.late_fee_period
+    WHEN 'week' THEN CEIL(days_late / 7.0)
+    WHEN 'month' THEN CEIL(days_late / 30.0)
+    ELSE 1
+  END;
+
+  fee := due.late_fee_flat + FLOOR(due.amount * COALESCE(due.late_fee_percentage, 0) / 100) * periods;
+  IF due.late_fee_cap IS NOT NULL THEN
+    fee := LEAST(fee, due.late_fee_cap);
+  END IF;
+
+  SELECT COALESCE(SUM(COALESCE(a.amount, FLOOR(fee * a.percentage / 100))), 0) INTO waived
+  FROM public.due_adjustments a
+  WHERE a.due_id = _due_id AND a.kind = 'late_fee_waiver' AND a.status = 'approved';
+
+  RETURN GREATEST(fee - waived, 0)::INTEGER;
+END;
+$$;
+
+-- An approval changes the balance just like a new payment does
+CREATE TRIGGER update_due_status_on_adjustment_review
+  AFTER UPDATE OF status ON public.due_adjustments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_due_status();
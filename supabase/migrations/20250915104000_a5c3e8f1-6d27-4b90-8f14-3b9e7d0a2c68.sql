@@ -0,0 +1,83 @@
+-- A schedule must add up to its due. The check runs when the transaction commits, so a due
+-- and its installments can be written one after the other, and a due without installments
+-- has no schedule at all.
+CREATE OR REPLACE FUNCTION public.check_installment_total()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  checked_due_id UUID;
+  due_amount INTEGER;
+  scheduled INTEGER;
+BEGIN
+  -- Separate statements, since the two tables' rows have different columns
+  IF TG_TABLE_NAME = 'student_dues' THEN
+    checked_due_id := NEW.id;
+  ELSIF TG_OP = 'DELETE' THEN
+    checked_due_id := OLD.due_id;
+  ELSE
+    checked_due_id := NEW.due_id;
+  END IF;
+
+  SELECT amount INTO due_amount FROM public.student_dues WHERE id = checked_due_id;
+  -- The due itself was deleted
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT SUM(amount) INTO scheduled FROM public.due_installments WHERE due_id = checked_due_id;
+  IF scheduled IS NOT NULL AND scheduled <> due_amount THEN
+    RAISE EXCEPTION 'Installments add up to % but the due is %', scheduled, due_amount;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE CONSTRAINT TRIGGER check_installment_total
+  AFTER INSERT OR UPDATE OR DELETE ON public.due_installments
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_installment_total();
+
+CREATE CONSTRAINT TRIGGER check_installment_total
+  AFTER UPDATE OF amount ON public.student_dues
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_installment_total();
+
+-- Creates a due together with its installment schedule in one transaction.
+-- _installments: [{ "amount", "due_date" }] in order, amounts in paisa; empty for no schedule.
+-- Runs with the caller's rights, so the due and installment policies decide who may create it.
+CREATE OR REPLACE FUNCTION public.create_due(_due JSONB, _installments JSONB DEFAULT '[]'::jsonb)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  new_due_id UUID;
+BEGIN
+  IF jsonb_array_length(COALESCE(_installments, '[]'::jsonb)) = 1 THEN
+    RAISE EXCEPTION 'A schedule needs at least two installments';
+  END IF;
+
+  INSERT INTO public.student_dues (
+    student_id, subject_id, description, amount, due_date,
+    late_fee_percentage, late_fee_period, late_fee_flat, late_fee_cap, late_fee_grace_days
+  )
+  SELECT
+    d.student_id, d.subject_id, d.description, d.amount, d.due_date,
+    COALESCE(d.late_fee_percentage, 0), COALESCE(d.late_fee_period, 'once'), COALESCE(d.late_fee_flat, 0),
+    d.late_fee_cap, COALESCE(d.late_fee_grace_days, 0)
+  FROM jsonb_populate_record(NULL::public.student_dues, _due) d
+  RETURNING id INTO new_due_id;
+
+  INSERT INTO public.due_installments (due_id, sequence, amount, due_date)
+  SELECT new_due_id, i.sequence, (i.installment->>'amount')::INTEGER, (i.installment->>'due_date')::DATE
+  FROM jsonb_array_elements(COALESCE(_installments, '[]'::jsonb)) WITH ORDINALITY AS i(installment, sequence);
+
+  RETURN new_due_id;
+END;
+$$;
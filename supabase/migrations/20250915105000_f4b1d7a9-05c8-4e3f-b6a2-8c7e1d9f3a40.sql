@@ -0,0 +1,10 @@
+-- Pending and deactivated accounts have no institution through get_user_institution_id(),
+-- so checking the institution here blocked them from editing their own name. Role, status
+-- and institution are guarded by protect_profile_privileges, which only admins get past.
+DROP POLICY "Users can update their own profile" ON public.profiles;
+
+CREATE POLICY "Users can update their own profile"
+ON public.profiles
+FOR UPDATE
+USING (auth.uid() = id)
+WITH CHECK (auth.uid() = id);
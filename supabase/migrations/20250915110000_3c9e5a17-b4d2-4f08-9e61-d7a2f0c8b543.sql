@@ -0,0 +1,113 @@
+-- Capacity used to be checked only when students enrolled themselves. Staff enrollments and
+-- roster imports now go through the same check, which lives on the table so no path can
+-- skip it. The import preview reports the rows that no longer fit instead of failing.
+
+-- Runs after enforce_enrollment_status (triggers fire by name), so is_active is final here
+CREATE OR REPLACE FUNCTION public.enforce_subject_capacity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  capacity INTEGER;
+BEGIN
+  IF NEW.is_active IS DISTINCT FROM true
+    OR (TG_OP = 'UPDATE' AND OLD.is_active = true AND OLD.subject_id = NEW.subject_id) THEN
+    RETURN NEW;
+  END IF;
+
+  -- An upsert fires the insert trigger even when the student already holds the seat
+  IF TG_OP = 'INSERT' AND EXISTS (
+    SELECT 1 FROM public.enrollments
+    WHERE student_id = NEW.student_id AND subject_id = NEW.subject_id AND is_active = true
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Serialize seat allocation per subject
+  SELECT max_students INTO capacity FROM public.subjects WHERE id = NEW.subject_id FOR UPDATE;
+  IF capacity IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- A pending invitation for this student already holds their seat
+  IF EXISTS (
+    SELECT 1
+    FROM public.enrollment_invitations i
+    JOIN public.profiles p ON i.email = lower(trim(p.email))
+    WHERE p.id = NEW.student_id
+    AND i.subject_id = NEW.subject_id
+    AND i.accepted_at IS NULL
+    AND (i.expires_at IS NULL OR i.expires_at > now())
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF public.subject_seats_taken(NEW.subject_id) >= capacity THEN
+    RAISE EXCEPTION 'This subject is full';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_subject_capacity
+  BEFORE INSERT OR UPDATE ON public.enrollments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_subject_capacity();
+
+-- Same as before, plus:
+--   full  would be enrolled or invited, but no seat is left for it
+-- Seats go to the rows in the order the emails were given.
+CREATE OR REPLACE FUNCTION public.preview_enrollment_import(_subject_id UUID, _emails TEXT[])
+RETURNS TABLE(email TEXT, student_id UUID, first_name TEXT, last_name TEXT, status TEXT)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  WITH classified AS (
+    SELECT
+      e.email,
+      e.position,
+      p.id,
+      p.first_name,
+      p.last_name,
+      CASE
+        WHEN p.id IS NULL AND public.is_email_registered(e.email) THEN 'other_institution'
+        WHEN p.id IS NULL AND i.id IS NOT NULL THEN 'invited'
+        WHEN p.id IS NULL THEN 'no_account'
+        WHEN p.status <> 'active'::public.account_status THEN 'inactive'
+        WHEN p.role <> 'student'::public.user_role THEN 'not_student'
+        WHEN en.is_active = true THEN 'enrolled'
+        ELSE 'matched'
+      END AS status
+    FROM (
+      SELECT lower(trim(u.email)) AS email, MIN(u.position) AS position
+      FROM unnest(_emails) WITH ORDINALITY AS u(email, position)
+      GROUP BY 1
+    ) e
+    LEFT JOIN public.profiles p
+      ON lower(p.email) = e.email
+      AND p.institution_id = public.get_user_institution_id()
+    LEFT JOIN public.enrollments en
+      ON en.student_id = p.id AND en.subject_id = _subject_id
+    LEFT JOIN public.enrollment_invitations i
+      ON i.subject_id = _subject_id AND i.email = e.email AND i.accepted_at IS NULL
+  )
+  SELECT
+    c.email,
+    c.id,
+    c.first_name,
+    c.last_name,
+    CASE
+      WHEN c.status IN ('matched', 'no_account')
+        AND s.max_students IS NOT NULL
+        AND ROW_NUMBER() OVER (PARTITION BY c.status IN ('matched', 'no_account') ORDER BY c.position)
+          > s.max_students - public.subject_seats_taken(_subject_id)
+      THEN 'full'
+      ELSE c.status
+    END
+  FROM classified c
+  LEFT JOIN public.subjects s ON s.id = _subject_id;
+$$;
@@ -0,0 +1,91 @@
+-- Invitations were accepted as soon as the auth user was created, before anyone proved they
+-- own the invited address. They are now accepted once the email is confirmed, and matched
+-- against the confirmed auth email rather than the profile email, which users can edit.
+
+-- Same as before, without accepting invitations
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  requested public.user_role;
+BEGIN
+  requested := CASE NEW.raw_user_meta_data->>'role'
+    WHEN 'professor' THEN 'professor'::public.user_role
+    ELSE NULL
+  END;
+
+  INSERT INTO public.profiles (id, email, first_name, last_name, role, status, requested_role, institution_id)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    NEW.raw_user_meta_data->>'first_name',
+    NEW.raw_user_meta_data->>'last_name',
+    'student'::public.user_role,
+    CASE WHEN requested IS NULL THEN 'active'::public.account_status ELSE 'pending'::public.account_status END,
+    requested,
+    NULLIF(NEW.raw_user_meta_data->>'institution_id', '')::uuid
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- Same as before, but only for a confirmed email address
+CREATE OR REPLACE FUNCTION public.accept_pending_invitations(_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  invitation RECORD;
+BEGIN
+  FOR invitation IN
+    SELECT i.id, i.subject_id
+    FROM public.enrollment_invitations i
+    JOIN public.subjects s ON s.id = i.subject_id
+    JOIN public.profiles p ON p.id = _user_id
+    JOIN auth.users u ON u.id = _user_id
+    WHERE i.email = lower(trim(u.email))
+    AND u.email_confirmed_at IS NOT NULL
+    AND i.accepted_at IS NULL
+    AND (i.expires_at IS NULL OR i.expires_at > now())
+    AND s.is_active = true
+    AND s.institution_id = p.institution_id
+    AND p.role = 'student'::public.user_role
+    AND p.status = 'active'::public.account_status
+  LOOP
+    INSERT INTO public.enrollments (student_id, subject_id)
+    VALUES (_user_id, invitation.subject_id)
+    ON CONFLICT (student_id, subject_id) DO UPDATE
+      SET status = 'approved'::public.enrollment_status, is_active = true, enrolled_at = now();
+
+    UPDATE public.enrollment_invitations
+    SET accepted_at = now(), student_id = _user_id
+    WHERE id = invitation.id;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_email_confirmed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  PERFORM public.accept_pending_invitations(NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_email_confirmed
+  AFTER UPDATE OF email_confirmed_at ON auth.users
+  FOR EACH ROW
+  WHEN (OLD.email_confirmed_at IS NULL AND NEW.email_confirmed_at IS NOT NULL)
+  EXECUTE FUNCTION public.handle_email_confirmed();
+
+REVOKE EXECUTE ON FUNCTION public.accept_pending_invitations(UUID) FROM PUBLIC, anon, authenticated;
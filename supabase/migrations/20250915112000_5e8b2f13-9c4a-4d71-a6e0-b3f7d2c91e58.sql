@@ -0,0 +1,121 @@
+-- is_email_registered looks at every institution, so any signed-in user could probe which
+-- emails have an account elsewhere. Only the roster functions may use it now; they run as
+-- definer and check that the caller manages enrollments of the subject first.
+REVOKE EXECUTE ON FUNCTION public.is_email_registered(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Same as before, as definer behind the staff check
+CREATE OR REPLACE FUNCTION public.preview_enrollment_import(_subject_id UUID, _emails TEXT[])
+RETURNS TABLE(email TEXT, student_id UUID, first_name TEXT, last_name TEXT, status TEXT)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+#variable_conflict use_column
+BEGIN
+  IF NOT public.has_subject_access(_subject_id, ARRAY['co_instructor', 'ta']::public.subject_staff_role[]) THEN
+    RAISE EXCEPTION 'Not allowed to enroll students in this subject';
+  END IF;
+
+  RETURN QUERY
+  WITH classified AS (
+    SELECT
+      e.email,
+      e.position,
+      p.id,
+      p.first_name,
+      p.last_name,
+      CASE
+        WHEN p.id IS NULL AND public.is_email_registered(e.email) THEN 'other_institution'
+        WHEN p.id IS NULL AND i.id IS NOT NULL THEN 'invited'
+        WHEN p.id IS NULL THEN 'no_account'
+        WHEN p.status <> 'active'::public.account_status THEN 'inactive'
+        WHEN p.role <> 'student'::public.user_role THEN 'not_student'
+        WHEN en.is_active = true THEN 'enrolled'
+        ELSE 'matched'
+      END AS status
+    FROM (
+      SELECT lower(trim(u.email)) AS email, MIN(u.position) AS position
+      FROM unnest(_emails) WITH ORDINALITY AS u(email, position)
+      GROUP BY 1
+    ) e
+    LEFT JOIN public.profiles p
+      ON lower(p.email) = e.email
+      AND p.institution_id = public.get_user_institution_id()
+    LEFT JOIN public.enrollments en
+      ON en.student_id = p.id AND en.subject_id = _subject_id
+    LEFT JOIN public.enrollment_invitations i
+      ON i.subject_id = _subject_id AND i.email = e.email AND i.accepted_at IS NULL
+  )
+  SELECT
+    c.email,
+    c.id,
+    c.first_name,
+    c.last_name,
+    CASE
+      WHEN c.status IN ('matched', 'no_account')
+        AND s.max_students IS NOT NULL
+        AND ROW_NUMBER() OVER (PARTITION BY c.status IN ('matched', 'no_account') ORDER BY c.position)
+          > s.max_students - public.subject_seats_taken(_subject_id)
+      THEN 'full'
+      ELSE c.status
+    END
+  FROM classified c
+  LEFT JOIN public.subjects s ON s.id = _subject_id;
+END;
+$$;
+
+-- Same as before, as definer behind the staff check
+CREATE OR REPLACE FUNCTION public.import_enrollments(_subject_id UUID, _rows JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  enrolled_count INTEGER;
+  invited_count INTEGER;
+BEGIN
+  IF NOT public.has_subject_access(_subject_id, ARRAY['co_instructor', 'ta']::public.subject_staff_role[]) THEN
+    RAISE EXCEPTION 'Not allowed to enroll students in this subject';
+  END IF;
+
+  WITH roster AS (
+    SELECT DISTINCT ON (lower(trim(r->>'email')))
+      lower(trim(r->>'email')) AS email,
+      NULLIF(trim(r->>'first_name'), '') AS first_name,
+      NULLIF(trim(r->>'last_name'), '') AS last_name
+    FROM jsonb_array_elements(COALESCE(_rows, '[]'::jsonb)) r
+    WHERE COALESCE(trim(r->>'email'), '') <> ''
+  ),
+  matched AS (
+    SELECT p.id AS student_id
+    FROM roster
+    JOIN public.profiles p
+      ON lower(p.email) = roster.email
+      AND p.institution_id = public.get_user_institution_id()
+      AND p.role = 'student'::public.user_role
+      AND p.status = 'active'::public.account_status
+  ),
+  enrolled AS (
+    INSERT INTO public.enrollments AS en (student_id, subject_id)
+    SELECT student_id, _subject_id FROM matched
+    ON CONFLICT (student_id, subject_id) DO UPDATE
+      SET status = 'approved'::public.enrollment_status, is_active = true, enrolled_at = now()
+      WHERE en.is_active IS DISTINCT FROM true
+    RETURNING 1
+  ),
+  invited AS (
+    INSERT INTO public.enrollment_invitations (subject_id, email, first_name, last_name, invited_by)
+    SELECT _subject_id, roster.email, roster.first_name, roster.last_name, auth.uid()
+    FROM roster
+    WHERE NOT public.is_email_registered(roster.email)
+    ON CONFLICT (subject_id, email) DO NOTHING
+    RETURNING 1
+  )
+  SELECT (SELECT COUNT(*) FROM enrolled), (SELECT COUNT(*) FROM invited)
+  INTO enrolled_count, invited_count;
+
+  RETURN jsonb_build_object('enrolled', enrolled_count, 'invited', invited_count);
+END;
+$$;
@@ -0,0 +1,17 @@
+-- The check only kept uploads active, so staff could move their own material to another
+-- subject or hand it to another professor and lose track of it. The updated row now has
+-- to stay within their own access as well.
+DROP POLICY "Staff can update their own uploads" ON public.study_materials;
+
+CREATE POLICY "Staff can update their own uploads"
+ON public.study_materials
+FOR UPDATE
+USING (
+  professor_id = auth.uid() AND
+  public.has_subject_access(subject_id, ARRAY['co_instructor', 'ta']::public.subject_staff_role[])
+)
+WITH CHECK (
+  is_active = true AND
+  professor_id = auth.uid() AND
+  public.has_subject_access(subject_id, ARRAY['co_instructor', 'ta']::public.subject_staff_role[])
+);
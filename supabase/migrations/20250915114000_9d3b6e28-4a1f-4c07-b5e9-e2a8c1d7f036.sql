@@ -0,0 +1,120 @@
+-- Trigger depth alone let any delete made from inside another trigger past the archive lock.
+-- A change now only counts as a cascade when it is a foreign key action: the row is deleted
+-- (ON DELETE CASCADE) or has its reference cleared (ON DELETE SET NULL), and the parent row
+-- it referenced is already gone.
+DROP FUNCTION public.is_cascaded_removal(JSONB, JSONB);
+
+-- Definer, so row level security cannot hide a parent that still exists.
+-- Foreign keys are all single-column in this schema.
+CREATE OR REPLACE FUNCTION public.is_cascaded_removal(_table REGCLASS, _old JSONB, _new JSONB)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  fk RECORD;
+  parent_gone BOOLEAN;
+  changed TEXT[];
+  matched BOOLEAN := false;
+BEGIN
+  IF pg_trigger_depth() < 2 THEN
+    RETURN false;
+  END IF;
+
+  SELECT COALESCE(array_agg(n.key), '{}') INTO changed
+  FROM jsonb_each(_new) n
+  WHERE n.value IS DISTINCT FROM _old->n.key;
+
+  FOR fk IN
+    SELECT
+      c.confrelid::regclass AS parent_table,
+      child.attname AS child_column,
+      parent.attname AS parent_column,
+      pg_catalog.format_type(parent.atttypid, parent.atttypmod) AS parent_type
+    FROM pg_catalog.pg_constraint c
+    JOIN pg_catalog.pg_attribute child ON child.attrelid = c.conrelid AND child.attnum = c.conkey[1]
+    JOIN pg_catalog.pg_attribute parent ON parent.attrelid = c.confrelid AND parent.attnum = c.confkey[1]
+    WHERE c.conrelid = _table
+    AND c.contype = 'f'
+    AND array_length(c.conkey, 1) = 1
+    AND c.confdeltype = CASE WHEN _new IS NULL THEN 'c' ELSE 'n' END
+    AND _old->>child.attname IS NOT NULL
+    AND (_new IS NULL OR _new->child.attname = 'null'::jsonb)
+  LOOP
+    EXECUTE format('SELECT NOT EXISTS (SELECT 1 FROM %s WHERE %I = $1::%s)', fk.parent_table, fk.parent_column, fk.parent_type)
+    INTO parent_gone
+    USING _old->>fk.child_column;
+
+    IF parent_gone THEN
+      matched := true;
+      changed := array_remove(changed, fk.child_column::TEXT);
+    END IF;
+  END LOOP;
+
+  -- A set-null action changes nothing but the cleared references
+  RETURN matched AND cardinality(changed) = 0;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.prevent_archived_subject_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' AND public.is_cascaded_removal(
+    TG_RELID, to_jsonb(OLD), CASE WHEN TG_OP = 'UPDATE' THEN to_jsonb(NEW) END
+  ) THEN
+    RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+  END IF;
+
+  IF TG_OP <> 'INSERT' AND public.is_term_archived(OLD.term_id) THEN
+    RAISE EXCEPTION 'This subject belongs to an archived term and is read-only';
+  END IF;
+
+  IF TG_OP <> 'DELETE' AND public.is_term_archived(NEW.term_id) THEN
+    RAISE EXCEPTION 'Subjects cannot be added to an archived term';
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.prevent_archived_term_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  row_data JSONB;
+  subject UUID;
+BEGIN
+  IF TG_OP <> 'INSERT' AND public.is_cascaded_removal(
+    TG_RELID, to_jsonb(OLD), CASE WHEN TG_OP = 'UPDATE' THEN to_jsonb(NEW) END
+  ) THEN
+    RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+  END IF;
+
+  row_data := to_jsonb(CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END);
+
+  subject := CASE TG_ARGV[0]
+    WHEN 'subject_id' THEN (row_data->>'subject_id')::uuid
+    WHEN 'assignment_id' THEN (
+      SELECT a.subject_id FROM public.assignments a
+      WHERE a.id = (row_data->>'assignment_id')::uuid
+    )
+    WHEN 'submission_id' THEN (
+      SELECT a.subject_id FROM public.assignment_submissions sub
+      JOIN public.assignments a ON a.id = sub.assignment_id
+      WHERE sub.id = (row_data->>'submission_id')::uuid
+    )
+  END;
+
+  IF public.is_subject_archived(subject) THEN
+    RAISE EXCEPTION 'This subject belongs to an archived term and is read-only';
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
@@ -0,0 +1,131 @@
+-- Lateness was only worked out when a submission came in, so an extension granted afterwards
+-- left the old penalty in place. It is now recomputed for the student's submissions whenever
+-- their extension changes. Accommodations also stretch the window from the publish date
+-- rather than from when the assignment was drafted.
+
+-- The due date that applies to a student, as before, counting from publish_at when set
+CREATE OR REPLACE FUNCTION public.get_effective_due_date(_assignment_id UUID, _student_id UUID)
+RETURNS TIMESTAMPTZ
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT COALESCE(
+    e.due_date,
+    CASE
+      WHEN a.due_date IS NULL OR COALESCE(sa.time_multiplier, 1) = 1 THEN a.due_date
+      ELSE COALESCE(a.publish_at, a.created_at)
+        + (a.due_date - COALESCE(a.publish_at, a.created_at)) * sa.time_multiplier
+    END
+  )
+  FROM public.assignments a
+  LEFT JOIN public.assignment_extensions e
+    ON e.assignment_id = a.id AND e.student_id = _student_id
+  LEFT JOIN public.student_accommodations sa
+    ON sa.subject_id = a.subject_id AND sa.student_id = _student_id
+  WHERE a.id = _assignment_id;
+$$;
+
+-- Lateness of work handed in at _submitted_at. days_late counts started days past the grace
+-- period and is 0 for work that is on time or within the grace period.
+CREATE OR REPLACE FUNCTION public.calculate_lateness(_assignment_id UUID, _student_id UUID, _submitted_at TIMESTAMPTZ)
+RETURNS TABLE(minutes_late INTEGER, days_late INTEGER, penalty_percentage NUMERIC)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  policy RECORD;
+  due TIMESTAMPTZ;
+  minutes INTEGER;
+  days INTEGER;
+BEGIN
+  SELECT late_grace_minutes, late_penalty_per_day
+  INTO policy
+  FROM public.assignments
+  WHERE id = _assignment_id;
+
+  due := public.get_effective_due_date(_assignment_id, _student_id);
+
+  IF due IS NULL OR _submitted_at <= due THEN
+    RETURN QUERY SELECT 0, 0, 0::NUMERIC;
+    RETURN;
+  END IF;
+
+  minutes := CEIL(EXTRACT(EPOCH FROM (_submitted_at - due)) / 60);
+
+  IF minutes <= policy.late_grace_minutes THEN
+    RETURN QUERY SELECT minutes, 0, 0::NUMERIC;
+    RETURN;
+  END IF;
+
+  days := CEIL((minutes - policy.late_grace_minutes) / 1440.0);
+  RETURN QUERY SELECT minutes, days, LEAST(100, days * policy.late_penalty_per_day);
+END;
+$$;
+
+-- Same as before, with the lateness from calculate_lateness
+CREATE OR REPLACE FUNCTION public.apply_late_policy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  cutoff_days INTEGER;
+  lateness RECORD;
+BEGIN
+  NEW.submitted_at := now();
+  NEW.grade := NULL;
+  NEW.raw_grade := NULL;
+  NEW.feedback := NULL;
+  NEW.graded_at := NULL;
+  NEW.graded_by := NULL;
+
+  SELECT * INTO lateness
+  FROM public.calculate_lateness(NEW.assignment_id, NEW.student_id, NEW.submitted_at);
+
+  SELECT late_cutoff_days INTO cutoff_days FROM public.assignments WHERE id = NEW.assignment_id;
+  IF cutoff_days IS NOT NULL AND lateness.days_late > cutoff_days THEN
+    RAISE EXCEPTION 'The deadline for this assignment has passed';
+  END IF;
+
+  NEW.minutes_late := lateness.minutes_late;
+  NEW.late_penalty_percentage := lateness.penalty_percentage;
+  NEW.is_late := lateness.days_late > 0;
+  RETURN NEW;
+END;
+$$;
+
+-- Work already handed in is never refused afterwards, only its penalty changes. The grade
+-- follows through apply_late_penalty.
+CREATE OR REPLACE FUNCTION public.refresh_lateness_after_extension_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  UPDATE public.assignment_submissions s
+  SET (minutes_late, is_late, late_penalty_percentage) = (
+    SELECT l.minutes_late, l.days_late > 0, l.penalty_percentage
+    FROM public.calculate_lateness(s.assignment_id, s.student_id, s.submitted_at) l
+  )
+  WHERE (s.assignment_id, s.student_id) IN (
+    SELECT OLD.assignment_id, OLD.student_id WHERE TG_OP <> 'INSERT'
+    UNION
+    SELECT NEW.assignment_id, NEW.student_id WHERE TG_OP <> 'DELETE'
+  )
+  -- Nothing to refresh when the assignment itself is being deleted
+  AND EXISTS (SELECT 1 FROM public.assignments a WHERE a.id = s.assignment_id);
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_lateness_after_extension_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.assignment_extensions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_lateness_after_extension_change();
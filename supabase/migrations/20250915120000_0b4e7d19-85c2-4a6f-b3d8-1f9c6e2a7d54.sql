@@ -0,0 +1,33 @@
+-- A student without an institution passed the cross-institution check, so they could be
+-- enrolled in, or billed by, any institution. Enrollments and dues now need the student to
+-- belong to exactly the institution of the row.
+CREATE OR REPLACE FUNCTION public.assign_institution_id()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  student_institution_id UUID;
+BEGIN
+  IF TG_TABLE_NAME = 'subjects' THEN
+    NEW.institution_id := COALESCE(
+      NEW.institution_id,
+      (SELECT institution_id FROM public.profiles WHERE id = NEW.professor_id)
+    );
+    RETURN NEW;
+  ELSIF TG_TABLE_NAME = 'enrollments' THEN
+    NEW.institution_id := (SELECT institution_id FROM public.subjects WHERE id = NEW.subject_id);
+    student_institution_id := (SELECT institution_id FROM public.profiles WHERE id = NEW.student_id);
+  ELSIF TG_TABLE_NAME = 'student_dues' THEN
+    student_institution_id := (SELECT institution_id FROM public.profiles WHERE id = NEW.student_id);
+    NEW.institution_id := COALESCE(NEW.institution_id, student_institution_id);
+  END IF;
+
+  IF student_institution_id IS NULL OR student_institution_id IS DISTINCT FROM NEW.institution_id THEN
+    RAISE EXCEPTION 'Student does not belong to this institution';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
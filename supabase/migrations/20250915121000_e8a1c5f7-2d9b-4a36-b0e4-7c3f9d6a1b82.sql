@@ -0,0 +1,55 @@
+-- Scores were stored as given, so a grader could score against another assignment's criteria
+-- or award more than a criterion is worth. A score must now use a criterion of the rubric
+-- attached to the submission's assignment, a level of that criterion, and stay between 0 and
+-- the criterion's highest level.
+CREATE OR REPLACE FUNCTION public.validate_rubric_score()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  max_points NUMERIC;
+BEGIN
+  -- A level removed later only clears level_id, which leaves the score as it was
+  IF TG_OP = 'UPDATE'
+    AND NEW.submission_id = OLD.submission_id
+    AND NEW.criterion_id = OLD.criterion_id
+    AND NEW.points = OLD.points
+    AND NEW.level_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.assignment_submissions s
+    JOIN public.assignments a ON a.id = s.assignment_id
+    JOIN public.rubric_criteria c ON c.rubric_id = a.rubric_id
+    WHERE s.id = NEW.submission_id
+    AND c.id = NEW.criterion_id
+  ) THEN
+    RAISE EXCEPTION 'Criterion does not belong to the rubric of this assignment';
+  END IF;
+
+  IF NEW.level_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.rubric_levels
+    WHERE id = NEW.level_id
+    AND criterion_id = NEW.criterion_id
+  ) THEN
+    RAISE EXCEPTION 'Level does not belong to this criterion';
+  END IF;
+
+  SELECT MAX(points) INTO max_points FROM public.rubric_levels WHERE criterion_id = NEW.criterion_id;
+
+  IF NEW.points < 0 OR NEW.points > COALESCE(max_points, 0) THEN
+    RAISE EXCEPTION 'Points must be between 0 and %', COALESCE(max_points, 0);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_rubric_score_trigger
+  BEFORE INSERT OR UPDATE OF submission_id, criterion_id, level_id, points ON public.submission_rubric_scores
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_rubric_score();
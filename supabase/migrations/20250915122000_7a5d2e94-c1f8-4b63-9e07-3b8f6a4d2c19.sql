@@ -0,0 +1,16 @@
+-- The staff read policies on payments and payment orders still checked the role alone, so a
+-- deactivated professor could keep reading student payments. They now go through
+-- can_manage_due, which requires an active account.
+DROP POLICY "Professors can view payments in their institution" ON public.payments;
+
+CREATE POLICY "Professors can view payments in their institution"
+ON public.payments
+FOR SELECT
+USING (public.can_manage_due(due_id));
+
+DROP POLICY "Professors can view payment orders in their institution" ON public.payment_orders;
+
+CREATE POLICY "Professors can view payment orders in their institution"
+ON public.payment_orders
+FOR SELECT
+USING (public.can_manage_due(due_id));